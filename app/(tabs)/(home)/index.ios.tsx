@@ -1,537 +1,34 @@
-
-import React, { useEffect, useState, useCallback } from 'react';
+import React from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
-  TouchableOpacity,
   ActivityIndicator,
-  Alert,
-  Modal,
-  TextInput,
 } from 'react-native';
 import { useTheme } from '@react-navigation/native';
-import { useRouter } from 'expo-router';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/app/integrations/supabase/client';
-import { IconSymbol } from '@/components/IconSymbol.ios';
-import ScopeUploadModal from '@/components/job/ScopeUploadModal';
-
-interface UserProfile {
-  id: string;
-  user_id: string;
-  display_name: string | null;
-  is_admin: boolean;
-}
-
-interface Job {
-  id: string;
-  job_name: string;
-  site_name: string;
-  start_date: string;
-  is_archived: boolean;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface User {
-  id: string;
-  user_id: string;
-  display_name: string | null;
-  is_invited?: boolean;
-}
-
-interface AuthUser {
-  id: string;
-  email: string;
-  display_name: string | null;
-}
+import { IconSymbol } from '@/components/IconSymbol';
+import HomeHeader from '@/components/home/HomeHeader';
+import HomeModals from '@/components/home/HomeModals';
+import JobCard from '@/components/home/JobCard';
+import { useHomeScreen } from '@/hooks/useHomeScreen';
 
+// iOS: the native stack header sits above the screen and shadows use the iOS shadow props.
 export default function HomeScreen() {
   const theme = useTheme();
-  const router = useRouter();
-  const { user, signOut } = useAuth();
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedJob, setSelectedJob] = useState<Job | null>(null);
-  const [showMenu, setShowMenu] = useState(false);
-  const [showEditModal, setShowEditModal] = useState(false);
-  const [showInviteModal, setShowInviteModal] = useState(false);
-  const [showCreateModal, setShowCreateModal] = useState(false);
-  const [showScopeModal, setShowScopeModal] = useState(false);
-  const [showSettingsModal, setShowSettingsModal] = useState(false);
-  const [showPasswordResetModal, setShowPasswordResetModal] = useState(false);
-  const [showPasswordChangeModal, setShowPasswordChangeModal] = useState(false);
-  const [allUsers, setAllUsers] = useState<User[]>([]);
-  const [authUsers, setAuthUsers] = useState<AuthUser[]>([]);
-  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
-  const [selectedAuthUser, setSelectedAuthUser] = useState<AuthUser | null>(null);
-  const [loadingUsers, setLoadingUsers] = useState(false);
-  const [newPassword, setNewPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  
-  // Form states
-  const [jobName, setJobName] = useState('');
-  const [siteName, setSiteName] = useState('');
-  const [startDate, setStartDate] = useState('');
-
-  const loadProfile = useCallback(async () => {
-    try {
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (error) {
-        console.error('Error loading profile:', error);
-      } else {
-        console.log('Profile loaded:', data);
-        setProfile(data);
-      }
-    } catch (error) {
-      console.error('Exception loading profile:', error);
-    }
-  }, [user?.id]);
-
-  const loadJobs = useCallback(async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('*')
-        .eq('is_archived', false)
-        .order('start_date', { ascending: true });
-
-      if (error) {
-        console.error('Error loading jobs:', error);
-      } else {
-        console.log('Jobs loaded:', data);
-        setJobs(data || []);
-      }
-    } catch (error) {
-      console.error('Exception loading jobs:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    if (user) {
-      loadProfile();
-      loadJobs();
-    }
-  }, [user, loadProfile, loadJobs]);
-
-  const loadAllUsers = async () => {
-    if (!selectedJob) return;
-    
-    try {
-      setLoadingUsers(true);
-      
-      // Get all users except the current admin
-      const { data: usersData, error: usersError } = await supabase
-        .from('user_profiles')
-        .select('id, user_id, display_name')
-        .neq('user_id', user?.id)
-        .order('display_name', { ascending: true });
-
-      if (usersError) {
-        console.error('Error loading users:', usersError);
-        return;
-      }
-
-      // Get existing invitations for this job
-      const { data: invitationsData, error: invitationsError } = await supabase
-        .from('job_invitations')
-        .select('user_id')
-        .eq('job_id', selectedJob.id);
-
-      if (invitationsError) {
-        console.error('Error loading invitations:', invitationsError);
-      }
-
-      // Mark users who are already invited
-      const invitedUserIds = new Set(invitationsData?.map(inv => inv.user_id) || []);
-      const usersWithInviteStatus = (usersData || []).map(user => ({
-        ...user,
-        is_invited: invitedUserIds.has(user.user_id)
-      }));
-
-      console.log('Users loaded:', usersWithInviteStatus);
-      setAllUsers(usersWithInviteStatus);
-    } catch (error) {
-      console.error('Exception loading users:', error);
-    } finally {
-      setLoadingUsers(false);
-    }
-  };
-
-  const loadAuthUsers = async () => {
-    try {
-      setLoadingUsers(true);
-      
-      // Get all user profiles with their auth info
-      const { data: usersData, error: usersError } = await supabase
-        .from('user_profiles')
-        .select('user_id, display_name')
-        .order('display_name', { ascending: true });
-
-      if (usersError) {
-        console.error('Error loading users:', usersError);
-        Alert.alert('Error', 'Failed to load users');
-        return;
-      }
-
-      // Get auth user emails using the admin API
-      const authUsersWithEmails: AuthUser[] = [];
-      
-      for (const userProfile of usersData || []) {
-        try {
-          const { data: authData, error: authError } = await supabase.auth.admin.getUserById(userProfile.user_id);
-          
-          if (!authError && authData?.user) {
-            authUsersWithEmails.push({
-              id: authData.user.id,
-              email: authData.user.email || 'No email',
-              display_name: userProfile.display_name
-            });
-          }
-        } catch (error) {
-          console.error('Error fetching auth user:', error);
-        }
-      }
-
-      console.log('Auth users loaded:', authUsersWithEmails);
-      setAuthUsers(authUsersWithEmails);
-    } catch (error) {
-      console.error('Exception loading auth users:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
-    } finally {
-      setLoadingUsers(false);
-    }
-  };
-
-  const handleJobPress = (job: Job) => {
-    console.log('Navigating to job:', job.id);
-    router.push(`/(tabs)/(home)/job/${job.id}` as any);
-  };
-
-  const handleLongPress = (job: Job) => {
-    if (profile?.is_admin) {
-      setSelectedJob(job);
-      setShowMenu(true);
-    }
-  };
-
-  const handleArchiveJob = async () => {
-    if (!selectedJob) return;
-
-    Alert.alert(
-      'Archive Job',
-      `Are you sure you want to archive "${selectedJob.job_name}"?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Archive',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              const { error } = await supabase
-                .from('jobs')
-                .update({ is_archived: true })
-                .eq('id', selectedJob.id);
-
-              if (error) {
-                console.error('Error archiving job:', error);
-                Alert.alert('Error', 'Failed to archive job');
-              } else {
-                Alert.alert('Success', 'Job archived successfully');
-                loadJobs();
-              }
-            } catch (error) {
-              console.error('Exception archiving job:', error);
-              Alert.alert('Error', 'An unexpected error occurred');
-            }
-            setShowMenu(false);
-            setSelectedJob(null);
-          },
-        },
-      ]
-    );
-  };
-
-  const handleEditJob = () => {
-    if (!selectedJob) return;
-    setJobName(selectedJob.job_name);
-    setSiteName(selectedJob.site_name);
-    setStartDate(selectedJob.start_date);
-    setShowMenu(false);
-    setShowEditModal(true);
-  };
-
-  const handleSaveEdit = async () => {
-    if (!selectedJob || !jobName.trim() || !siteName.trim() || !startDate.trim()) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
-    }
-
-    try {
-      const { error } = await supabase
-        .from('jobs')
-        .update({
-          job_name: jobName.trim(),
-          site_name: siteName.trim(),
-          start_date: startDate.trim(),
-        })
-        .eq('id', selectedJob.id);
-
-      if (error) {
-        console.error('Error updating job:', error);
-        Alert.alert('Error', 'Failed to update job');
-      } else {
-        Alert.alert('Success', 'Job updated successfully');
-        loadJobs();
-        setShowEditModal(false);
-        setSelectedJob(null);
-        setJobName('');
-        setSiteName('');
-        setStartDate('');
-      }
-    } catch (error) {
-      console.error('Exception updating job:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
-    }
-  };
-
-  const handleInviteTechnicians = () => {
-    setShowMenu(false);
-    setSelectedUsers([]);
-    setShowInviteModal(true);
-    loadAllUsers();
-  };
-
-  const handleUploadScope = () => {
-    setShowMenu(false);
-    setShowScopeModal(true);
-  };
-
-  const handleScopeUploadSuccess = () => {
-    console.log('Scope uploaded successfully');
-    loadJobs();
-  };
-
-  const toggleUserSelection = (userId: string, isInvited: boolean) => {
-    if (isInvited) {
-      Alert.alert('Already Invited', 'This user has already been invited to this job.');
-      return;
-    }
-    
-    setSelectedUsers((prev) =>
-      prev.includes(userId)
-        ? prev.filter((id) => id !== userId)
-        : [...prev, userId]
-    );
-  };
-
-  const handleSendInvites = async () => {
-    if (!selectedJob || selectedUsers.length === 0) {
-      Alert.alert('Error', 'Please select at least one user');
-      return;
-    }
-
-    try {
-      const invitations = selectedUsers.map((userId) => ({
-        job_id: selectedJob.id,
-        user_id: userId,
-        invited_by: user?.id,
-      }));
-
-      const { error } = await supabase
-        .from('job_invitations')
-        .insert(invitations);
-
-      if (error) {
-        console.error('Error sending invitations:', error);
-        Alert.alert('Error', 'Failed to send invitations');
-      } else {
-        Alert.alert('Success', `Invited ${selectedUsers.length} user(s) to the job`);
-        setShowInviteModal(false);
-        setSelectedJob(null);
-        setSelectedUsers([]);
-      }
-    } catch (error) {
-      console.error('Exception sending invitations:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
-    }
-  };
-
-  const handleCreateJob = () => {
-    setJobName('');
-    setSiteName('');
-    setStartDate('');
-    setShowCreateModal(true);
-  };
-
-  const handleSaveNewJob = async () => {
-    if (!jobName.trim() || !siteName.trim() || !startDate.trim()) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
-    }
-
-    try {
-      const { error } = await supabase
-        .from('jobs')
-        .insert({
-          job_name: jobName.trim(),
-          site_name: siteName.trim(),
-          start_date: startDate.trim(),
-          created_by: user?.id,
-        });
-
-      if (error) {
-        console.error('Error creating job:', error);
-        Alert.alert('Error', 'Failed to create job');
-      } else {
-        Alert.alert('Success', 'Job created successfully');
-        loadJobs();
-        setShowCreateModal(false);
-        setJobName('');
-        setSiteName('');
-        setStartDate('');
-      }
-    } catch (error) {
-      console.error('Exception creating job:', error);
-      Alert.alert('Error', 'An unexpected error occurred');
-    }
-  };
-
-  const handleOpenSettings = () => {
-    setShowSettingsModal(true);
-  };
-
-  const handleResetPasswords = () => {
-    setShowSettingsModal(false);
-    setShowPasswordResetModal(true);
-    loadAuthUsers();
-  };
-
-  const handleSelectUserForPasswordReset = (authUser: AuthUser) => {
-    setSelectedAuthUser(authUser);
-    setNewPassword('');
-    setConfirmPassword('');
-    setShowPasswordResetModal(false);
-    setShowPasswordChangeModal(true);
-  };
-
-  const handleUpdatePassword = async () => {
-    if (!selectedAuthUser) return;
-
-    if (!newPassword.trim()) {
-      Alert.alert('Error', 'Please enter a new password');
-      return;
-    }
-
-    if (newPassword.length < 6) {
-      Alert.alert('Error', 'Password must be at least 6 characters long');
-      return;
-    }
-
-    if (newPassword !== confirmPassword) {
-      Alert.alert('Error', 'Passwords do not match');
-      return;
-    }
-
-    try {
-      const { error } = await supabase.auth.admin.updateUserById(
-        selectedAuthUser.id,
-        { password: newPassword }
-      );
-
-      if (error) {
-        console.error('Error updating password:', error);
-        Alert.alert('Error', 'Failed to update password: ' + error.message);
-      } else {
-        Alert.alert('Success', `Password updated successfully for ${selectedAuthUser.email}`);
-        setShowPasswordChangeModal(false);
-        setSelectedAuthUser(null);
-        setNewPassword('');
-        setConfirmPassword('');
-      }
-    } catch (error: any) {
-      console.error('Exception updating password:', error);
-      Alert.alert('Error', error.message || 'An unexpected error occurred');
-    }
-  };
-
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-    });
-  };
-
-  const handleSignOut = async () => {
-    await signOut();
-  };
+  const home = useHomeScreen();
+  const { user, isAdmin, jobs, loading } = home;
 
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
-      {/* Header */}
-      <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
-        <View style={styles.headerContent}>
-          <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Jobs</Text>
-          {profile?.is_admin && (
-            <View style={styles.headerBadge}>
-              <Text style={styles.headerBadgeText}>Admin</Text>
-            </View>
-          )}
-        </View>
-        <View style={styles.headerActions}>
-          <TouchableOpacity
-            style={[styles.signOutButton, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
-            onPress={handleSignOut}
-          >
-            <IconSymbol
-              ios_icon_name="rectangle.portrait.and.arrow.right"
-              android_material_icon_name="logout"
-              size={20}
-              color={theme.colors.text}
-            />
-          </TouchableOpacity>
-          {profile?.is_admin && (
-            <>
-              <TouchableOpacity
-                style={[styles.settingsButton, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
-                onPress={handleOpenSettings}
-              >
-                <IconSymbol
-                  ios_icon_name="gearshape"
-                  android_material_icon_name="settings"
-                  size={20}
-                  color={theme.colors.text}
-                />
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.createButton, { backgroundColor: theme.colors.primary }]}
-                onPress={handleCreateJob}
-              >
-                <IconSymbol
-                  ios_icon_name="plus"
-                  android_material_icon_name="add"
-                  size={20}
-                  color="#fff"
-                />
-              </TouchableOpacity>
-            </>
-          )}
-        </View>
-      </View>
+      <HomeHeader
+        isAdmin={isAdmin}
+        onSignOut={home.handleSignOut}
+        onOpenSettings={home.handleOpenSettings}
+        onOpenCalendar={home.handleOpenCalendar}
+        onCreateJob={home.handleCreateJob}
+        style={styles.header}
+      />
 
       {/* Jobs List */}
       {loading ? (
@@ -549,7 +46,7 @@ export default function HomeScreen() {
             style={{ opacity: 0.3 }}
           />
           <Text style={[styles.emptyText, { color: theme.colors.text }]}>
-            {profile?.is_admin
+            {isAdmin
               ? 'No jobs yet. Create your first job!'
               : 'No jobs assigned yet. Contact your admin.'}
           </Text>
@@ -560,515 +57,21 @@ export default function HomeScreen() {
           contentContainerStyle={styles.jobsContainer}
           showsVerticalScrollIndicator={false}
         >
-          {jobs.map((job, index) => (
-            <TouchableOpacity
-              key={index}
-              style={[styles.jobCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
-              onPress={() => handleJobPress(job)}
-              onLongPress={() => handleLongPress(job)}
-              delayLongPress={500}
-              activeOpacity={0.7}
-            >
-              <View style={styles.jobCardHeader}>
-                <Text style={[styles.jobName, { color: theme.colors.text }]}>{job.job_name}</Text>
-                {profile?.is_admin && (
-                  <IconSymbol
-                    ios_icon_name="ellipsis.circle"
-                    android_material_icon_name="more_vert"
-                    size={20}
-                    color={theme.colors.text}
-                    style={{ opacity: 0.5 }}
-                  />
-                )}
-              </View>
-              <View style={styles.jobCardDetails}>
-                <View style={styles.jobCardRow}>
-                  <IconSymbol
-                    ios_icon_name="building.2"
-                    android_material_icon_name="location_city"
-                    size={16}
-                    color={theme.colors.text}
-                    style={{ opacity: 0.6 }}
-                  />
-                  <Text style={[styles.jobDetail, { color: theme.colors.text }]}>{job.site_name}</Text>
-                </View>
-                <View style={styles.jobCardRow}>
-                  <IconSymbol
-                    ios_icon_name="calendar"
-                    android_material_icon_name="calendar_today"
-                    size={16}
-                    color={theme.colors.text}
-                    style={{ opacity: 0.6 }}
-                  />
-                  <Text style={[styles.jobDetail, { color: theme.colors.text }]}>{formatDate(job.start_date)}</Text>
-                </View>
-              </View>
-            </TouchableOpacity>
+          {jobs.map((job) => (
+            <JobCard
+              key={job.id}
+              job={job}
+              currentUserId={user?.id}
+              showMenuHint={isAdmin}
+              onPress={() => home.handleJobPress(job)}
+              onLongPress={() => home.handleLongPress(job)}
+              style={styles.cardShadow}
+            />
           ))}
         </ScrollView>
       )}
 
-      {/* Admin Menu Modal */}
-      <Modal
-        visible={showMenu}
-        transparent
-        animationType="fade"
-        onRequestClose={() => setShowMenu(false)}
-      >
-        <TouchableOpacity
-          style={styles.modalOverlay}
-          activeOpacity={1}
-          onPress={() => setShowMenu(false)}
-        >
-          <View style={[styles.menuContainer, { backgroundColor: theme.colors.card }]}>
-            <Text style={[styles.menuTitle, { color: theme.colors.text }]}>
-              {selectedJob?.job_name}
-            </Text>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={handleEditJob}
-            >
-              <IconSymbol
-                ios_icon_name="pencil"
-                android_material_icon_name="edit"
-                size={20}
-                color={theme.colors.text}
-              />
-              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Edit Job Details</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={handleInviteTechnicians}
-            >
-              <IconSymbol
-                ios_icon_name="person.badge.plus"
-                android_material_icon_name="person_add"
-                size={20}
-                color={theme.colors.text}
-              />
-              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Invite Technician</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={handleUploadScope}
-            >
-              <IconSymbol
-                ios_icon_name="doc.badge.plus"
-                android_material_icon_name="upload_file"
-                size={20}
-                color={theme.colors.text}
-              />
-              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Add Scope</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.menuItem, styles.menuItemDanger]}
-              onPress={handleArchiveJob}
-            >
-              <IconSymbol
-                ios_icon_name="archivebox"
-                android_material_icon_name="archive"
-                size={20}
-                color="#DC3545"
-              />
-              <Text style={[styles.menuItemText, { color: '#DC3545' }]}>Archive Job</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.menuItem, styles.menuItemCancel]}
-              onPress={() => setShowMenu(false)}
-            >
-              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Cancel</Text>
-            </TouchableOpacity>
-          </View>
-        </TouchableOpacity>
-      </Modal>
-
-      {/* Settings Modal */}
-      <Modal
-        visible={showSettingsModal}
-        transparent
-        animationType="fade"
-        onRequestClose={() => setShowSettingsModal(false)}
-      >
-        <TouchableOpacity
-          style={styles.modalOverlay}
-          activeOpacity={1}
-          onPress={() => setShowSettingsModal(false)}
-        >
-          <View style={[styles.menuContainer, { backgroundColor: theme.colors.card }]}>
-            <Text style={[styles.menuTitle, { color: theme.colors.text }]}>
-              Admin Settings
-            </Text>
-            <TouchableOpacity
-              style={styles.menuItem}
-              onPress={handleResetPasswords}
-            >
-              <IconSymbol
-                ios_icon_name="key"
-                android_material_icon_name="vpn_key"
-                size={20}
-                color={theme.colors.text}
-              />
-              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Reset Passwords</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.menuItem, styles.menuItemCancel]}
-              onPress={() => setShowSettingsModal(false)}
-            >
-              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Cancel</Text>
-            </TouchableOpacity>
-          </View>
-        </TouchableOpacity>
-      </Modal>
-
-      {/* Password Reset User List Modal */}
-      <Modal
-        visible={showPasswordResetModal}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setShowPasswordResetModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={[styles.inviteContainer, { backgroundColor: theme.colors.card }]}>
-            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Reset User Password</Text>
-            <Text style={[styles.inviteSubtitle, { color: theme.colors.text }]}>
-              Select a user to reset their password
-            </Text>
-            
-            {loadingUsers ? (
-              <View style={styles.loadingUsersContainer}>
-                <ActivityIndicator size="small" color={theme.colors.primary} />
-                <Text style={[styles.loadingUsersText, { color: theme.colors.text }]}>Loading users...</Text>
-              </View>
-            ) : authUsers.length === 0 ? (
-              <View style={styles.emptyUsersContainer}>
-                <Text style={[styles.emptyUsersText, { color: theme.colors.text }]}>
-                  No users available
-                </Text>
-              </View>
-            ) : (
-              <ScrollView style={styles.userList} showsVerticalScrollIndicator={false}>
-                {authUsers.map((authUser, index) => (
-                  <TouchableOpacity
-                    key={index}
-                    style={[
-                      styles.userItem,
-                      { borderColor: theme.colors.border }
-                    ]}
-                    onPress={() => handleSelectUserForPasswordReset(authUser)}
-                  >
-                    <View style={styles.userItemContent}>
-                      <IconSymbol
-                        ios_icon_name="person.circle"
-                        android_material_icon_name="account_circle"
-                        size={24}
-                        color={theme.colors.text}
-                      />
-                      <View style={styles.userInfo}>
-                        <Text style={[styles.userName, { color: theme.colors.text }]}>
-                          {authUser.display_name || 'Unknown User'}
-                        </Text>
-                        <Text style={[styles.userEmail, { color: theme.colors.text }]}>
-                          {authUser.email}
-                        </Text>
-                      </View>
-                    </View>
-                    <IconSymbol
-                      ios_icon_name="chevron.right"
-                      android_material_icon_name="chevron_right"
-                      size={20}
-                      color={theme.colors.text}
-                      style={{ opacity: 0.5 }}
-                    />
-                  </TouchableOpacity>
-                ))}
-              </ScrollView>
-            )}
-            
-            <View style={styles.formActions}>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
-                onPress={() => {
-                  setShowPasswordResetModal(false);
-                }}
-              >
-                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
-
-      {/* Password Change Modal */}
-      <Modal
-        visible={showPasswordChangeModal}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setShowPasswordChangeModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={[styles.formContainer, { backgroundColor: theme.colors.card }]}>
-            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Change Password</Text>
-            <Text style={[styles.inviteSubtitle, { color: theme.colors.text, marginBottom: 16 }]}>
-              {selectedAuthUser?.display_name || selectedAuthUser?.email}
-            </Text>
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="New Password"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={newPassword}
-              onChangeText={setNewPassword}
-              secureTextEntry
-              autoCapitalize="none"
-            />
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="Confirm Password"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={confirmPassword}
-              onChangeText={setConfirmPassword}
-              secureTextEntry
-              autoCapitalize="none"
-            />
-            <View style={styles.formActions}>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
-                onPress={() => {
-                  setShowPasswordChangeModal(false);
-                  setSelectedAuthUser(null);
-                  setNewPassword('');
-                  setConfirmPassword('');
-                }}
-              >
-                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
-                onPress={handleUpdatePassword}
-              >
-                <Text style={[styles.formButtonText, { color: '#fff' }]}>Submit</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
-
-      {/* Edit Job Modal */}
-      <Modal
-        visible={showEditModal}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setShowEditModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={[styles.formContainer, { backgroundColor: theme.colors.card }]}>
-            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Edit Job</Text>
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="Job Name"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={jobName}
-              onChangeText={setJobName}
-            />
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="Site Name"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={siteName}
-              onChangeText={setSiteName}
-            />
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="Start Date (YYYY-MM-DD)"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={startDate}
-              onChangeText={setStartDate}
-            />
-            <View style={styles.formActions}>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
-                onPress={() => {
-                  setShowEditModal(false);
-                  setSelectedJob(null);
-                  setJobName('');
-                  setSiteName('');
-                  setStartDate('');
-                }}
-              >
-                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
-                onPress={handleSaveEdit}
-              >
-                <Text style={[styles.formButtonText, { color: '#fff' }]}>Save</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
-
-      {/* Create Job Modal */}
-      <Modal
-        visible={showCreateModal}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setShowCreateModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={[styles.formContainer, { backgroundColor: theme.colors.card }]}>
-            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Create New Job</Text>
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="Job Name"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={jobName}
-              onChangeText={setJobName}
-            />
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="Site Name"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={siteName}
-              onChangeText={setSiteName}
-            />
-            <TextInput
-              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
-              placeholder="Start Date (YYYY-MM-DD)"
-              placeholderTextColor={theme.colors.text + '80'}
-              value={startDate}
-              onChangeText={setStartDate}
-            />
-            <View style={styles.formActions}>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
-                onPress={() => {
-                  setShowCreateModal(false);
-                  setJobName('');
-                  setSiteName('');
-                  setStartDate('');
-                }}
-              >
-                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
-                onPress={handleSaveNewJob}
-              >
-                <Text style={[styles.formButtonText, { color: '#fff' }]}>Create</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
-
-      {/* Invite Technicians Modal */}
-      <Modal
-        visible={showInviteModal}
-        transparent
-        animationType="slide"
-        onRequestClose={() => setShowInviteModal(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={[styles.inviteContainer, { backgroundColor: theme.colors.card }]}>
-            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Invite Technicians</Text>
-            <Text style={[styles.inviteSubtitle, { color: theme.colors.text }]}>
-              Select users to invite to {selectedJob?.job_name}
-            </Text>
-            
-            {loadingUsers ? (
-              <View style={styles.loadingUsersContainer}>
-                <ActivityIndicator size="small" color={theme.colors.primary} />
-                <Text style={[styles.loadingUsersText, { color: theme.colors.text }]}>Loading users...</Text>
-              </View>
-            ) : allUsers.length === 0 ? (
-              <View style={styles.emptyUsersContainer}>
-                <Text style={[styles.emptyUsersText, { color: theme.colors.text }]}>
-                  No other users available to invite
-                </Text>
-              </View>
-            ) : (
-              <ScrollView style={styles.userList} showsVerticalScrollIndicator={false}>
-                {allUsers.map((userItem, index) => (
-                  <TouchableOpacity
-                    key={index}
-                    style={[
-                      styles.userItem,
-                      { borderColor: theme.colors.border },
-                      selectedUsers.includes(userItem.user_id) && { backgroundColor: theme.colors.primary + '20', borderColor: theme.colors.primary },
-                      userItem.is_invited && { opacity: 0.5 }
-                    ]}
-                    onPress={() => toggleUserSelection(userItem.user_id, userItem.is_invited || false)}
-                    disabled={userItem.is_invited}
-                  >
-                    <View style={styles.userItemContent}>
-                      <IconSymbol
-                        ios_icon_name="person.circle"
-                        android_material_icon_name="account_circle"
-                        size={24}
-                        color={theme.colors.text}
-                      />
-                      <View style={styles.userInfo}>
-                        <Text style={[styles.userName, { color: theme.colors.text }]}>
-                          {userItem.display_name || 'Unknown User'}
-                        </Text>
-                        {userItem.is_invited && (
-                          <Text style={[styles.invitedLabel, { color: theme.colors.text }]}>
-                            Already invited
-                          </Text>
-                        )}
-                      </View>
-                    </View>
-                    {selectedUsers.includes(userItem.user_id) && !userItem.is_invited && (
-                      <IconSymbol
-                        ios_icon_name="checkmark.circle.fill"
-                        android_material_icon_name="check_circle"
-                        size={24}
-                        color={theme.colors.primary}
-                      />
-                    )}
-                  </TouchableOpacity>
-                ))}
-              </ScrollView>
-            )}
-            
-            <View style={styles.formActions}>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
-                onPress={() => {
-                  setShowInviteModal(false);
-                  setSelectedJob(null);
-                  setSelectedUsers([]);
-                }}
-              >
-                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
-                onPress={handleSendInvites}
-                disabled={selectedUsers.length === 0}
-              >
-                <Text style={[styles.formButtonText, { color: '#fff' }]}>
-                  Invite ({selectedUsers.length})
-                </Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
-
-      {/* Scope Upload Modal */}
-      {selectedJob && (
-        <ScopeUploadModal
-          visible={showScopeModal}
-          jobId={selectedJob.id}
-          jobName={selectedJob.job_name}
-          onClose={() => {
-            setShowScopeModal(false);
-            setSelectedJob(null);
-          }}
-          onSuccess={handleScopeUploadSuccess}
-        />
-      )}
+      <HomeModals home={home} sheetStyle={styles.sheetShadow} />
     </View>
   );
 }
@@ -1078,59 +81,7 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-    borderBottomWidth: 1,
-  },
-  headerContent: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 12,
-  },
-  headerTitle: {
-    fontSize: 28,
-    fontWeight: '700',
-  },
-  headerBadge: {
-    backgroundColor: '#10b981',
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  headerBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: '600',
-  },
-  headerActions: {
-    flexDirection: 'row',
-    gap: 12,
-  },
-  createButton: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  settingsButton: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderWidth: 1,
-  },
-  signOutButton: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderWidth: 1,
+    paddingTop: 16,
   },
   loadingContainer: {
     flex: 1,
@@ -1162,201 +113,16 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 100,
   },
-  jobCard: {
-    borderRadius: 16,
-    padding: 20,
-    marginBottom: 16,
-    borderWidth: 1,
+  cardShadow: {
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.08,
     shadowRadius: 8,
-    elevation: 2,
-  },
-  jobCardHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 12,
-  },
-  jobName: {
-    fontSize: 20,
-    fontWeight: '700',
-    flex: 1,
-  },
-  jobCardDetails: {
-    gap: 8,
-  },
-  jobCardRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-  },
-  jobDetail: {
-    fontSize: 15,
-    fontWeight: '500',
-    opacity: 0.8,
-  },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 20,
-  },
-  menuContainer: {
-    borderRadius: 16,
-    padding: 8,
-    width: '100%',
-    maxWidth: 400,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.2,
-    shadowRadius: 16,
-    elevation: 8,
-  },
-  menuTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    padding: 16,
-    paddingBottom: 8,
-  },
-  menuItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 12,
-    padding: 16,
-    borderRadius: 8,
-  },
-  menuItemDanger: {
-    marginTop: 8,
-  },
-  menuItemCancel: {
-    marginTop: 8,
-    borderTopWidth: 1,
-    borderTopColor: '#E0E0E0',
-    justifyContent: 'center',
-  },
-  menuItemText: {
-    fontSize: 16,
-    fontWeight: '500',
   },
-  formContainer: {
-    borderRadius: 16,
-    padding: 24,
-    width: '100%',
-    maxWidth: 400,
+  sheetShadow: {
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.2,
     shadowRadius: 16,
-    elevation: 8,
-  },
-  formTitle: {
-    fontSize: 24,
-    fontWeight: '700',
-    marginBottom: 20,
-  },
-  input: {
-    borderWidth: 1,
-    borderRadius: 12,
-    padding: 16,
-    fontSize: 16,
-    marginBottom: 16,
-  },
-  formActions: {
-    flexDirection: 'row',
-    gap: 12,
-    marginTop: 8,
-  },
-  formButton: {
-    flex: 1,
-    padding: 16,
-    borderRadius: 12,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  formButtonPrimary: {
-    // backgroundColor set dynamically
-  },
-  formButtonSecondary: {
-    borderWidth: 1,
-  },
-  formButtonText: {
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  inviteContainer: {
-    borderRadius: 16,
-    padding: 24,
-    width: '100%',
-    maxWidth: 400,
-    maxHeight: '80%',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.2,
-    shadowRadius: 16,
-    elevation: 8,
-  },
-  inviteSubtitle: {
-    fontSize: 14,
-    marginBottom: 16,
-    opacity: 0.7,
-  },
-  loadingUsersContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 12,
-    paddingVertical: 40,
-  },
-  loadingUsersText: {
-    fontSize: 14,
-    opacity: 0.7,
-  },
-  emptyUsersContainer: {
-    paddingVertical: 40,
-    alignItems: 'center',
-  },
-  emptyUsersText: {
-    fontSize: 14,
-    opacity: 0.7,
-    textAlign: 'center',
-  },
-  userList: {
-    maxHeight: 300,
-    marginBottom: 16,
-  },
-  userItem: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
-    marginBottom: 8,
-  },
-  userItemContent: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 12,
-    flex: 1,
-  },
-  userInfo: {
-    flex: 1,
-  },
-  userName: {
-    fontSize: 16,
-    fontWeight: '500',
-  },
-  userEmail: {
-    fontSize: 14,
-    opacity: 0.6,
-    marginTop: 2,
-  },
-  invitedLabel: {
-    fontSize: 12,
-    opacity: 0.6,
-    marginTop: 2,
   },
 });
@@ -10,34 +10,25 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
-import { supabase } from '@/app/integrations/supabase/client';
+import type { Job } from '@/app/integrations/supabase/types';
 import { IconSymbol } from '@/components/IconSymbol';
 import ChatTab from '@/components/job/ChatTab';
 import SummaryTab from '@/components/job/SummaryTab';
-
-interface Job {
-  id: string;
-  job_name: string;
-  site_name: string;
-  start_date: string;
-}
+import { fetchJob } from '@/services/jobs';
 
 export default function JobRoomScreen() {
-  const { id } = useLocalSearchParams();
+  const { id, messageId } = useLocalSearchParams<{ id: string; messageId?: string }>();
   const router = useRouter();
   const theme = useTheme();
   const [job, setJob] = useState<Job | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'chat' | 'summary'>('chat');
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
 
   const loadJob = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('*')
-        .eq('id', id)
-        .single();
+      const { data, error } = await fetchJob(id);
 
       if (error) {
         console.error('Error loading job:', error);
@@ -56,6 +47,20 @@ export default function JobRoomScreen() {
     loadJob();
   }, [loadJob]);
 
+  // Opened from a summary item's source link: show that message in the chat.
+  // The param is cleared so the same link can be followed again.
+  useEffect(() => {
+    if (!messageId) return;
+
+    setActiveTab('chat');
+    setHighlightMessageId(messageId);
+    router.setParams({ messageId: undefined });
+  }, [messageId, router]);
+
+  const handleHighlightHandled = useCallback(() => {
+    setHighlightMessageId(null);
+  }, []);
+
   if (loading) {
     return (
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -161,7 +166,11 @@ export default function JobRoomScreen() {
       {/* Tab Content */}
       <View style={styles.tabContent}>
         {activeTab === 'chat' ? (
-          <ChatTab jobId={job.id} />
+          <ChatTab
+            jobId={job.id}
+            highlightMessageId={highlightMessageId}
+            onHighlightHandled={handleHighlightHandled}
+          />
         ) : (
           <SummaryTab jobId={job.id} />
         )}
@@ -12,6 +12,8 @@ export default function TabLayout() {
       }}
     >
       <Stack.Screen key="home" name="(home)" />
+      <Stack.Screen key="calendar" name="calendar" />
+      <Stack.Screen key="notification-settings" name="notification-settings" />
     </Stack>
   );
 }
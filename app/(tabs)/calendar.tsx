@@ -0,0 +1,546 @@
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { fetchJobDeadlines, JobDeadlines } from '@/services/jobs';
+import {
+  addDays,
+  buildCalendarEvents,
+  CalendarEvent,
+  getDeadlineState,
+  getJobColor,
+  getMonthGrid,
+  isSameDay,
+  startOfDay,
+  startOfWeek,
+} from '@/utils/calendar';
+import { toDueDate } from '@/utils/dates';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+const VIEWS: { view: CalendarView; label: string }[] = [
+  { view: 'month', label: 'Month' },
+  { view: 'week', label: 'Week' },
+  { view: 'agenda', label: 'Agenda' },
+];
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Dots shown in a month cell before it switches to "+n"
+const MAX_DOTS = 3;
+
+export default function CalendarScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const [jobs, setJobs] = useState<JobDeadlines[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [view, setView] = useState<CalendarView>('month');
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(new Date()));
+
+  const loadDeadlines = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await fetchJobDeadlines();
+
+      if (error) {
+        console.error('Error loading calendar:', error);
+      } else {
+        setJobs(data);
+      }
+    } catch (error) {
+      console.error('Exception loading calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDeadlines();
+  }, [loadDeadlines]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadDeadlines();
+    setRefreshing(false);
+  };
+
+  const events = useMemo(() => buildCalendarEvents(jobs), [jobs]);
+
+  const eventsByDay = useMemo(() => {
+    const byDay = new Map<string, CalendarEvent[]>();
+    events.forEach((event) => {
+      const key = toDueDate(event.date);
+      byDay.set(key, [...(byDay.get(key) ?? []), event]);
+    });
+    return byDay;
+  }, [events]);
+
+  // Only jobs that have something on the calendar go in the legend
+  const legend = useMemo(
+    () =>
+      jobs
+        .map((job, index) => ({ id: job.id, name: job.job_name, color: getJobColor(index) }))
+        .filter((job) => events.some((event) => event.jobId === job.id)),
+    [jobs, events]
+  );
+
+  const today = startOfDay(new Date());
+
+  const openDeadline = (event: CalendarEvent) => {
+    router.push(`/job-details/deadlines?jobId=${event.jobId}&deadlineId=${event.deadline.id}`);
+  };
+
+  const shiftPeriod = (direction: 1 | -1) => {
+    setSelectedDate((date) =>
+      view === 'month'
+        ? new Date(date.getFullYear(), date.getMonth() + direction, 1)
+        : addDays(date, direction * 7)
+    );
+  };
+
+  const getPeriodLabel = () => {
+    if (view === 'month') {
+      return selectedDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    }
+
+    const weekStart = startOfWeek(selectedDate);
+    const weekEnd = addDays(weekStart, 6);
+    return `${weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  };
+
+  const renderEvent = (event: CalendarEvent) => {
+    const state = getDeadlineState(event);
+
+    return (
+      <TouchableOpacity
+        key={event.key}
+        style={[styles.eventCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
+        onPress={() => openDeadline(event)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.eventColorBar, { backgroundColor: event.color }]} />
+        <View style={styles.eventContent}>
+          <Text style={[styles.eventTitle, { color: theme.colors.text }]} numberOfLines={2}>{event.deadline.title}</Text>
+          <Text style={[styles.eventJob, { color: event.color }]} numberOfLines={1}>{event.jobName}</Text>
+          {!event.allDay && (
+            <Text style={[styles.eventTime, { color: theme.colors.text }]}>
+              {event.date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+            </Text>
+          )}
+        </View>
+        <View style={[styles.stateBadge, { backgroundColor: state.color + '20' }]}>
+          <Text style={[styles.stateText, { color: state.color }]}>{state.label}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDayEvents = (date: Date, emptyText = 'Nothing due') => {
+    const dayEvents = eventsByDay.get(toDueDate(date)) ?? [];
+
+    return dayEvents.length > 0 ? (
+      dayEvents.map(renderEvent)
+    ) : (
+      <Text style={[styles.emptyDayText, { color: theme.colors.text }]}>{emptyText}</Text>
+    );
+  };
+
+  const renderMonth = () => (
+    <>
+      <View style={[styles.monthCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+        <View style={styles.weekRow}>
+          {WEEKDAYS.map((day, index) => (
+            <Text key={index} style={[styles.weekdayLabel, { color: theme.colors.text }]}>{day}</Text>
+          ))}
+        </View>
+        <View style={styles.monthGrid}>
+          {getMonthGrid(selectedDate).map((date) => {
+            const dayEvents = eventsByDay.get(toDueDate(date)) ?? [];
+            const inMonth = date.getMonth() === selectedDate.getMonth();
+            const selected = isSameDay(date, selectedDate);
+            const isToday = isSameDay(date, today);
+
+            return (
+              <TouchableOpacity
+                key={toDueDate(date)}
+                style={[styles.dayCell, selected && { backgroundColor: theme.colors.primary + '20' }]}
+                onPress={() => setSelectedDate(date)}
+              >
+                <View style={[styles.dayNumber, isToday && { backgroundColor: theme.colors.primary }]}>
+                  <Text
+                    style={[
+                      styles.dayNumberText,
+                      { color: isToday ? '#fff' : theme.colors.text, opacity: inMonth ? 1 : 0.3 },
+                    ]}
+                  >
+                    {date.getDate()}
+                  </Text>
+                </View>
+                <View style={styles.dotRow}>
+                  {dayEvents.slice(0, MAX_DOTS).map((event) => (
+                    <View key={event.key} style={[styles.dot, { backgroundColor: event.color }]} />
+                  ))}
+                  {dayEvents.length > MAX_DOTS && (
+                    <Text style={[styles.moreText, { color: theme.colors.text }]}>+{dayEvents.length - MAX_DOTS}</Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+        {selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+      </Text>
+      {renderDayEvents(selectedDate)}
+    </>
+  );
+
+  const renderWeek = () => {
+    const weekStart = startOfWeek(selectedDate);
+
+    return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index)).map((date) => (
+      <View key={toDueDate(date)} style={styles.daySection}>
+        <Text style={[styles.sectionTitle, { color: isSameDay(date, today) ? theme.colors.primary : theme.colors.text }]}>
+          {date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+          {isSameDay(date, today) ? ' · Today' : ''}
+        </Text>
+        {renderDayEvents(date)}
+      </View>
+    ));
+  };
+
+  const renderAgenda = () => {
+    const overdue = events.filter((event) => getDeadlineState(event).label === 'Overdue');
+    const upcomingDays = [...eventsByDay.keys()].filter((key) => key >= toDueDate(today)).sort();
+
+    if (overdue.length === 0 && upcomingDays.length === 0) {
+      return <Text style={[styles.emptyDayText, { color: theme.colors.text }]}>No upcoming deadlines.</Text>;
+    }
+
+    return (
+      <>
+        {overdue.length > 0 && (
+          <View style={styles.daySection}>
+            <Text style={[styles.sectionTitle, { color: '#EF4444' }]}>Overdue</Text>
+            {overdue.map(renderEvent)}
+          </View>
+        )}
+        {upcomingDays.map((key) => {
+          const dayEvents = (eventsByDay.get(key) ?? []).filter((event) => !overdue.includes(event));
+          if (dayEvents.length === 0) return null;
+
+          const date = dayEvents[0].date;
+          return (
+            <View key={key} style={styles.daySection}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                {date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+              </Text>
+              {dayEvents.map(renderEvent)}
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Calendar</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* View switcher */}
+      <View style={[styles.segmentedControl, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+        {VIEWS.map((option) => (
+          <TouchableOpacity
+            key={option.view}
+            style={[styles.segment, view === option.view && { backgroundColor: theme.colors.primary }]}
+            onPress={() => setView(option.view)}
+          >
+            <Text style={[styles.segmentText, { color: view === option.view ? '#fff' : theme.colors.text }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {view !== 'agenda' && (
+        <View style={styles.periodRow}>
+          <TouchableOpacity style={styles.periodButton} onPress={() => shiftPeriod(-1)}>
+            <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="chevron-left" size={22} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={[styles.periodLabel, { color: theme.colors.text }]}>{getPeriodLabel()}</Text>
+          <TouchableOpacity style={styles.periodButton} onPress={() => shiftPeriod(1)}>
+            <IconSymbol ios_icon_name="chevron.right" android_material_icon_name="chevron-right" size={22} color={theme.colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.todayButton, { borderColor: theme.colors.border }]}
+            onPress={() => setSelectedDate(today)}
+          >
+            <Text style={[styles.todayButtonText, { color: theme.colors.primary }]}>Today</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Content */}
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.primary} />}
+        >
+          {legend.length > 0 && (
+            <View style={styles.legend}>
+              {legend.map((job) => (
+                <View key={job.id} style={styles.legendItem}>
+                  <View style={[styles.dot, { backgroundColor: job.color }]} />
+                  <Text style={[styles.legendText, { color: theme.colors.text }]} numberOfLines={1}>{job.name}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {view === 'month' && renderMonth()}
+          {view === 'week' && renderWeek()}
+          {view === 'agenda' && renderAgenda()}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: Platform.OS === 'android' ? 48 : 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    margin: 16,
+    marginBottom: 8,
+    padding: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    gap: 4,
+  },
+  periodButton: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  periodLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  todayButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginLeft: 4,
+  },
+  todayButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: '45%',
+  },
+  legendText: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  monthCard: {
+    borderRadius: 16,
+    padding: 8,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    opacity: 0.5,
+    paddingVertical: 6,
+  },
+  monthGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderRadius: 8,
+    minHeight: 48,
+  },
+  dayNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayNumberText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginTop: 2,
+    minHeight: 8,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  moreText: {
+    fontSize: 9,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  daySection: {
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  emptyDayText: {
+    fontSize: 14,
+    opacity: 0.5,
+    marginBottom: 12,
+  },
+  eventCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+    paddingRight: 12,
+    overflow: 'hidden',
+    gap: 12,
+  },
+  eventColorBar: {
+    width: 4,
+    alignSelf: 'stretch',
+  },
+  eventContent: {
+    flex: 1,
+    paddingVertical: 12,
+    gap: 2,
+  },
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  eventJob: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  eventTime: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  stateBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  stateText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,586 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+  Switch,
+  Alert,
+  Linking,
+} from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { useRouter } from 'expo-router';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import type {
+  JobListItem,
+  NotificationLevel,
+  NotificationPreferences,
+  TablesUpdate,
+} from '@/app/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchJobList } from '@/services/jobs';
+import {
+  fetchJobNotificationLevels,
+  fetchNotificationPreferences,
+  saveNotificationPreferences,
+  setJobNotificationLevel,
+} from '@/services/notificationPreferences';
+import { loadReminderSettings, saveReminderSettings } from '@/services/reminderSettings';
+import { formatHour, getDeviceTimezone, parseHour, toTime } from '@/utils/dates';
+import { DEFAULT_REMINDER_SETTINGS, LEAD_TIME_OPTIONS, ReminderSettings } from '@/utils/reminders';
+
+const LEVEL_OPTIONS: { level: NotificationLevel; label: string }[] = [
+  { level: 'all', label: 'All' },
+  { level: 'mentions', label: 'Mentions' },
+  { level: 'ai_alerts', label: 'AI alerts' },
+  { level: 'muted', label: 'Muted' },
+];
+
+const SNOOZE_HOURS = [1, 4, 8, 24];
+
+// Same defaults as the notification_preferences table
+const DEFAULT_QUIET_HOURS_START = '22:00';
+const DEFAULT_QUIET_HOURS_END = '07:00';
+
+const formatSnoozedUntil = (date: Date) =>
+  date.toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+export default function NotificationSettingsScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [jobs, setJobs] = useState<JobListItem[]>([]);
+  const [levels, setLevels] = useState<Record<string, NotificationLevel>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [permitted, setPermitted] = useState(true);
+
+  const loadSettings = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const [reminderResult, permissions, preferencesResult, jobsResult, levelsResult] = await Promise.all([
+        loadReminderSettings(),
+        Notifications.getPermissionsAsync(),
+        fetchNotificationPreferences(user.id),
+        fetchJobList(),
+        fetchJobNotificationLevels(),
+      ]);
+
+      if (reminderResult.error) {
+        console.error('Error loading reminder settings:', reminderResult.error);
+      } else {
+        setSettings(reminderResult.data);
+      }
+
+      if (preferencesResult.error) {
+        console.error('Error loading notification preferences:', preferencesResult.error);
+      } else {
+        setPreferences(preferencesResult.data);
+      }
+
+      if (jobsResult.error) {
+        console.error('Error loading jobs:', jobsResult.error);
+      } else {
+        setJobs(jobsResult.data);
+      }
+
+      if (levelsResult.error) {
+        console.error('Error loading job notification levels:', levelsResult.error);
+      } else {
+        setLevels(Object.fromEntries(levelsResult.data.map((row) => [row.job_id, row.level])));
+      }
+
+      setPermitted(permissions.status === 'granted');
+    } catch (error) {
+      console.error('Exception loading notification settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleChange = async (changes: Partial<ReminderSettings>) => {
+    const previous = settings;
+    const next = { ...settings, ...changes };
+    setSettings(next);
+
+    const { error } = await saveReminderSettings(next);
+    if (error) {
+      console.error('Error saving reminder settings:', error);
+      Alert.alert('Error', 'Failed to save reminder settings');
+      setSettings(previous);
+    }
+  };
+
+  const handlePreferencesChange = async (changes: TablesUpdate<'notification_preferences'>) => {
+    if (!user) return;
+
+    setSaving(true);
+    const { data, error } = await saveNotificationPreferences(user.id, changes);
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving notification preferences:', error);
+      Alert.alert('Error', 'Failed to save notification settings');
+      return;
+    }
+    setPreferences(data);
+  };
+
+  const handleLevelChange = async (jobId: string, level: NotificationLevel) => {
+    if (!user) return;
+
+    const previous = levels[jobId];
+    setLevels((current) => ({ ...current, [jobId]: level }));
+
+    const { error } = await setJobNotificationLevel(user.id, jobId, level);
+    if (error) {
+      console.error('Error saving job notification level:', error);
+      Alert.alert('Error', 'Failed to update notifications for this job');
+      setLevels((current) => {
+        const next = { ...current };
+        if (previous) {
+          next[jobId] = previous;
+        } else {
+          delete next[jobId];
+        }
+        return next;
+      });
+    }
+  };
+
+  const snoozedUntil = preferences?.snoozed_until ? new Date(preferences.snoozed_until) : null;
+  const snoozed = !!snoozedUntil && snoozedUntil > new Date();
+  const quietHoursEnabled = preferences?.quiet_hours_enabled ?? false;
+  const quietStart = parseHour(preferences?.quiet_hours_start ?? DEFAULT_QUIET_HOURS_START);
+  const quietEnd = parseHour(preferences?.quiet_hours_end ?? DEFAULT_QUIET_HOURS_END);
+
+  // Quiet hours may run past midnight, so the hours wrap around; start and end can't meet
+  const renderHourStepper = (
+    label: string,
+    hour: number,
+    otherHour: number,
+    field: 'quiet_hours_start' | 'quiet_hours_end'
+  ) => {
+    const previousHour = (hour + 23) % 24;
+    const nextHour = (hour + 1) % 24;
+
+    return (
+      <View style={styles.stepperRow}>
+        <Text style={[styles.stepperLabel, { color: theme.colors.text }]}>{label}</Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, { borderColor: theme.colors.border, opacity: previousHour === otherHour ? 0.3 : 1 }]}
+          onPress={() => handlePreferencesChange({ [field]: toTime(previousHour), quiet_hours_timezone: getDeviceTimezone() })}
+          disabled={saving || previousHour === otherHour}
+        >
+          <IconSymbol ios_icon_name="minus" android_material_icon_name="remove" size={16} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, { color: theme.colors.text }]}>{formatHour(hour)}</Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, { borderColor: theme.colors.border, opacity: nextHour === otherHour ? 0.3 : 1 }]}
+          onPress={() => handlePreferencesChange({ [field]: toTime(nextHour), quiet_hours_timezone: getDeviceTimezone() })}
+          disabled={saving || nextHour === otherHour}
+        >
+          <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={16} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Notifications</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+          {!permitted && (
+            <TouchableOpacity
+              style={[styles.warning, { borderColor: '#F59E0B', backgroundColor: '#F59E0B15' }]}
+              onPress={() => Linking.openSettings()}
+            >
+              <IconSymbol
+                ios_icon_name="bell.slash"
+                android_material_icon_name="notifications-off"
+                size={18}
+                color="#F59E0B"
+              />
+              <Text style={[styles.warningText, { color: theme.colors.text }]}>
+                Notifications are turned off for this app. Tap to allow them in Settings, or reminders will not appear.
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={[styles.section, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Reminders</Text>
+            <Text style={[styles.sectionSubtitle, { color: theme.colors.text }]}>
+              Scheduled on this device and kept up to date as jobs change
+            </Text>
+
+            <View style={[styles.settingRow, { borderColor: theme.colors.border }]}>
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Approaching deadlines</Text>
+                <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+                  Deadlines on every job you are on
+                </Text>
+              </View>
+              <Switch
+                value={settings.deadlinesEnabled}
+                onValueChange={(enabled) => handleChange({ deadlinesEnabled: enabled })}
+                trackColor={{ true: theme.colors.primary }}
+              />
+            </View>
+
+            {settings.deadlinesEnabled && (
+              <View style={[styles.settingBlock, { borderColor: theme.colors.border }]}>
+                <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Remind me</Text>
+                <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+                  Before the deadline; all-day deadlines count from 9 AM
+                </Text>
+                <View style={styles.chipRow}>
+                  {LEAD_TIME_OPTIONS.map((option) => {
+                    const selected = settings.leadTimeMinutes === option.minutes;
+                    return (
+                      <TouchableOpacity
+                        key={option.minutes}
+                        style={[
+                          styles.chip,
+                          {
+                            borderColor: selected ? theme.colors.primary : theme.colors.border,
+                            backgroundColor: selected ? theme.colors.primary + '20' : 'transparent',
+                          },
+                        ]}
+                        onPress={() => handleChange({ leadTimeMinutes: option.minutes })}
+                        disabled={selected}
+                      >
+                        <Text style={[styles.chipText, { color: selected ? theme.colors.primary : theme.colors.text }]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            <View style={[styles.settingRow, { borderColor: theme.colors.border }]}>
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Overdue actions</Text>
+                <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+                  The morning after an action assigned to you was due
+                </Text>
+              </View>
+              <Switch
+                value={settings.overdueActionsEnabled}
+                onValueChange={(enabled) => handleChange({ overdueActionsEnabled: enabled })}
+                trackColor={{ true: theme.colors.primary }}
+              />
+            </View>
+          </View>
+
+          <View style={[styles.section, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Chat Notifications</Text>
+            <Text style={[styles.sectionSubtitle, { color: theme.colors.text }]}>
+              Pushes for new messages and AI alerts, on all your devices
+            </Text>
+
+            <View style={[styles.settingBlock, { borderColor: theme.colors.border }]}>
+              <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Snooze</Text>
+              {snoozed ? (
+                <View style={styles.snoozedRow}>
+                  <Text style={[styles.settingSubtitle, styles.snoozedText, { color: theme.colors.text }]}>
+                    Paused until {formatSnoozedUntil(snoozedUntil!)}
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.chip, { borderColor: theme.colors.primary }]}
+                    onPress={() => handlePreferencesChange({ snoozed_until: null })}
+                    disabled={saving}
+                  >
+                    <Text style={[styles.chipText, { color: theme.colors.primary }]}>Resume</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <>
+                  <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+                    Pause every chat notification for a while
+                  </Text>
+                  <View style={styles.chipRow}>
+                    {SNOOZE_HOURS.map((hours) => (
+                      <TouchableOpacity
+                        key={hours}
+                        style={[styles.chip, { borderColor: theme.colors.border }]}
+                        onPress={() =>
+                          handlePreferencesChange({
+                            snoozed_until: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+                          })
+                        }
+                        disabled={saving}
+                      >
+                        <Text style={[styles.chipText, { color: theme.colors.text }]}>
+                          {hours === 1 ? '1 hour' : `${hours} hours`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+            </View>
+
+            <View style={[styles.settingRow, { borderColor: theme.colors.border }]}>
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Quiet hours</Text>
+                <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+                  {quietHoursEnabled
+                    ? `Every day, ${formatHour(quietStart)} – ${formatHour(quietEnd)} (${preferences?.quiet_hours_timezone})`
+                    : 'Hold notifications overnight'}
+                </Text>
+              </View>
+              <Switch
+                value={quietHoursEnabled}
+                onValueChange={(enabled) =>
+                  handlePreferencesChange(
+                    enabled
+                      ? { quiet_hours_enabled: true, quiet_hours_timezone: getDeviceTimezone() }
+                      : { quiet_hours_enabled: false }
+                  )
+                }
+                disabled={saving}
+                trackColor={{ true: theme.colors.primary }}
+              />
+            </View>
+
+            {quietHoursEnabled && (
+              <View style={styles.stepperGroup}>
+                {renderHourStepper('From', quietStart, quietEnd, 'quiet_hours_start')}
+                {renderHourStepper('Until', quietEnd, quietStart, 'quiet_hours_end')}
+              </View>
+            )}
+          </View>
+
+          <View style={[styles.section, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Jobs</Text>
+            <Text style={[styles.sectionSubtitle, { color: theme.colors.text }]}>
+              Mentions are messages with @ and your name
+            </Text>
+
+            {jobs.length === 0 ? (
+              <Text style={[styles.settingSubtitle, styles.emptyJobs, { color: theme.colors.text }]}>
+                You are not on any active jobs.
+              </Text>
+            ) : (
+              jobs.map((job) => {
+                const jobLevel = levels[job.id] || 'all';
+                return (
+                  <View key={job.id} style={[styles.settingBlock, { borderColor: theme.colors.border }]}>
+                    <Text style={[styles.settingTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                      {job.job_name}
+                    </Text>
+                    {job.site_name ? (
+                      <Text style={[styles.settingSubtitle, { color: theme.colors.text }]} numberOfLines={1}>
+                        {job.site_name}
+                      </Text>
+                    ) : null}
+                    <View style={styles.chipRow}>
+                      {LEVEL_OPTIONS.map((option) => {
+                        const selected = jobLevel === option.level;
+                        return (
+                          <TouchableOpacity
+                            key={option.level}
+                            style={[
+                              styles.chip,
+                              {
+                                borderColor: selected ? theme.colors.primary : theme.colors.border,
+                                backgroundColor: selected ? theme.colors.primary + '20' : 'transparent',
+                              },
+                            ]}
+                            onPress={() => handleLevelChange(job.id, option.level)}
+                            disabled={selected}
+                          >
+                            <Text style={[styles.chipText, { color: selected ? theme.colors.primary : theme.colors.text }]}>
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                );
+              })
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: Platform.OS === 'android' ? 48 : 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 16,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  section: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  settingBlock: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  settingSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  snoozedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  snoozedText: {
+    flex: 1,
+  },
+  stepperGroup: {
+    marginTop: 8,
+    gap: 8,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyJobs: {
+    marginTop: 12,
+  },
+});
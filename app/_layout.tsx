@@ -16,7 +16,9 @@ import {
 } from "@react-navigation/native";
 import { StatusBar } from "expo-status-bar";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { ToastProvider } from "@/contexts/ToastContext";
 import { KeyboardProvider } from "react-native-keyboard-controller";
+import { useLocalReminders } from "@/hooks/useLocalReminders";
 import { usePushNotifications } from "@/hooks/usePushNotifications";
 import * as Linking from "expo-linking";
 import { supabase } from "@/app/integrations/supabase/client";
@@ -36,6 +38,9 @@ function RootLayoutNav() {
   // Initialize push notifications
   usePushNotifications();
 
+  // Schedule reminders for the signed-in user's deadlines and actions
+  useLocalReminders(session?.user.id);
+
   // Handle deep links for password reset
   useEffect(() => {
     const handleDeepLink = async (url: string) => {
@@ -231,7 +236,9 @@ export default function RootLayout() {
         >
           <AuthProvider>
             <GestureHandlerRootView style={{ flex: 1 }}>
-              <RootLayoutNav />
+              <ToastProvider>
+                <RootLayoutNav />
+              </ToastProvider>
               <SystemBars style={"auto"} />
             </GestureHandlerRootView>
           </AuthProvider>
@@ -6,16 +6,1231 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+export type ProcessingStatus = "idle" | "scheduled" | "running" | "completed" | "failed"
+
+// System messages are notices posted by the app, e.g. when a question is answered manually
+export type MessageType = "text" | "image" | "voice" | "system"
+
+export type Priority = "high" | "medium" | "low"
+
+// Which pushes a user gets for a job; no preference row means "all"
+export type NotificationLevel = "all" | "mentions" | "ai_alerts" | "muted"
+
+// Item shapes stored in the JSONB summary columns of `jobs`. These are written
+// by the process-chat-batch and process-scope edge functions.
+
+export type IssueStatus = "open" | "in_progress" | "blocked" | "resolved"
+
+// Board column of an open action; completed actions leave next_actions
+export type ActionStatus = "todo" | "in_progress" | "blocked"
+
+export interface IssueComment {
+  id: string
+  user_id: string
+  text: string
+  created_at: string
+}
+
+export interface IssuePhoto {
+  id: string
+  // Object path in the issue-photos storage bucket
+  path: string
+  user_id: string
+  created_at: string
+}
+
+export interface Issue {
+  id: string
+  title: string
+  description: string
+  created_at: string
+  message_id?: string
+  // Set by manual edits on the issue detail screen; a missing status means open
+  status?: IssueStatus
+  assigned_to?: string | null
+  priority?: Priority | null
+  due_date?: string | null
+  comments?: IssueComment[]
+  photos?: IssuePhoto[]
+  updated_at?: string
+}
+
+export interface Question {
+  id: string
+  question: string
+  asked_at: string
+  message_id?: string
+}
+
+export interface ResolvedQuestion {
+  id: string
+  question: string
+  answer: string
+  asked_at: string
+  answered_at: string
+  message_id?: string
+  // Set when a user answered the question manually rather than the AI
+  answered_by?: string
+  not_applicable?: boolean
+}
+
+export interface Action {
+  id: string
+  title: string
+  description: string
+  priority: Priority | string
+  // Free-text name the AI picked up from chat
+  assigned_to?: string
+  created_at: string
+  message_id?: string
+  // Set by manual edits on the actions screen
+  assignee_id?: string | null
+  due_date?: string | null
+  // Missing on actions that were never moved on the board
+  status?: ActionStatus
+}
+
+export interface CompletedAction {
+  id: string
+  title: string
+  description?: string
+  completed_at: string
+  message_id?: string
+  // The issue, action or dependency this was completed from
+  source_type?: "issue" | "action" | "dependency"
+  source_id?: string
+  // Set when a user completed the item by hand
+  completed_by?: string
+  // Who chat said did it, when the AI completed the item
+  completed_by_name?: string | null
+}
+
+export interface Warning {
+  id: string
+  title: string
+  description: string
+  severity: Priority
+  created_at: string
+  message_id?: string
+}
+
+export interface Deadline {
+  id: string
+  title: string
+  description: string
+  deadline: string
+  // When the deadline was last set; moving it updates this
+  updated_at: string
+  message_id?: string
+  // First date the deadline was set to, kept once it has been moved
+  original_deadline?: string
+}
+
+// An item a dependency holds up, by id within its summary section
+export interface DependencyLink {
+  type: "action" | "issue" | "deadline" | "dependency"
+  id: string
+}
+
+export interface Dependency {
+  id: string
+  title: string
+  description: string
+  created_at: string
+  message_id?: string
+  // Proposed by the AI when it raises the dependency, or set by hand on the
+  // dependencies screen
+  blocks?: DependencyLink[]
+}
+
+export type SummarySection =
+  | "job_overview"
+  | "open_issues"
+  | "unanswered_questions"
+  | "resolved_questions"
+  | "next_actions"
+  | "completed_items"
+  | "warnings_and_risks"
+  | "deadlines_and_timelines"
+  | "dependencies"
+
+export type ChangeType = "created" | "updated" | "resolved" | "completed" | "cleared" | "answered"
+
+export interface AIChangeLogEntry {
+  timestamp: string
+  section: SummarySection | string
+  change_type: ChangeType | string
+  previous_value?: any
+  new_value?: any
+  message_id?: string
+  message_text?: string
+  reason?: string
+  // Set when the change went through review mode
+  reviewed_by?: string
+  reviewed_at?: string
+  // Set when a user reverted the change from the change log
+  reverted_by?: string
+  reverted_at?: string
+}
+
+export type PendingChangeStatus = "pending" | "accepted" | "rejected"
+
+export type ProcessingRunTrigger = "scheduled" | "manual"
+
+export type ProcessingRunStatus = "running" | "succeeded" | "skipped" | "failed" | "cancelled"
+
+export type SummaryRebuildStatus = "running" | "ready" | "failed" | "applied" | "discarded"
+
+export type AdminAuditAction = "get_user" | "reset_password" | "deactivate_user" | "reactivate_user"
+
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      admin_audit_log: {
+        Row: {
+          action: AdminAuditAction
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: AdminAuditAction
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: AdminAuditAction
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      changelog: {
+        Row: {
+          action: string
+          created_at: string
+          details: string
+          id: string
+          job_id: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          details: string
+          id?: string
+          job_id: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          details?: string
+          id?: string
+          job_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "changelog_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "changelog_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          created_at: string
+          id: string
+          image_url: string | null
+          job_id: string
+          message_text: string
+          message_type: MessageType
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          job_id: string
+          message_text: string
+          message_type?: MessageType
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          job_id?: string
+          message_text?: string
+          message_type?: MessageType
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_read_status: {
+        Row: {
+          created_at: string
+          id: string
+          job_id: string
+          last_read_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          job_id: string
+          last_read_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          job_id?: string
+          last_read_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_read_status_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      completed_items: {
+        Row: {
+          completed_at: string
+          completed_by: string
+          id: string
+          item_text: string
+          job_id: string
+        }
+        Insert: {
+          completed_at?: string
+          completed_by: string
+          id?: string
+          item_text: string
+          job_id: string
+        }
+        Update: {
+          completed_at?: string
+          completed_by?: string
+          id?: string
+          item_text?: string
+          job_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "completed_items_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "completed_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_invitations: {
+        Row: {
+          id: string
+          invited_at: string | null
+          invited_by: string
+          job_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          invited_at?: string | null
+          invited_by: string
+          job_id: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          invited_at?: string | null
+          invited_by?: string
+          job_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_invitations_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_notification_preferences: {
+        Row: {
+          job_id: string
+          level: NotificationLevel
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          job_id: string
+          level?: NotificationLevel
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          job_id?: string
+          level?: NotificationLevel
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_notification_preferences_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_summary_snapshots: {
+        Row: {
+          completed_items: CompletedAction[]
+          created_at: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          job_id: string
+          job_overview: string | null
+          messages_processed: number
+          next_actions: Action[]
+          open_issues: Issue[]
+          resolved_questions: ResolvedQuestion[]
+          unanswered_questions: Question[]
+          warnings_and_risks: Warning[]
+        }
+        Insert: {
+          completed_items?: CompletedAction[]
+          created_at?: string
+          deadlines_and_timelines?: Deadline[]
+          dependencies?: Dependency[]
+          id?: string
+          job_id: string
+          job_overview?: string | null
+          messages_processed?: number
+          next_actions?: Action[]
+          open_issues?: Issue[]
+          resolved_questions?: ResolvedQuestion[]
+          unanswered_questions?: Question[]
+          warnings_and_risks?: Warning[]
+        }
+        Update: {
+          completed_items?: CompletedAction[]
+          created_at?: string
+          deadlines_and_timelines?: Deadline[]
+          dependencies?: Dependency[]
+          id?: string
+          job_id?: string
+          job_overview?: string | null
+          messages_processed?: number
+          next_actions?: Action[]
+          open_issues?: Issue[]
+          resolved_questions?: ResolvedQuestion[]
+          unanswered_questions?: Question[]
+          warnings_and_risks?: Warning[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_summary_snapshots_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+        Insert: {
+          ai_changelog?: AIChangeLogEntry[]
+          business_hours_end?: string
+          business_hours_start?: string
+          business_hours_timezone?: string
+          completed_items?: CompletedAction[]
+          created_at?: string
+          created_by: string
+          deadlines_and_timelines?: Deadline[]
+          dependencies?: Dependency[]
+          id?: string
+          is_archived?: boolean
+          job_name: string
+          job_overview?: string | null
+          last_processed_at?: string | null
+          next_actions?: Action[]
+          open_issues?: Issue[]
+          processing_attempts?: number
+          processing_business_hours?: boolean
+          processing_debounce_minutes?: number
+          processing_paused?: boolean
+          processing_scheduled_for?: string | null
+          processing_started_at?: string | null
+          processing_status?: ProcessingStatus
+          resolved_questions?: ResolvedQuestion[]
+          review_mode?: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions?: Question[]
+          updated_at?: string
+          warnings_and_risks?: Warning[]
+        }
+        Update: {
+          ai_changelog?: AIChangeLogEntry[]
+          business_hours_end?: string
+          business_hours_start?: string
+          business_hours_timezone?: string
+          completed_items?: CompletedAction[]
+          created_at?: string
+          created_by?: string
+          deadlines_and_timelines?: Deadline[]
+          dependencies?: Dependency[]
+          id?: string
+          is_archived?: boolean
+          job_name?: string
+          job_overview?: string | null
+          last_processed_at?: string | null
+          next_actions?: Action[]
+          open_issues?: Issue[]
+          processing_attempts?: number
+          processing_business_hours?: boolean
+          processing_debounce_minutes?: number
+          processing_paused?: boolean
+          processing_scheduled_for?: string | null
+          processing_started_at?: string | null
+          processing_status?: ProcessingStatus
+          resolved_questions?: ResolvedQuestion[]
+          review_mode?: boolean
+          site_name?: string
+          start_date?: string
+          unanswered_questions?: Question[]
+          updated_at?: string
+          warnings_and_risks?: Warning[]
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          quiet_hours_enabled: boolean
+          quiet_hours_end: string
+          quiet_hours_start: string
+          quiet_hours_timezone: string
+          snoozed_until: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          quiet_hours_timezone?: string
+          snoozed_until?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          quiet_hours_timezone?: string
+          snoozed_until?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      pending_changes: {
+        Row: {
+          batch_id: string
+          change: AIChangeLogEntry
+          completed_item: CompletedAction | null
+          created_at: string
+          id: string
+          job_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: PendingChangeStatus
+        }
+        Insert: {
+          batch_id: string
+          change: AIChangeLogEntry
+          completed_item?: CompletedAction | null
+          created_at?: string
+          id?: string
+          job_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: PendingChangeStatus
+        }
+        Update: {
+          batch_id?: string
+          change?: AIChangeLogEntry
+          completed_item?: CompletedAction | null
+          created_at?: string
+          id?: string
+          job_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: PendingChangeStatus
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_changes_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_runs: {
+        Row: {
+          attempt: number
+          changes_made: number | null
+          error_class: string | null
+          error_message: string | null
+          finished_at: string | null
+          first_message_at: string | null
+          id: string
+          job_id: string
+          last_message_at: string | null
+          message_count: number
+          next_retry_at: string | null
+          started_at: string
+          status: ProcessingRunStatus
+          trigger: ProcessingRunTrigger
+        }
+        Insert: {
+          attempt?: number
+          changes_made?: number | null
+          error_class?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          first_message_at?: string | null
+          id?: string
+          job_id: string
+          last_message_at?: string | null
+          message_count?: number
+          next_retry_at?: string | null
+          started_at?: string
+          status?: ProcessingRunStatus
+          trigger?: ProcessingRunTrigger
+        }
+        Update: {
+          attempt?: number
+          changes_made?: number | null
+          error_class?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          first_message_at?: string | null
+          id?: string
+          job_id?: string
+          last_message_at?: string | null
+          message_count?: number
+          next_retry_at?: string | null
+          started_at?: string
+          status?: ProcessingRunStatus
+          trigger?: ProcessingRunTrigger
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_runs_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_tokens: {
+        Row: {
+          created_at: string
+          device_id: string | null
+          expo_push_token: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id?: string | null
+          expo_push_token: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string | null
+          expo_push_token?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      scope_documents: {
+        Row: {
+          created_at: string
+          file_name: string | null
+          file_type: string | null
+          id: string
+          job_id: string
+          raw_content: string
+          summary: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_name?: string | null
+          file_type?: string | null
+          id?: string
+          job_id: string
+          raw_content: string
+          summary: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_name?: string | null
+          file_type?: string | null
+          id?: string
+          job_id?: string
+          raw_content?: string
+          summary?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scope_documents_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      summary_rebuilds: {
+        Row: {
+          applied_at: string | null
+          applied_by: string | null
+          chunks_done: number
+          chunks_total: number
+          completed_items: CompletedAction[]
+          created_at: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          error_message: string | null
+          id: string
+          job_id: string
+          job_overview: string | null
+          last_message_at: string | null
+          messages_processed: number
+          next_actions: Action[]
+          open_issues: Issue[]
+          requested_by: string | null
+          resolved_questions: ResolvedQuestion[]
+          status: SummaryRebuildStatus
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+        Insert: {
+          applied_at?: string | null
+          applied_by?: string | null
+          chunks_done?: number
+          chunks_total?: number
+          completed_items?: CompletedAction[]
+          created_at?: string
+          deadlines_and_timelines?: Deadline[]
+          dependencies?: Dependency[]
+          error_message?: string | null
+          id?: string
+          job_id: string
+          job_overview?: string | null
+          last_message_at?: string | null
+          messages_processed?: number
+          next_actions?: Action[]
+          open_issues?: Issue[]
+          requested_by?: string | null
+          resolved_questions?: ResolvedQuestion[]
+          status?: SummaryRebuildStatus
+          unanswered_questions?: Question[]
+          updated_at?: string
+          warnings_and_risks?: Warning[]
+        }
+        Update: {
+          applied_at?: string | null
+          applied_by?: string | null
+          chunks_done?: number
+          chunks_total?: number
+          completed_items?: CompletedAction[]
+          created_at?: string
+          deadlines_and_timelines?: Deadline[]
+          dependencies?: Dependency[]
+          error_message?: string | null
+          id?: string
+          job_id?: string
+          job_overview?: string | null
+          last_message_at?: string | null
+          messages_processed?: number
+          next_actions?: Action[]
+          open_issues?: Issue[]
+          requested_by?: string | null
+          resolved_questions?: ResolvedQuestion[]
+          status?: SummaryRebuildStatus
+          unanswered_questions?: Question[]
+          updated_at?: string
+          warnings_and_risks?: Warning[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "summary_rebuilds_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          deactivated_at: string | null
+          display_name: string | null
+          email: string | null
+          id: string
+          is_admin: boolean
+          role: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          deactivated_at?: string | null
+          display_name?: string | null
+          email?: string | null
+          id?: string
+          is_admin?: boolean
+          role?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          deactivated_at?: string | null
+          display_name?: string | null
+          email?: string | null
+          id?: string
+          is_admin?: boolean
+          role?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      action_priority_rank: {
+        Args: { priority: string }
+        Returns: number
+      }
+      apply_summary_rebuild: {
+        Args: { target_rebuild_id: string }
+        Returns: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+      }
+      complete_job_action: {
+        Args: { target_job_id: string; target_action_id: string }
+        Returns: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+      }
+      get_calendar_feed_token: {
+        Args: never
+        Returns: string
+      }
+      get_job_list: {
+        Args: never
+        Returns: {
+          created_at: string
+          created_by: string
+          id: string
+          is_archived: boolean
+          job_name: string
+          last_activity_at: string
+          last_message_at: string | null
+          last_message_text: string | null
+          last_message_type: MessageType | null
+          last_message_user_id: string | null
+          last_processed_at: string | null
+          processing_scheduled_for: string | null
+          processing_status: ProcessingStatus
+          site_name: string
+          start_date: string
+          unread_count: number
+          updated_at: string
+        }[]
+      }
+      is_job_member: {
+        Args: { target_job_id: string }
+        Returns: boolean
+      }
+      reset_calendar_feed_token: {
+        Args: never
+        Returns: string
+      }
+      resolve_job_question: {
+        Args: {
+          target_job_id: string
+          target_question_id: string
+          answer_text: string
+          not_applicable?: boolean
+        }
+        Returns: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+      }
+      revert_ai_change: {
+        Args: { target_job_id: string; entry_index: number; entry_timestamp: string }
+        Returns: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+      }
+      review_pending_change: {
+        Args: { pending_change_id: string; accept: boolean }
+        Returns: {
+          batch_id: string
+          change: AIChangeLogEntry
+          completed_item: CompletedAction | null
+          created_at: string
+          id: string
+          job_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: PendingChangeStatus
+        }
+      }
+      set_dependency_links: {
+        Args: { target_job_id: string; target_dependency_id: string; links: Json }
+        Returns: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+      }
+      update_job_action: {
+        Args: { target_job_id: string; target_action_id: string; changes: Json }
+        Returns: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+      }
+      update_job_issue: {
+        Args: { target_job_id: string; target_issue_id: string; changes: Json }
+        Returns: {
+          ai_changelog: AIChangeLogEntry[]
+          business_hours_end: string
+          business_hours_start: string
+          business_hours_timezone: string
+          completed_items: CompletedAction[]
+          created_at: string
+          created_by: string
+          deadlines_and_timelines: Deadline[]
+          dependencies: Dependency[]
+          id: string
+          is_archived: boolean
+          job_name: string
+          job_overview: string | null
+          last_processed_at: string | null
+          next_actions: Action[]
+          open_issues: Issue[]
+          processing_attempts: number
+          processing_business_hours: boolean
+          processing_debounce_minutes: number
+          processing_paused: boolean
+          processing_scheduled_for: string | null
+          processing_started_at: string | null
+          processing_status: ProcessingStatus
+          resolved_questions: ResolvedQuestion[]
+          review_mode: boolean
+          site_name: string
+          start_date: string
+          unanswered_questions: Question[]
+          updated_at: string
+          warnings_and_risks: Warning[]
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -136,3 +1351,20 @@ export const Constants = {
     Enums: {},
   },
 } as const
+
+export type Job = Tables<"jobs">
+export type ChatMessage = Tables<"chat_messages">
+export type ChatReadStatus = Tables<"chat_read_status">
+export type ScopeDocument = Tables<"scope_documents">
+export type JobInvitation = Tables<"job_invitations">
+export type UserProfile = Tables<"user_profiles">
+export type PushToken = Tables<"push_tokens">
+export type ChangeLogRow = Tables<"changelog">
+export type CompletedItemRow = Tables<"completed_items">
+export type PendingChange = Tables<"pending_changes">
+export type JobSummarySnapshot = Tables<"job_summary_snapshots">
+export type ProcessingRun = Tables<"processing_runs">
+export type SummaryRebuild = Tables<"summary_rebuilds">
+export type NotificationPreferences = Tables<"notification_preferences">
+export type JobNotificationPreference = Tables<"job_notification_preferences">
+export type JobListItem = Database["public"]["Functions"]["get_job_list"]["Returns"][number]
@@ -0,0 +1,342 @@
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  useWindowDimensions,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTheme } from '@react-navigation/native';
+import Animated, { useAnimatedRef, useScrollViewOffset } from 'react-native-reanimated';
+import { IconSymbol } from '@/components/IconSymbol';
+import DraggableBoardCard, { BoardLayout } from '@/components/job/DraggableBoardCard';
+import type { Action, ActionStatus, CompletedAction, Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { completeAction, updateAction } from '@/services/actions';
+import { fetchJobMembers } from '@/services/invitations';
+import { fetchJob } from '@/services/jobs';
+import type { PublicProfile } from '@/services/profiles';
+import { formatDueDate, toDueDate } from '@/utils/dates';
+
+type BoardJob = Pick<Job, 'id' | 'created_by' | 'next_actions' | 'completed_items'>;
+
+type BoardColumnKey = ActionStatus | 'done';
+
+const BOARD_COLUMNS: { key: BoardColumnKey; label: string; color: string }[] = [
+  { key: 'todo', label: 'To Do', color: '#6B7280' },
+  { key: 'in_progress', label: 'In Progress', color: '#3B82F6' },
+  { key: 'blocked', label: 'Blocked', color: '#EF4444' },
+  { key: 'done', label: 'Done', color: '#10B981' },
+];
+
+const BOARD_PADDING = 16;
+const COLUMN_GAP = 12;
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'high': return '#EF4444';
+    case 'medium': return '#F59E0B';
+    case 'low': return '#10B981';
+    default: return '#6B7280';
+  }
+};
+
+export default function ActionBoardScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { width } = useWindowDimensions();
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<BoardJob | null>(null);
+  const [members, setMembers] = useState<PublicProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [draggingColumn, setDraggingColumn] = useState<number | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const scrollRef = useAnimatedRef<Animated.ScrollView>();
+  const scrollX = useScrollViewOffset(scrollRef);
+
+  const layout: BoardLayout = useMemo(
+    () => ({
+      columnWidth: Math.min(300, Math.round(width * 0.75)),
+      columnGap: COLUMN_GAP,
+      paddingHorizontal: BOARD_PADDING,
+      columnCount: BOARD_COLUMNS.length,
+    }),
+    [width]
+  );
+
+  const loadBoard = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await fetchJob(jobId);
+
+      if (error) {
+        console.error('Error loading action board:', error);
+        return;
+      }
+
+      setJob(data);
+
+      const { data: profiles, error: membersError } = await fetchJobMembers(data);
+
+      if (membersError) {
+        console.error('Error loading job members:', membersError);
+      } else {
+        setMembers(profiles);
+      }
+    } catch (error) {
+      console.error('Exception loading action board:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  useJobRealtime(jobId, setJob);
+
+  const openActions = useMemo(() => job?.next_actions || [], [job]);
+
+  const doneActions = useMemo(
+    () =>
+      (job?.completed_items || [])
+        .filter((item) => item.source_type === 'action')
+        .sort((a, b) => b.completed_at.localeCompare(a.completed_at)),
+    [job]
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadBoard();
+    setRefreshing(false);
+  };
+
+  const getAssigneeName = (action: Action) =>
+    action.assignee_id
+      ? members.find((member) => member.user_id === action.assignee_id)?.display_name || 'Job member'
+      : action.assigned_to;
+
+  const moveAction = async (action: Action, status: ActionStatus) => {
+    // Show the card in its new column straight away
+    setJob((current) =>
+      current && {
+        ...current,
+        next_actions: current.next_actions.map((item) => (item.id === action.id ? { ...item, status } : item)),
+      }
+    );
+
+    try {
+      setSavingId(action.id);
+
+      const { data, error } = await updateAction(jobId, action.id, { status });
+
+      if (error) {
+        console.error('Error moving action:', error);
+        Alert.alert('Error', `Failed to move action: ${error.message}`);
+        loadBoard();
+        return;
+      }
+
+      setJob(data);
+    } catch (error) {
+      console.error('Exception moving action:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+      loadBoard();
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const markComplete = async (action: Action) => {
+    try {
+      setSavingId(action.id);
+
+      const { data, error } = await completeAction(jobId, action.id);
+
+      if (error) {
+        console.error('Error completing action:', error);
+        Alert.alert('Error', `Failed to complete action: ${error.message}`);
+        return;
+      }
+
+      setJob(data);
+    } catch (error) {
+      console.error('Exception completing action:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDrop = (action: Action, targetColumnIndex: number) => {
+    const target = BOARD_COLUMNS[targetColumnIndex].key;
+
+    if (target === (action.status ?? 'todo')) return;
+
+    if (target === 'done') {
+      Alert.alert('Complete Action', `Mark "${action.title}" as done?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Complete', onPress: () => markComplete(action) },
+      ]);
+    } else {
+      moveAction(action, target);
+    }
+  };
+
+  const renderActionCard = (action: Action, columnIndex: number) => {
+    const assigneeName = getAssigneeName(action);
+    const overdue = !!action.due_date && action.due_date < toDueDate(new Date());
+
+    return (
+      <DraggableBoardCard
+        key={action.id}
+        columnIndex={columnIndex}
+        layout={layout}
+        scrollRef={scrollRef}
+        scrollX={scrollX}
+        disabled={savingId === action.id}
+        onDragStart={setDraggingColumn}
+        onDragEnd={() => setDraggingColumn(null)}
+        onDrop={(targetColumnIndex) => handleDrop(action, targetColumnIndex)}
+        style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
+      >
+        <View style={styles.cardTitleRow}>
+          <View style={[styles.priorityDot, { backgroundColor: getPriorityColor(action.priority) }]} />
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]} numberOfLines={3}>{action.title}</Text>
+          {savingId === action.id && <ActivityIndicator size="small" color={theme.colors.primary} />}
+        </View>
+        {(assigneeName || action.due_date) && (
+          <View style={styles.metaRow}>
+            {assigneeName && (
+              <Text style={[styles.metaText, { color: theme.colors.text }]} numberOfLines={1}>{assigneeName}</Text>
+            )}
+            {action.due_date && (
+              <Text style={[styles.metaText, { color: overdue ? '#EF4444' : theme.colors.text }]}>
+                {overdue ? 'Overdue' : 'Due'} {formatDueDate(action.due_date)}
+              </Text>
+            )}
+          </View>
+        )}
+      </DraggableBoardCard>
+    );
+  };
+
+  const renderDoneCard = (item: CompletedAction) => (
+    <View key={item.id} style={[styles.card, styles.doneCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+      <View style={styles.cardTitleRow}>
+        <IconSymbol ios_icon_name="checkmark.circle.fill" android_material_icon_name="check-circle" size={16} color="#10B981" />
+        <Text style={[styles.cardTitle, { color: theme.colors.text }]} numberOfLines={3}>
+          {item.title || item.description?.replace(/^Completed: /, '')}
+        </Text>
+      </View>
+      <Text style={[styles.metaText, { color: theme.colors.text }]}>
+        {new Date(item.completed_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Action Board</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          scrollEnabled={draggingColumn === null}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.primary} />}
+        >
+          <Text style={[styles.hintText, { color: theme.colors.text }]}>Press and hold a card to move it to another column.</Text>
+
+          <Animated.ScrollView
+            ref={scrollRef}
+            horizontal
+            scrollEnabled={draggingColumn === null}
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.board}
+          >
+            {BOARD_COLUMNS.map((column, columnIndex) => {
+              const columnActions = column.key === 'done'
+                ? []
+                : openActions.filter((action) => (action.status ?? 'todo') === column.key);
+              const count = column.key === 'done' ? doneActions.length : columnActions.length;
+
+              return (
+                <View
+                  key={column.key}
+                  style={[
+                    styles.column,
+                    { width: layout.columnWidth, backgroundColor: theme.colors.border + '40' },
+                    draggingColumn === columnIndex && styles.draggingColumn,
+                  ]}
+                >
+                  <View style={styles.columnHeader}>
+                    <View style={[styles.columnDot, { backgroundColor: column.color }]} />
+                    <Text style={[styles.columnTitle, { color: theme.colors.text }]}>{column.label}</Text>
+                    <Text style={[styles.columnCount, { color: theme.colors.text }]}>{count}</Text>
+                  </View>
+
+                  {column.key === 'done'
+                    ? doneActions.map(renderDoneCard)
+                    : columnActions.map((action) => renderActionCard(action, columnIndex))}
+
+                  {count === 0 && (
+                    <View style={[styles.emptyColumn, { borderColor: theme.colors.border }]}>
+                      <Text style={[styles.emptyColumnText, { color: theme.colors.text }]}>Drop cards here</Text>
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </Animated.ScrollView>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12, paddingTop: Platform.OS === 'android' ? 48 : 12, borderBottomWidth: 1 },
+  backButton: { width: 40, height: 40, justifyContent: 'center', alignItems: 'center' },
+  headerTitle: { flex: 1, fontSize: 18, fontWeight: '700', textAlign: 'center' },
+  headerSpacer: { width: 40 },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  scrollView: { flex: 1 },
+  content: { paddingVertical: 16, paddingBottom: 100 },
+  hintText: { fontSize: 13, opacity: 0.6, paddingHorizontal: BOARD_PADDING, marginBottom: 12 },
+  board: { paddingHorizontal: BOARD_PADDING, gap: COLUMN_GAP, alignItems: 'flex-start' },
+  column: { borderRadius: 16, padding: 10, gap: 8 },
+  draggingColumn: { zIndex: 10, elevation: 10 },
+  columnHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 4, paddingVertical: 4 },
+  columnDot: { width: 8, height: 8, borderRadius: 4 },
+  columnTitle: { flex: 1, fontSize: 15, fontWeight: '700' },
+  columnCount: { fontSize: 13, fontWeight: '600', opacity: 0.5 },
+  card: { borderRadius: 12, padding: 12, borderWidth: 1, gap: 6, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.06)', elevation: 2 },
+  doneCard: { opacity: 0.7 },
+  cardTitleRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  priorityDot: { width: 8, height: 8, borderRadius: 4 },
+  cardTitle: { flex: 1, fontSize: 14, fontWeight: '600' },
+  metaRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 10 },
+  metaText: { fontSize: 12, fontWeight: '500', opacity: 0.7 },
+  emptyColumn: { borderWidth: 1, borderStyle: 'dashed', borderRadius: 12, paddingVertical: 24, alignItems: 'center' },
+  emptyColumnText: { fontSize: 13, opacity: 0.5 },
+});
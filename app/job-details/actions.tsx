@@ -1,5 +1,4 @@
-
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,43 +8,76 @@ import {
   Platform,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
-
-interface Action {
-  id: string;
-  title: string;
-  description: string;
-  priority: string;
-  assigned_to?: string;
-  created_at: string;
-  message_id?: string;
-}
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Action, ActionStatus, Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { completeAction, updateAction, ActionChanges } from '@/services/actions';
+import { fetchJobMembers } from '@/services/invitations';
+import { fetchJob } from '@/services/jobs';
+import type { PublicProfile } from '@/services/profiles';
+import { formatDueDate, parseDueDate, toDueDate } from '@/utils/dates';
+
+type ActionsJob = Pick<Job, 'id' | 'created_by' | 'next_actions'>;
+
+const PRIORITIES: Action['priority'][] = ['high', 'medium', 'low'];
+
+const STATUS_LABELS: Record<ActionStatus, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  blocked: 'Blocked',
+};
+
+// Same order as action_priority_rank in the database; undated actions sort last within a priority
+const compareActions = (a: Action, b: Action) =>
+  PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority) ||
+  (a.due_date ?? '9999-12-31').localeCompare(b.due_date ?? '9999-12-31');
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'high': return '#EF4444';
+    case 'medium': return '#F59E0B';
+    case 'low': return '#10B981';
+    default: return '#6B7280';
+  }
+};
 
 export default function ActionsScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
-  const [actions, setActions] = useState<Action[]>([]);
+  // actionId is set when opening an overdue-action reminder
+  const { jobId, actionId } = useLocalSearchParams<{ jobId: string; actionId?: string }>();
+  const [job, setJob] = useState<ActionsJob | null>(null);
+  const [members, setMembers] = useState<PublicProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(actionId ?? null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
 
   const loadActions = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('next_actions')
-        .eq('id', jobId)
-        .single();
+      const { data, error } = await fetchJob(jobId);
 
       if (error) {
         console.error('Error loading actions:', error);
+        return;
+      }
+
+      setJob(data);
+
+      const { data: profiles, error: membersError } = await fetchJobMembers(data);
+
+      if (membersError) {
+        console.error('Error loading job members:', membersError);
       } else {
-        setActions(data.next_actions || []);
+        setMembers(profiles);
       }
     } catch (error) {
       console.error('Exception loading actions:', error);
@@ -58,29 +90,164 @@ export default function ActionsScreen() {
     loadActions();
   }, [loadActions]);
 
+  useJobRealtime(jobId, setJob);
+
+  const actions = useMemo(() => [...(job?.next_actions || [])].sort(compareActions), [job]);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadActions();
     setRefreshing(false);
   };
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'high': return '#EF4444';
-      case 'medium': return '#F59E0B';
-      case 'low': return '#10B981';
-      default: return '#6B7280';
+  const getAssigneeName = (action: Action) =>
+    action.assignee_id
+      ? members.find((member) => member.user_id === action.assignee_id)?.display_name || 'Job member'
+      : action.assigned_to;
+
+  const toggleEditing = (actionId: string) => {
+    setShowDatePicker(false);
+    setEditingId((current) => (current === actionId ? null : actionId));
+  };
+
+  const saveChanges = async (actionId: string, changes: ActionChanges) => {
+    try {
+      setSavingId(actionId);
+
+      const { data, error } = await updateAction(jobId, actionId, changes);
+
+      if (error) {
+        console.error('Error updating action:', error);
+        Alert.alert('Error', `Failed to update action: ${error.message}`);
+        return;
+      }
+
+      setJob(data);
+    } catch (error) {
+      console.error('Exception updating action:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDateChange = (actionId: string) => (event: DateTimePickerEvent, date?: Date) => {
+    setShowDatePicker(false);
+
+    if (event.type === 'set' && date) {
+      saveChanges(actionId, { due_date: toDueDate(date) });
+    }
+  };
+
+  const markComplete = async (action: Action) => {
+    try {
+      setSavingId(action.id);
+
+      const { data, error } = await completeAction(jobId, action.id);
+
+      if (error) {
+        console.error('Error completing action:', error);
+        Alert.alert('Error', `Failed to complete action: ${error.message}`);
+        return;
+      }
+
+      if (editingId === action.id) setEditingId(null);
+      setJob(data);
+    } catch (error) {
+      console.error('Exception completing action:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSavingId(null);
     }
   };
 
+  const handleComplete = (action: Action) => {
+    Alert.alert('Complete Action', `Mark "${action.title}" as done?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Complete', onPress: () => markComplete(action) },
+    ]);
+  };
+
+  const renderEditor = (action: Action) => {
+    const saving = savingId === action.id;
+
+    return (
+      <View style={[styles.editor, { borderTopColor: theme.colors.border }]}>
+        <Text style={[styles.editorLabel, { color: theme.colors.text }]}>Priority</Text>
+        <View style={styles.chipRow}>
+          {PRIORITIES.map((priority) => {
+            const selected = action.priority === priority;
+            const color = getPriorityColor(priority);
+            return (
+              <TouchableOpacity
+                key={priority}
+                style={[styles.chip, { borderColor: selected ? color : theme.colors.border, backgroundColor: selected ? color + '20' : 'transparent' }]}
+                onPress={() => saveChanges(action.id, { priority })}
+                disabled={saving || selected}
+              >
+                <Text style={[styles.chipText, styles.priorityChipText, { color: selected ? color : theme.colors.text }]}>{priority}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={[styles.editorLabel, { color: theme.colors.text }]}>Assignee</Text>
+        <View style={styles.chipRow}>
+          {[{ user_id: null, display_name: 'Unassigned' }, ...members].map((member) => {
+            const selected = (action.assignee_id ?? null) === member.user_id;
+            return (
+              <TouchableOpacity
+                key={member.user_id ?? 'unassigned'}
+                style={[styles.chip, { borderColor: selected ? theme.colors.primary : theme.colors.border, backgroundColor: selected ? theme.colors.primary + '20' : 'transparent' }]}
+                onPress={() => saveChanges(action.id, { assignee_id: member.user_id })}
+                disabled={saving || selected}
+              >
+                <Text style={[styles.chipText, { color: selected ? theme.colors.primary : theme.colors.text }]}>{member.display_name || 'Job member'}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={[styles.editorLabel, { color: theme.colors.text }]}>Due Date</Text>
+        <View style={styles.dueDateRow}>
+          <TouchableOpacity
+            style={[styles.chip, { borderColor: theme.colors.border }]}
+            onPress={() => setShowDatePicker(true)}
+            disabled={saving}
+          >
+            <Text style={[styles.chipText, { color: theme.colors.text }]}>
+              {action.due_date ? formatDueDate(action.due_date, { month: 'short', day: 'numeric', year: 'numeric' }) : 'Set due date'}
+            </Text>
+          </TouchableOpacity>
+          {action.due_date && (
+            <TouchableOpacity onPress={() => saveChanges(action.id, { due_date: null })} disabled={saving}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+          {saving && <ActivityIndicator size="small" color={theme.colors.primary} />}
+        </View>
+        {showDatePicker && (
+          <DateTimePicker
+            value={action.due_date ? parseDueDate(action.due_date) : new Date()}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'inline' : 'default'}
+            onChange={handleDateChange(action.id)}
+          />
+        )}
+      </View>
+    );
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
         <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
-          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow_back" size={24} color={theme.colors.text} />
+          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow-back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Next Actions</Text>
-        <View style={styles.headerSpacer} />
+        <TouchableOpacity style={styles.backButton} onPress={() => router.push(`/job-details/action-board?jobId=${jobId}`)}>
+          <IconSymbol ios_icon_name="rectangle.split.3x1" android_material_icon_name="view-column" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
       </View>
 
       {loading ? (
@@ -94,33 +261,65 @@ export default function ActionsScreen() {
           refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.primary} />}
         >
           <View style={[styles.aiLabel, { backgroundColor: theme.colors.primary + '10', borderColor: theme.colors.primary + '30' }]}>
-            <IconSymbol ios_icon_name="sparkles" android_material_icon_name="auto_awesome" size={14} color={theme.colors.primary} />
-            <Text style={[styles.aiLabelText, { color: theme.colors.primary }]}>AI-Detected Actions</Text>
+            <IconSymbol ios_icon_name="sparkles" android_material_icon_name="auto-awesome" size={14} color={theme.colors.primary} />
+            <Text style={[styles.aiLabelText, { color: theme.colors.primary }]}>AI-Detected Actions · Tap to assign</Text>
           </View>
 
-          {actions.map((action, index) => (
-            <View key={index} style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
-              <View style={styles.cardHeader}>
-                <View style={[styles.iconContainer, { backgroundColor: '#10B98120' }]}>
-                  <IconSymbol ios_icon_name="checkmark.circle" android_material_icon_name="check_circle" size={20} color="#10B981" />
-                </View>
-                <View style={styles.cardContent}>
-                  <View style={styles.titleRow}>
-                    <Text style={[styles.cardTitle, { color: theme.colors.text }]} numberOfLines={2}>{action.title}</Text>
-                    <View style={[styles.priorityBadge, { backgroundColor: getPriorityColor(action.priority) + '20' }]}>
-                      <Text style={[styles.priorityText, { color: getPriorityColor(action.priority) }]}>{action.priority}</Text>
+          {actions.map((action) => {
+            const assigneeName = getAssigneeName(action);
+            const overdue = !!action.due_date && action.due_date < toDueDate(new Date());
+            const statusLabel = action.status && action.status !== 'todo' ? STATUS_LABELS[action.status] : null;
+
+            return (
+              <TouchableOpacity
+                key={action.id}
+                style={[styles.card, { backgroundColor: theme.colors.card, borderColor: editingId === action.id ? theme.colors.primary : theme.colors.border }]}
+                onPress={() => toggleEditing(action.id)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.cardHeader}>
+                  <TouchableOpacity
+                    style={[styles.iconContainer, { backgroundColor: '#10B98120' }]}
+                    onPress={() => handleComplete(action)}
+                    disabled={savingId === action.id}
+                  >
+                    <IconSymbol ios_icon_name="circle" android_material_icon_name="radio-button-unchecked" size={22} color="#10B981" />
+                  </TouchableOpacity>
+                  <View style={styles.cardContent}>
+                    <View style={styles.titleRow}>
+                      <Text style={[styles.cardTitle, { color: theme.colors.text }]} numberOfLines={2}>{action.title}</Text>
+                      <View style={[styles.priorityBadge, { backgroundColor: getPriorityColor(action.priority) + '20' }]}>
+                        <Text style={[styles.priorityText, { color: getPriorityColor(action.priority) }]}>{action.priority}</Text>
+                      </View>
                     </View>
+                    {action.description && action.description !== action.title && (
+                      <Text style={[styles.cardDescription, { color: theme.colors.text }]} numberOfLines={2}>{action.description}</Text>
+                    )}
+                    {(assigneeName || action.due_date || statusLabel) && (
+                      <View style={styles.metaRow}>
+                        {statusLabel && (
+                          <Text style={[styles.metaText, { color: theme.colors.primary }]}>{statusLabel}</Text>
+                        )}
+                        {assigneeName && (
+                          <Text style={[styles.metaText, { color: theme.colors.text }]}>{assigneeName}</Text>
+                        )}
+                        {action.due_date && (
+                          <Text style={[styles.metaText, { color: overdue ? '#EF4444' : theme.colors.text }]}>
+                            {overdue ? 'Overdue' : 'Due'} {formatDueDate(action.due_date)}
+                          </Text>
+                        )}
+                      </View>
+                    )}
+                    <Text style={[styles.cardDate, { color: theme.colors.text }]}>
+                      {new Date(action.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                    <SourceMessageLink jobId={jobId} messageId={action.message_id} />
                   </View>
-                  {action.description && action.description !== action.title && (
-                    <Text style={[styles.cardDescription, { color: theme.colors.text }]} numberOfLines={2}>{action.description}</Text>
-                  )}
-                  <Text style={[styles.cardDate, { color: theme.colors.text }]}>
-                    {new Date(action.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
-                  </Text>
                 </View>
-              </View>
-            </View>
-          ))}
+                {editingId === action.id && renderEditor(action)}
+              </TouchableOpacity>
+            );
+          })}
         </ScrollView>
       ) : (
         <ScrollView
@@ -129,7 +328,7 @@ export default function ActionsScreen() {
         >
           <View style={styles.emptyContainer}>
             <View style={[styles.emptyIconContainer, { backgroundColor: '#10B98110' }]}>
-              <IconSymbol ios_icon_name="checkmark.circle" android_material_icon_name="check_circle" size={48} color="#10B981" style={{ opacity: 0.5 }} />
+              <IconSymbol ios_icon_name="checkmark.circle" android_material_icon_name="check-circle" size={48} color="#10B981" style={{ opacity: 0.5 }} />
             </View>
             <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>No Actions</Text>
             <Text style={[styles.emptyText, { color: theme.colors.text }]}>The AI hasn&apos;t detected any action items yet.</Text>
@@ -145,7 +344,6 @@ const styles = StyleSheet.create({
   header: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12, paddingTop: Platform.OS === 'android' ? 48 : 12, borderBottomWidth: 1 },
   backButton: { width: 40, height: 40, justifyContent: 'center', alignItems: 'center' },
   headerTitle: { flex: 1, fontSize: 18, fontWeight: '700', textAlign: 'center' },
-  headerSpacer: { width: 40 },
   loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center' },
   scrollView: { flex: 1 },
   content: { padding: 16, paddingBottom: 100 },
@@ -160,7 +358,17 @@ const styles = StyleSheet.create({
   priorityBadge: { paddingVertical: 4, paddingHorizontal: 8, borderRadius: 8 },
   priorityText: { fontSize: 11, fontWeight: '700', textTransform: 'uppercase' },
   cardDescription: { fontSize: 14, opacity: 0.7 },
+  metaRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 12 },
+  metaText: { fontSize: 13, fontWeight: '500', opacity: 0.8 },
   cardDate: { fontSize: 12, opacity: 0.5, marginTop: 4 },
+  editor: { marginTop: 12, paddingTop: 12, borderTopWidth: 1, gap: 8 },
+  editorLabel: { fontSize: 12, fontWeight: '600', opacity: 0.6, textTransform: 'uppercase', letterSpacing: 0.5 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 4 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16, borderWidth: 1 },
+  chipText: { fontSize: 13, fontWeight: '600' },
+  priorityChipText: { textTransform: 'capitalize' },
+  dueDateRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  clearText: { fontSize: 13, fontWeight: '600', color: '#EF4444' },
   emptyScrollContent: { flexGrow: 1 },
   emptyContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingHorizontal: 40, gap: 16, minHeight: 400 },
   emptyIconContainer: { width: 96, height: 96, borderRadius: 24, justifyContent: 'center', alignItems: 'center', marginBottom: 8 },
@@ -9,71 +9,82 @@ import {
   Platform,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
-
-interface AIChangeLogEntry {
-  timestamp: string;
-  section: string;
-  change_type: string;
-  previous_value?: any;
-  new_value?: any;
-  message_id?: string;
-  message_text?: string;
-  reason?: string;
-}
-
-interface ManualChangeLogEntry {
-  id: string;
-  action: string;
-  details: string;
-  created_at: string;
-  user_profiles?: {
-    display_name: string;
-  };
-}
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import { useAuth } from '@/contexts/AuthContext';
+import type { AIChangeLogEntry } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob, fetchManualChangelog, ManualChangeLogEntry, revertAIChange } from '@/services/jobs';
+import { fetchProfile } from '@/services/profiles';
 
 type CombinedEntry = {
   type: 'ai' | 'manual';
   timestamp: string;
   data: AIChangeLogEntry | ManualChangeLogEntry;
+  // Position in jobs.ai_changelog, needed to revert AI entries
+  logIndex?: number;
+};
+
+const REVERTIBLE_SECTIONS = [
+  'job_overview',
+  'open_issues',
+  'unanswered_questions',
+  'next_actions',
+  'warnings_and_risks',
+  'deadlines_and_timelines',
+  'dependencies',
+];
+
+const canRevertEntry = (entry: AIChangeLogEntry) => {
+  if (entry.reverted_at || !REVERTIBLE_SECTIONS.includes(entry.section)) {
+    return false;
+  }
+  if (entry.section === 'job_overview' || entry.change_type === 'created') {
+    return true;
+  }
+  return !!entry.previous_value && typeof entry.previous_value === 'object';
 };
 
 export default function ChangeLogScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
   const [entries, setEntries] = useState<CombinedEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const { user } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [revertingIndex, setRevertingIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchProfile(user.id).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading profile:', error);
+        return;
+      }
+      setIsAdmin(data.is_admin);
+    });
+  }, [user?.id]);
 
   const fetchChangelog = useCallback(async () => {
     try {
       setLoading(true);
 
       // Fetch AI changelog from jobs table
-      const { data: jobData, error: jobError } = await supabase
-        .from('jobs')
-        .select('ai_changelog')
-        .eq('id', jobId)
-        .single();
+      const { data: jobData, error: jobError } = await fetchJob(jobId);
 
       if (jobError) {
         console.error('Error fetching AI changelog:', jobError);
       }
 
       // Fetch manual changelog from changelog table
-      const { data: manualData, error: manualError } = await supabase
-        .from('changelog')
-        .select(`
-          *,
-          user_profiles!changelog_user_id_fkey(display_name)
-        `)
-        .eq('job_id', jobId)
-        .order('created_at', { ascending: false });
+      const { data: manualData, error: manualError } = await fetchManualChangelog(jobId);
 
       if (manualError) {
         console.error('Error fetching manual changelog:', manualError);
@@ -84,11 +95,12 @@ export default function ChangeLogScreen() {
 
       // Add AI changelog entries
       if (jobData?.ai_changelog && Array.isArray(jobData.ai_changelog)) {
-        jobData.ai_changelog.forEach((entry: AIChangeLogEntry) => {
+        jobData.ai_changelog.forEach((entry: AIChangeLogEntry, logIndex: number) => {
           combined.push({
             type: 'ai',
             timestamp: entry.timestamp,
             data: entry,
+            logIndex,
           });
         });
       }
@@ -121,6 +133,9 @@ export default function ChangeLogScreen() {
     fetchChangelog();
   }, [fetchChangelog]);
 
+  // Reload once a processing run has appended its entries
+  useJobRealtime(jobId, () => {}, () => fetchChangelog());
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await fetchChangelog();
@@ -213,7 +228,41 @@ export default function ChangeLogScreen() {
     }
   };
 
-  const renderAIEntry = (entry: AIChangeLogEntry, index: number) => {
+  const handleRevert = (entry: AIChangeLogEntry, logIndex: number) => {
+    Alert.alert(
+      'Revert Change',
+      `Undo this ${getChangeTypeLabel(entry.change_type).toLowerCase()} change to ${getSectionLabel(entry.section)}? The previous value will be restored.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setRevertingIndex(logIndex);
+
+              const { error } = await revertAIChange(jobId, logIndex, entry.timestamp);
+
+              if (error) {
+                console.error('Error reverting change:', error);
+                Alert.alert('Error', `Failed to revert change: ${error.message}`);
+                return;
+              }
+
+              await fetchChangelog();
+            } catch (error) {
+              console.error('Exception reverting change:', error);
+              Alert.alert('Error', 'An unexpected error occurred');
+            } finally {
+              setRevertingIndex(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderAIEntry = (entry: AIChangeLogEntry, index: number, logIndex?: number) => {
     const icon = getSectionIcon(entry.section);
     const changeLabel = getChangeTypeLabel(entry.change_type);
     const sectionLabel = getSectionLabel(entry.section);
@@ -252,6 +301,13 @@ export default function ChangeLogScreen() {
                     AI
                   </Text>
                 </View>
+                {entry.reverted_at && (
+                  <View style={[styles.aiBadge, { backgroundColor: '#EF444420' }]}>
+                    <Text style={[styles.aiBadgeText, { color: '#EF4444' }]}>
+                      Reverted
+                    </Text>
+                  </View>
+                )}
               </View>
               <Text style={[styles.timeText, { color: theme.colors.text }]}>
                 {formatTime(entry.timestamp)}
@@ -270,6 +326,30 @@ export default function ChangeLogScreen() {
                 </Text>
               </View>
             )}
+            <SourceMessageLink jobId={jobId} messageId={entry.message_id} />
+            {isAdmin && logIndex !== undefined && canRevertEntry(entry) && (
+              <TouchableOpacity
+                style={[styles.revertButton, { borderColor: theme.colors.border }]}
+                onPress={() => handleRevert(entry, logIndex)}
+                disabled={revertingIndex !== null}
+              >
+                {revertingIndex === logIndex ? (
+                  <ActivityIndicator size="small" color={theme.colors.text} />
+                ) : (
+                  <>
+                    <IconSymbol
+                      ios_icon_name="arrow.uturn.backward"
+                      android_material_icon_name="undo"
+                      size={14}
+                      color={theme.colors.text}
+                    />
+                    <Text style={[styles.revertButtonText, { color: theme.colors.text }]}>
+                      Revert
+                    </Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
@@ -404,7 +484,7 @@ export default function ChangeLogScreen() {
         ) : (
           entries.map((entry, index) => {
             if (entry.type === 'ai') {
-              return renderAIEntry(entry.data as AIChangeLogEntry, index);
+              return renderAIEntry(entry.data as AIChangeLogEntry, index, entry.logIndex);
             } else {
               return renderManualEntry(entry.data as ManualChangeLogEntry, index);
             }
@@ -545,6 +625,21 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     opacity: 0.7,
   },
+  revertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 4,
+  },
+  revertButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   userRow: {
     flexDirection: 'row',
     alignItems: 'center',
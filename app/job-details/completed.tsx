@@ -12,36 +12,19 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
-
-interface CompletedItem {
-  id: string;
-  item_text: string;
-  completed_by: string;
-  completed_at: string;
-  user_profiles?: {
-    display_name: string;
-  };
-}
+import { CompletedItem, fetchCompletedItems } from '@/services/jobs';
 
 export default function CompletedItemsScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
   const [items, setItems] = useState<CompletedItem[]>([]);
   const [loading, setLoading] = useState(true);
 
-  const fetchCompletedItems = useCallback(async () => {
+  const loadCompletedItems = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('completed_items')
-        .select(`
-          *,
-          user_profiles!completed_items_completed_by_fkey(display_name)
-        `)
-        .eq('job_id', jobId)
-        .order('completed_at', { ascending: false });
+      const { data, error } = await fetchCompletedItems(jobId);
 
       if (error) {
         console.error('Error fetching completed items:', error);
@@ -56,8 +39,8 @@ export default function CompletedItemsScreen() {
   }, [jobId]);
 
   useEffect(() => {
-    fetchCompletedItems();
-  }, [fetchCompletedItems]);
+    loadCompletedItems();
+  }, [loadCompletedItems]);
 
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -1,5 +1,5 @@
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,39 +13,29 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
+import CalendarExportCard from '@/components/job/CalendarExportCard';
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
 
-interface Deadline {
-  id: string;
-  title: string;
-  description: string;
-  deadline: string;
-  updated_at: string;
-  message_id?: string;
-}
-
-interface Job {
-  id: string;
-  job_name: string;
-  deadlines_and_timelines: Deadline[];
-}
+type DeadlinesJob = Pick<Job, 'id' | 'job_name' | 'deadlines_and_timelines'>;
 
 export default function DeadlinesScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
-  const [job, setJob] = useState<Job | null>(null);
+  // deadlineId is set when opening a deadline from the calendar
+  const { jobId, deadlineId } = useLocalSearchParams<{ jobId: string; deadlineId?: string }>();
+  const [job, setJob] = useState<DeadlinesJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const scrollViewRef = useRef<ScrollView>(null);
+  const scrolledToDeadline = useRef(false);
 
   const loadDeadlines = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('id, job_name, deadlines_and_timelines')
-        .eq('id', jobId)
-        .single();
+      const { data, error } = await fetchJob(jobId);
 
       if (error) {
         console.error('Error loading deadlines:', error);
@@ -64,6 +54,8 @@ export default function DeadlinesScreen() {
     loadDeadlines();
   }, [loadDeadlines]);
 
+  useJobRealtime(jobId, setJob);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadDeadlines();
@@ -109,7 +101,12 @@ export default function DeadlinesScreen() {
           <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow_back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Deadlines & Timelines</Text>
-        <View style={styles.headerSpacer} />
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.push(`/job-details/timeline?jobId=${jobId}`)}
+        >
+          <IconSymbol ios_icon_name="chart.bar.xaxis" android_material_icon_name="timeline" size={22} color={theme.colors.text} />
+        </TouchableOpacity>
       </View>
 
       {/* Content */}
@@ -120,6 +117,7 @@ export default function DeadlinesScreen() {
         </View>
       ) : deadlines.length > 0 ? (
         <ScrollView
+          ref={scrollViewRef}
           style={styles.scrollView}
           contentContainerStyle={styles.content}
           showsVerticalScrollIndicator={false}
@@ -146,13 +144,19 @@ export default function DeadlinesScreen() {
 
           {deadlines.map((deadline, index) => {
             const typeInfo = getTypeInfo(deadline.deadline);
+            const highlighted = deadline.id === deadlineId;
             return (
               <View 
                 key={index} 
                 style={[
                   styles.deadlineCard, 
-                  { backgroundColor: theme.colors.card, borderColor: typeInfo.color }
+                  { backgroundColor: highlighted ? theme.colors.primary + '15' : theme.colors.card, borderColor: typeInfo.color }
                 ]}
+                onLayout={(event) => {
+                  if (!highlighted || scrolledToDeadline.current) return;
+                  scrolledToDeadline.current = true;
+                  scrollViewRef.current?.scrollTo({ y: Math.max(0, event.nativeEvent.layout.y - 16), animated: true });
+                }}
               >
                 <View style={styles.deadlineHeader}>
                   <View style={[styles.typeTag, { backgroundColor: typeInfo.color + '20' }]}>
@@ -175,9 +179,17 @@ export default function DeadlinesScreen() {
                 {deadline.description && (
                   <Text style={[styles.deadlineDescription, { color: theme.colors.text }]}>{deadline.description}</Text>
                 )}
+                {deadline.original_deadline && deadline.original_deadline !== deadline.deadline && (
+                  <Text style={[styles.movedText, { color: typeInfo.color }]}>
+                    Moved from {formatDeadline(deadline.original_deadline)}
+                  </Text>
+                )}
+                <SourceMessageLink jobId={jobId} messageId={deadline.message_id} />
               </View>
             );
           })}
+
+          <CalendarExportCard jobId={jobId} />
         </ScrollView>
       ) : (
         <ScrollView
@@ -242,9 +254,6 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     textAlign: 'center',
   },
-  headerSpacer: {
-    width: 40,
-  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -356,4 +365,9 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     opacity: 0.8,
   },
+  movedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 6,
+  },
 });
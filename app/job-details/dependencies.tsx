@@ -1,5 +1,4 @@
-
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,38 +12,34 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
-
-interface Dependency {
-  id: string;
-  title: string;
-  description: string;
-  created_at: string;
-  message_id?: string;
-}
+import DependencyGraph, { NODE_TYPE_STYLES } from '@/components/job/DependencyGraph';
+import DependencyLinkEditor from '@/components/job/DependencyLinkEditor';
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Dependency, Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
+import { parseDeadline } from '@/utils/dates';
+import { analyzeDependencies, nodeKey } from '@/utils/dependencyGraph';
 
-interface Job {
-  id: string;
-  job_name: string;
-  dependencies: Dependency[];
-}
+type DependenciesJob = Pick<
+  Job,
+  'id' | 'job_name' | 'dependencies' | 'next_actions' | 'open_issues' | 'deadlines_and_timelines'
+>;
 
 export default function DependenciesScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
-  const [job, setJob] = useState<Job | null>(null);
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<DependenciesJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'graph'>('list');
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   const loadDependencies = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('id, job_name, dependencies')
-        .eq('id', jobId)
-        .single();
+      const { data, error } = await fetchJob(jobId);
 
       if (error) {
         console.error('Error loading dependencies:', error);
@@ -63,6 +58,8 @@ export default function DependenciesScreen() {
     loadDependencies();
   }, [loadDependencies]);
 
+  useJobRealtime(jobId, setJob);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadDependencies();
@@ -71,25 +68,184 @@ export default function DependenciesScreen() {
 
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
       day: 'numeric',
-      hour: 'numeric', 
-      minute: '2-digit' 
+      hour: 'numeric',
+      minute: '2-digit'
     });
   };
 
   const dependencies = job?.dependencies || [];
+  const analysis = useMemo(() => (job ? analyzeDependencies(job) : null), [job]);
+
+  const nodeTitles = useMemo(
+    () => new Map((analysis?.nodes || []).map((node) => [node.key, node.title])),
+    [analysis]
+  );
+
+  const renderSummary = () => {
+    if (!analysis) return null;
+
+    const { nearestDeadline, blockingChain, circular, unlinked, orphaned } = analysis;
+    const idleCount = unlinked.size + orphaned.size;
+    const blockerCount = [...blockingChain].filter((key) => key.startsWith('dependency:')).length;
+    const deadlineDate = nearestDeadline ? parseDeadline(nearestDeadline.deadline) : null;
+
+    return (
+      <View style={[styles.summaryCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+        {nearestDeadline ? (
+          <View style={styles.summaryRow}>
+            <IconSymbol ios_icon_name="flag.fill" android_material_icon_name="flag" size={18} color={blockerCount > 0 ? '#EF4444' : '#10B981'} />
+            <View style={styles.summaryText}>
+              <Text style={[styles.summaryTitle, { color: theme.colors.text }]}>
+                Next deadline: {nearestDeadline.title}
+                {deadlineDate ? ` · ${deadlineDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}` : ''}
+              </Text>
+              <Text style={[styles.summaryDetail, { color: blockerCount > 0 ? '#EF4444' : theme.colors.text }]}>
+                {blockerCount > 0
+                  ? `${blockerCount} ${blockerCount === 1 ? 'dependency is' : 'dependencies are'} holding it up`
+                  : 'No linked dependencies are holding it up'}
+              </Text>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.summaryRow}>
+            <IconSymbol ios_icon_name="calendar" android_material_icon_name="event" size={18} color={theme.colors.text} />
+            <Text style={[styles.summaryDetail, { color: theme.colors.text }]}>No upcoming deadlines</Text>
+          </View>
+        )}
+
+        {circular.size > 0 && (
+          <View style={styles.summaryRow}>
+            <IconSymbol ios_icon_name="arrow.triangle.2.circlepath" android_material_icon_name="sync-problem" size={18} color="#F97316" />
+            <Text style={[styles.summaryDetail, { color: '#F97316' }]}>
+              {circular.size} dependencies block each other in a loop
+            </Text>
+          </View>
+        )}
+
+        {idleCount > 0 && (
+          <View style={styles.summaryRow}>
+            <IconSymbol ios_icon_name="link.badge.plus" android_material_icon_name="link-off" size={18} color={theme.colors.text} />
+            <Text style={[styles.summaryDetail, { color: theme.colors.text }]}>
+              {idleCount === 1 ? '1 dependency doesn’t' : `${idleCount} dependencies don’t`} block anything yet
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderDependency = (dependency: Dependency) => {
+    const key = nodeKey('dependency', dependency.id);
+    const blocks = (dependency.blocks || []).filter((link) => nodeTitles.has(nodeKey(link.type, link.id)));
+    const onChain = analysis?.blockingChain.has(key);
+    const isCircular = analysis?.circular.has(key);
+    const isUnlinked = analysis?.unlinked.has(key);
+    const isOrphaned = analysis?.orphaned.has(key);
+    const isEditing = editingId === dependency.id;
+
+    return (
+      <View
+        key={dependency.id}
+        style={[
+          styles.dependencyCard,
+          { backgroundColor: theme.colors.card, borderColor: onChain ? '#EF4444' : theme.colors.border },
+        ]}
+      >
+        <View style={styles.dependencyHeader}>
+          <View style={[styles.iconContainer, { backgroundColor: '#8B5CF620' }]}>
+            <IconSymbol
+              ios_icon_name="link"
+              android_material_icon_name="link"
+              size={20}
+              color="#8B5CF6"
+            />
+          </View>
+          <View style={styles.dependencyContent}>
+            <Text style={[styles.dependencyTitle, { color: theme.colors.text }]}>{dependency.title}</Text>
+            {(onChain || isCircular || isUnlinked || isOrphaned) && (
+              <View style={styles.flagRow}>
+                {onChain && <Text style={[styles.flag, { color: '#EF4444', backgroundColor: '#EF444420' }]}>Holding up next deadline</Text>}
+                {isCircular && <Text style={[styles.flag, { color: '#F97316', backgroundColor: '#F9731620' }]}>Circular</Text>}
+                {isUnlinked && <Text style={[styles.flag, { color: theme.colors.text, backgroundColor: theme.colors.border }]}>Not linked yet</Text>}
+                {isOrphaned && <Text style={[styles.flag, { color: theme.colors.text, backgroundColor: theme.colors.border }]}>Orphaned</Text>}
+              </View>
+            )}
+            {dependency.description && (
+              <Text style={[styles.dependencyDescription, { color: theme.colors.text }]}>{dependency.description}</Text>
+            )}
+            {blocks.length > 0 && (
+              <View style={styles.blocksList}>
+                {blocks.map((link) => (
+                  <Text
+                    key={nodeKey(link.type, link.id)}
+                    style={[styles.blocksItem, { color: theme.colors.text }]}
+                    numberOfLines={1}
+                  >
+                    <Text style={{ color: NODE_TYPE_STYLES[link.type].color }}>Blocks {NODE_TYPE_STYLES[link.type].label.toLowerCase()}: </Text>
+                    {nodeTitles.get(nodeKey(link.type, link.id))}
+                  </Text>
+                ))}
+              </View>
+            )}
+            <Text style={[styles.dependencyDate, { color: theme.colors.text }]}>
+              Added: {formatTime(dependency.created_at)}
+            </Text>
+            <SourceMessageLink jobId={jobId} messageId={dependency.message_id} />
+          </View>
+          {!isEditing && (
+            <TouchableOpacity style={styles.linkButton} onPress={() => setEditingId(dependency.id)}>
+              <Text style={[styles.linkButtonText, { color: theme.colors.primary }]}>Link</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isEditing && job && (
+          <DependencyLinkEditor
+            jobId={jobId}
+            job={job}
+            dependency={dependency}
+            onSaved={(updated) => {
+              setJob(updated);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const selectedDependency = dependencies.find((dependency) => dependency.id === editingId);
 
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
       {/* Header */}
       <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
         <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
-          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow_back" size={24} color={theme.colors.text} />
+          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow-back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Dependencies</Text>
-        <View style={styles.headerSpacer} />
+        {dependencies.length > 0 ? (
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => {
+              setEditingId(null);
+              setViewMode((mode) => (mode === 'list' ? 'graph' : 'list'));
+            }}
+          >
+            <IconSymbol
+              ios_icon_name={viewMode === 'list' ? 'point.3.connected.trianglepath.dotted' : 'list.bullet'}
+              android_material_icon_name={viewMode === 'list' ? 'account-tree' : 'view-list'}
+              size={24}
+              color={theme.colors.text}
+            />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
       </View>
 
       {/* Content */}
@@ -103,6 +259,7 @@ export default function DependenciesScreen() {
           style={styles.scrollView}
           contentContainerStyle={styles.content}
           showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -115,7 +272,7 @@ export default function DependenciesScreen() {
           <View style={[styles.aiLabel, { backgroundColor: theme.colors.primary + '10', borderColor: theme.colors.primary + '30' }]}>
             <IconSymbol
               ios_icon_name="sparkles"
-              android_material_icon_name="auto_awesome"
+              android_material_icon_name="auto-awesome"
               size={14}
               color={theme.colors.primary}
             />
@@ -124,32 +281,34 @@ export default function DependenciesScreen() {
             </Text>
           </View>
 
-          {dependencies.map((dependency, index) => (
-            <View 
-              key={index} 
-              style={[styles.dependencyCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
-            >
-              <View style={styles.dependencyHeader}>
-                <View style={[styles.iconContainer, { backgroundColor: '#8B5CF620' }]}>
-                  <IconSymbol 
-                    ios_icon_name="link" 
-                    android_material_icon_name="link" 
-                    size={20} 
-                    color="#8B5CF6" 
-                  />
-                </View>
-                <View style={styles.dependencyContent}>
-                  <Text style={[styles.dependencyTitle, { color: theme.colors.text }]}>{dependency.title}</Text>
-                  {dependency.description && (
-                    <Text style={[styles.dependencyDescription, { color: theme.colors.text }]}>{dependency.description}</Text>
-                  )}
-                  <Text style={[styles.dependencyDate, { color: theme.colors.text }]}>
-                    Added: {formatTime(dependency.created_at)}
-                  </Text>
+          {renderSummary()}
+
+          {viewMode === 'graph' && analysis ? (
+            <>
+              <View style={[styles.graphCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+                <DependencyGraph
+                  analysis={analysis}
+                  selectedKey={editingId ? nodeKey('dependency', editingId) : null}
+                  onSelectDependency={(key) => setEditingId(key.slice('dependency:'.length))}
+                />
+                <View style={styles.legend}>
+                  {Object.values(NODE_TYPE_STYLES).map(({ label, color }) => (
+                    <View key={label} style={styles.legendItem}>
+                      <View style={[styles.legendDot, { backgroundColor: color }]} />
+                      <Text style={[styles.legendText, { color: theme.colors.text }]}>{label}</Text>
+                    </View>
+                  ))}
                 </View>
+                <Text style={[styles.graphHint, { color: theme.colors.text }]}>
+                  Tap a dependency to link it to what it blocks.
+                </Text>
               </View>
-            </View>
-          ))}
+
+              {selectedDependency && renderDependency(selectedDependency)}
+            </>
+          ) : (
+            dependencies.map(renderDependency)
+          )}
         </ScrollView>
       ) : (
         <ScrollView
@@ -166,12 +325,12 @@ export default function DependenciesScreen() {
         >
           <View style={styles.emptyContainer}>
             <View style={[styles.emptyIconContainer, { backgroundColor: '#8B5CF610' }]}>
-              <IconSymbol 
-                ios_icon_name="link" 
-                android_material_icon_name="link" 
-                size={48} 
-                color="#8B5CF6" 
-                style={{ opacity: 0.5 }} 
+              <IconSymbol
+                ios_icon_name="link"
+                android_material_icon_name="link"
+                size={48}
+                color="#8B5CF6"
+                style={{ opacity: 0.5 }}
               />
             </View>
             <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>
@@ -249,6 +408,64 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  summaryCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+  },
+  summaryText: {
+    flex: 1,
+    gap: 2,
+  },
+  summaryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  summaryDetail: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  graphCard: {
+    borderRadius: 16,
+    paddingVertical: 8,
+    marginBottom: 16,
+    borderWidth: 1,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  graphHint: {
+    fontSize: 12,
+    opacity: 0.5,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
   emptyScrollContent: {
     flexGrow: 1,
   },
@@ -322,4 +539,32 @@ const styles = StyleSheet.create({
     opacity: 0.5,
     marginTop: 4,
   },
+  flagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  flag: {
+    fontSize: 11,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  blocksList: {
+    marginTop: 4,
+    gap: 2,
+  },
+  blocksItem: {
+    fontSize: 13,
+  },
+  linkButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
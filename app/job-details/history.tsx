@@ -0,0 +1,341 @@
+
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import SummaryComparison from '@/components/job/SummaryComparison';
+import type { JobSummarySnapshot } from '@/app/integrations/supabase/types';
+import { fetchSummarySnapshots } from '@/services/snapshots';
+
+const formatSnapshotTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export default function SummaryHistoryScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [snapshots, setSnapshots] = useState<JobSummarySnapshot[]>([]);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await fetchSummarySnapshots(jobId);
+
+      if (error) {
+        console.error('Error fetching summary snapshots:', error);
+        return;
+      }
+
+      setSnapshots(data);
+
+      // Default to comparing the latest run against the one before it
+      setToId((current) => current ?? data[0]?.id ?? null);
+      setFromId((current) => current ?? data[1]?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching summary history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchHistory();
+    setRefreshing(false);
+  };
+
+  const fromSnapshot = snapshots.find((snapshot) => snapshot.id === fromId) || null;
+  const toSnapshot = snapshots.find((snapshot) => snapshot.id === toId) || null;
+
+  const comparison = useMemo(() => {
+    if (!fromSnapshot || !toSnapshot) return null;
+
+    // Always diff older -> newer, whichever way round they were picked
+    const [older, newer] =
+      new Date(fromSnapshot.created_at) <= new Date(toSnapshot.created_at)
+        ? [fromSnapshot, toSnapshot]
+        : [toSnapshot, fromSnapshot];
+
+    return { older, newer };
+  }, [fromSnapshot, toSnapshot]);
+
+  const renderSnapshotRow = (snapshot: JobSummarySnapshot) => {
+    const isFrom = snapshot.id === fromId;
+    const isTo = snapshot.id === toId;
+
+    return (
+      <View
+        key={snapshot.id}
+        style={[
+          styles.snapshotRow,
+          { borderColor: isFrom || isTo ? theme.colors.primary : theme.colors.border },
+        ]}
+      >
+        <View style={styles.snapshotInfo}>
+          <Text style={[styles.snapshotTime, { color: theme.colors.text }]}>
+            {formatSnapshotTime(snapshot.created_at)}
+          </Text>
+          <Text style={[styles.snapshotMeta, { color: theme.colors.text }]}>
+            {snapshot.messages_processed > 0
+              ? `${snapshot.messages_processed} message${snapshot.messages_processed === 1 ? '' : 's'} processed`
+              : 'Generated from scope'}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[
+            styles.pickButton,
+            { borderColor: theme.colors.border },
+            isFrom && { backgroundColor: '#EF4444', borderColor: '#EF4444' },
+          ]}
+          onPress={() => setFromId(snapshot.id)}
+        >
+          <Text style={[styles.pickButtonText, { color: isFrom ? '#fff' : theme.colors.text }]}>From</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.pickButton,
+            { borderColor: theme.colors.border },
+            isTo && { backgroundColor: '#10B981', borderColor: '#10B981' },
+          ]}
+          onPress={() => setToId(snapshot.id)}
+        >
+          <Text style={[styles.pickButtonText, { color: isTo ? '#fff' : theme.colors.text }]}>To</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderComparison = () => {
+    if (!comparison) {
+      return (
+        <Text style={[styles.hintText, { color: theme.colors.text }]}>
+          Pick two snapshots to compare
+        </Text>
+      );
+    }
+
+    if (comparison.older.id === comparison.newer.id) {
+      return (
+        <Text style={[styles.hintText, { color: theme.colors.text }]}>
+          Pick two different snapshots to compare
+        </Text>
+      );
+    }
+
+    return (
+      <SummaryComparison
+        before={comparison.older}
+        after={comparison.newer}
+        beforeLabel={formatSnapshotTime(comparison.older.created_at)}
+        afterLabel={formatSnapshotTime(comparison.newer.created_at)}
+      />
+    );
+  };
+
+  const header = (
+    <View
+      style={[
+        styles.header,
+        { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border },
+      ]}
+    >
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <IconSymbol
+          ios_icon_name="chevron.left"
+          android_material_icon_name="arrow-back"
+          size={24}
+          color={theme.colors.text}
+        />
+      </TouchableOpacity>
+      <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Summary History</Text>
+      <View style={styles.headerSpacer} />
+    </View>
+  );
+
+  if (loading && snapshots.length === 0) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {header}
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+      >
+        {snapshots.length === 0 ? (
+          <View style={styles.emptyState}>
+            <IconSymbol
+              ios_icon_name="clock.arrow.circlepath"
+              android_material_icon_name="restore"
+              size={64}
+              color={theme.colors.text}
+              style={{ opacity: 0.3 }}
+            />
+            <Text style={[styles.emptyStateText, { color: theme.colors.text }]}>
+              No history yet
+            </Text>
+            <Text style={[styles.emptyStateSubtext, { color: theme.colors.text }]}>
+              A snapshot of the summary is saved every time chat messages are processed
+            </Text>
+          </View>
+        ) : (
+          <>
+            {renderComparison()}
+
+            <Text style={[styles.listTitle, { color: theme.colors.text }]}>
+              Snapshots ({snapshots.length})
+            </Text>
+            {snapshots.map(renderSnapshotRow)}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: Platform.OS === 'android' ? 48 : 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+    opacity: 0.7,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    opacity: 0.5,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.6,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  listTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  snapshotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  snapshotInfo: {
+    flex: 1,
+  },
+  snapshotTime: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  snapshotMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  pickButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  pickButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
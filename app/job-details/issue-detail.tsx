@@ -1,5 +1,4 @@
-
-import React from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,96 +6,463 @@ import {
   ScrollView,
   TouchableOpacity,
   Platform,
+  ActivityIndicator,
+  Alert,
+  Image,
+  TextInput,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import * as ImagePicker from 'expo-image-picker';
 import { IconSymbol } from '@/components/IconSymbol';
+import IssueStatusBadge, { ISSUE_STATUSES } from '@/components/job/IssueStatusBadge';
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Job, Priority } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJobMembers } from '@/services/invitations';
+import {
+  addIssueComment,
+  addIssuePhoto,
+  fetchIssuePhotoUrls,
+  IssueChanges,
+  updateIssue,
+} from '@/services/issues';
+import { fetchJob } from '@/services/jobs';
+import type { PublicProfile } from '@/services/profiles';
+import { formatDueDate, parseDueDate, toDueDate } from '@/utils/dates';
+
+const PRIORITIES: { priority: Priority; label: string; color: string }[] = [
+  { priority: 'high', label: 'High', color: '#EF4444' },
+  { priority: 'medium', label: 'Medium', color: '#F59E0B' },
+  { priority: 'low', label: 'Low', color: '#10B981' },
+];
+
+const formatDateTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
 
 export default function IssueDetailScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { issueId, issueNumber } = useLocalSearchParams();
+  const { jobId, issueId } = useLocalSearchParams<{ jobId: string; issueId: string }>();
+  const [job, setJob] = useState<Job | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [members, setMembers] = useState<PublicProfile[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [comment, setComment] = useState('');
+  const [postingComment, setPostingComment] = useState(false);
 
-  return (
-    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
-      {/* Header */}
-      <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
-        <TouchableOpacity
-          style={styles.backButton}
-          onPress={() => router.back()}
-        >
-          <IconSymbol
-            ios_icon_name="chevron.left"
-            android_material_icon_name="arrow_back"
-            size={24}
-            color={theme.colors.text}
-          />
-        </TouchableOpacity>
-        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Issue #{issueNumber}</Text>
-        <View style={styles.headerSpacer} />
-      </View>
+  const issue = useMemo(
+    () => job?.open_issues?.find((item) => item.id === issueId) ?? null,
+    [job, issueId]
+  );
 
-      {/* Content */}
-      <ScrollView
-        style={styles.scrollView}
-        contentContainerStyle={styles.content}
-        showsVerticalScrollIndicator={false}
-      >
+  const loadIssue = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await fetchJob(jobId);
+
+      if (error) {
+        console.error('Error loading issue:', error);
+        return;
+      }
+
+      setJob(data);
+
+      const { data: profiles, error: membersError } = await fetchJobMembers(data);
+
+      if (membersError) {
+        console.error('Error loading job members:', membersError);
+      } else {
+        setMembers(profiles);
+      }
+    } catch (error) {
+      console.error('Exception loading issue:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    loadIssue();
+  }, [loadIssue]);
+
+  useJobRealtime(jobId, setJob);
+
+  const photoPaths = useMemo(() => (issue?.photos ?? []).map((photo) => photo.path), [issue]);
+
+  useEffect(() => {
+    const missingPaths = photoPaths.filter((path) => !photoUrls[path]);
+    if (missingPaths.length === 0) return;
+
+    fetchIssuePhotoUrls(missingPaths).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading issue photos:', error);
+      } else if (Object.keys(data).length > 0) {
+        setPhotoUrls((prev) => ({ ...prev, ...data }));
+      }
+    });
+  }, [photoPaths, photoUrls]);
+
+  const getMemberName = (userId?: string | null) =>
+    members.find((member) => member.user_id === userId)?.display_name || 'Unknown user';
+
+  const saveChanges = async (changes: IssueChanges) => {
+    try {
+      setSaving(true);
+
+      const { data, error } = await updateIssue(jobId, issueId, changes);
+
+      if (error) {
+        console.error('Error updating issue:', error);
+        Alert.alert('Error', `Failed to update issue: ${error.message}`);
+        return;
+      }
+
+      setJob(data);
+    } catch (error) {
+      console.error('Exception updating issue:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDateChange = (event: DateTimePickerEvent, date?: Date) => {
+    setShowDatePicker(false);
+
+    if (event.type === 'set' && date) {
+      saveChanges({ due_date: toDueDate(date) });
+    }
+  };
+
+  const uploadPhoto = async (result: ImagePicker.ImagePickerResult) => {
+    if (result.canceled || result.assets.length === 0) return;
+
+    const asset = result.assets[0];
+
+    try {
+      setUploadingPhoto(true);
+
+      const { data, error } = await addIssuePhoto(jobId, issueId, asset.uri, asset.mimeType ?? undefined);
+
+      if (error) {
+        console.error('Error adding issue photo:', error);
+        Alert.alert('Error', `Failed to upload photo: ${error.message}`);
+        return;
+      }
+
+      setJob(data);
+    } catch (error) {
+      console.error('Exception adding issue photo:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setUploadingPhoto(false);
+    }
+  };
+
+  const takePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+
+    if (!permission.granted) {
+      Alert.alert('Camera Access', 'Allow camera access in Settings to take issue photos.');
+      return;
+    }
+
+    uploadPhoto(await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.7 }));
+  };
+
+  const choosePhoto = async () => {
+    uploadPhoto(await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], quality: 0.7 }));
+  };
+
+  const handleAddPhoto = () => {
+    Alert.alert('Add Photo', undefined, [
+      { text: 'Take Photo', onPress: takePhoto },
+      { text: 'Choose from Library', onPress: choosePhoto },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handlePostComment = async () => {
+    const text = comment.trim();
+    if (!text) return;
+
+    try {
+      setPostingComment(true);
+
+      const { data, error } = await addIssueComment(jobId, issueId, text);
+
+      if (error) {
+        console.error('Error adding comment:', error);
+        Alert.alert('Error', `Failed to add comment: ${error.message}`);
+        return;
+      }
+
+      setJob(data);
+      setComment('');
+    } catch (error) {
+      console.error('Exception adding comment:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setPostingComment(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, color: string, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? color : theme.colors.border },
+        selected && { backgroundColor: color + '20' },
+      ]}
+      onPress={onPress}
+      disabled={saving}
+    >
+      <Text style={[styles.chipText, { color: selected ? color : theme.colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderIssue = () => {
+    if (!issue) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>Issue not found</Text>
+          <Text style={[styles.emptyText, { color: theme.colors.text }]}>
+            It may have been resolved by the AI and moved to Completed Items.
+          </Text>
+        </View>
+      );
+    }
+
+    const comments = issue.comments ?? [];
+    const photos = issue.photos ?? [];
+
+    return (
+      <>
         <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
-          <View style={[styles.statusBadge, { backgroundColor: '#F59E0B20' }]}>
-            <Text style={[styles.statusText, { color: '#F59E0B' }]}>Open</Text>
+          <View style={styles.titleRow}>
+            <IssueStatusBadge status={issue.status} />
+            {saving && <ActivityIndicator size="small" color={theme.colors.primary} />}
           </View>
-          
-          <Text style={[styles.title, { color: theme.colors.text }]}>
-            Electrical conduit blocking tank B access
+
+          <Text style={[styles.title, { color: theme.colors.text }]}>{issue.title}</Text>
+
+          {issue.description && issue.description !== issue.title && (
+            <Text style={[styles.description, { color: theme.colors.text }]}>{issue.description}</Text>
+          )}
+
+          <Text style={[styles.metaText, { color: theme.colors.text }]}>
+            Created {formatDateTime(issue.created_at)}
+            {issue.updated_at ? ` · Updated ${formatDateTime(issue.updated_at)}` : ''}
           </Text>
+          <SourceMessageLink jobId={jobId} messageId={issue.message_id} />
+        </View>
 
+        <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
           <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Assigned To</Text>
-            <View style={styles.assignedRow}>
-              <IconSymbol
-                ios_icon_name="person.circle.fill"
-                android_material_icon_name="account_circle"
-                size={24}
-                color={theme.colors.primary}
-              />
-              <Text style={[styles.sectionValue, { color: theme.colors.text }]}>
-                Rogers (Electrician)
-              </Text>
+            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Status</Text>
+            <View style={styles.chipRow}>
+              {ISSUE_STATUSES.map(({ status, label, color }) =>
+                renderChip(status, label, (issue.status ?? 'open') === status, color, () =>
+                  saveChanges({ status })
+                )
+              )}
             </View>
           </View>
 
           <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Last Updated</Text>
-            <Text style={[styles.sectionValue, { color: theme.colors.text }]}>
-              Today at 11:42 AM
-            </Text>
+            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Assigned To</Text>
+            <View style={styles.chipRow}>
+              {renderChip('unassigned', 'Unassigned', !issue.assigned_to, theme.colors.primary, () =>
+                saveChanges({ assigned_to: null })
+              )}
+              {members.map((member) =>
+                renderChip(
+                  member.user_id,
+                  member.display_name || 'Unknown user',
+                  issue.assigned_to === member.user_id,
+                  theme.colors.primary,
+                  () => saveChanges({ assigned_to: member.user_id })
+                )
+              )}
+            </View>
           </View>
 
           <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Description</Text>
-            <Text style={[styles.description, { color: theme.colors.text }]}>
-              The electrical conduit installed yesterday is blocking access to the maintenance hatch on Tank B. 
-              The rope access team cannot proceed with their inspection until this is resolved. 
-              The conduit needs to be rerouted approximately 2 feet to the east to provide adequate clearance.
-            </Text>
+            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Priority</Text>
+            <View style={styles.chipRow}>
+              {PRIORITIES.map(({ priority, label, color }) =>
+                renderChip(priority, label, issue.priority === priority, color, () =>
+                  // Tapping the selected priority clears it
+                  saveChanges({ priority: issue.priority === priority ? null : priority })
+                )
+              )}
+            </View>
           </View>
 
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Priority</Text>
-            <View style={[styles.priorityBadge, { backgroundColor: '#EF444420' }]}>
-              <Text style={[styles.priorityText, { color: '#EF4444' }]}>High</Text>
+          <View style={[styles.section, styles.lastSection]}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Due Date</Text>
+            <View style={styles.dueDateRow}>
+              <TouchableOpacity
+                style={[styles.dueDateButton, { borderColor: theme.colors.border }]}
+                onPress={() => setShowDatePicker(true)}
+                disabled={saving}
+              >
+                <IconSymbol
+                  ios_icon_name="calendar"
+                  android_material_icon_name="event"
+                  size={18}
+                  color={theme.colors.primary}
+                />
+                <Text style={[styles.dueDateText, { color: theme.colors.text }]}>
+                  {issue.due_date
+                    ? formatDueDate(issue.due_date, {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })
+                    : 'No due date'}
+                </Text>
+              </TouchableOpacity>
+              {issue.due_date && (
+                <TouchableOpacity onPress={() => saveChanges({ due_date: null })} disabled={saving}>
+                  <Text style={styles.clearText}>Clear</Text>
+                </TouchableOpacity>
+              )}
             </View>
+            {showDatePicker && (
+              <DateTimePicker
+                value={issue.due_date ? parseDueDate(issue.due_date) : new Date()}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                onChange={handleDateChange}
+              />
+            )}
           </View>
+        </View>
 
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Created</Text>
-            <Text style={[styles.sectionValue, { color: theme.colors.text }]}>
-              Yesterday at 3:15 PM by Sarah Chen
-            </Text>
+        <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Photos ({photos.length})</Text>
+            <TouchableOpacity style={styles.addButton} onPress={handleAddPhoto} disabled={uploadingPhoto}>
+              {uploadingPhoto ? (
+                <ActivityIndicator size="small" color={theme.colors.primary} />
+              ) : (
+                <IconSymbol
+                  ios_icon_name="camera"
+                  android_material_icon_name="photo-camera"
+                  size={18}
+                  color={theme.colors.primary}
+                />
+              )}
+              <Text style={[styles.addButtonText, { color: theme.colors.primary }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {photos.length === 0 ? (
+            <Text style={[styles.hintText, { color: theme.colors.text }]}>No photos attached</Text>
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoRow}>
+              {photos.map((photo) =>
+                photoUrls[photo.path] ? (
+                  <Image key={photo.id} source={{ uri: photoUrls[photo.path] }} style={styles.photo} />
+                ) : (
+                  <View key={photo.id} style={[styles.photo, { backgroundColor: theme.colors.border }]} />
+                )
+              )}
+            </ScrollView>
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Comments ({comments.length})</Text>
+
+          {comments.map((item) => (
+            <View key={item.id} style={[styles.comment, { borderColor: theme.colors.border }]}>
+              <Text style={[styles.commentAuthor, { color: theme.colors.text }]}>
+                {getMemberName(item.user_id)}
+                <Text style={styles.commentTime}> · {formatDateTime(item.created_at)}</Text>
+              </Text>
+              <Text style={[styles.commentText, { color: theme.colors.text }]}>{item.text}</Text>
+            </View>
+          ))}
+
+          <View style={styles.commentInputRow}>
+            <TextInput
+              style={[styles.commentInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Add a comment..."
+              placeholderTextColor={theme.colors.text + '60'}
+              value={comment}
+              onChangeText={setComment}
+              multiline
+            />
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                { backgroundColor: theme.colors.primary, opacity: comment.trim() && !postingComment ? 1 : 0.4 },
+              ]}
+              onPress={handlePostComment}
+              disabled={!comment.trim() || postingComment}
+            >
+              <IconSymbol
+                ios_icon_name="arrow.up"
+                android_material_icon_name="send"
+                size={18}
+                color="#fff"
+              />
+            </TouchableOpacity>
           </View>
         </View>
-      </ScrollView>
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <IconSymbol
+            ios_icon_name="chevron.left"
+            android_material_icon_name="arrow-back"
+            size={24}
+            color={theme.colors.text}
+          />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Issue</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Content */}
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderIssue()}
+        </ScrollView>
+      )}
     </View>
   );
 }
@@ -128,6 +494,11 @@ const styles = StyleSheet.create({
   headerSpacer: {
     width: 40,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -138,30 +509,48 @@ const styles = StyleSheet.create({
   card: {
     borderRadius: 16,
     padding: 20,
+    marginBottom: 12,
     borderWidth: 1,
     boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.06)',
     elevation: 2,
   },
-  statusBadge: {
-    alignSelf: 'flex-start',
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 8,
-    marginBottom: 16,
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
   },
-  statusText: {
-    fontSize: 14,
+  cardTitle: {
+    fontSize: 16,
     fontWeight: '700',
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
   title: {
     fontSize: 22,
     fontWeight: '700',
-    marginBottom: 24,
+    marginBottom: 12,
     lineHeight: 30,
   },
+  description: {
+    fontSize: 15,
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  metaText: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
   section: {
     marginBottom: 20,
   },
+  lastSection: {
+    marginBottom: 0,
+  },
   sectionLabel: {
     fontSize: 13,
     fontWeight: '600',
@@ -170,27 +559,118 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
-  sectionValue: {
-    fontSize: 16,
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dueDateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dueDateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  dueDateText: {
+    fontSize: 15,
     fontWeight: '500',
   },
-  assignedRow: {
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  addButton: {
     flexDirection: 'row',
     alignItems: 'center',
+    gap: 4,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  photoRow: {
     gap: 8,
   },
-  description: {
+  photo: {
+    width: 120,
+    height: 120,
+    borderRadius: 10,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.5,
+  },
+  comment: {
+    borderTopWidth: 1,
+    paddingVertical: 10,
+  },
+  commentAuthor: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  commentTime: {
+    fontWeight: '400',
+    opacity: 0.5,
+  },
+  commentText: {
     fontSize: 15,
-    lineHeight: 22,
+    lineHeight: 21,
+  },
+  commentInputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    marginTop: 12,
   },
-  priorityBadge: {
-    alignSelf: 'flex-start',
+  commentInput: {
+    flex: 1,
+    minHeight: 40,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderRadius: 12,
     paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 8,
+    paddingTop: 10,
+    paddingBottom: 10,
+    fontSize: 15,
   },
-  priorityText: {
-    fontSize: 14,
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 18,
     fontWeight: '700',
   },
+  emptyText: {
+    fontSize: 15,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
 });
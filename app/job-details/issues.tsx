@@ -13,38 +13,27 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
+import IssueStatusBadge from '@/components/job/IssueStatusBadge';
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Issue, Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
+import { formatDueDate } from '@/utils/dates';
 
-interface Issue {
-  id: string;
-  title: string;
-  description: string;
-  created_at: string;
-  message_id?: string;
-}
-
-interface Job {
-  id: string;
-  job_name: string;
-  open_issues: Issue[];
-}
+type IssuesJob = Pick<Job, 'id' | 'job_name' | 'open_issues'>;
 
 export default function IssuesScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
-  const [job, setJob] = useState<Job | null>(null);
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<IssuesJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadIssues = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('id, job_name, open_issues')
-        .eq('id', jobId)
-        .single();
+      const { data, error } = await fetchJob(jobId);
 
       if (error) {
         console.error('Error loading issues:', error);
@@ -63,6 +52,8 @@ export default function IssuesScreen() {
     loadIssues();
   }, [loadIssues]);
 
+  useJobRealtime(jobId, setJob);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadIssues();
@@ -141,6 +132,7 @@ export default function IssuesScreen() {
                   />
                 </View>
                 <View style={styles.cardContent}>
+                  <IssueStatusBadge status={issue.status} />
                   <Text style={[styles.cardTitle, { color: theme.colors.text }]} numberOfLines={2}>
                     {issue.title}
                   </Text>
@@ -156,7 +148,9 @@ export default function IssuesScreen() {
                       hour: '2-digit',
                       minute: '2-digit',
                     })}
+                    {issue.due_date ? ` · Due ${formatDueDate(issue.due_date)}` : ''}
                   </Text>
+                  <SourceMessageLink jobId={jobId} messageId={issue.message_id} />
                 </View>
                 <IconSymbol
                   ios_icon_name="chevron.right"
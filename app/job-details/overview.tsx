@@ -13,34 +13,31 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
+import type { Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
+import { fetchLatestScopeSummary, ScopeSummary } from '@/services/scopeDocuments';
 
-interface Job {
-  id: string;
-  job_name: string;
-  job_overview: string | null;
-  last_processed_at: string | null;
-  processing_status: string;
-  open_issues: any[];
-  unanswered_questions: any[];
-  next_actions: any[];
-  warnings_and_risks: any[];
-  dependencies: any[];
-}
-
-interface ScopeDocument {
-  id: string;
-  summary: string;
-  file_name: string | null;
-  created_at: string;
-}
+type OverviewJob = Pick<
+  Job,
+  | 'id'
+  | 'job_name'
+  | 'job_overview'
+  | 'last_processed_at'
+  | 'processing_status'
+  | 'open_issues'
+  | 'unanswered_questions'
+  | 'next_actions'
+  | 'warnings_and_risks'
+  | 'dependencies'
+>;
 
 export default function JobOverviewScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
-  const [job, setJob] = useState<Job | null>(null);
-  const [scopeDocument, setScopeDocument] = useState<ScopeDocument | null>(null);
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<OverviewJob | null>(null);
+  const [scopeDocument, setScopeDocument] = useState<ScopeSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -49,11 +46,7 @@ export default function JobOverviewScreen() {
       setLoading(true);
       
       // Load job data
-      const { data: jobData, error: jobError } = await supabase
-        .from('jobs')
-        .select('id, job_name, job_overview, last_processed_at, processing_status, open_issues, unanswered_questions, next_actions, warnings_and_risks, dependencies')
-        .eq('id', jobId)
-        .single();
+      const { data: jobData, error: jobError } = await fetchJob(jobId);
 
       if (jobError) {
         console.error('Error loading job overview:', jobError);
@@ -64,13 +57,7 @@ export default function JobOverviewScreen() {
         // If job_overview is empty, try to load the most recent scope document
         if (!jobData.job_overview || jobData.job_overview.trim() === '') {
           console.log('Job overview is empty, loading scope document...');
-          const { data: scopeData, error: scopeError } = await supabase
-            .from('scope_documents')
-            .select('id, summary, file_name, created_at')
-            .eq('job_id', jobId)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .single();
+          const { data: scopeData, error: scopeError } = await fetchLatestScopeSummary(jobId);
 
           if (scopeError) {
             console.error('Error loading scope document:', scopeError);
@@ -91,6 +78,8 @@ export default function JobOverviewScreen() {
     loadJobOverview();
   }, [loadJobOverview]);
 
+  useJobRealtime(jobId, setJob);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadJobOverview();
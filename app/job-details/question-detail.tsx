@@ -1,5 +1,4 @@
-
-import React from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,15 +6,151 @@ import {
   ScrollView,
   TouchableOpacity,
   Platform,
+  ActivityIndicator,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
+import QuestionAnswerForm from '@/components/job/QuestionAnswerForm';
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
+import { fetchPublicProfiles } from '@/services/profiles';
+
+type QuestionJob = Pick<Job, 'id' | 'unanswered_questions' | 'resolved_questions'>;
+
+const formatDateTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
 
 export default function QuestionDetailScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { questionId } = useLocalSearchParams();
+  const { jobId, questionId } = useLocalSearchParams<{ jobId: string; questionId: string }>();
+  const [job, setJob] = useState<QuestionJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [answeredByName, setAnsweredByName] = useState<string | null>(null);
+
+  const loadQuestion = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await fetchJob(jobId);
+
+      if (error) {
+        console.error('Error loading question:', error);
+      } else {
+        setJob(data);
+      }
+    } catch (error) {
+      console.error('Exception loading question:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    loadQuestion();
+  }, [loadQuestion]);
+
+  useJobRealtime(jobId, setJob);
+
+  const openQuestion = useMemo(
+    () => job?.unanswered_questions?.find((question) => question.id === questionId) ?? null,
+    [job, questionId]
+  );
+  const resolvedQuestion = useMemo(
+    () => job?.resolved_questions?.find((question) => question.id === questionId) ?? null,
+    [job, questionId]
+  );
+
+  const answeredBy = resolvedQuestion?.answered_by;
+
+  useEffect(() => {
+    if (!answeredBy) return;
+
+    fetchPublicProfiles([answeredBy]).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading profile:', error);
+      } else {
+        setAnsweredByName(data[0]?.display_name || null);
+      }
+    });
+  }, [answeredBy]);
+
+  const renderQuestion = () => {
+    const question = openQuestion ?? resolvedQuestion;
+
+    if (!question) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>Question not found</Text>
+        </View>
+      );
+    }
+
+    const status = openQuestion
+      ? { label: 'Unanswered', color: '#3B82F6' }
+      : resolvedQuestion?.not_applicable
+        ? { label: 'Not Applicable', color: '#6B7280' }
+        : { label: 'Answered', color: '#10B981' };
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+        <View style={[styles.statusBadge, { backgroundColor: status.color + '20' }]}>
+          <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+        </View>
+
+        <Text style={[styles.question, { color: theme.colors.text }]}>{question.question}</Text>
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Asked</Text>
+          <Text style={[styles.sectionValue, { color: theme.colors.text }]}>
+            {formatDateTime(question.asked_at)}
+          </Text>
+          {openQuestion && <SourceMessageLink jobId={jobId} messageId={openQuestion.message_id} />}
+        </View>
+
+        {resolvedQuestion ? (
+          <>
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>
+                {resolvedQuestion.not_applicable ? 'Reason' : 'Answer'}
+              </Text>
+              <Text style={[styles.context, { color: theme.colors.text }]}>{resolvedQuestion.answer}</Text>
+              <SourceMessageLink jobId={jobId} messageId={resolvedQuestion.message_id} />
+            </View>
+
+            <View style={[styles.section, styles.lastSection]}>
+              <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Resolved</Text>
+              <View style={styles.answeredByRow}>
+                <IconSymbol
+                  ios_icon_name={resolvedQuestion.answered_by ? 'person.circle.fill' : 'sparkles'}
+                  android_material_icon_name={resolvedQuestion.answered_by ? 'account-circle' : 'auto-awesome'}
+                  size={24}
+                  color={theme.colors.primary}
+                />
+                <Text style={[styles.sectionValue, { color: theme.colors.text }]}>
+                  {resolvedQuestion.answered_by ? answeredByName || 'Job member' : 'Detected by AI'}
+                  {' · '}
+                  {formatDateTime(resolvedQuestion.answered_at)}
+                </Text>
+              </View>
+            </View>
+          </>
+        ) : (
+          <View style={[styles.section, styles.lastSection]}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Answer</Text>
+            <QuestionAnswerForm jobId={jobId} questionId={questionId} onResolved={setJob} />
+          </View>
+        )}
+      </View>
+    );
+  };
 
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -27,7 +162,7 @@ export default function QuestionDetailScreen() {
         >
           <IconSymbol
             ios_icon_name="chevron.left"
-            android_material_icon_name="arrow_back"
+            android_material_icon_name="arrow-back"
             size={24}
             color={theme.colors.text}
           />
@@ -37,61 +172,20 @@ export default function QuestionDetailScreen() {
       </View>
 
       {/* Content */}
-      <ScrollView
-        style={styles.scrollView}
-        contentContainerStyle={styles.content}
-        showsVerticalScrollIndicator={false}
-      >
-        <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
-          <View style={[styles.statusBadge, { backgroundColor: '#3B82F620' }]}>
-            <Text style={[styles.statusText, { color: '#3B82F6' }]}>Unanswered</Text>
-          </View>
-          
-          <Text style={[styles.question, { color: theme.colors.text }]}>
-            Has anchor approval been granted for south wall?
-          </Text>
-
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Asked By</Text>
-            <View style={styles.askedByRow}>
-              <IconSymbol
-                ios_icon_name="person.circle.fill"
-                android_material_icon_name="account_circle"
-                size={24}
-                color={theme.colors.primary}
-              />
-              <Text style={[styles.sectionValue, { color: theme.colors.text }]}>
-                Thompson (Rope Access Lead)
-              </Text>
-            </View>
-          </View>
-
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Asked</Text>
-            <Text style={[styles.sectionValue, { color: theme.colors.text }]}>
-              Today at 9:33 AM
-            </Text>
-          </View>
-
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Context</Text>
-            <Text style={[styles.context, { color: theme.colors.text }]}>
-              The rope access team needs to begin work on the south wall inspection, but they require 
-              confirmation that all anchor points have been approved by the safety coordinator before 
-              proceeding. This is a critical safety requirement that must be verified before any climbing operations.
-            </Text>
-          </View>
-
-          <View style={styles.section}>
-            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>Related To</Text>
-            <View style={[styles.relatedBadge, { backgroundColor: theme.colors.primary + '20' }]}>
-              <Text style={[styles.relatedText, { color: theme.colors.primary }]}>
-                Safety Compliance
-              </Text>
-            </View>
-          </View>
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
         </View>
-      </ScrollView>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderQuestion()}
+        </ScrollView>
+      )}
     </View>
   );
 }
@@ -123,6 +217,11 @@ const styles = StyleSheet.create({
   headerSpacer: {
     width: 40,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -157,6 +256,9 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 20,
   },
+  lastSection: {
+    marginBottom: 0,
+  },
   sectionLabel: {
     fontSize: 13,
     fontWeight: '600',
@@ -169,7 +271,7 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
-  askedByRow: {
+  answeredByRow: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 8,
@@ -178,14 +280,12 @@ const styles = StyleSheet.create({
     fontSize: 15,
     lineHeight: 22,
   },
-  relatedBadge: {
-    alignSelf: 'flex-start',
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 8,
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
   },
-  relatedText: {
-    fontSize: 14,
-    fontWeight: '600',
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '700',
   },
 });
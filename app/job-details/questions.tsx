@@ -13,48 +13,28 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
+import QuestionAnswerForm from '@/components/job/QuestionAnswerForm';
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Job, Question, ResolvedQuestion } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
 
-interface Question {
-  id: string;
-  question: string;
-  asked_at: string;
-  message_id?: string;
-}
-
-interface ResolvedQuestion {
-  id: string;
-  question: string;
-  answer: string;
-  asked_at: string;
-  answered_at: string;
-  message_id?: string;
-}
-
-interface Job {
-  id: string;
-  job_name: string;
-  unanswered_questions: Question[];
-  resolved_questions: ResolvedQuestion[];
-}
+type QuestionsJob = Pick<Job, 'id' | 'job_name' | 'unanswered_questions' | 'resolved_questions'>;
 
 export default function QuestionsScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
-  const [job, setJob] = useState<Job | null>(null);
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<QuestionsJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [showResolved, setShowResolved] = useState(false);
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
 
   const loadQuestions = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('id, job_name, unanswered_questions, resolved_questions')
-        .eq('id', jobId)
-        .single();
+      const { data, error } = await fetchJob(jobId);
 
       if (error) {
         console.error('Error loading questions:', error);
@@ -73,6 +53,8 @@ export default function QuestionsScreen() {
     loadQuestions();
   }, [loadQuestions]);
 
+  useJobRealtime(jobId, setJob);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadQuestions();
@@ -83,7 +65,7 @@ export default function QuestionsScreen() {
     router.push(`/job-details/question-detail?jobId=${jobId}&questionId=${question.id}` as any);
   };
 
-  const questions = showResolved ? (job?.resolved_questions || []) : (job?.unanswered_questions || []);
+  const questions: (Question | ResolvedQuestion)[] = showResolved ? (job?.resolved_questions || []) : (job?.unanswered_questions || []);
 
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -149,6 +131,7 @@ export default function QuestionsScreen() {
           style={styles.scrollView}
           contentContainerStyle={styles.content}
           showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -170,14 +153,16 @@ export default function QuestionsScreen() {
             </Text>
           </View>
 
-          {questions.map((question, index) => (
-            <TouchableOpacity
-              key={index}
+          {questions.map((question) => (
+            <View
+              key={question.id}
               style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
-              onPress={() => handleQuestionPress(question)}
-              activeOpacity={0.7}
             >
-              <View style={styles.cardHeader}>
+              <TouchableOpacity
+                style={styles.cardHeader}
+                onPress={() => handleQuestionPress(question)}
+                activeOpacity={0.7}
+              >
                 <View style={[styles.iconContainer, { backgroundColor: '#3B82F620' }]}>
                   <IconSymbol
                     ios_icon_name={showResolved ? 'checkmark.circle' : 'questionmark.circle'}
@@ -192,7 +177,9 @@ export default function QuestionsScreen() {
                   </Text>
                   {showResolved && 'answer' in question && (
                     <Text style={[styles.cardDescription, { color: theme.colors.text }]} numberOfLines={2}>
-                      {question.answer}
+                      {question.not_applicable && question.answer !== 'Not applicable'
+                        ? `Not applicable · ${question.answer}`
+                        : question.answer}
                     </Text>
                   )}
                   <Text style={[styles.cardDate, { color: theme.colors.text }]}>
@@ -203,6 +190,7 @@ export default function QuestionsScreen() {
                       minute: '2-digit',
                     })}
                   </Text>
+                  <SourceMessageLink jobId={jobId} messageId={question.message_id} />
                 </View>
                 <IconSymbol
                   ios_icon_name="chevron.right"
@@ -211,8 +199,36 @@ export default function QuestionsScreen() {
                   color={theme.colors.text}
                   style={{ opacity: 0.3 }}
                 />
-              </View>
-            </TouchableOpacity>
+              </TouchableOpacity>
+
+              {!showResolved && (
+                answeringId === question.id ? (
+                  <View style={[styles.answerForm, { borderTopColor: theme.colors.border }]}>
+                    <QuestionAnswerForm
+                      jobId={jobId}
+                      questionId={question.id}
+                      onResolved={(updated) => {
+                        setAnsweringId(null);
+                        setJob(updated);
+                      }}
+                    />
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    style={[styles.answerButton, { borderTopColor: theme.colors.border }]}
+                    onPress={() => setAnsweringId(question.id)}
+                  >
+                    <IconSymbol
+                      ios_icon_name="text.bubble"
+                      android_material_icon_name="question-answer"
+                      size={16}
+                      color={theme.colors.primary}
+                    />
+                    <Text style={[styles.answerButtonText, { color: theme.colors.primary }]}>Answer</Text>
+                  </TouchableOpacity>
+                )
+              )}
+            </View>
           ))}
         </ScrollView>
       ) : (
@@ -369,6 +385,24 @@ const styles = StyleSheet.create({
     opacity: 0.5,
     marginTop: 4,
   },
+  answerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderTopWidth: 1,
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  answerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  answerForm: {
+    borderTopWidth: 1,
+    marginTop: 12,
+    paddingTop: 12,
+  },
   emptyScrollContent: {
     flexGrow: 1,
   },
@@ -0,0 +1,495 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import SummaryComparison from '@/components/job/SummaryComparison';
+import type { Job, SummaryRebuild } from '@/app/integrations/supabase/types';
+import { unsubscribe } from '@/services/chat';
+import { fetchJob } from '@/services/jobs';
+import {
+  applySummaryRebuild,
+  discardSummaryRebuild,
+  fetchLatestSummaryRebuild,
+  startSummaryRebuild,
+  subscribeToSummaryRebuild,
+} from '@/services/summaryRebuilds';
+
+// A running rebuild that hasn't reported progress for this long was cut off
+// by the edge function time limit
+const STALE_REBUILD_MS = 10 * 60 * 1000;
+
+const isStale = (rebuild: SummaryRebuild) =>
+  rebuild.status === 'running' && Date.now() - new Date(rebuild.updated_at).getTime() > STALE_REBUILD_MS;
+
+export default function RebuildSummaryScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<Job | null>(null);
+  const [rebuild, setRebuild] = useState<SummaryRebuild | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [discarding, setDiscarding] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const [jobResult, rebuildResult] = await Promise.all([
+        fetchJob(jobId),
+        fetchLatestSummaryRebuild(jobId),
+      ]);
+
+      if (jobResult.error) {
+        console.error('Error fetching job:', jobResult.error);
+      } else {
+        setJob(jobResult.data);
+      }
+
+      if (rebuildResult.error) {
+        console.error('Error fetching summary rebuild:', rebuildResult.error);
+      } else {
+        setRebuild(rebuildResult.data);
+      }
+    } catch (error) {
+      console.error('Error fetching rebuild data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const rebuildId = rebuild?.id;
+  const rebuildRunning = rebuild?.status === 'running';
+
+  // Follow progress until the rebuild is ready or fails
+  useEffect(() => {
+    if (!rebuildId || !rebuildRunning) return;
+
+    const channel = subscribeToSummaryRebuild(rebuildId, setRebuild);
+
+    return () => {
+      unsubscribe(channel);
+    };
+  }, [rebuildId, rebuildRunning]);
+
+  const handleStart = async () => {
+    try {
+      setStarting(true);
+
+      const { data: newRebuildId, error } = await startSummaryRebuild(jobId);
+
+      if (error) {
+        console.error('Error starting rebuild:', error);
+        Alert.alert('Error', `Failed to start rebuild: ${error.message}`);
+        return;
+      }
+
+      const { data } = await fetchLatestSummaryRebuild(jobId);
+      if (data?.id === newRebuildId) {
+        setRebuild(data);
+      }
+    } catch (error) {
+      console.error('Exception starting rebuild:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const applyRebuild = async () => {
+    if (!rebuild) return;
+
+    try {
+      setApplying(true);
+
+      const { data, error } = await applySummaryRebuild(rebuild.id);
+
+      if (error) {
+        console.error('Error applying rebuild:', error);
+        Alert.alert('Error', `Failed to apply rebuild: ${error.message}`);
+        return;
+      }
+
+      setJob(data);
+      Alert.alert('Summary Rebuilt', 'The job summary has been replaced with the rebuilt version.', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('Exception applying rebuild:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleApply = () => {
+    Alert.alert(
+      'Replace Summary',
+      'The overview and every section will be replaced with the rebuilt version. The current summary stays available in Summary History.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: applyRebuild },
+      ]
+    );
+  };
+
+  const handleDiscard = async () => {
+    if (!rebuild) return;
+
+    try {
+      setDiscarding(true);
+
+      const { data, error } = await discardSummaryRebuild(rebuild.id);
+
+      if (error) {
+        console.error('Error discarding rebuild:', error);
+        Alert.alert('Error', 'Failed to discard rebuild');
+        return;
+      }
+
+      setRebuild(data);
+    } catch (error) {
+      console.error('Exception discarding rebuild:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setDiscarding(false);
+    }
+  };
+
+  const renderStartCard = () => {
+    const failed = rebuild?.status === 'failed' || (rebuild && isStale(rebuild));
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+        <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Rebuild from scratch</Text>
+        <Text style={[styles.cardText, { color: theme.colors.text }]}>
+          Regenerates the overview and every section from the scope document and the full chat
+          history, replayed in order. You can compare the result with the current summary before
+          anything changes.
+        </Text>
+
+        {failed && (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorTitle}>The last rebuild did not finish</Text>
+            {rebuild?.error_message && (
+              <Text style={[styles.errorText, { color: theme.colors.text }]} numberOfLines={4}>
+                {rebuild.error_message}
+              </Text>
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: theme.colors.primary, opacity: starting ? 0.6 : 1 }]}
+          onPress={handleStart}
+          disabled={starting}
+        >
+          {starting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <IconSymbol
+              ios_icon_name="arrow.triangle.2.circlepath"
+              android_material_icon_name="autorenew"
+              size={18}
+              color="#fff"
+            />
+          )}
+          <Text style={styles.primaryButtonText}>{failed ? 'Try Again' : 'Start Rebuild'}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderProgress = (running: SummaryRebuild) => {
+    const progress = running.chunks_total > 0 ? running.chunks_done / running.chunks_total : 0;
+
+    return (
+      <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+        <View style={styles.progressHeader}>
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+          <Text style={[styles.cardTitle, styles.progressTitle, { color: theme.colors.text }]}>
+            Rebuilding summary...
+          </Text>
+        </View>
+        <View style={[styles.progressTrack, { backgroundColor: theme.colors.border }]}>
+          <View
+            style={[
+              styles.progressFill,
+              { backgroundColor: theme.colors.primary, width: `${Math.round(progress * 100)}%` },
+            ]}
+          />
+        </View>
+        <Text style={[styles.cardText, { color: theme.colors.text }]}>
+          {running.chunks_total > 0
+            ? `Chunk ${running.chunks_done} of ${running.chunks_total} · ${running.messages_processed} messages`
+            : 'Loading chat history'}
+        </Text>
+        <Text style={[styles.hintText, { color: theme.colors.text }]}>
+          You can leave this screen. The preview will be waiting when you come back.
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, { borderColor: theme.colors.border }]}
+          onPress={handleDiscard}
+          disabled={discarding}
+        >
+          <Text style={[styles.secondaryButtonText, { color: '#EF4444' }]}>
+            {discarding ? 'Cancelling...' : 'Cancel Rebuild'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderPreview = (ready: SummaryRebuild) => {
+    if (!job) return null;
+
+    return (
+      <>
+        <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Preview ready</Text>
+          <Text style={[styles.cardText, { color: theme.colors.text }]}>
+            Rebuilt from the scope and {ready.messages_processed}{' '}
+            {ready.messages_processed === 1 ? 'message' : 'messages'}. Messages sent since then are
+            processed on top of it once applied.
+          </Text>
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.secondaryButton, styles.actionButton, { borderColor: theme.colors.border }]}
+              onPress={handleDiscard}
+              disabled={discarding || applying}
+            >
+              <Text style={[styles.secondaryButtonText, { color: theme.colors.text }]}>
+                {discarding ? 'Discarding...' : 'Discard'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                styles.actionButton,
+                { backgroundColor: '#10B981', opacity: applying ? 0.6 : 1 },
+              ]}
+              onPress={handleApply}
+              disabled={applying || discarding}
+            >
+              {applying && <ActivityIndicator size="small" color="#fff" />}
+              <Text style={styles.primaryButtonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <SummaryComparison
+          before={job}
+          after={ready}
+          beforeLabel="Current"
+          afterLabel="Rebuilt"
+          sectionLayout="side-by-side"
+        />
+      </>
+    );
+  };
+
+  const renderContent = () => {
+    if (rebuild && rebuild.status === 'running' && !isStale(rebuild)) {
+      return renderProgress(rebuild);
+    }
+
+    if (rebuild?.status === 'ready') {
+      return renderPreview(rebuild);
+    }
+
+    return renderStartCard();
+  };
+
+  const header = (
+    <View
+      style={[
+        styles.header,
+        { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border },
+      ]}
+    >
+      <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+        <IconSymbol
+          ios_icon_name="chevron.left"
+          android_material_icon_name="arrow-back"
+          size={24}
+          color={theme.colors.text}
+        />
+      </TouchableOpacity>
+      <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Rebuild Summary</Text>
+      <View style={styles.headerSpacer} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        {header}
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {renderContent()}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: Platform.OS === 'android' ? 48 : 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.06)',
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+    opacity: 0.8,
+  },
+  hintText: {
+    fontSize: 13,
+    opacity: 0.5,
+    marginTop: 8,
+  },
+  errorBox: {
+    backgroundColor: '#EF444410',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 12,
+  },
+  errorTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  progressTitle: {
+    marginBottom: 0,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginVertical: 12,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+});
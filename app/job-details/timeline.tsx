@@ -0,0 +1,621 @@
+
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { NODE_TYPE_STYLES } from '@/components/job/DependencyGraph';
+import type { Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
+import { addDays, isSameDay } from '@/utils/calendar';
+import { buildJobTimeline, daysBetween, type TimelineRow } from '@/utils/timeline';
+
+type TimelineScreenJob = Pick<
+  Job,
+  'id' | 'job_name' | 'start_date' | 'deadlines_and_timelines' | 'dependencies' | 'next_actions' | 'open_issues'
+>;
+
+type Zoom = 'day' | 'week';
+
+// Width of one day on the time axis
+const DAY_WIDTH: Record<Zoom, number> = { day: 32, week: 10 };
+const LABEL_WIDTH = 140;
+const AXIS_HEIGHT = 44;
+const ROW_HEIGHT = 60;
+const BAR_HEIGHT = 14;
+const MILESTONE_SIZE = 14;
+
+const JOB_COLOR = '#64748B';
+const LATE_COLOR = '#EF4444';
+const TODAY_COLOR = '#EF4444';
+const EARLY_COLOR = '#10B981';
+
+export default function TimelineScreen() {
+  const router = useRouter();
+  const theme = useTheme();
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<TimelineScreenJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [zoom, setZoom] = useState<Zoom>('day');
+  const timelineScrollRef = useRef<ScrollView>(null);
+
+  const loadTimeline = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await fetchJob(jobId);
+
+      if (error) {
+        console.error('Error loading timeline:', error);
+      } else {
+        setJob(data);
+      }
+    } catch (error) {
+      console.error('Exception loading timeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  useJobRealtime(jobId, setJob);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadTimeline();
+    setRefreshing(false);
+  };
+
+  const timeline = useMemo(() => (job ? buildJobTimeline(job) : null), [job]);
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const dayCount = timeline ? daysBetween(timeline.rangeStart, timeline.rangeEnd) + 1 : 0;
+  const days = useMemo(
+    () => (timeline ? Array.from({ length: dayCount }, (_, index) => addDays(timeline.rangeStart, index)) : []),
+    [timeline, dayCount]
+  );
+
+  // Left edge of a day's column
+  const dateToX = useCallback(
+    (date: Date) => (timeline ? daysBetween(timeline.rangeStart, date) * dayWidth : 0),
+    [timeline, dayWidth]
+  );
+
+  // Keep today in view when the timeline opens or the zoom changes
+  useEffect(() => {
+    if (!timeline) return;
+    const x = Math.max(0, dateToX(timeline.today) - dayWidth * (zoom === 'day' ? 3 : 10));
+    requestAnimationFrame(() => timelineScrollRef.current?.scrollTo({ x, animated: false }));
+  }, [timeline, dateToX, dayWidth, zoom]);
+
+  const handleRowPress = (row: TimelineRow) => {
+    if (row.type === 'deadline' && row.id) {
+      router.push(`/job-details/deadlines?jobId=${jobId}&deadlineId=${row.id}`);
+    } else if (row.type === 'dependency') {
+      router.push(`/job-details/dependencies?jobId=${jobId}`);
+    }
+  };
+
+  const getRowColor = (row: TimelineRow) => {
+    if (row.type === 'job') return JOB_COLOR;
+    return NODE_TYPE_STYLES[row.type].color;
+  };
+
+  const renderAxis = () => (
+    <View style={[styles.axis, { width: dayCount * dayWidth, borderBottomColor: theme.colors.border }]}>
+      {days.map((day, index) => {
+        const isMonthStart = day.getDate() === 1 || index === 0;
+        // In week zoom only Sundays are labelled
+        const showDay = zoom === 'day' || day.getDay() === 0;
+        if (!isMonthStart && !showDay) return null;
+
+        return (
+          <View key={index} style={[styles.axisTick, { left: index * dayWidth }]}>
+            {isMonthStart && (
+              <Text style={[styles.axisMonth, { color: theme.colors.text }]} numberOfLines={1}>
+                {day.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}
+              </Text>
+            )}
+            {showDay && (
+              <Text
+                style={[
+                  styles.axisDay,
+                  { color: isSameDay(day, timeline!.today) ? TODAY_COLOR : theme.colors.text },
+                  !isMonthStart && styles.axisDayOnly,
+                ]}
+              >
+                {day.getDate()}
+              </Text>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderRow = (row: TimelineRow) => {
+    const color = getRowColor(row);
+    const barLeft = dateToX(row.barStart);
+    const barWidth = Math.max(dayWidth, dateToX(row.barEnd) - barLeft + dayWidth);
+
+    return (
+      <View key={row.key} style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+        <View
+          style={[
+            styles.bar,
+            { left: barLeft, width: barWidth, backgroundColor: color + (row.type === 'dependency' ? '40' : '30') },
+          ]}
+        />
+
+        {row.originalDate && (
+          <>
+            {/* How far the deadline moved from its first date */}
+            <View
+              style={[
+                styles.slip,
+                {
+                  left: dateToX(row.slipDays > 0 ? row.originalDate : row.barEnd) + dayWidth / 2,
+                  width: Math.abs(row.slipDays) * dayWidth,
+                  backgroundColor: row.slipDays > 0 ? LATE_COLOR : EARLY_COLOR,
+                },
+              ]}
+            />
+            <View
+              style={[
+                styles.milestone,
+                styles.ghostMilestone,
+                { left: dateToX(row.originalDate) + (dayWidth - MILESTONE_SIZE) / 2, borderColor: color },
+              ]}
+            />
+            <Text
+              style={[
+                styles.slipLabel,
+                {
+                  left: dateToX(row.barEnd) + dayWidth / 2 + MILESTONE_SIZE,
+                  color: row.slipDays > 0 ? LATE_COLOR : EARLY_COLOR,
+                },
+              ]}
+            >
+              {row.slipDays > 0 ? `+${row.slipDays}d` : `${row.slipDays}d`}
+            </Text>
+          </>
+        )}
+
+        {row.milestone && (
+          <View
+            style={[
+              styles.milestone,
+              {
+                left: dateToX(row.milestone) + (dayWidth - MILESTONE_SIZE) / 2,
+                backgroundColor: row.late ? LATE_COLOR : color,
+              },
+              row.type === 'dependency' && styles.needByMilestone,
+            ]}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderLegend = () => (
+    <View style={styles.legend}>
+      {[
+        { label: 'Deadline', color: NODE_TYPE_STYLES.deadline.color },
+        { label: 'Dependency', color: NODE_TYPE_STYLES.dependency.color },
+        { label: 'Slipped', color: LATE_COLOR },
+        { label: 'Brought forward', color: EARLY_COLOR },
+      ].map((item) => (
+        <View key={item.label} style={styles.legendItem}>
+          <View style={[styles.legendDot, { backgroundColor: item.color }]} />
+          <Text style={[styles.legendText, { color: theme.colors.text }]}>{item.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const hasRows = !!timeline && timeline.rows.length > 0;
+  const chartHeight = (timeline?.rows.length || 0) * ROW_HEIGHT;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <IconSymbol ios_icon_name="chevron.left" android_material_icon_name="arrow-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Timeline</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading && !job ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+          <Text style={[styles.loadingText, { color: theme.colors.text }]}>Loading timeline...</Text>
+        </View>
+      ) : hasRows ? (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={theme.colors.primary}
+            />
+          }
+        >
+          <View style={styles.toolbar}>
+            <View style={[styles.zoomToggle, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+              {(['day', 'week'] as Zoom[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.zoomOption, zoom === option && { backgroundColor: theme.colors.primary }]}
+                  onPress={() => setZoom(option)}
+                >
+                  <Text style={[styles.zoomText, { color: zoom === option ? '#fff' : theme.colors.text }]}>
+                    {option === 'day' ? 'Days' : 'Weeks'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {renderLegend()}
+          </View>
+
+          <View style={[styles.chart, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+            {/* Labels stay put while the bars scroll sideways */}
+            <View style={[styles.labelColumn, { borderRightColor: theme.colors.border }]}>
+              <View style={[styles.axisSpacer, { borderBottomColor: theme.colors.border }]} />
+              {timeline.rows.map((row) => (
+                <TouchableOpacity
+                  key={row.key}
+                  style={[styles.label, { borderBottomColor: theme.colors.border }]}
+                  onPress={() => handleRowPress(row)}
+                  disabled={row.type === 'job'}
+                >
+                  <View style={styles.labelTitleRow}>
+                    <View style={[styles.labelDot, { backgroundColor: getRowColor(row) }]} />
+                    <Text style={[styles.labelTitle, { color: theme.colors.text }]} numberOfLines={1}>
+                      {row.title}
+                    </Text>
+                  </View>
+                  {row.subtitle && (
+                    <Text
+                      style={[styles.labelSubtitle, { color: row.late ? LATE_COLOR : theme.colors.text }]}
+                      numberOfLines={2}
+                    >
+                      {row.subtitle}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <ScrollView
+              ref={timelineScrollRef}
+              horizontal
+              showsHorizontalScrollIndicator={false}
+            >
+              <View style={{ width: dayCount * dayWidth }}>
+                {renderAxis()}
+                <View style={{ height: chartHeight }}>
+                  {/* Week boundaries */}
+                  {days.map((day, index) =>
+                    day.getDay() === 0 ? (
+                      <View
+                        key={index}
+                        style={[styles.gridLine, { left: index * dayWidth, backgroundColor: theme.colors.border }]}
+                      />
+                    ) : null
+                  )}
+                  {timeline.rows.map(renderRow)}
+                  {timeline.startDate && (
+                    <View style={[styles.marker, { left: dateToX(timeline.startDate), backgroundColor: JOB_COLOR }]} />
+                  )}
+                  <View
+                    style={[styles.marker, styles.todayMarker, { left: dateToX(timeline.today) + dayWidth / 2 }]}
+                  />
+                </View>
+              </View>
+            </ScrollView>
+          </View>
+
+          <Text style={[styles.hint, { color: theme.colors.text }]}>
+            Hollow markers show where a deadline was first set. Tap a row to open it.
+          </Text>
+        </ScrollView>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.emptyScrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={theme.colors.primary}
+            />
+          }
+        >
+          <View style={styles.emptyContainer}>
+            <View style={[styles.emptyIconContainer, { backgroundColor: '#EC489910' }]}>
+              <IconSymbol
+                ios_icon_name="chart.bar.xaxis"
+                android_material_icon_name="timeline"
+                size={48}
+                color="#EC4899"
+                style={{ opacity: 0.5 }}
+              />
+            </View>
+            <Text style={[styles.emptyTitle, { color: theme.colors.text }]}>
+              Nothing to Plot Yet
+            </Text>
+            <Text style={[styles.emptyText, { color: theme.colors.text }]}>
+              The timeline fills in once the job has a start date, dated deadlines or dependencies.
+            </Text>
+            <Text style={[styles.emptyHint, { color: theme.colors.text }]}>
+              Pull down to refresh
+            </Text>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: Platform.OS === 'android' ? 48 : 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  toolbar: {
+    gap: 12,
+    marginBottom: 12,
+  },
+  zoomToggle: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    borderRadius: 10,
+    borderWidth: 1,
+    padding: 2,
+  },
+  zoomOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  zoomText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  chart: {
+    flexDirection: 'row',
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  labelColumn: {
+    width: LABEL_WIDTH,
+    borderRightWidth: 1,
+  },
+  axisSpacer: {
+    height: AXIS_HEIGHT,
+    borderBottomWidth: 1,
+  },
+  label: {
+    height: ROW_HEIGHT,
+    justifyContent: 'center',
+    paddingHorizontal: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  labelTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  labelDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  labelTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  labelSubtitle: {
+    fontSize: 11,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  axis: {
+    height: AXIS_HEIGHT,
+    borderBottomWidth: 1,
+  },
+  axisTick: {
+    position: 'absolute',
+    top: 4,
+    bottom: 4,
+    justifyContent: 'flex-end',
+  },
+  axisMonth: {
+    position: 'absolute',
+    top: 0,
+    left: 2,
+    width: 80,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  axisDay: {
+    fontSize: 11,
+    opacity: 0.6,
+    paddingLeft: 2,
+  },
+  axisDayOnly: {
+    marginTop: 16,
+  },
+  row: {
+    height: ROW_HEIGHT,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  bar: {
+    position: 'absolute',
+    top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+    height: BAR_HEIGHT,
+    borderRadius: BAR_HEIGHT / 2,
+  },
+  slip: {
+    position: 'absolute',
+    top: ROW_HEIGHT / 2 - 1,
+    height: 2,
+  },
+  slipLabel: {
+    position: 'absolute',
+    top: ROW_HEIGHT / 2 - 8,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  milestone: {
+    position: 'absolute',
+    top: (ROW_HEIGHT - MILESTONE_SIZE) / 2,
+    width: MILESTONE_SIZE,
+    height: MILESTONE_SIZE,
+    borderRadius: 2,
+    transform: [{ rotate: '45deg' }],
+  },
+  ghostMilestone: {
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    backgroundColor: 'transparent',
+  },
+  needByMilestone: {
+    borderRadius: MILESTONE_SIZE / 2,
+    transform: [],
+  },
+  gridLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: StyleSheet.hairlineWidth,
+  },
+  marker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+  },
+  todayMarker: {
+    backgroundColor: TODAY_COLOR,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.5,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  emptyScrollContent: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    gap: 16,
+    minHeight: 400,
+  },
+  emptyIconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    opacity: 0.6,
+    lineHeight: 22,
+  },
+  emptyHint: {
+    fontSize: 13,
+    opacity: 0.4,
+    marginTop: 8,
+  },
+});
@@ -13,39 +13,25 @@ import {
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
+import SourceMessageLink from '@/components/job/SourceMessageLink';
+import type { Job } from '@/app/integrations/supabase/types';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import { fetchJob } from '@/services/jobs';
 
-interface Warning {
-  id: string;
-  title: string;
-  description: string;
-  severity: 'high' | 'medium' | 'low';
-  created_at: string;
-  message_id?: string;
-}
-
-interface Job {
-  id: string;
-  job_name: string;
-  warnings_and_risks: Warning[];
-}
+type WarningsJob = Pick<Job, 'id' | 'job_name' | 'warnings_and_risks'>;
 
 export default function WarningsScreen() {
   const router = useRouter();
   const theme = useTheme();
-  const { jobId } = useLocalSearchParams();
-  const [job, setJob] = useState<Job | null>(null);
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const [job, setJob] = useState<WarningsJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadWarnings = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('id, job_name, warnings_and_risks')
-        .eq('id', jobId)
-        .single();
+      const { data, error } = await fetchJob(jobId);
 
       if (error) {
         console.error('Error loading warnings:', error);
@@ -64,6 +50,8 @@ export default function WarningsScreen() {
     loadWarnings();
   }, [loadWarnings]);
 
+  useJobRealtime(jobId, setJob);
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadWarnings();
@@ -170,6 +158,7 @@ export default function WarningsScreen() {
                     <Text style={[styles.warningDescription, { color: theme.colors.text }]}>{warning.description}</Text>
                   )}
                   <Text style={[styles.reportedAt, { color: theme.colors.text }]}>Reported: {formatTime(warning.created_at)}</Text>
+                  <SourceMessageLink jobId={jobId} messageId={warning.message_id} />
                 </View>
               </View>
             </View>
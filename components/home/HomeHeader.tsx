@@ -0,0 +1,144 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+
+interface HomeHeaderProps {
+  isAdmin: boolean;
+  onSignOut: () => void;
+  onOpenSettings: () => void;
+  onOpenCalendar: () => void;
+  onCreateJob: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function HomeHeader({ isAdmin, onSignOut, onOpenSettings, onOpenCalendar, onCreateJob, style }: HomeHeaderProps) {
+  const theme = useTheme();
+
+  return (
+    <View style={[styles.header, { backgroundColor: theme.colors.card, borderBottomColor: theme.colors.border }, style]}>
+      <View style={styles.headerContent}>
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>Jobs</Text>
+        {isAdmin && (
+          <View style={styles.headerBadge}>
+            <Text style={styles.headerBadgeText}>Admin</Text>
+          </View>
+        )}
+      </View>
+      <View style={styles.headerActions}>
+        <TouchableOpacity
+          style={[styles.signOutButton, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
+          onPress={onSignOut}
+        >
+          <IconSymbol
+            ios_icon_name="rectangle.portrait.and.arrow.right"
+            android_material_icon_name="logout"
+            size={20}
+            color={theme.colors.text}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.calendarButton, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
+          onPress={onOpenCalendar}
+        >
+          <IconSymbol
+            ios_icon_name="calendar"
+            android_material_icon_name="calendar-month"
+            size={20}
+            color={theme.colors.text}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.settingsButton, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
+          onPress={onOpenSettings}
+        >
+          <IconSymbol
+            ios_icon_name="gearshape"
+            android_material_icon_name="settings"
+            size={20}
+            color={theme.colors.text}
+          />
+        </TouchableOpacity>
+        {isAdmin && (
+          <TouchableOpacity
+            style={[styles.createButton, { backgroundColor: theme.colors.primary }]}
+            onPress={onCreateJob}
+          >
+            <IconSymbol
+              ios_icon_name="plus"
+              android_material_icon_name="add"
+              size={20}
+              color="#fff"
+            />
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  headerBadge: {
+    backgroundColor: '#10b981',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  headerBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  createButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  settingsButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  calendarButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  signOutButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+});
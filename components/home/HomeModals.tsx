@@ -0,0 +1,689 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import ScopeUploadModal from '@/components/job/ScopeUploadModal';
+import type { HomeScreenState } from '@/hooks/useHomeScreen';
+
+const formatSignIn = (timestamp: string | null) => {
+  if (!timestamp) return 'Never';
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+interface HomeModalsProps {
+  home: HomeScreenState;
+  sheetStyle?: StyleProp<ViewStyle>;
+}
+
+/**
+ * The admin menus and form modals shown over the home screen. `sheetStyle` lets
+ * each platform apply its own shadow to the modal sheets.
+ */
+export default function HomeModals({ home, sheetStyle }: HomeModalsProps) {
+  const theme = useTheme();
+  const {
+    isAdmin, showMenu, setShowMenu, showSettingsModal, setShowSettingsModal, showPasswordResetModal, setShowPasswordResetModal,
+    showPasswordChangeModal, showEditModal, showCreateModal, showInviteModal, showScopeModal,
+    selectedJob, allUsers, authUsers, selectedUsers, selectedAuthUser, selectedAuthUserDetails, loadingUsers,
+    jobName, setJobName, siteName, setSiteName, startDate, setStartDate,
+    newPassword, setNewPassword, confirmPassword, setConfirmPassword,
+    handleEditJob, handleInviteTechnicians, handleUploadScope, handleArchiveJob,
+    handleOpenNotificationSettings, handleResetPasswords, handleSelectUserForPasswordReset, handleUpdatePassword, handleToggleUserActive, closePasswordChangeModal,
+    handleSaveEdit, closeEditModal, handleSaveNewJob, closeCreateModal,
+    toggleUserSelection, handleSendInvites, closeInviteModal, handleScopeUploadSuccess, closeScopeModal,
+  } = home;
+
+  return (
+    <>
+      {/* Admin Menu Modal */}
+      <Modal
+        visible={showMenu}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowMenu(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setShowMenu(false)}
+        >
+          <View style={[styles.menuContainer, { backgroundColor: theme.colors.card }, sheetStyle]}>
+            <Text style={[styles.menuTitle, { color: theme.colors.text }]}>
+              {selectedJob?.job_name}
+            </Text>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={handleEditJob}
+            >
+              <IconSymbol
+                ios_icon_name="pencil"
+                android_material_icon_name="edit"
+                size={20}
+                color={theme.colors.text}
+              />
+              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Edit Job Details</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={handleInviteTechnicians}
+            >
+              <IconSymbol
+                ios_icon_name="person.badge.plus"
+                android_material_icon_name="person-add"
+                size={20}
+                color={theme.colors.text}
+              />
+              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Invite Technician</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={handleUploadScope}
+            >
+              <IconSymbol
+                ios_icon_name="doc.badge.plus"
+                android_material_icon_name="upload-file"
+                size={20}
+                color={theme.colors.text}
+              />
+              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Add Scope</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.menuItem, styles.menuItemDanger]}
+              onPress={handleArchiveJob}
+            >
+              <IconSymbol
+                ios_icon_name="archivebox"
+                android_material_icon_name="archive"
+                size={20}
+                color="#DC3545"
+              />
+              <Text style={[styles.menuItemText, { color: '#DC3545' }]}>Archive Job</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.menuItem, styles.menuItemCancel]}
+              onPress={() => setShowMenu(false)}
+            >
+              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      {/* Settings Modal */}
+      <Modal
+        visible={showSettingsModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowSettingsModal(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setShowSettingsModal(false)}
+        >
+          <View style={[styles.menuContainer, { backgroundColor: theme.colors.card }, sheetStyle]}>
+            <Text style={[styles.menuTitle, { color: theme.colors.text }]}>
+              Settings
+            </Text>
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={handleOpenNotificationSettings}
+            >
+              <IconSymbol
+                ios_icon_name="bell"
+                android_material_icon_name="notifications"
+                size={20}
+                color={theme.colors.text}
+              />
+              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Notifications</Text>
+            </TouchableOpacity>
+            {isAdmin && (
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={handleResetPasswords}
+              >
+                <IconSymbol
+                  ios_icon_name="key"
+                  android_material_icon_name="vpn-key"
+                  size={20}
+                  color={theme.colors.text}
+                />
+                <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Reset Passwords</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.menuItem, styles.menuItemCancel]}
+              onPress={() => setShowSettingsModal(false)}
+            >
+              <Text style={[styles.menuItemText, { color: theme.colors.text }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      {/* Password Reset User List Modal */}
+      <Modal
+        visible={showPasswordResetModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowPasswordResetModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.inviteContainer, { backgroundColor: theme.colors.card }, sheetStyle]}>
+            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Reset User Password</Text>
+            <Text style={[styles.inviteSubtitle, { color: theme.colors.text }]}>
+              Select a user to reset their password
+            </Text>
+            
+            {loadingUsers ? (
+              <View style={styles.loadingUsersContainer}>
+                <ActivityIndicator size="small" color={theme.colors.primary} />
+                <Text style={[styles.loadingUsersText, { color: theme.colors.text }]}>Loading users...</Text>
+              </View>
+            ) : authUsers.length === 0 ? (
+              <View style={styles.emptyUsersContainer}>
+                <Text style={[styles.emptyUsersText, { color: theme.colors.text }]}>
+                  No users available
+                </Text>
+              </View>
+            ) : (
+              <ScrollView style={styles.userList} showsVerticalScrollIndicator={false}>
+                {authUsers.map((authUser, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.userItem,
+                      { borderColor: theme.colors.border }
+                    ]}
+                    onPress={() => handleSelectUserForPasswordReset(authUser)}
+                  >
+                    <View style={styles.userItemContent}>
+                      <IconSymbol
+                        ios_icon_name="person.circle"
+                        android_material_icon_name="account-circle"
+                        size={24}
+                        color={theme.colors.text}
+                      />
+                      <View style={styles.userInfo}>
+                        <Text style={[styles.userName, { color: theme.colors.text }]}>
+                          {authUser.display_name || 'Unknown User'}
+                        </Text>
+                        <Text style={[styles.userEmail, { color: theme.colors.text }]}>
+                          {authUser.email}
+                        </Text>
+                        {authUser.deactivated_at && (
+                          <Text style={[styles.invitedLabel, { color: '#DC3545' }]}>
+                            Deactivated
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+                    <IconSymbol
+                      ios_icon_name="chevron.right"
+                      android_material_icon_name="chevron-right"
+                      size={20}
+                      color={theme.colors.text}
+                      style={{ opacity: 0.5 }}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+            
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
+                onPress={() => setShowPasswordResetModal(false)}
+              >
+                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Password Change Modal */}
+      <Modal
+        visible={showPasswordChangeModal}
+        transparent
+        animationType="slide"
+        onRequestClose={closePasswordChangeModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.formContainer, { backgroundColor: theme.colors.card }, sheetStyle]}>
+            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Change Password</Text>
+            <Text style={[styles.inviteSubtitle, { color: theme.colors.text, marginBottom: 4 }]}>
+              {selectedAuthUser?.display_name || selectedAuthUser?.email}
+            </Text>
+            <Text style={[styles.accountDetail, { color: theme.colors.text }]}>
+              {selectedAuthUserDetails
+                ? `Last sign-in: ${formatSignIn(selectedAuthUserDetails.last_sign_in_at)}`
+                : 'Loading account details...'}
+            </Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="New Password"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={newPassword}
+              onChangeText={setNewPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Confirm Password"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
+                onPress={closePasswordChangeModal}
+              >
+                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
+                onPress={handleUpdatePassword}
+              >
+                <Text style={[styles.formButtonText, { color: '#fff' }]}>Submit</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              style={[styles.menuItem, styles.menuItemCancel, { marginTop: 16 }]}
+              onPress={handleToggleUserActive}
+            >
+              <IconSymbol
+                ios_icon_name={selectedAuthUser?.deactivated_at ? 'person.crop.circle.badge.checkmark' : 'person.crop.circle.badge.xmark'}
+                android_material_icon_name={selectedAuthUser?.deactivated_at ? 'person' : 'person-off'}
+                size={20}
+                color={selectedAuthUser?.deactivated_at ? theme.colors.primary : '#DC3545'}
+              />
+              <Text style={[styles.menuItemText, { color: selectedAuthUser?.deactivated_at ? theme.colors.primary : '#DC3545' }]}>
+                {selectedAuthUser?.deactivated_at ? 'Reactivate User' : 'Deactivate User'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Edit Job Modal */}
+      <Modal
+        visible={showEditModal}
+        transparent
+        animationType="slide"
+        onRequestClose={closeEditModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.formContainer, { backgroundColor: theme.colors.card }, sheetStyle]}>
+            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Edit Job</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Job Name"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={jobName}
+              onChangeText={setJobName}
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Site Name"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={siteName}
+              onChangeText={setSiteName}
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Start Date (YYYY-MM-DD)"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={startDate}
+              onChangeText={setStartDate}
+            />
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
+                onPress={closeEditModal}
+              >
+                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
+                onPress={handleSaveEdit}
+              >
+                <Text style={[styles.formButtonText, { color: '#fff' }]}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Create Job Modal */}
+      <Modal
+        visible={showCreateModal}
+        transparent
+        animationType="slide"
+        onRequestClose={closeCreateModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.formContainer, { backgroundColor: theme.colors.card }, sheetStyle]}>
+            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Create New Job</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Job Name"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={jobName}
+              onChangeText={setJobName}
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Site Name"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={siteName}
+              onChangeText={setSiteName}
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.colors.background, color: theme.colors.text, borderColor: theme.colors.border }]}
+              placeholder="Start Date (YYYY-MM-DD)"
+              placeholderTextColor={theme.colors.text + '80'}
+              value={startDate}
+              onChangeText={setStartDate}
+            />
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
+                onPress={closeCreateModal}
+              >
+                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
+                onPress={handleSaveNewJob}
+              >
+                <Text style={[styles.formButtonText, { color: '#fff' }]}>Create</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Invite Technicians Modal */}
+      <Modal
+        visible={showInviteModal}
+        transparent
+        animationType="slide"
+        onRequestClose={closeInviteModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.inviteContainer, { backgroundColor: theme.colors.card }, sheetStyle]}>
+            <Text style={[styles.formTitle, { color: theme.colors.text }]}>Invite Technicians</Text>
+            <Text style={[styles.inviteSubtitle, { color: theme.colors.text }]}>
+              Select users to invite to {selectedJob?.job_name}
+            </Text>
+            
+            {loadingUsers ? (
+              <View style={styles.loadingUsersContainer}>
+                <ActivityIndicator size="small" color={theme.colors.primary} />
+                <Text style={[styles.loadingUsersText, { color: theme.colors.text }]}>Loading users...</Text>
+              </View>
+            ) : allUsers.length === 0 ? (
+              <View style={styles.emptyUsersContainer}>
+                <Text style={[styles.emptyUsersText, { color: theme.colors.text }]}>
+                  No other users available to invite
+                </Text>
+              </View>
+            ) : (
+              <ScrollView style={styles.userList} showsVerticalScrollIndicator={false}>
+                {allUsers.map((userItem, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.userItem,
+                      { borderColor: theme.colors.border },
+                      selectedUsers.includes(userItem.user_id) && { backgroundColor: theme.colors.primary + '20', borderColor: theme.colors.primary },
+                      userItem.is_invited && { opacity: 0.5 }
+                    ]}
+                    onPress={() => toggleUserSelection(userItem.user_id, userItem.is_invited || false)}
+                    disabled={userItem.is_invited}
+                  >
+                    <View style={styles.userItemContent}>
+                      <IconSymbol
+                        ios_icon_name="person.circle"
+                        android_material_icon_name="account-circle"
+                        size={24}
+                        color={theme.colors.text}
+                      />
+                      <View style={styles.userInfo}>
+                        <Text style={[styles.userName, { color: theme.colors.text }]}>
+                          {userItem.display_name || 'Unknown User'}
+                        </Text>
+                        {userItem.is_invited && (
+                          <Text style={[styles.invitedLabel, { color: theme.colors.text }]}>
+                            Already invited
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+                    {selectedUsers.includes(userItem.user_id) && !userItem.is_invited && (
+                      <IconSymbol
+                        ios_icon_name="checkmark.circle.fill"
+                        android_material_icon_name="check-circle"
+                        size={24}
+                        color={theme.colors.primary}
+                      />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+            
+            <View style={styles.formActions}>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonSecondary, { borderColor: theme.colors.border }]}
+                onPress={closeInviteModal}
+              >
+                <Text style={[styles.formButtonText, { color: theme.colors.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.formButton, styles.formButtonPrimary, { backgroundColor: theme.colors.primary }]}
+                onPress={handleSendInvites}
+                disabled={selectedUsers.length === 0}
+              >
+                <Text style={[styles.formButtonText, { color: '#fff' }]}>
+                  Invite ({selectedUsers.length})
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Scope Upload Modal */}
+      {selectedJob && (
+        <ScopeUploadModal
+          visible={showScopeModal}
+          jobId={selectedJob.id}
+          jobName={selectedJob.job_name}
+          onClose={closeScopeModal}
+          onSuccess={handleScopeUploadSuccess}
+        />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  menuContainer: {
+    borderRadius: 16,
+    padding: 8,
+    width: '100%',
+    maxWidth: 400,
+    elevation: 8,
+  },
+  menuTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    padding: 16,
+    paddingBottom: 8,
+  },
+  menuItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 8,
+  },
+  menuItemDanger: {
+    marginTop: 8,
+  },
+  menuItemCancel: {
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E0E0E0',
+    justifyContent: 'center',
+  },
+  menuItemText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  formContainer: {
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    elevation: 8,
+  },
+  formTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  formButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  formButtonPrimary: {
+    // backgroundColor set dynamically
+  },
+  formButtonSecondary: {
+    borderWidth: 1,
+  },
+  formButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  inviteContainer: {
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    elevation: 8,
+  },
+  inviteSubtitle: {
+    fontSize: 14,
+    marginBottom: 16,
+    opacity: 0.7,
+  },
+  loadingUsersContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 40,
+  },
+  loadingUsersText: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  emptyUsersContainer: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  emptyUsersText: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  userList: {
+    maxHeight: 300,
+    marginBottom: 16,
+  },
+  userItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  userItemContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    flex: 1,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  userEmail: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  accountDetail: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 16,
+  },
+  invitedLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+});
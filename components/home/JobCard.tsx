@@ -0,0 +1,282 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import type { JobListItem } from '@/app/integrations/supabase/types';
+import { IconSymbol } from '@/components/IconSymbol';
+
+interface JobCardProps {
+  job: JobListItem;
+  currentUserId?: string;
+  showMenuHint: boolean;
+  onPress: () => void;
+  onLongPress: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const formatActivityTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffHours < 1) {
+    const diffMins = Math.floor(diffMs / (1000 * 60));
+    return diffMins < 1 ? 'Just now' : `${diffMins}m ago`;
+  } else if (diffHours < 24) {
+    return `${diffHours}h ago`;
+  } else if (diffDays === 1) {
+    return 'Yesterday';
+  } else if (diffDays < 7) {
+    return `${diffDays}d ago`;
+  } else {
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined,
+    });
+  }
+};
+
+export default function JobCard({ job, currentUserId, showMenuHint, onPress, onLongPress, style }: JobCardProps) {
+  const theme = useTheme();
+
+  const getLastMessagePreview = () => {
+    const author = job.last_message_user_id === currentUserId ? 'You: ' : '';
+    if (job.last_message_type === 'image') {
+      return `${author}Sent a photo`;
+    }
+    if (job.last_message_type === 'voice') {
+      return `${author}Sent a voice message`;
+    }
+    return `${author}${job.last_message_text || ''}`;
+  };
+
+  const getProcessingStatusBadge = () => {
+    const { processing_status, processing_scheduled_for } = job;
+
+    if (processing_status === 'running') {
+      return (
+        <View style={[styles.statusBadge, { backgroundColor: theme.colors.primary + '20', borderColor: theme.colors.primary }]}>
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+          <Text style={[styles.statusBadgeText, { color: theme.colors.primary }]}>Processing</Text>
+        </View>
+      );
+    }
+
+    if (processing_status === 'scheduled') {
+      const scheduledTime = processing_scheduled_for ? new Date(processing_scheduled_for) : null;
+      const isPast = scheduledTime && scheduledTime < new Date();
+
+      return (
+        <View style={[styles.statusBadge, { backgroundColor: '#F59E0B20', borderColor: '#F59E0B' }]}>
+          <IconSymbol
+            ios_icon_name="clock"
+            android_material_icon_name="schedule"
+            size={12}
+            color="#F59E0B"
+          />
+          <Text style={[styles.statusBadgeText, { color: '#F59E0B' }]}>
+            {isPast ? 'Pending' : 'Scheduled'}
+          </Text>
+        </View>
+      );
+    }
+
+    if (processing_status === 'failed') {
+      return (
+        <View style={[styles.statusBadge, { backgroundColor: '#EF444420', borderColor: '#EF4444' }]}>
+          <IconSymbol
+            ios_icon_name="exclamationmark.triangle"
+            android_material_icon_name="error"
+            size={12}
+            color="#EF4444"
+          />
+          <Text style={[styles.statusBadgeText, { color: '#EF4444' }]}>Failed</Text>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.jobCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }, style]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      delayLongPress={500}
+      activeOpacity={0.7}
+    >
+      <View style={styles.jobCardHeader}>
+        <View style={styles.jobCardTitleRow}>
+          <Text style={[styles.jobName, { color: theme.colors.text }]}>{job.job_name}</Text>
+          {job.unread_count > 0 && (
+            <View style={[styles.unreadBadge, { backgroundColor: theme.colors.notification }]}>
+              <Text style={styles.unreadBadgeText}>
+                {job.unread_count > 99 ? '99+' : job.unread_count}
+              </Text>
+            </View>
+          )}
+        </View>
+        {showMenuHint && (
+          <IconSymbol
+            ios_icon_name="ellipsis.circle"
+            android_material_icon_name="more-vert"
+            size={20}
+            color={theme.colors.text}
+            style={{ opacity: 0.5 }}
+          />
+        )}
+      </View>
+      <View style={styles.jobCardDetails}>
+        <View style={styles.jobCardRow}>
+          <IconSymbol
+            ios_icon_name="building.2"
+            android_material_icon_name="location-city"
+            size={16}
+            color={theme.colors.text}
+            style={{ opacity: 0.6 }}
+          />
+          <Text style={[styles.jobDetail, { color: theme.colors.text }]}>{job.site_name}</Text>
+        </View>
+        <View style={styles.jobCardRow}>
+          <IconSymbol
+            ios_icon_name="calendar"
+            android_material_icon_name="calendar-today"
+            size={16}
+            color={theme.colors.text}
+            style={{ opacity: 0.6 }}
+          />
+          <Text style={[styles.jobDetail, { color: theme.colors.text }]}>{formatDate(job.start_date)}</Text>
+        </View>
+        {job.last_message_at && (
+          <View style={styles.jobCardRow}>
+            <IconSymbol
+              ios_icon_name="bubble.left"
+              android_material_icon_name="chat-bubble-outline"
+              size={16}
+              color={theme.colors.text}
+              style={{ opacity: 0.6 }}
+            />
+            <Text
+              style={[
+                styles.lastMessageText,
+                { color: theme.colors.text },
+                job.unread_count > 0 && styles.lastMessageTextUnread,
+              ]}
+              numberOfLines={1}
+            >
+              {getLastMessagePreview()}
+            </Text>
+          </View>
+        )}
+      </View>
+      <Text style={[styles.lastActivityText, { color: theme.colors.text }]}>
+        Last activity {formatActivityTime(job.last_activity_at)}
+      </Text>
+      {/* Processing Status Badge */}
+      {getProcessingStatusBadge()}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  jobCard: {
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    elevation: 2,
+  },
+  jobCardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  jobCardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flex: 1,
+  },
+  jobName: {
+    fontSize: 20,
+    fontWeight: '700',
+    flex: 1,
+  },
+  unreadBadge: {
+    minWidth: 24,
+    height: 24,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unreadBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  jobCardDetails: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  jobCardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  jobDetail: {
+    fontSize: 15,
+    fontWeight: '500',
+    opacity: 0.8,
+  },
+  lastMessageText: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  lastMessageTextUnread: {
+    fontWeight: '600',
+    opacity: 0.9,
+  },
+  lastActivityText: {
+    fontSize: 12,
+    opacity: 0.5,
+    marginBottom: 8,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 6,
+    marginTop: 4,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
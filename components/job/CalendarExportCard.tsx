@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Share, ActivityIndicator } from 'react-native';
+import * as Linking from 'expo-linking';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import { fetchCalendarFeedToken, getCalendarFeedUrl, resetCalendarFeedToken } from '@/services/calendarFeed';
+
+interface CalendarExportCardProps {
+  jobId: string;
+}
+
+/**
+ * Exports deadlines to other calendars: this job or every job as an .ics file,
+ * or a subscription that calendar apps keep polling. Events keep the deadline's
+ * id, so re-importing or refreshing updates them rather than adding copies.
+ */
+export default function CalendarExportCard({ jobId }: CalendarExportCardProps) {
+  const theme = useTheme();
+  const [token, setToken] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  // The feed token is only created once the user actually exports something
+  const withToken = async (run: (feedToken: string) => Promise<unknown>) => {
+    try {
+      setWorking(true);
+      let feedToken = token;
+      if (!feedToken) {
+        const { data, error } = await fetchCalendarFeedToken();
+        if (error) {
+          console.error('Error loading calendar feed:', error);
+          Alert.alert('Error', 'Failed to load your calendar link. Please try again.');
+          return;
+        }
+        feedToken = data;
+        setToken(data);
+      }
+      await run(feedToken);
+    } catch (error) {
+      console.error('Exception exporting calendar:', error);
+      Alert.alert('Error', 'Failed to open your calendar. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleExportJob = () =>
+    withToken((feedToken) => Linking.openURL(getCalendarFeedUrl(feedToken, { jobId })));
+
+  const handleExportAll = () =>
+    withToken((feedToken) => Linking.openURL(getCalendarFeedUrl(feedToken)));
+
+  const handleSubscribe = () =>
+    withToken((feedToken) => Linking.openURL(getCalendarFeedUrl(feedToken, { webcal: true })));
+
+  const handleShareLink = () =>
+    withToken((feedToken) =>
+      Share.share({
+        message: getCalendarFeedUrl(feedToken),
+        title: 'Job deadlines calendar',
+      })
+    );
+
+  const handleResetLink = () => {
+    Alert.alert(
+      'Reset Calendar Link',
+      'Calendars subscribed with your current link will stop updating. You will need to subscribe again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            setWorking(true);
+            const { data, error } = await resetCalendarFeedToken();
+            setWorking(false);
+
+            if (error) {
+              console.error('Error resetting calendar feed:', error);
+              Alert.alert('Error', 'Failed to reset your calendar link. Please try again.');
+              return;
+            }
+
+            setToken(data);
+            Alert.alert('Link Reset', 'Your old calendar link no longer works.');
+          },
+        },
+      ]
+    );
+  };
+
+  const options = [
+    { key: 'job', label: 'This job (.ics)', iosIcon: 'square.and.arrow.down', androidIcon: 'file-download', onPress: handleExportJob },
+    { key: 'all', label: 'All jobs (.ics)', iosIcon: 'tray.and.arrow.down', androidIcon: 'download', onPress: handleExportAll },
+    { key: 'subscribe', label: 'Subscribe', iosIcon: 'calendar.badge.plus', androidIcon: 'event-available', onPress: handleSubscribe },
+    { key: 'share', label: 'Share link', iosIcon: 'square.and.arrow.up', androidIcon: 'share', onPress: handleShareLink },
+  ] as const;
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+      <View style={styles.titleRow}>
+        <Text style={[styles.title, { color: theme.colors.text }]}>Add to Calendar</Text>
+        {working && <ActivityIndicator size="small" color={theme.colors.primary} />}
+      </View>
+      <Text style={[styles.description, { color: theme.colors.text }]}>
+        Subscribed calendars pick up new and moved deadlines automatically.
+      </Text>
+
+      <View style={styles.options}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.option, { borderColor: theme.colors.primary + '40', backgroundColor: theme.colors.primary + '10' }]}
+            onPress={option.onPress}
+            disabled={working}
+          >
+            <IconSymbol
+              ios_icon_name={option.iosIcon}
+              android_material_icon_name={option.androidIcon}
+              size={16}
+              color={theme.colors.primary}
+            />
+            <Text style={[styles.optionText, { color: theme.colors.primary }]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity onPress={handleResetLink} disabled={working} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+        <Text style={[styles.resetText, { color: theme.colors.text }]}>Reset calendar link</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    gap: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  description: {
+    fontSize: 13,
+    lineHeight: 18,
+    opacity: 0.6,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  resetText: {
+    fontSize: 12,
+    opacity: 0.5,
+    marginTop: 4,
+    textDecorationLine: 'underline',
+  },
+});
@@ -9,12 +9,26 @@ import {
   ActivityIndicator,
   Platform,
   ScrollView,
+  Alert,
+  LayoutChangeEvent,
 } from 'react-native';
 import { useTheme } from '@react-navigation/native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { IconSymbol } from '@/components/IconSymbol';
 import { supabase } from '@/app/integrations/supabase/client';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import {
+  CHAT_PAGE_SIZE,
+  ChatMessageSummary,
+  fetchEarlierMessages,
+  fetchMessage,
+  fetchMessages as fetchJobMessages,
+  markMessagesRead,
+  sendTextMessage,
+  subscribeToMessages,
+  unsubscribe,
+} from '@/services/chat';
+import { fetchProfile, fetchPublicProfiles, PublicProfile } from '@/services/profiles';
 import { useKeyboardHandler } from 'react-native-keyboard-controller';
 import Animated, {
   useSharedValue,
@@ -22,27 +36,20 @@ import Animated, {
   withTiming,
 } from 'react-native-reanimated';
 
-interface UserProfile {
-  user_id: string;
-  display_name: string | null;
-  avatar_url: string | null;
-}
-
-interface Message {
-  id: string;
-  message_text: string;
-  user_id: string;
-  created_at: string;
-  message_type: 'text' | 'image' | 'voice';
-  image_url?: string;
-  userProfile?: UserProfile;
+type Message = ChatMessageSummary & {
+  userProfile?: PublicProfile;
   isOptimistic?: boolean;
-}
+};
 
 interface ChatTabProps {
   jobId: string;
+  // Message to scroll to and highlight, e.g. from a summary item's source link
+  highlightMessageId?: string | null;
+  onHighlightHandled?: () => void;
 }
 
+const HIGHLIGHT_DURATION_MS = 2500;
+
 // Helper functions defined outside component
 function getInitials(displayName: string | null | undefined, userId: string): string {
   if (displayName) {
@@ -70,6 +77,27 @@ function formatMessageTime(timestamp: string): string {
   return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
 }
 
+async function attachProfiles(messagesData: ChatMessageSummary[]): Promise<Message[]> {
+  const userIds = [...new Set(messagesData.map((msg) => msg.user_id))];
+  if (userIds.length === 0) return [];
+
+  const { data: profilesData, error: profilesError } = await fetchPublicProfiles(userIds);
+
+  if (profilesError) {
+    console.error('Error fetching profiles:', profilesError);
+  }
+
+  return messagesData.map((msg) => ({
+    ...msg,
+    userProfile: profilesData?.find((profile) => profile.user_id === msg.user_id) || {
+      user_id: msg.user_id,
+      display_name: null,
+      avatar_url: null,
+    },
+    isOptimistic: false,
+  }));
+}
+
 // Separate component for message text to isolate Android rendering
 function MessageTextContent({ text }: { text: string }) {
   const displayText = String(text || '');
@@ -91,11 +119,15 @@ function MessageTextContent({ text }: { text: string }) {
 function MessageBubble({
   message,
   isCurrentUser,
+  isHighlighted,
   theme,
+  onLayout,
 }: {
   message: Message;
   isCurrentUser: boolean;
+  isHighlighted?: boolean;
   theme: any;
+  onLayout?: (event: LayoutChangeEvent) => void;
 }) {
   // Get display name with better fallback handling
   const displayName = React.useMemo(() => {
@@ -113,12 +145,34 @@ function MessageBubble({
   // Use avatar color for chat bubble
   const bubbleColor = isCurrentUser ? theme.colors.primary : avatarColor;
 
+  // Notices posted by the app, e.g. a question answered from the summary
+  if (message.message_type === 'system') {
+    return (
+      <View
+        style={[
+          styles.systemMessageWrapper,
+          isHighlighted && [styles.messageWrapperHighlighted, { backgroundColor: theme.colors.primary + '25' }],
+        ]}
+        onLayout={onLayout}
+      >
+        <View style={[styles.systemMessage, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+          <Text style={[styles.systemMessageText, { color: theme.colors.text }]}>{messageText}</Text>
+          <Text style={[styles.systemMessageMeta, { color: theme.colors.text }]}>
+            {displayName} · {formatMessageTime(message.created_at)}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View
       style={[
         styles.messageWrapper,
         isCurrentUser ? styles.messageWrapperRight : styles.messageWrapperLeft,
+        isHighlighted && [styles.messageWrapperHighlighted, { backgroundColor: theme.colors.primary + '25' }],
       ]}
+      onLayout={onLayout}
     >
       <View style={styles.messageRow}>
         {!isCurrentUser && (
@@ -166,7 +220,7 @@ function MessageBubble({
   );
 }
 
-export default function ChatTab({ jobId }: ChatTabProps) {
+export default function ChatTab({ jobId, highlightMessageId, onHighlightHandled }: ChatTabProps) {
   const theme = useTheme();
   const insets = useSafeAreaInsets();
   const scrollViewRef = useRef<ScrollView>(null);
@@ -175,8 +229,18 @@ export default function ChatTab({ jobId }: ChatTabProps) {
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [currentUserProfile, setCurrentUserProfile] = useState<UserProfile | null>(null);
+  const [currentUserProfile, setCurrentUserProfile] = useState<PublicProfile | null>(null);
   const channelRef = useRef<RealtimeChannel | null>(null);
+  const [hasEarlier, setHasEarlier] = useState(false);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const messageOffsetsRef = useRef(new Map<string, number>());
+  const pendingScrollIdRef = useRef<string | null>(null);
+  // Set while showing older messages so new layout doesn't jump back to the end
+  const holdScrollRef = useRef(false);
+  // Latest messages for the jump effect, which should only rerun for a new link
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
 
   // Keyboard animation
   const keyboardHeight = useSharedValue(0);
@@ -211,11 +275,7 @@ export default function ChatTab({ jobId }: ChatTabProps) {
         console.log('Current user ID:', user.id);
         setCurrentUserId(user.id);
 
-        const { data: profileData, error: profileError } = await supabase
-          .from('user_profiles')
-          .select('user_id, display_name, avatar_url')
-          .eq('user_id', user.id)
-          .single();
+        const { data: profileData, error: profileError } = await fetchProfile(user.id);
 
         if (profileError) {
           console.log('Profile fetch error:', profileError);
@@ -243,24 +303,12 @@ export default function ChatTab({ jobId }: ChatTabProps) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const now = new Date().toISOString();
-
-      // Upsert the read status with current timestamp
-      const { error } = await supabase
-        .from('chat_read_status')
-        .upsert({
-          user_id: user.id,
-          job_id: jobId,
-          last_read_at: now,
-          updated_at: now,
-        }, {
-          onConflict: 'user_id,job_id',
-        });
+      const { data, error } = await markMessagesRead(jobId, user.id);
 
       if (error) {
         console.error('Error marking messages as read:', error);
       } else {
-        console.log('Messages marked as read for job:', jobId, 'at', now);
+        console.log('Messages marked as read for job:', jobId, 'at', data.last_read_at);
       }
     } catch (error) {
       console.error('Exception marking messages as read:', error);
@@ -269,15 +317,9 @@ export default function ChatTab({ jobId }: ChatTabProps) {
 
   const fetchMessages = useCallback(async () => {
     try {
-      if (messages.length === 0) setLoading(true);
-
       console.log('Fetching messages for job:', jobId);
 
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('chat_messages')
-        .select('id, message_text, user_id, created_at, message_type, image_url')
-        .eq('job_id', jobId)
-        .order('created_at', { ascending: true });
+      const { data: messagesData, error: messagesError } = await fetchJobMessages(jobId);
 
       if (messagesError) {
         console.error('Error fetching messages:', messagesError);
@@ -288,56 +330,21 @@ export default function ChatTab({ jobId }: ChatTabProps) {
       if (!messagesData || messagesData.length === 0) {
         console.log('No messages found for job:', jobId);
         setMessages([]);
+        setHasEarlier(false);
         return;
       }
 
       console.log('Fetched messages count:', messagesData.length);
 
-      // Get unique user IDs
-      const userIds = [...new Set(messagesData.map((msg) => msg.user_id))];
-      console.log('Fetching profiles for user IDs:', userIds);
-
-      // Fetch all user profiles
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('user_profiles')
-        .select('user_id, display_name, avatar_url')
-        .in('user_id', userIds);
-
-      if (profilesError) {
-        console.error('Error fetching profiles:', profilesError);
-      } else {
-        console.log('Fetched profiles:', profilesData);
-      }
-
-      // Map messages with their user profiles
-      const messagesWithProfiles = messagesData.map((msg) => {
-        const userProfile = profilesData?.find((profile) => profile.user_id === msg.user_id);
-        
-        if (!userProfile) {
-          console.log('No profile found for user:', msg.user_id);
-        }
-
-        return {
-          ...msg,
-          userProfile: userProfile || {
-            user_id: msg.user_id,
-            display_name: null,
-            avatar_url: null,
-          },
-          isOptimistic: false,
-        };
-      });
-
-      console.log('Messages with profiles:', messagesWithProfiles.map(m => ({
-        id: m.id,
-        user_id: m.user_id,
-        display_name: m.userProfile?.display_name
-      })));
+      const messagesWithProfiles = await attachProfiles(messagesData);
+      setHasEarlier(messagesData.length === CHAT_PAGE_SIZE);
 
       setMessages(messagesWithProfiles);
 
       setTimeout(() => {
-        scrollViewRef.current?.scrollToEnd({ animated: false });
+        if (!holdScrollRef.current) {
+          scrollViewRef.current?.scrollToEnd({ animated: false });
+        }
       }, 100);
     } catch (error) {
       console.error('Error in fetchMessages:', error);
@@ -345,74 +352,63 @@ export default function ChatTab({ jobId }: ChatTabProps) {
     } finally {
       setLoading(false);
     }
-  }, [jobId, messages.length]);
+  }, [jobId]);
 
   const setupRealtimeSubscription = useCallback(() => {
-    const channel = supabase
-      .channel(`chat:${jobId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'chat_messages',
-          filter: `job_id=eq.${jobId}`,
+    const channel = subscribeToMessages(jobId, async (inserted) => {
+      console.log('New message received via Realtime:', inserted);
+
+      // Fetch the user profile for the new message
+      const { data: profilesData } = await fetchPublicProfiles([inserted.user_id]);
+      const profileData = profilesData?.[0];
+
+      console.log('Profile for new message:', profileData);
+
+      const newMessage: Message = {
+        id: inserted.id,
+        message_text: inserted.message_text,
+        user_id: inserted.user_id,
+        created_at: inserted.created_at,
+        message_type: inserted.message_type,
+        image_url: inserted.image_url,
+        userProfile: profileData || {
+          user_id: inserted.user_id,
+          display_name: null,
+          avatar_url: null,
         },
-        async (payload) => {
-          console.log('New message received via Realtime:', payload);
-
-          // Fetch the user profile for the new message
-          const { data: profileData } = await supabase
-            .from('user_profiles')
-            .select('user_id, display_name, avatar_url')
-            .eq('user_id', payload.new.user_id)
-            .single();
-
-          console.log('Profile for new message:', profileData);
-
-          const newMessage = {
-            ...payload.new,
-            userProfile: profileData || {
-              user_id: payload.new.user_id,
-              display_name: null,
-              avatar_url: null,
-            },
-            isOptimistic: false,
-          } as Message;
-
-          setMessages((prev) => {
-            const hasOptimistic = prev.some(
-              (msg) => msg.isOptimistic && msg.message_text === payload.new.message_text
-            );
-
-            if (hasOptimistic) {
-              // Replace optimistic message with real one
-              return prev.map((msg) =>
-                msg.isOptimistic && msg.message_text === payload.new.message_text
-                  ? newMessage
-                  : msg
-              );
-            } else {
-              // Add new message
-              return [...prev, newMessage];
-            }
-          });
+        isOptimistic: false,
+      };
 
-          // Mark as read when new message arrives while viewing chat
-          setTimeout(() => {
-            markMessagesAsRead();
-          }, 500);
+      setMessages((prev) => {
+        const hasOptimistic = prev.some(
+          (msg) => msg.isOptimistic && msg.message_text === inserted.message_text
+        );
 
-          // Scroll to bottom
-          setTimeout(() => {
-            scrollViewRef.current?.scrollToEnd({ animated: true });
-          }, 100);
+        if (hasOptimistic) {
+          // Replace optimistic message with real one
+          return prev.map((msg) =>
+            msg.isOptimistic && msg.message_text === inserted.message_text
+              ? newMessage
+              : msg
+          );
+        } else {
+          // Add new message
+          return [...prev, newMessage];
         }
-      )
-      .subscribe((status) => {
-        console.log('Realtime subscription status:', status);
       });
 
+      // Mark as read when new message arrives while viewing chat
+      setTimeout(() => {
+        markMessagesAsRead();
+      }, 500);
+
+      // Scroll to bottom
+      holdScrollRef.current = false;
+      setTimeout(() => {
+        scrollViewRef.current?.scrollToEnd({ animated: true });
+      }, 100);
+    });
+
     channelRef.current = channel;
   }, [jobId, markMessagesAsRead]);
 
@@ -424,11 +420,117 @@ export default function ChatTab({ jobId }: ChatTabProps) {
 
     return () => {
       if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
+        unsubscribe(channelRef.current);
       }
     };
   }, [getCurrentUser, fetchMessages, setupRealtimeSubscription, markMessagesAsRead]);
 
+  const scrollToMessage = useCallback((messageId: string) => {
+    const offset = messageOffsetsRef.current.get(messageId);
+
+    if (offset === undefined) {
+      // Not laid out yet; handleMessageLayout scrolls once it is
+      pendingScrollIdRef.current = messageId;
+      return;
+    }
+
+    pendingScrollIdRef.current = null;
+    scrollViewRef.current?.scrollTo({ y: Math.max(offset - 16, 0), animated: true });
+  }, []);
+
+  const handleMessageLayout = useCallback((messageId: string, event: LayoutChangeEvent) => {
+    messageOffsetsRef.current.set(messageId, event.nativeEvent.layout.y);
+
+    if (pendingScrollIdRef.current === messageId) {
+      scrollToMessage(messageId);
+    }
+  }, [scrollToMessage]);
+
+  const handleLoadEarlier = async () => {
+    const oldest = messages.find((msg) => !msg.isOptimistic);
+    if (!oldest || loadingEarlier) return;
+
+    try {
+      setLoadingEarlier(true);
+      holdScrollRef.current = true;
+
+      const { data, error } = await fetchEarlierMessages(jobId, oldest.created_at);
+
+      if (error) {
+        console.error('Error loading earlier messages:', error);
+        return;
+      }
+
+      const earlier = await attachProfiles(data);
+      setHasEarlier(data.length === CHAT_PAGE_SIZE);
+      setMessages((prev) => [...earlier, ...prev]);
+    } catch (error) {
+      console.error('Exception loading earlier messages:', error);
+    } finally {
+      setLoadingEarlier(false);
+    }
+  };
+
+  // Jump to a linked message, loading everything back to it if it is older
+  // than the loaded window
+  useEffect(() => {
+    if (!highlightMessageId || loading) return;
+
+    let cancelled = false;
+
+    const jumpToMessage = async () => {
+      holdScrollRef.current = true;
+
+      if (!messagesRef.current.some((msg) => msg.id === highlightMessageId)) {
+        const oldest = messagesRef.current.find((msg) => !msg.isOptimistic);
+        const { data: target, error } = await fetchMessage(jobId, highlightMessageId);
+
+        if (error || !target || !oldest) {
+          if (error) console.error('Error loading linked message:', error);
+          if (!cancelled) {
+            Alert.alert('Message Not Found', 'The source message is no longer available.');
+            onHighlightHandled?.();
+          }
+          return;
+        }
+
+        const { data: earlierData, error: earlierError } = await fetchEarlierMessages(
+          jobId,
+          oldest.created_at,
+          target.created_at
+        );
+
+        if (earlierError) {
+          console.error('Error loading earlier messages:', earlierError);
+          if (!cancelled) onHighlightHandled?.();
+          return;
+        }
+
+        const earlier = await attachProfiles(earlierData);
+        if (cancelled) return;
+        setMessages((prev) => [...earlier, ...prev]);
+      }
+
+      if (cancelled) return;
+      scrollToMessage(highlightMessageId);
+      setHighlightedId(highlightMessageId);
+      onHighlightHandled?.();
+    };
+
+    jumpToMessage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [highlightMessageId, loading, jobId, scrollToMessage, onHighlightHandled]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
   const handleSend = async () => {
     const trimmedMessage = message.trim();
     if (!trimmedMessage || !currentUserId || sending) {
@@ -444,6 +546,7 @@ export default function ChatTab({ jobId }: ChatTabProps) {
         user_id: currentUserId,
         created_at: new Date().toISOString(),
         message_type: 'text',
+        image_url: null,
         userProfile: currentUserProfile || {
           user_id: currentUserId,
           display_name: null,
@@ -454,32 +557,25 @@ export default function ChatTab({ jobId }: ChatTabProps) {
 
       setMessages((prev) => [...prev, optimisticMessage]);
       setMessage('');
+      holdScrollRef.current = false;
 
       setTimeout(() => {
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }, 50);
 
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .insert({
-          job_id: jobId,
-          user_id: currentUserId,
-          message_text: trimmedMessage,
-          message_type: 'text',
-        })
-        .select();
+      const { data, error } = await sendTextMessage(jobId, currentUserId, trimmedMessage);
 
       if (error) {
         console.error('Error sending message:', error);
         setMessages((prev) => prev.filter((msg) => msg.id !== optimisticMessage.id));
         alert('Failed to send message. Please try again.');
-      } else if (data && data.length > 0) {
-        console.log('Message sent successfully:', data[0]);
+      } else {
+        console.log('Message sent successfully:', data);
         setMessages((prev) =>
           prev.map((msg) =>
             msg.id === optimisticMessage.id
               ? {
-                  ...data[0],
+                  ...data,
                   userProfile: currentUserProfile || {
                     user_id: currentUserId,
                     display_name: null,
@@ -520,7 +616,11 @@ export default function ChatTab({ jobId }: ChatTabProps) {
           style={styles.scrollView}
           contentContainerStyle={styles.messagesContent}
           showsVerticalScrollIndicator={false}
-          onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
+          onContentSizeChange={() => {
+            if (!holdScrollRef.current) {
+              scrollViewRef.current?.scrollToEnd({ animated: true });
+            }
+          }}
           keyboardShouldPersistTaps="handled"
         >
           {messages.length === 0 ? (
@@ -540,14 +640,33 @@ export default function ChatTab({ jobId }: ChatTabProps) {
               </Text>
             </View>
           ) : (
-            messages.map((msg) => (
-              <MessageBubble
-                key={msg.id}
-                message={msg}
-                isCurrentUser={msg.user_id === currentUserId}
-                theme={theme}
-              />
-            ))
+            <>
+              {hasEarlier && (
+                <TouchableOpacity
+                  style={[styles.loadEarlierButton, { borderColor: theme.colors.border }]}
+                  onPress={handleLoadEarlier}
+                  disabled={loadingEarlier}
+                >
+                  {loadingEarlier ? (
+                    <ActivityIndicator size="small" color={theme.colors.primary} />
+                  ) : (
+                    <Text style={[styles.loadEarlierText, { color: theme.colors.primary }]}>
+                      Load earlier messages
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              )}
+              {messages.map((msg) => (
+                <MessageBubble
+                  key={msg.id}
+                  message={msg}
+                  isCurrentUser={msg.user_id === currentUserId}
+                  isHighlighted={msg.id === highlightedId}
+                  theme={theme}
+                  onLayout={(event) => handleMessageLayout(msg.id, event)}
+                />
+              ))}
+            </>
           )}
         </ScrollView>
       </Animated.View>
@@ -663,6 +782,44 @@ const styles = StyleSheet.create({
   messageWrapperRight: {
     alignSelf: 'flex-end',
   },
+  messageWrapperHighlighted: {
+    borderRadius: 16,
+    padding: 6,
+  },
+  systemMessageWrapper: {
+    alignSelf: 'center',
+    maxWidth: '90%',
+    marginVertical: 8,
+  },
+  systemMessage: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    alignItems: 'center',
+    gap: 4,
+  },
+  systemMessageText: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+  systemMessageMeta: {
+    fontSize: 11,
+    opacity: 0.5,
+  },
+  loadEarlierButton: {
+    alignSelf: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  loadEarlierText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   messageRow: {
     flexDirection: 'row',
     alignItems: 'flex-end',
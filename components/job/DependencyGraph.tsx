@@ -0,0 +1,195 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import type { DependencyAnalysis, DependencyNodeType } from '@/utils/dependencyGraph';
+
+interface DependencyGraphProps {
+  analysis: DependencyAnalysis;
+  selectedKey?: string | null;
+  // Called with the key of a tapped dependency
+  onSelectDependency?: (key: string) => void;
+}
+
+export const NODE_TYPE_STYLES: Record<DependencyNodeType, { label: string; color: string }> = {
+  dependency: { label: 'Dependency', color: '#8B5CF6' },
+  action: { label: 'Action', color: '#10B981' },
+  issue: { label: 'Issue', color: '#F59E0B' },
+  deadline: { label: 'Deadline', color: '#3B82F6' },
+};
+
+const CHAIN_COLOR = '#EF4444';
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 72;
+const COLUMN_GAP = 16;
+const ROW_GAP = 48;
+const PADDING = 16;
+const LINE_WIDTH = 2;
+
+/**
+ * Draws dependencies and the items they block as rows of boxes joined by
+ * lines, with the chain holding up the nearest deadline in red. There is no
+ * SVG here, so each line is a thin view rotated into place.
+ */
+export default function DependencyGraph({ analysis, selectedKey, onSelectDependency }: DependencyGraphProps) {
+  const theme = useTheme();
+  const { nodes, edges, layers, blockingChain, circular, unlinked, orphaned } = analysis;
+
+  const { positions, width, height } = useMemo(() => {
+    const widest = Math.max(1, ...layers.map((layer) => layer.length));
+    const graphWidth = PADDING * 2 + widest * NODE_WIDTH + (widest - 1) * COLUMN_GAP;
+    const nodePositions = new Map<string, { x: number; y: number }>();
+
+    layers.forEach((layer, row) => {
+      // Center shorter rows under the widest one
+      const rowWidth = layer.length * NODE_WIDTH + (layer.length - 1) * COLUMN_GAP;
+      const offset = (graphWidth - rowWidth) / 2;
+      layer.forEach((key, index) => {
+        nodePositions.set(key, {
+          x: offset + index * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+        });
+      });
+    });
+
+    return {
+      positions: nodePositions,
+      width: graphWidth,
+      height: PADDING * 2 + layers.length * NODE_HEIGHT + Math.max(0, layers.length - 1) * ROW_GAP,
+    };
+  }, [layers]);
+
+  const renderEdge = (from: string, to: string) => {
+    const start = positions.get(from);
+    const end = positions.get(to);
+    if (!start || !end) return null;
+
+    // From the bottom middle of the blocker to the top middle of what it blocks.
+    // Links inside a cycle can point back up or along a row, so those join the
+    // facing edges instead.
+    let x1 = start.x + NODE_WIDTH / 2;
+    let y1 = start.y + NODE_HEIGHT;
+    let x2 = end.x + NODE_WIDTH / 2;
+    let y2 = end.y;
+    if (end.y === start.y) {
+      const rightward = end.x > start.x;
+      x1 = rightward ? start.x + NODE_WIDTH : start.x;
+      x2 = rightward ? end.x : end.x + NODE_WIDTH;
+      y1 = y2 = start.y + NODE_HEIGHT / 2;
+    } else if (end.y < start.y) {
+      y1 = start.y;
+      y2 = end.y + NODE_HEIGHT;
+    }
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const onChain = blockingChain.has(from) && blockingChain.has(to);
+    const color = onChain ? CHAIN_COLOR : theme.colors.text + '40';
+
+    return (
+      <React.Fragment key={`${from}->${to}`}>
+        <View
+          style={[
+            styles.line,
+            {
+              left: (x1 + x2) / 2 - length / 2,
+              top: (y1 + y2) / 2 - LINE_WIDTH / 2,
+              width: length,
+              backgroundColor: color,
+              transform: [{ rotate: `${angle}rad` }],
+            },
+          ]}
+        />
+        <View style={[styles.arrowHead, { left: x2 - 4, top: y2 - 4, backgroundColor: color }]} />
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View style={{ width, height }}>
+        {edges.map((edge) => renderEdge(edge.from, edge.to))}
+
+        {nodes.map((node) => {
+          const position = positions.get(node.key);
+          if (!position) return null;
+
+          const typeStyle = NODE_TYPE_STYLES[node.type];
+          const onChain = blockingChain.has(node.key);
+          const flag = circular.has(node.key)
+            ? 'Circular'
+            : unlinked.has(node.key)
+              ? 'Not linked yet'
+              : orphaned.has(node.key) ? 'Orphaned' : null;
+          const selected = node.key === selectedKey;
+
+          return (
+            <TouchableOpacity
+              key={node.key}
+              style={[
+                styles.node,
+                {
+                  left: position.x,
+                  top: position.y,
+                  backgroundColor: theme.colors.card,
+                  borderColor: selected ? theme.colors.primary : onChain ? CHAIN_COLOR : theme.colors.border,
+                  borderWidth: selected || onChain ? 2 : 1,
+                  borderStyle: circular.has(node.key) ? 'dashed' : 'solid',
+                  opacity: unlinked.has(node.key) || orphaned.has(node.key) ? 0.6 : 1,
+                },
+              ]}
+              onPress={() => onSelectDependency?.(node.key)}
+              disabled={node.type !== 'dependency' || !onSelectDependency}
+              activeOpacity={0.7}
+            >
+              <View style={styles.nodeHeader}>
+                <Text style={[styles.nodeType, { color: typeStyle.color }]}>{typeStyle.label}</Text>
+                {flag && (
+                  <Text style={[styles.nodeFlag, { color: flag === 'Circular' ? '#F97316' : theme.colors.text }]}>{flag}</Text>
+                )}
+              </View>
+              <Text style={[styles.nodeTitle, { color: theme.colors.text }]} numberOfLines={2}>{node.title}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  line: {
+    position: 'absolute',
+    height: LINE_WIDTH,
+  },
+  arrowHead: {
+    position: 'absolute',
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  node: {
+    position: 'absolute',
+    width: NODE_WIDTH,
+    height: NODE_HEIGHT,
+    borderRadius: 12,
+    padding: 8,
+    gap: 4,
+  },
+  nodeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  nodeType: {
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  nodeFlag: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  nodeTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
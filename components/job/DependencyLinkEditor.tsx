@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import type { Dependency, DependencyLink, Job } from '@/app/integrations/supabase/types';
+import { NODE_TYPE_STYLES } from '@/components/job/DependencyGraph';
+import { setDependencyLinks } from '@/services/dependencies';
+import { DependencyGraphJob, DependencyNodeType, nodeKey } from '@/utils/dependencyGraph';
+
+interface DependencyLinkEditorProps {
+  jobId: string;
+  job: DependencyGraphJob;
+  dependency: Dependency;
+  onSaved: (job: Job) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Picks the actions, issues, deadlines and other dependencies that a
+ * dependency blocks. Links to items no longer on the job are dropped on save.
+ */
+export default function DependencyLinkEditor({ jobId, job, dependency, onSaved, onCancel }: DependencyLinkEditorProps) {
+  const theme = useTheme();
+  const [selected, setSelected] = useState(
+    () => new Set((dependency.blocks || []).map((link) => nodeKey(link.type, link.id)))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const groups = useMemo(() => {
+    const linked = new Set((dependency.blocks || []).map((link) => nodeKey(link.type, link.id)));
+    const options: { type: DependencyNodeType; items: { id: string; title: string }[] }[] = [
+      { type: 'action', items: job.next_actions || [] },
+      // Resolved issues stay on the job, but only matter if already linked
+      {
+        type: 'issue',
+        items: (job.open_issues || []).filter(
+          (issue) => issue.status !== 'resolved' || linked.has(nodeKey('issue', issue.id))
+        ),
+      },
+      { type: 'deadline', items: job.deadlines_and_timelines || [] },
+      { type: 'dependency', items: (job.dependencies || []).filter((item) => item.id !== dependency.id) },
+    ];
+    return options.filter((group) => group.items.length > 0);
+  }, [job, dependency]);
+
+  const toggle = (key: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const links: DependencyLink[] = groups.flatMap((group) =>
+      group.items
+        .filter((item) => selected.has(nodeKey(group.type, item.id)))
+        .map((item) => ({ type: group.type, id: item.id }))
+    );
+
+    try {
+      setSaving(true);
+
+      const { data, error } = await setDependencyLinks(jobId, dependency.id, links);
+
+      if (error) {
+        console.error('Error linking dependency:', error);
+        Alert.alert('Error', `Failed to save links: ${error.message}`);
+        return;
+      }
+
+      onSaved(data);
+    } catch (error) {
+      console.error('Exception linking dependency:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderTopColor: theme.colors.border }]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>This dependency blocks</Text>
+
+      {groups.length === 0 && (
+        <Text style={[styles.emptyText, { color: theme.colors.text }]}>
+          There are no actions, issues or deadlines on this job yet.
+        </Text>
+      )}
+
+      {groups.map((group) => {
+        const { label, color } = NODE_TYPE_STYLES[group.type];
+        return (
+          <View key={group.type} style={styles.group}>
+            <Text style={[styles.groupLabel, { color }]}>{label}s</Text>
+            <View style={styles.chipRow}>
+              {group.items.map((item) => {
+                const key = nodeKey(group.type, item.id);
+                const isSelected = selected.has(key);
+                return (
+                  <TouchableOpacity
+                    key={key}
+                    style={[
+                      styles.chip,
+                      {
+                        borderColor: isSelected ? color : theme.colors.border,
+                        backgroundColor: isSelected ? color + '20' : 'transparent',
+                      },
+                    ]}
+                    onPress={() => toggle(key)}
+                    disabled={saving}
+                  >
+                    <Text style={[styles.chipText, { color: isSelected ? color : theme.colors.text }]} numberOfLines={1}>
+                      {item.title}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        );
+      })}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.secondaryButton, { borderColor: theme.colors.border }]}
+          onPress={onCancel}
+          disabled={saving}
+        >
+          <Text style={[styles.secondaryButtonText, { color: theme.colors.text }]}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: theme.colors.primary }]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Save Links</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    gap: 12,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    opacity: 0.6,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  group: {
+    gap: 6,
+  },
+  groupLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    maxWidth: '100%',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
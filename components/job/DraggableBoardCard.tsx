@@ -0,0 +1,113 @@
+import React from 'react';
+import { StyleProp, ViewStyle, useWindowDimensions } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  AnimatedRef,
+  SharedValue,
+  runOnJS,
+  scrollTo,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+} from 'react-native-reanimated';
+
+// Fixed column geometry of a horizontally scrolling board, used to work out
+// which column a card was dropped on
+export interface BoardLayout {
+  columnWidth: number;
+  columnGap: number;
+  paddingHorizontal: number;
+  columnCount: number;
+}
+
+interface DraggableBoardCardProps {
+  columnIndex: number;
+  layout: BoardLayout;
+  // The board's horizontal scroll view and its current offset. The board is
+  // expected to start at the left edge of the window.
+  scrollRef: AnimatedRef<Animated.ScrollView>;
+  scrollX: SharedValue<number>;
+  disabled?: boolean;
+  onDragStart: (columnIndex: number) => void;
+  onDragEnd: () => void;
+  onDrop: (targetColumnIndex: number) => void;
+  style?: StyleProp<ViewStyle>;
+  children: React.ReactNode;
+}
+
+// Scroll the board while a card is held this close to the edge of the screen
+const EDGE_SIZE = 48;
+const EDGE_SCROLL_STEP = 12;
+
+/**
+ * Board card that can be long-pressed and dragged to another column. The card
+ * springs back into place on release; moving it is up to `onDrop`.
+ */
+export default function DraggableBoardCard({
+  columnIndex,
+  layout,
+  scrollRef,
+  scrollX,
+  disabled = false,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+  style,
+  children,
+}: DraggableBoardCardProps) {
+  const { width: windowWidth } = useWindowDimensions();
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const startScrollX = useSharedValue(0);
+  const dragging = useSharedValue(false);
+
+  const pan = Gesture.Pan()
+    .enabled(!disabled)
+    .activateAfterLongPress(250)
+    .onStart(() => {
+      startScrollX.value = scrollX.value;
+      dragging.value = true;
+      runOnJS(onDragStart)(columnIndex);
+    })
+    .onUpdate((event) => {
+      if (event.absoluteX > windowWidth - EDGE_SIZE) {
+        scrollTo(scrollRef, scrollX.value + EDGE_SCROLL_STEP, 0, false);
+      } else if (event.absoluteX < EDGE_SIZE) {
+        scrollTo(scrollRef, Math.max(0, scrollX.value - EDGE_SCROLL_STEP), 0, false);
+      }
+
+      // Follow the finger even while the board scrolls underneath the card
+      translateX.value = event.translationX + scrollX.value - startScrollX.value;
+      translateY.value = event.translationY;
+    })
+    .onEnd((event) => {
+      const contentX = event.absoluteX + scrollX.value - layout.paddingHorizontal;
+      const target = Math.floor(contentX / (layout.columnWidth + layout.columnGap));
+      runOnJS(onDrop)(Math.min(Math.max(target, 0), layout.columnCount - 1));
+    })
+    .onFinalize(() => {
+      // Also called for touches that never turned into a drag
+      if (!dragging.value) return;
+
+      translateX.value = withSpring(0);
+      translateY.value = withSpring(0);
+      dragging.value = false;
+      runOnJS(onDragEnd)();
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    zIndex: dragging.value ? 10 : 0,
+    opacity: dragging.value ? 0.9 : 1,
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: withSpring(dragging.value ? 1.04 : 1) },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Animated.View style={[style, animatedStyle]}>{children}</Animated.View>
+    </GestureDetector>
+  );
+}
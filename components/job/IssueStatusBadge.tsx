@@ -0,0 +1,41 @@
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle, StyleProp } from 'react-native';
+import type { IssueStatus } from '@/app/integrations/supabase/types';
+
+export const ISSUE_STATUSES: { status: IssueStatus; label: string; color: string }[] = [
+  { status: 'open', label: 'Open', color: '#F59E0B' },
+  { status: 'in_progress', label: 'In Progress', color: '#3B82F6' },
+  { status: 'blocked', label: 'Blocked', color: '#EF4444' },
+  { status: 'resolved', label: 'Resolved', color: '#10B981' },
+];
+
+export const getIssueStatusStyle = (status?: IssueStatus) =>
+  ISSUE_STATUSES.find((option) => option.status === (status ?? 'open')) ?? ISSUE_STATUSES[0];
+
+interface IssueStatusBadgeProps {
+  status?: IssueStatus;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function IssueStatusBadge({ status, style }: IssueStatusBadgeProps) {
+  const { label, color } = getIssueStatusStyle(status);
+
+  return (
+    <View style={[styles.badge, { backgroundColor: color + '20' }, style]}>
+      <Text style={[styles.text, { color }]}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
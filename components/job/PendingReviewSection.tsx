@@ -0,0 +1,255 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { IconSymbol } from '@/components/IconSymbol';
+import type { PendingChange } from '@/app/integrations/supabase/types';
+
+interface PendingReviewSectionProps {
+  changes: PendingChange[];
+  canReview: boolean;
+  reviewingId: string | null;
+  onReview: (change: PendingChange, accept: boolean) => void;
+}
+
+const getSectionIcon = (section: string): { ios: string; android: keyof typeof MaterialIcons.glyphMap; color: string } => {
+  switch (section) {
+    case 'job_overview':
+      return { ios: 'sparkles', android: 'auto-awesome', color: '#3B82F6' };
+    case 'open_issues':
+      return { ios: 'exclamationmark.triangle', android: 'warning', color: '#F59E0B' };
+    case 'unanswered_questions':
+      return { ios: 'questionmark.circle', android: 'help', color: '#3B82F6' };
+    case 'next_actions':
+      return { ios: 'checkmark.circle', android: 'check-circle', color: '#10B981' };
+    case 'warnings_and_risks':
+      return { ios: 'exclamationmark.shield', android: 'shield', color: '#EF4444' };
+    case 'deadlines_and_timelines':
+      return { ios: 'clock', android: 'schedule', color: '#8B5CF6' };
+    case 'dependencies':
+      return { ios: 'link', android: 'link', color: '#06B6D4' };
+    default:
+      return { ios: 'pencil', android: 'edit', color: '#64748B' };
+  }
+};
+
+const getSectionLabel = (section: string) => {
+  switch (section) {
+    case 'job_overview':
+      return 'Job Overview';
+    case 'open_issues':
+      return 'Open Issue';
+    case 'unanswered_questions':
+      return 'Question';
+    case 'next_actions':
+      return 'Action';
+    case 'warnings_and_risks':
+      return 'Risk';
+    case 'deadlines_and_timelines':
+      return 'Timeline';
+    case 'dependencies':
+      return 'Dependency';
+    default:
+      return section;
+  }
+};
+
+const getProposalLabel = (changeType: string) => {
+  switch (changeType) {
+    case 'created':
+      return 'Add';
+    case 'updated':
+      return 'Rewrite';
+    case 'resolved':
+      return 'Resolve';
+    case 'completed':
+      return 'Complete';
+    case 'cleared':
+      return 'Clear';
+    case 'answered':
+      return 'Answer';
+    default:
+      return changeType;
+  }
+};
+
+const getChangeSummary = (change: PendingChange['change']) => {
+  if (change.section === 'job_overview') {
+    return typeof change.new_value === 'string' ? change.new_value : '';
+  }
+
+  if (change.change_type === 'answered') {
+    return `${change.new_value?.question || ''}\n→ ${change.new_value?.answer || ''}`;
+  }
+
+  const value = change.new_value ?? change.previous_value;
+  return value?.title || value?.question || value?.description || '';
+};
+
+export default function PendingReviewSection({ changes, canReview, reviewingId, onReview }: PendingReviewSectionProps) {
+  const theme = useTheme();
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.section, { backgroundColor: theme.colors.card, borderColor: '#F59E0B' }]}>
+      <View style={styles.sectionHeader}>
+        <IconSymbol
+          ios_icon_name="tray.full"
+          android_material_icon_name="inbox"
+          size={18}
+          color="#F59E0B"
+        />
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+          Pending Review ({changes.length})
+        </Text>
+      </View>
+      <Text style={[styles.sectionSubtitle, { color: theme.colors.text }]}>
+        {canReview
+          ? 'AI-proposed changes are only applied once you accept them.'
+          : 'These AI-proposed changes are waiting for a supervisor.'}
+      </Text>
+
+      {changes.map((pending) => {
+        const { change } = pending;
+        const sectionIcon = getSectionIcon(change.section);
+        const isReviewing = reviewingId === pending.id;
+
+        return (
+          <View key={pending.id} style={[styles.changeCard, { borderColor: theme.colors.border }]}>
+            <View style={styles.changeHeader}>
+              <IconSymbol
+                ios_icon_name={sectionIcon.ios}
+                android_material_icon_name={sectionIcon.android}
+                size={16}
+                color={sectionIcon.color}
+              />
+              <Text style={[styles.changeLabel, { color: sectionIcon.color }]}>
+                {getProposalLabel(change.change_type)} {getSectionLabel(change.section)}
+              </Text>
+            </View>
+            <Text
+              style={[styles.changeSummary, { color: theme.colors.text }]}
+              numberOfLines={change.section === 'job_overview' ? 6 : 3}
+            >
+              {getChangeSummary(change)}
+            </Text>
+            {change.message_text && (
+              <Text style={[styles.changeSource, { color: theme.colors.text }]} numberOfLines={2}>
+                &quot;{change.message_text}&quot;
+              </Text>
+            )}
+
+            {canReview && (
+              <View style={styles.changeActions}>
+                {isReviewing ? (
+                  <ActivityIndicator size="small" color={theme.colors.primary} />
+                ) : (
+                  <>
+                    <TouchableOpacity
+                      style={[styles.reviewButton, { borderColor: theme.colors.border }]}
+                      onPress={() => onReview(pending, false)}
+                      disabled={!!reviewingId}
+                    >
+                      <IconSymbol
+                        ios_icon_name="xmark"
+                        android_material_icon_name="close"
+                        size={16}
+                        color="#EF4444"
+                      />
+                      <Text style={[styles.reviewButtonText, { color: '#EF4444' }]}>Reject</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.reviewButton, { backgroundColor: '#10B981', borderColor: '#10B981' }]}
+                      onPress={() => onReview(pending, true)}
+                      disabled={!!reviewingId}
+                    >
+                      <IconSymbol
+                        ios_icon_name="checkmark"
+                        android_material_icon_name="check"
+                        size={16}
+                        color="#fff"
+                      />
+                      <Text style={[styles.reviewButtonText, { color: '#fff' }]}>Accept</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 12,
+  },
+  changeCard: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  changeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  changeLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  changeSummary: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  changeSource: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    opacity: 0.6,
+    marginTop: 6,
+  },
+  changeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 10,
+  },
+  reviewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  reviewButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
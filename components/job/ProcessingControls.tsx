@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import type { Job, TablesUpdate } from '@/app/integrations/supabase/types';
+import { formatHour, getDeviceTimezone, parseHour, toTime } from '@/utils/dates';
+
+type ProcessingSettings = Pick<
+  Job,
+  | 'processing_paused'
+  | 'processing_debounce_minutes'
+  | 'processing_business_hours'
+  | 'business_hours_start'
+  | 'business_hours_end'
+  | 'business_hours_timezone'
+>;
+
+interface ProcessingControlsProps {
+  settings: ProcessingSettings;
+  updating: boolean;
+  onChange: (changes: TablesUpdate<'jobs'>) => void;
+}
+
+const DEBOUNCE_OPTIONS = [1, 2, 5, 15, 30, 60];
+
+const formatDebounce = (minutes: number) => (minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`);
+
+/**
+ * Admin controls for automatic chat processing: pause, debounce window and
+ * business hours. Collapsed by default with a one-line summary.
+ */
+export default function ProcessingControls({ settings, updating, onChange }: ProcessingControlsProps) {
+  const theme = useTheme();
+  const [expanded, setExpanded] = useState(false);
+
+  const startHour = parseHour(settings.business_hours_start);
+  const endHour = parseHour(settings.business_hours_end);
+
+  const summary = settings.processing_paused
+    ? 'Paused. New messages wait until you resume or process manually.'
+    : settings.processing_business_hours
+      ? `${formatDebounce(settings.processing_debounce_minutes)} after the last message, weekdays ${formatHour(startHour)} – ${formatHour(endHour)}`
+      : `${formatDebounce(settings.processing_debounce_minutes)} after the last message`;
+
+  const renderHourStepper = (label: string, hour: number, min: number, max: number, field: 'business_hours_start' | 'business_hours_end') => (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.stepperLabel, { color: theme.colors.text }]}>{label}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor: theme.colors.border, opacity: hour <= min ? 0.3 : 1 }]}
+        onPress={() => onChange({ [field]: toTime(hour - 1) })}
+        disabled={updating || hour <= min}
+      >
+        <IconSymbol ios_icon_name="minus" android_material_icon_name="remove" size={16} color={theme.colors.text} />
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: theme.colors.text }]}>{formatHour(hour)}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor: theme.colors.border, opacity: hour >= max ? 0.3 : 1 }]}
+        onPress={() => onChange({ [field]: toTime(hour + 1) })}
+        disabled={updating || hour >= max}
+      >
+        <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={16} color={theme.colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={[styles.section, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+      <TouchableOpacity style={styles.sectionHeader} onPress={() => setExpanded((prev) => !prev)}>
+        <IconSymbol
+          ios_icon_name={settings.processing_paused ? 'pause.circle' : 'gearshape'}
+          android_material_icon_name={settings.processing_paused ? 'pause-circle-outline' : 'settings'}
+          size={18}
+          color={settings.processing_paused ? '#F59E0B' : '#64748B'}
+        />
+        <View style={styles.headerText}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Automatic Processing</Text>
+          <Text style={[styles.sectionSubtitle, { color: theme.colors.text }]} numberOfLines={2}>
+            {summary}
+          </Text>
+        </View>
+        <IconSymbol
+          ios_icon_name={expanded ? 'chevron.up' : 'chevron.down'}
+          android_material_icon_name={expanded ? 'expand-less' : 'expand-more'}
+          size={20}
+          color={theme.colors.text}
+          style={{ opacity: 0.4 }}
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        <>
+          <View style={[styles.settingRow, { borderColor: theme.colors.border }]}>
+            <View style={styles.settingText}>
+              <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Process automatically</Text>
+              <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+                Turn off to curate the summary by hand
+              </Text>
+            </View>
+            <Switch
+              value={!settings.processing_paused}
+              onValueChange={(enabled) => onChange({ processing_paused: !enabled })}
+              disabled={updating}
+              trackColor={{ true: theme.colors.primary }}
+            />
+          </View>
+
+          <View style={[styles.settingBlock, { borderColor: theme.colors.border }]}>
+            <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Wait after last message</Text>
+            <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+              Longer waits batch noisy chats into fewer runs
+            </Text>
+            <View style={styles.chipRow}>
+              {DEBOUNCE_OPTIONS.map((minutes) => {
+                const selected = settings.processing_debounce_minutes === minutes;
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[
+                      styles.chip,
+                      {
+                        borderColor: selected ? theme.colors.primary : theme.colors.border,
+                        backgroundColor: selected ? theme.colors.primary + '20' : 'transparent',
+                      },
+                    ]}
+                    onPress={() => onChange({ processing_debounce_minutes: minutes })}
+                    disabled={updating || selected}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? theme.colors.primary : theme.colors.text }]}>
+                      {formatDebounce(minutes)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={[styles.settingRow, { borderColor: theme.colors.border }]}>
+            <View style={styles.settingText}>
+              <Text style={[styles.settingTitle, { color: theme.colors.text }]}>Business hours only</Text>
+              <Text style={[styles.settingSubtitle, { color: theme.colors.text }]}>
+                {settings.processing_business_hours
+                  ? `Monday to Friday (${settings.business_hours_timezone})`
+                  : 'Hold batches outside working hours'}
+              </Text>
+            </View>
+            <Switch
+              value={settings.processing_business_hours}
+              onValueChange={(enabled) =>
+                onChange(
+                  enabled
+                    ? { processing_business_hours: true, business_hours_timezone: getDeviceTimezone() }
+                    : { processing_business_hours: false }
+                )
+              }
+              disabled={updating}
+              trackColor={{ true: theme.colors.primary }}
+            />
+          </View>
+
+          {settings.processing_business_hours && (
+            <View style={styles.stepperGroup}>
+              {renderHourStepper('Start', startHour, 0, endHour - 1, 'business_hours_start')}
+              {renderHourStepper('End', endHour, startHour + 1, 23, 'business_hours_end')}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  settingBlock: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  settingSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  stepperGroup: {
+    marginTop: 8,
+    gap: 8,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import MaterialIcons from '@expo/vector-icons/MaterialIcons';
+import { IconSymbol } from '@/components/IconSymbol';
+import type { ProcessingRun, ProcessingStatus } from '@/app/integrations/supabase/types';
+import { fetchProcessingRuns, MAX_PROCESSING_ATTEMPTS } from '@/services/processingRuns';
+
+interface ProcessingDiagnosticsProps {
+  jobId: string;
+  // Runs are reloaded whenever the job's processing status changes
+  processingStatus?: ProcessingStatus;
+}
+
+const getRunStatusStyle = (
+  status: ProcessingRun['status']
+): { ios: string; android: keyof typeof MaterialIcons.glyphMap; color: string; label: string } => {
+  switch (status) {
+    case 'succeeded':
+      return { ios: 'checkmark.circle.fill', android: 'check-circle', color: '#10B981', label: 'Succeeded' };
+    case 'skipped':
+      return { ios: 'minus.circle', android: 'remove-circle-outline', color: '#6B7280', label: 'No new messages' };
+    case 'failed':
+      return { ios: 'xmark.octagon.fill', android: 'error', color: '#EF4444', label: 'Failed' };
+    case 'cancelled':
+      return { ios: 'stop.circle', android: 'cancel', color: '#F59E0B', label: 'Cancelled' };
+    default:
+      return { ios: 'hourglass', android: 'hourglass-empty', color: '#3B82F6', label: 'Running' };
+  }
+};
+
+const getErrorClassLabel = (errorClass: string) => {
+  switch (errorClass) {
+    case 'openai_rate_limited':
+      return 'OpenAI rate limit';
+    case 'openai_unavailable':
+      return 'OpenAI unavailable';
+    case 'openai_error':
+      return 'OpenAI request rejected';
+    case 'invalid_response':
+      return 'Invalid AI response';
+    case 'network_error':
+      return 'Network error';
+    case 'database_error':
+      return 'Database error';
+    case 'timed_out':
+      return 'Stopped without finishing';
+    default:
+      return 'Unexpected error';
+  }
+};
+
+const formatRunTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatDuration = (run: ProcessingRun) => {
+  if (!run.finished_at) return null;
+
+  const seconds = Math.max(
+    Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000),
+    0
+  );
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const formatMessageRange = (run: ProcessingRun) => {
+  if (run.message_count === 0 || !run.first_message_at || !run.last_message_at) {
+    return 'No messages';
+  }
+
+  const label = `${run.message_count} ${run.message_count === 1 ? 'message' : 'messages'}`;
+  return run.message_count === 1
+    ? `${label} (${formatRunTime(run.first_message_at)})`
+    : `${label} (${formatRunTime(run.first_message_at)} – ${formatRunTime(run.last_message_at)})`;
+};
+
+/**
+ * Admin-only panel listing the job's recent processing runs, with the error
+ * and retry schedule for failed ones. Collapsed by default.
+ */
+export default function ProcessingDiagnostics({ jobId, processingStatus }: ProcessingDiagnosticsProps) {
+  const theme = useTheme();
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [runs, setRuns] = useState<ProcessingRun[]>([]);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await fetchProcessingRuns(jobId);
+
+      if (error) {
+        console.error('Error fetching processing runs:', error);
+      } else {
+        setRuns(data);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    if (expanded) {
+      loadRuns();
+    }
+  }, [expanded, processingStatus, loadRuns]);
+
+  const failedCount = runs.filter((run) => run.status === 'failed').length;
+
+  return (
+    <View style={[styles.section, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+      <TouchableOpacity style={styles.sectionHeader} onPress={() => setExpanded((prev) => !prev)}>
+        <IconSymbol
+          ios_icon_name="stethoscope"
+          android_material_icon_name="monitor-heart"
+          size={18}
+          color="#64748B"
+        />
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Processing Diagnostics</Text>
+        <IconSymbol
+          ios_icon_name={expanded ? 'chevron.up' : 'chevron.down'}
+          android_material_icon_name={expanded ? 'expand-less' : 'expand-more'}
+          size={20}
+          color={theme.colors.text}
+          style={{ opacity: 0.4 }}
+        />
+      </TouchableOpacity>
+
+      {expanded && (
+        <>
+          <Text style={[styles.sectionSubtitle, { color: theme.colors.text }]}>
+            {runs.length > 0
+              ? `Last ${runs.length} ${runs.length === 1 ? 'run' : 'runs'}, ${failedCount} failed. Failed runs retry automatically up to ${MAX_PROCESSING_ATTEMPTS} attempts.`
+              : `Failed runs retry automatically up to ${MAX_PROCESSING_ATTEMPTS} attempts.`}
+          </Text>
+
+          {loading && runs.length === 0 ? (
+            <ActivityIndicator size="small" color={theme.colors.primary} style={styles.loader} />
+          ) : runs.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.colors.text }]}>No processing runs recorded yet.</Text>
+          ) : (
+            runs.map((run) => {
+              const statusStyle = getRunStatusStyle(run.status);
+              const duration = formatDuration(run);
+
+              return (
+                <View key={run.id} style={[styles.runRow, { borderColor: theme.colors.border }]}>
+                  <View style={styles.runHeader}>
+                    <IconSymbol
+                      ios_icon_name={statusStyle.ios}
+                      android_material_icon_name={statusStyle.android}
+                      size={16}
+                      color={statusStyle.color}
+                    />
+                    <Text style={[styles.runStatus, { color: statusStyle.color }]}>{statusStyle.label}</Text>
+                    <Text style={[styles.runMeta, { color: theme.colors.text }]}>
+                      {run.trigger === 'manual' ? 'Manual' : 'Scheduled'} · Attempt {run.attempt}
+                    </Text>
+                  </View>
+
+                  <Text style={[styles.runDetail, { color: theme.colors.text }]}>
+                    {formatRunTime(run.started_at)}
+                    {duration ? ` · ${duration}` : ''}
+                    {run.changes_made !== null ? ` · ${run.changes_made} ${run.changes_made === 1 ? 'change' : 'changes'}` : ''}
+                  </Text>
+                  <Text style={[styles.runDetail, { color: theme.colors.text }]}>{formatMessageRange(run)}</Text>
+
+                  {run.status === 'failed' && (
+                    <View style={styles.errorBox}>
+                      <Text style={styles.errorClass}>{getErrorClassLabel(run.error_class || '')}</Text>
+                      {run.error_message && (
+                        <Text style={[styles.errorMessage, { color: theme.colors.text }]} numberOfLines={4}>
+                          {run.error_message}
+                        </Text>
+                      )}
+                      <Text style={[styles.runDetail, { color: theme.colors.text }]}>
+                        {run.next_retry_at
+                          ? `Retry scheduled for ${formatRunTime(run.next_retry_at)}`
+                          : 'No further automatic retries'}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  loader: {
+    marginVertical: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  runRow: {
+    borderTopWidth: 1,
+    paddingTop: 10,
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  runHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  runStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  runMeta: {
+    marginLeft: 'auto',
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  runDetail: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  errorBox: {
+    backgroundColor: '#EF444410',
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 6,
+  },
+  errorClass: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  errorMessage: {
+    fontSize: 12,
+    lineHeight: 17,
+    marginTop: 4,
+  },
+});
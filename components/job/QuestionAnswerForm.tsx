@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import type { Job } from '@/app/integrations/supabase/types';
+import { answerQuestion, markQuestionNotApplicable } from '@/services/questions';
+
+interface QuestionAnswerFormProps {
+  jobId: string;
+  questionId: string;
+  // Called with the updated job once the question has moved to resolved
+  onResolved: (job: Job) => void;
+}
+
+/**
+ * Answer box for an open question with a "not applicable" shortcut. Whatever
+ * is typed is used as the reason when marking the question not applicable.
+ */
+export default function QuestionAnswerForm({ jobId, questionId, onResolved }: QuestionAnswerFormProps) {
+  const theme = useTheme();
+  const [answer, setAnswer] = useState('');
+  const [submitting, setSubmitting] = useState<'answer' | 'not_applicable' | null>(null);
+
+  const submit = async (notApplicable: boolean) => {
+    try {
+      setSubmitting(notApplicable ? 'not_applicable' : 'answer');
+
+      const { data, error } = notApplicable
+        ? await markQuestionNotApplicable(jobId, questionId, answer.trim())
+        : await answerQuestion(jobId, questionId, answer.trim());
+
+      if (error) {
+        console.error('Error resolving question:', error);
+        Alert.alert('Error', `Failed to resolve question: ${error.message}`);
+        return;
+      }
+
+      setAnswer('');
+      onResolved(data);
+    } catch (error) {
+      console.error('Exception resolving question:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const handleNotApplicable = () => {
+    Alert.alert(
+      'Not Applicable',
+      answer.trim()
+        ? 'Mark this question as not applicable, using your text as the reason?'
+        : 'Mark this question as not applicable?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Mark N/A', onPress: () => submit(true) },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={[styles.input, { color: theme.colors.text, borderColor: theme.colors.border }]}
+        placeholder="Type an answer..."
+        placeholderTextColor={theme.colors.text + '60'}
+        value={answer}
+        onChangeText={setAnswer}
+        editable={!submitting}
+        multiline
+      />
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.secondaryButton, { borderColor: theme.colors.border }]}
+          onPress={handleNotApplicable}
+          disabled={!!submitting}
+        >
+          {submitting === 'not_applicable' ? (
+            <ActivityIndicator size="small" color={theme.colors.text} />
+          ) : (
+            <Text style={[styles.secondaryButtonText, { color: theme.colors.text }]}>Not Applicable</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { backgroundColor: theme.colors.primary, opacity: answer.trim() && !submitting ? 1 : 0.4 },
+          ]}
+          onPress={() => submit(false)}
+          disabled={!answer.trim() || !!submitting}
+        >
+          {submitting === 'answer' ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Answer</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      <Text style={[styles.hintText, { color: theme.colors.text }]}>
+        The answer is posted to the job chat.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  input: {
+    minHeight: 44,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingTop: 10,
+    paddingBottom: 10,
+    fontSize: 15,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 12,
+    opacity: 0.5,
+  },
+});
@@ -19,6 +19,7 @@ import * as DocumentPicker from 'expo-document-picker';
 import * as Speech from 'expo-speech';
 import { IconSymbol } from '@/components/IconSymbol';
 import { supabase } from '@/app/integrations/supabase/client';
+import { processScopeDocument } from '@/services/scopeDocuments';
 
 interface ScopeUploadModalProps {
   visible: boolean;
@@ -140,14 +141,12 @@ export default function ScopeUploadModal({
       console.log('Content length:', content.trim().length);
 
       // Call edge function to process scope
-      const { data, error } = await supabase.functions.invoke('process-scope', {
-        body: {
-          jobId,
-          content: content.trim(),
-          fileName: fileName || undefined,
-          fileType: fileType || undefined,
-          fileUri: fileUri || undefined,
-        },
+      const { data, error } = await processScopeDocument({
+        jobId,
+        content: content.trim(),
+        fileName: fileName || undefined,
+        fileType: fileType || undefined,
+        fileUri: fileUri || undefined,
       });
 
       console.log('Edge function response:', { data, error });
@@ -157,11 +156,6 @@ export default function ScopeUploadModal({
         throw new Error(error.message || 'Failed to process scope document');
       }
 
-      if (!data || !data.success) {
-        console.error('Unexpected response:', data);
-        throw new Error(data?.error || 'Failed to process scope document');
-      }
-
       console.log('Scope processed successfully:', data);
 
       Alert.alert(
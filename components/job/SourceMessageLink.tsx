@@ -0,0 +1,59 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+
+interface SourceMessageLinkProps {
+  jobId: string;
+  messageId?: string | null;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * "Source" link for AI-derived items. Goes back to the job room's chat tab,
+ * scrolled to and highlighting the message the item was extracted from.
+ */
+export default function SourceMessageLink({ jobId, messageId, style }: SourceMessageLinkProps) {
+  const router = useRouter();
+  const theme = useTheme();
+
+  if (!messageId) {
+    return null;
+  }
+
+  const handlePress = () => {
+    // Return to the job room already on the stack rather than opening another one
+    router.dismissTo(`/(tabs)/(home)/job/${jobId}?messageId=${messageId}` as any);
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.link, style]}
+      onPress={handlePress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    >
+      <IconSymbol
+        ios_icon_name="bubble.left"
+        android_material_icon_name="chat-bubble-outline"
+        size={12}
+        color={theme.colors.primary}
+      />
+      <Text style={[styles.linkText, { color: theme.colors.primary }]}>Source</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  link: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,245 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import { IconSymbol } from '@/components/IconSymbol';
+import {
+  DiffSegment,
+  diffSections,
+  diffWords,
+  getItemLabel,
+  SNAPSHOT_SECTIONS,
+  SummaryContent,
+} from '@/utils/summaryDiff';
+
+interface SummaryComparisonProps {
+  before: SummaryContent;
+  after: SummaryContent;
+  beforeLabel: string;
+  afterLabel: string;
+  // 'changes' lists items added and removed, matched by id. 'side-by-side'
+  // lists both versions in full, for summaries whose items don't share ids.
+  sectionLayout?: 'changes' | 'side-by-side';
+}
+
+/**
+ * Side-by-side word diff of two job overviews followed by a comparison of
+ * each summary section.
+ */
+export default function SummaryComparison({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+  sectionLayout = 'changes',
+}: SummaryComparisonProps) {
+  const theme = useTheme();
+
+  const overview = useMemo(() => diffWords(before.job_overview, after.job_overview), [before, after]);
+  const sections = useMemo(() => diffSections(before, after), [before, after]);
+
+  const renderSegments = (segments: DiffSegment[]) => {
+    if (segments.length === 0) {
+      return <Text style={[styles.emptyOverviewText, { color: theme.colors.text }]}>No overview</Text>;
+    }
+
+    return (
+      <Text style={[styles.overviewText, { color: theme.colors.text }]}>
+        {segments.map((segment, index) => (
+          <Text
+            key={index}
+            style={
+              segment.type === 'insert'
+                ? styles.insertedText
+                : segment.type === 'delete'
+                  ? styles.deletedText
+                  : undefined
+            }
+          >
+            {segment.text}
+          </Text>
+        ))}
+      </Text>
+    );
+  };
+
+  const renderSectionColumn = (items: any[], columnLabel: string, color: string) => (
+    <View style={styles.column}>
+      <Text style={[styles.columnLabel, { color }]}>
+        {columnLabel} ({items.length})
+      </Text>
+      {items.length === 0 ? (
+        <Text style={[styles.emptyOverviewText, { color: theme.colors.text }]}>None</Text>
+      ) : (
+        items.map((item, index) => (
+          <Text key={index} style={[styles.columnItemText, { color: theme.colors.text }]}>
+            • {getItemLabel(item)}
+          </Text>
+        ))
+      )}
+    </View>
+  );
+
+  const renderSideBySideSections = () =>
+    SNAPSHOT_SECTIONS.map(({ section, label }) => {
+      const beforeItems: any[] = before[section] || [];
+      const afterItems: any[] = after[section] || [];
+
+      if (beforeItems.length === 0 && afterItems.length === 0) return null;
+
+      return (
+        <View
+          key={section}
+          style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}
+        >
+          <Text style={[styles.cardTitle, { color: theme.colors.text }]}>{label}</Text>
+          <View style={styles.sideBySide}>
+            {renderSectionColumn(beforeItems, beforeLabel, '#EF4444')}
+            <View style={[styles.columnDivider, { backgroundColor: theme.colors.border }]} />
+            {renderSectionColumn(afterItems, afterLabel, '#10B981')}
+          </View>
+        </View>
+      );
+    });
+
+  const renderSectionChanges = () => (
+    <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+      <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Section Changes</Text>
+      {sections.length === 0 ? (
+        <Text style={[styles.hintText, { color: theme.colors.text }]}>
+          No items were added or removed
+        </Text>
+      ) : (
+        sections.map((sectionDiff) => (
+          <View key={sectionDiff.section} style={styles.sectionDiff}>
+            <Text style={[styles.sectionLabel, { color: theme.colors.text }]}>{sectionDiff.label}</Text>
+            {sectionDiff.added.map((label, index) => (
+              <View key={`added-${index}`} style={styles.itemRow}>
+                <IconSymbol
+                  ios_icon_name="plus.circle.fill"
+                  android_material_icon_name="add-circle"
+                  size={16}
+                  color="#10B981"
+                />
+                <Text style={[styles.itemText, { color: theme.colors.text }]}>{label}</Text>
+              </View>
+            ))}
+            {sectionDiff.removed.map((label, index) => (
+              <View key={`removed-${index}`} style={styles.itemRow}>
+                <IconSymbol
+                  ios_icon_name="minus.circle.fill"
+                  android_material_icon_name="remove-circle"
+                  size={16}
+                  color="#EF4444"
+                />
+                <Text style={[styles.itemText, styles.removedItemText, { color: theme.colors.text }]}>
+                  {label}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <>
+      <View style={[styles.card, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+        <Text style={[styles.cardTitle, { color: theme.colors.text }]}>Job Overview</Text>
+        <View style={styles.sideBySide}>
+          <View style={styles.column}>
+            <Text style={[styles.columnLabel, { color: '#EF4444' }]}>{beforeLabel}</Text>
+            {renderSegments(overview.before)}
+          </View>
+          <View style={[styles.columnDivider, { backgroundColor: theme.colors.border }]} />
+          <View style={styles.column}>
+            <Text style={[styles.columnLabel, { color: '#10B981' }]}>{afterLabel}</Text>
+            {renderSegments(overview.after)}
+          </View>
+        </View>
+      </View>
+
+      {sectionLayout === 'side-by-side' ? renderSideBySideSections() : renderSectionChanges()}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.06)',
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  sideBySide: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  column: {
+    flex: 1,
+    gap: 6,
+  },
+  columnDivider: {
+    width: 1,
+  },
+  columnLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  overviewText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  emptyOverviewText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    opacity: 0.5,
+  },
+  insertedText: {
+    backgroundColor: '#10B98133',
+    color: '#047857',
+  },
+  deletedText: {
+    backgroundColor: '#EF444433',
+    color: '#B91C1C',
+    textDecorationLine: 'line-through',
+  },
+  sectionDiff: {
+    marginBottom: 12,
+    gap: 6,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  columnItemText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  removedItemText: {
+    textDecorationLine: 'line-through',
+    opacity: 0.7,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.6,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+});
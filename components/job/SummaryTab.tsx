@@ -1,5 +1,5 @@
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,11 +9,30 @@ import {
   ActivityIndicator,
   RefreshControl,
   Alert,
+  Switch,
 } from 'react-native';
 import { useTheme } from '@react-navigation/native';
-import { useRouter, useFocusEffect } from 'expo-router';
+import { useRouter } from 'expo-router';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  useAnimatedStyle,
+  useSharedValue,
+  withSequence,
+  withTiming,
+} from 'react-native-reanimated';
 import { IconSymbol } from '@/components/IconSymbol';
-import { supabase } from '@/app/integrations/supabase/client';
+import PendingReviewSection from '@/components/job/PendingReviewSection';
+import ProcessingControls from '@/components/job/ProcessingControls';
+import ProcessingDiagnostics from '@/components/job/ProcessingDiagnostics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useJobRealtime } from '@/hooks/useJobRealtime';
+import type { Job, PendingChange, TablesUpdate } from '@/app/integrations/supabase/types';
+import { cancelJobProcessing, fetchJob, processJobChat, updateJob } from '@/services/jobs';
+import { fetchPendingChanges, reviewPendingChange } from '@/services/pendingChanges';
+import { MAX_PROCESSING_ATTEMPTS } from '@/services/processingRuns';
+import { fetchProfile } from '@/services/profiles';
+import { fetchLatestScopeSummary, ScopeSummary } from '@/services/scopeDocuments';
 
 interface SummaryTabProps {
   jobId: string;
@@ -29,26 +48,51 @@ interface SummaryCard {
   color?: string;
 }
 
-interface Job {
-  open_issues: any[];
-  unanswered_questions: any[];
-  next_actions: any[];
-  completed_items: any[];
-  warnings_and_risks: any[];
-  deadlines_and_timelines: any[];
-  dependencies: any[];
-  ai_changelog: any[];
-  processing_status: 'idle' | 'scheduled' | 'running' | 'failed' | 'completed';
-  processing_scheduled_for: string | null;
-  last_processed_at: string | null;
-  job_overview: string | null;
-}
+type SummaryJob = Pick<
+  Job,
+  | 'open_issues'
+  | 'unanswered_questions'
+  | 'next_actions'
+  | 'completed_items'
+  | 'warnings_and_risks'
+  | 'deadlines_and_timelines'
+  | 'dependencies'
+  | 'ai_changelog'
+  | 'processing_status'
+  | 'processing_scheduled_for'
+  | 'processing_attempts'
+  | 'processing_paused'
+  | 'processing_debounce_minutes'
+  | 'processing_business_hours'
+  | 'business_hours_start'
+  | 'business_hours_end'
+  | 'business_hours_timezone'
+  | 'last_processed_at'
+  | 'job_overview'
+  | 'review_mode'
+>;
+
+// Item count that pulses when realtime updates change it
+function AnimatedCount({ count, color }: { count: number; color: string }) {
+  const scale = useSharedValue(1);
+  const previousCount = useRef(count);
 
-interface ScopeDocument {
-  id: string;
-  summary: string;
-  file_name: string | null;
-  created_at: string;
+  useEffect(() => {
+    if (previousCount.current === count) return;
+
+    previousCount.current = count;
+    scale.value = withSequence(withTiming(1.25, { duration: 150 }), withTiming(1, { duration: 200 }));
+  }, [count, scale]);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  return (
+    <Animated.Text style={[styles.cardCount, styles.animatedCount, { color }, animatedStyle]}>
+      {count} {count === 1 ? 'item' : 'items'}
+    </Animated.Text>
+  );
 }
 
 export default function SummaryTab({ jobId }: SummaryTabProps) {
@@ -57,18 +101,43 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [processingManually, setProcessingManually] = useState(false);
-  const [job, setJob] = useState<Job | null>(null);
-  const [scopeDocument, setScopeDocument] = useState<ScopeDocument | null>(null);
+  const [job, setJob] = useState<SummaryJob | null>(null);
+  const [scopeDocument, setScopeDocument] = useState<ScopeSummary | null>(null);
+  const { user } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [updatingReviewMode, setUpdatingReviewMode] = useState(false);
+  const [updatingProcessing, setUpdatingProcessing] = useState(false);
+  const [cancellingProcessing, setCancellingProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchProfile(user.id).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading profile:', error);
+        return;
+      }
+      setIsAdmin(data.is_admin);
+    });
+  }, [user?.id]);
+
+  const loadPendingChanges = useCallback(async () => {
+    const { data, error } = await fetchPendingChanges(jobId);
+
+    if (error) {
+      console.error('Error fetching pending changes:', error);
+    } else {
+      setPendingChanges(data);
+    }
+  }, [jobId]);
 
   const fetchJobData = useCallback(async () => {
     try {
       setLoading(true);
       
-      const { data, error } = await supabase
-        .from('jobs')
-        .select('open_issues, unanswered_questions, next_actions, completed_items, warnings_and_risks, deadlines_and_timelines, dependencies, ai_changelog, processing_status, processing_scheduled_for, last_processed_at, job_overview')
-        .eq('id', jobId)
-        .single();
+      const { data, error } = await fetchJob(jobId);
 
       if (error) {
         console.error('Error fetching job data:', error);
@@ -84,36 +153,31 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
 
         // If job_overview is empty, check for scope document
         if (!data.job_overview || data.job_overview.trim() === '') {
-          const { data: scopeData } = await supabase
-            .from('scope_documents')
-            .select('id, summary, file_name, created_at')
-            .eq('job_id', jobId)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .single();
+          const { data: scopeData } = await fetchLatestScopeSummary(jobId);
 
           if (scopeData) {
             setScopeDocument(scopeData);
           }
         }
+
+        await loadPendingChanges();
       }
     } catch (error) {
       console.error('Error fetching job data:', error);
     } finally {
       setLoading(false);
     }
-  }, [jobId]);
+  }, [jobId, loadPendingChanges]);
 
   useEffect(() => {
     fetchJobData();
   }, [fetchJobData]);
 
-  // Refresh when screen comes back into focus
-  useFocusEffect(
-    useCallback(() => {
-      fetchJobData();
-    }, [fetchJobData])
-  );
+  useJobRealtime(jobId, setJob, (updated) => {
+    if (updated.review_mode) {
+      loadPendingChanges();
+    }
+  });
 
   const handleRefresh = async () => {
     setRefreshing(true);
@@ -127,10 +191,7 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
       
       console.log('Manually triggering processing for job:', jobId);
       
-      // Call the edge function directly
-      const { data, error } = await supabase.functions.invoke('process-chat-batch', {
-        body: { job_id: jobId }
-      });
+      const { data, error } = await processJobChat(jobId);
 
       if (error) {
         console.error('Error processing chat:', error);
@@ -140,15 +201,16 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
         
         if (data.results && data.results.length > 0) {
           const result = data.results[0];
-          if (result.status === 'success') {
-            Alert.alert(
-              'Success', 
-              `Processed ${result.messages_processed} messages. Overview: ${result.overview_length} characters. Changes: ${result.changes_made}`
-            );
-          } else if (result.status === 'skipped') {
+          // Successful runs are reported by the realtime toast
+          if (result.status === 'skipped') {
             Alert.alert('Info', 'No new messages to process.');
           } else if (result.status === 'error') {
-            Alert.alert('Error', `Processing failed: ${result.error}`);
+            Alert.alert(
+              'Error',
+              result.next_retry_at
+                ? `Processing failed: ${result.error}\n\nIt will be retried automatically at ${new Date(result.next_retry_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}.`
+                : `Processing failed: ${result.error}`
+            );
           }
         } else {
           Alert.alert('Success', 'Chat messages processed successfully!');
@@ -165,10 +227,119 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
     }
   };
 
+  const handleReview = async (pending: PendingChange, accept: boolean) => {
+    try {
+      setReviewingId(pending.id);
+
+      const { error } = await reviewPendingChange(pending.id, accept);
+
+      if (error) {
+        console.error('Error reviewing change:', error);
+        Alert.alert('Error', `Failed to ${accept ? 'accept' : 'reject'} change: ${error.message}`);
+        // Someone else may have reviewed it already
+        await loadPendingChanges();
+        return;
+      }
+
+      setPendingChanges((prev) => prev.filter((change) => change.id !== pending.id));
+
+      if (accept) {
+        const { data } = await fetchJob(jobId);
+        if (data) {
+          setJob(data);
+        }
+      }
+    } catch (error) {
+      console.error('Exception reviewing change:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleToggleReviewMode = async (enabled: boolean) => {
+    try {
+      setUpdatingReviewMode(true);
+
+      const { data, error } = await updateJob(jobId, { review_mode: enabled });
+
+      if (error) {
+        console.error('Error updating review mode:', error);
+        Alert.alert('Error', 'Failed to update review mode');
+      } else {
+        setJob(data);
+      }
+    } catch (error) {
+      console.error('Exception updating review mode:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setUpdatingReviewMode(false);
+    }
+  };
+
+  const handleUpdateProcessingSettings = async (changes: TablesUpdate<'jobs'>) => {
+    try {
+      setUpdatingProcessing(true);
+
+      const { data, error } = await updateJob(jobId, changes);
+
+      if (error) {
+        console.error('Error updating processing settings:', error);
+        Alert.alert('Error', 'Failed to update processing settings');
+      } else {
+        setJob(data);
+      }
+    } catch (error) {
+      console.error('Exception updating processing settings:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setUpdatingProcessing(false);
+    }
+  };
+
+  const cancelProcessing = async () => {
+    try {
+      setCancellingProcessing(true);
+
+      const { data, error } = await cancelJobProcessing(jobId);
+
+      if (error) {
+        console.error('Error cancelling processing:', error);
+        Alert.alert('Error', 'Failed to cancel processing');
+      } else if (data) {
+        setJob(data);
+      } else {
+        // The run finished before the cancel reached it
+        await fetchJobData();
+      }
+    } catch (error) {
+      console.error('Exception cancelling processing:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setCancellingProcessing(false);
+    }
+  };
+
+  const handleCancelProcessing = () => {
+    if (job?.processing_status !== 'running') {
+      cancelProcessing();
+      return;
+    }
+
+    Alert.alert(
+      'Cancel Processing',
+      'The run in progress will be stopped and its results discarded. New messages stay unprocessed until the next run.',
+      [
+        { text: 'Keep Running', style: 'cancel' },
+        { text: 'Cancel Run', style: 'destructive', onPress: cancelProcessing },
+      ]
+    );
+  };
+
   const getProcessingStatusBadge = () => {
     if (!job) return null;
 
-    const { processing_status, processing_scheduled_for, last_processed_at } = job;
+    const { processing_status, processing_scheduled_for, processing_attempts, processing_paused, last_processed_at } = job;
 
     if (processing_status === 'running') {
       return (
@@ -181,9 +352,28 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
       );
     }
 
+    // Batches wait while paused, so this matters more than the schedule
+    if (processing_paused) {
+      return (
+        <View style={[styles.statusBadge, { backgroundColor: '#64748B20', borderColor: '#64748B' }]}>
+          <IconSymbol
+            ios_icon_name="pause.circle"
+            android_material_icon_name="pause-circle-outline"
+            size={14}
+            color="#64748B"
+          />
+          <Text style={[styles.statusBadgeText, { color: '#64748B' }]}>
+            {processing_status === 'scheduled' ? 'Automatic processing paused - messages waiting' : 'Automatic processing paused'}
+          </Text>
+        </View>
+      );
+    }
+
     if (processing_status === 'scheduled') {
       const scheduledTime = processing_scheduled_for ? new Date(processing_scheduled_for) : null;
       const isPast = scheduledTime && scheduledTime < new Date();
+      // A failed run rescheduled itself with backoff
+      const isRetry = processing_attempts > 0;
       
       return (
         <View style={[styles.statusBadge, { backgroundColor: '#F59E0B20', borderColor: '#F59E0B' }]}>
@@ -194,7 +384,9 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
             color="#F59E0B"
           />
           <Text style={[styles.statusBadgeText, { color: '#F59E0B' }]}>
-            {isPast ? 'Processing pending' : 'Processing scheduled'}
+            {isRetry
+              ? `Retrying after error (attempt ${processing_attempts + 1} of ${MAX_PROCESSING_ATTEMPTS})`
+              : isPast ? 'Processing pending' : 'Processing scheduled'}
           </Text>
         </View>
       );
@@ -210,7 +402,9 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
             color="#EF4444"
           />
           <Text style={[styles.statusBadgeText, { color: '#EF4444' }]}>
-            Processing failed - Try again
+            {processing_attempts > 1
+              ? `Processing failed after ${processing_attempts} attempts - Try again`
+              : 'Processing failed - Try again'}
           </Text>
         </View>
       );
@@ -294,7 +488,7 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
     {
       id: 'issues',
       title: 'Open Issues',
-      count: job?.open_issues?.length || 0,
+      count: job?.open_issues?.filter((issue) => issue.status !== 'resolved').length || 0,
       icon: 'exclamationmark.triangle',
       androidIcon: 'warning',
       route: `/job-details/issues?jobId=${jobId}`,
@@ -354,6 +548,34 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
       route: `/job-details/dependencies?jobId=${jobId}`,
       color: '#06B6D4',
     },
+    {
+      id: 'timeline',
+      title: 'Timeline',
+      icon: 'chart.bar.xaxis',
+      androidIcon: 'timeline',
+      route: `/job-details/timeline?jobId=${jobId}`,
+      color: '#EC4899',
+    },
+    {
+      id: 'history',
+      title: 'Summary History',
+      icon: 'clock.arrow.circlepath',
+      androidIcon: 'restore',
+      route: `/job-details/history?jobId=${jobId}`,
+      color: '#64748B',
+    },
+    ...(isAdmin
+      ? [
+          {
+            id: 'rebuild',
+            title: 'Rebuild Summary',
+            icon: 'arrow.triangle.2.circlepath',
+            androidIcon: 'autorenew',
+            route: `/job-details/rebuild?jobId=${jobId}`,
+            color: '#64748B',
+          },
+        ]
+      : []),
     {
       id: 'changelog',
       title: 'Change Log',
@@ -412,7 +634,9 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
       </View>
 
       {/* Processing Status Badge */}
-      {getProcessingStatusBadge()}
+      <Animated.View key={job?.processing_status} entering={FadeIn} exiting={FadeOut}>
+        {getProcessingStatusBadge()}
+      </Animated.View>
 
       {/* Manual Process Button */}
       {job?.processing_status !== 'running' && (
@@ -437,6 +661,66 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
         </TouchableOpacity>
       )}
 
+      {/* Cancel Scheduled/Running Batch (admins only) */}
+      {isAdmin && (job?.processing_status === 'scheduled' || job?.processing_status === 'running') && (
+        <TouchableOpacity
+          style={[styles.cancelProcessButton, { borderColor: '#EF4444', opacity: cancellingProcessing ? 0.6 : 1 }]}
+          onPress={handleCancelProcessing}
+          disabled={cancellingProcessing}
+        >
+          {cancellingProcessing ? (
+            <ActivityIndicator size="small" color="#EF4444" />
+          ) : (
+            <IconSymbol
+              ios_icon_name="xmark.circle"
+              android_material_icon_name="cancel"
+              size={18}
+              color="#EF4444"
+            />
+          )}
+          <Text style={styles.cancelProcessButtonText}>
+            {job.processing_status === 'running' ? 'Cancel Run' : 'Cancel Scheduled Run'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Processing Controls (admins only) */}
+      {isAdmin && job && (
+        <ProcessingControls
+          settings={job}
+          updating={updatingProcessing}
+          onChange={handleUpdateProcessingSettings}
+        />
+      )}
+
+      {/* Review Mode Toggle (admins only) */}
+      {isAdmin && (
+        <View style={[styles.reviewModeRow, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
+          <View style={styles.reviewModeText}>
+            <Text style={[styles.reviewModeTitle, { color: theme.colors.text }]}>Review AI changes</Text>
+            <Text style={[styles.reviewModeSubtitle, { color: theme.colors.text }]}>
+              Hold each proposed change until a supervisor accepts it
+            </Text>
+          </View>
+          <Switch
+            value={!!job?.review_mode}
+            onValueChange={handleToggleReviewMode}
+            disabled={updatingReviewMode}
+            trackColor={{ true: theme.colors.primary }}
+          />
+        </View>
+      )}
+
+      {/* Processing Diagnostics (admins only) */}
+      {isAdmin && <ProcessingDiagnostics jobId={jobId} processingStatus={job?.processing_status} />}
+
+      <PendingReviewSection
+        changes={pendingChanges}
+        canReview={isAdmin}
+        reviewingId={reviewingId}
+        onReview={handleReview}
+      />
+
       {/* Info message if no overview */}
       {!hasOverview && (
         <View style={[styles.infoCard, { backgroundColor: theme.colors.card, borderColor: theme.colors.border }]}>
@@ -473,9 +757,7 @@ export default function SummaryTab({ jobId }: SummaryTabProps) {
                 {card.title}
               </Text>
               {card.count !== undefined && (
-                <Text style={[styles.cardCount, { color: card.color || theme.colors.primary }]}>
-                  {card.count} {card.count === 1 ? 'item' : 'items'}
-                </Text>
+                <AnimatedCount count={card.count} color={card.color || theme.colors.primary} />
               )}
             </View>
             <IconSymbol
@@ -549,6 +831,43 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  cancelProcessButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 8,
+  },
+  cancelProcessButtonText: {
+    color: '#EF4444',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  reviewModeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  reviewModeText: {
+    flex: 1,
+  },
+  reviewModeTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  reviewModeSubtitle: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
   infoCard: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -595,4 +914,7 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  animatedCount: {
+    alignSelf: 'flex-start',
+  },
 });
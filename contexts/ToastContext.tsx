@@ -0,0 +1,119 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useTheme } from '@react-navigation/native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Animated, { FadeInUp, FadeOutUp } from 'react-native-reanimated';
+import { IconSymbol } from '@/components/IconSymbol';
+
+type ToastVariant = 'success' | 'info' | 'error';
+
+interface ToastOptions {
+  variant?: ToastVariant;
+  // Toasts sharing a key are shown once, e.g. when several mounted screens
+  // observe the same processing run
+  key?: string;
+}
+
+interface Toast {
+  id: number;
+  message: string;
+  variant: ToastVariant;
+}
+
+interface ToastContextType {
+  showToast: (message: string, options?: ToastOptions) => void;
+}
+
+const TOAST_DURATION_MS = 3500;
+
+const VARIANT_STYLES: Record<ToastVariant, { color: string; ios: string; android: 'check-circle' | 'info' | 'error' }> = {
+  success: { color: '#10B981', ios: 'checkmark.circle.fill', android: 'check-circle' },
+  info: { color: '#3B82F6', ios: 'info.circle.fill', android: 'info' },
+  error: { color: '#EF4444', ios: 'exclamationmark.circle.fill', android: 'error' },
+};
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+  const [toast, setToast] = useState<Toast | null>(null);
+  const shownKeysRef = useRef(new Set<string>());
+  const nextIdRef = useRef(0);
+
+  const showToast = useCallback((message: string, options: ToastOptions = {}) => {
+    if (options.key) {
+      if (shownKeysRef.current.has(options.key)) return;
+      shownKeysRef.current.add(options.key);
+    }
+
+    nextIdRef.current += 1;
+    setToast({ id: nextIdRef.current, message, variant: options.variant ?? 'info' });
+  }, []);
+
+  useEffect(() => {
+    if (!toast) return;
+
+    const timeout = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [toast]);
+
+  const variantStyle = toast ? VARIANT_STYLES[toast.variant] : null;
+
+  return (
+    <ToastContext.Provider value={{ showToast }}>
+      {children}
+      {toast && variantStyle && (
+        <View pointerEvents="none" style={[styles.overlay, { top: insets.top + 8 }]}>
+          <Animated.View
+            key={toast.id}
+            entering={FadeInUp}
+            exiting={FadeOutUp}
+            style={[styles.toast, { backgroundColor: theme.colors.card, borderColor: variantStyle.color }]}
+          >
+            <IconSymbol
+              ios_icon_name={variantStyle.ios}
+              android_material_icon_name={variantStyle.android}
+              size={20}
+              color={variantStyle.color}
+            />
+            <Text style={[styles.toastText, { color: theme.colors.text }]}>{toast.message}</Text>
+          </Animated.View>
+        </View>
+      )}
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    alignItems: 'center',
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 14,
+    borderWidth: 1,
+    boxShadow: '0px 4px 12px rgba(0, 0, 0, 0.15)',
+    elevation: 4,
+  },
+  toastText: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
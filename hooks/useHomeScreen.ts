@@ -0,0 +1,580 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import type { JobListItem, UserProfile } from '@/app/integrations/supabase/types';
+import { useJobListRealtime } from '@/hooks/useJobListRealtime';
+import { AdminUserDetails, deactivateUser, fetchAuthUser, reactivateUser, resetUserPassword } from '@/services/admin';
+import { fetchInvitedUserIds, inviteUsers } from '@/services/invitations';
+import { archiveJob, createJob, fetchJobList, updateJob } from '@/services/jobs';
+import { fetchDirectory, fetchProfile } from '@/services/profiles';
+
+export interface InvitableUser {
+  id: string;
+  user_id: string;
+  display_name: string | null;
+  is_invited?: boolean;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  display_name: string | null;
+  deactivated_at: string | null;
+}
+
+/**
+ * State and actions behind the home screen: the job list, the admin job menu,
+ * job create/edit forms, technician invitations and password resets. The
+ * per-platform `index` screens only decide how it is presented.
+ */
+export function useHomeScreen() {
+  const router = useRouter();
+  const { user, signOut } = useAuth();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [jobs, setJobs] = useState<JobListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedJob, setSelectedJob] = useState<JobListItem | null>(null);
+  const [showMenu, setShowMenu] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showScopeModal, setShowScopeModal] = useState(false);
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showPasswordResetModal, setShowPasswordResetModal] = useState(false);
+  const [showPasswordChangeModal, setShowPasswordChangeModal] = useState(false);
+  const [allUsers, setAllUsers] = useState<InvitableUser[]>([]);
+  const [authUsers, setAuthUsers] = useState<AuthUser[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const [selectedAuthUser, setSelectedAuthUser] = useState<AuthUser | null>(null);
+  const [selectedAuthUserDetails, setSelectedAuthUserDetails] = useState<AdminUserDetails | null>(null);
+  const [loadingUsers, setLoadingUsers] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  
+  // Form states
+  const [jobName, setJobName] = useState('');
+  const [siteName, setSiteName] = useState('');
+  const [startDate, setStartDate] = useState('');
+
+  const loadProfile = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const { data, error } = await fetchProfile(user.id);
+
+      if (error) {
+        console.error('Error loading profile:', error);
+      } else {
+        console.log('Profile loaded:', data);
+        setProfile(data);
+      }
+    } catch (error) {
+      console.error('Exception loading profile:', error);
+    }
+  }, [user?.id]);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await fetchJobList();
+
+      if (error) {
+        console.error('Error loading jobs:', error);
+      } else {
+        console.log('Jobs loaded:', data);
+        setJobs(data);
+      }
+    } catch (error) {
+      console.error('Exception loading jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useJobListRealtime(user?.id, jobs, setJobs);
+
+  useEffect(() => {
+    if (user) {
+      loadProfile();
+      loadJobs();
+    }
+  }, [user, loadProfile, loadJobs]);
+
+  const loadAllUsers = async () => {
+    if (!selectedJob || !user) return;
+    
+    try {
+      setLoadingUsers(true);
+      
+      // Get all users except the current admin
+      const { data: usersData, error: usersError } = await fetchDirectory(user.id);
+
+      if (usersError) {
+        console.error('Error loading users:', usersError);
+        return;
+      }
+
+      // Get existing invitations for this job
+      const { data: invitedIds, error: invitationsError } = await fetchInvitedUserIds(selectedJob.id);
+
+      if (invitationsError) {
+        console.error('Error loading invitations:', invitationsError);
+      }
+
+      // Mark users who are already invited
+      const invitedUserIds = new Set(invitedIds || []);
+      const usersWithInviteStatus = (usersData || []).map(user => ({
+        id: user.id,
+        user_id: user.user_id,
+        display_name: user.display_name,
+        is_invited: invitedUserIds.has(user.user_id)
+      }));
+
+      console.log('Users loaded:', usersWithInviteStatus);
+      setAllUsers(usersWithInviteStatus);
+    } catch (error) {
+      console.error('Exception loading users:', error);
+    } finally {
+      setLoadingUsers(false);
+    }
+  };
+
+  const loadAuthUsers = async () => {
+    try {
+      setLoadingUsers(true);
+    
+      // Emails are mirrored into user_profiles, so no admin API call is needed
+      const { data: usersData, error: usersError } = await fetchDirectory();
+
+      if (usersError) {
+        console.error('Error loading users:', usersError);
+        Alert.alert('Error', 'Failed to load users');
+        return;
+      }
+
+      // Map to AuthUser format
+      const authUsersWithEmails: AuthUser[] = (usersData || []).map(profile => ({
+        id: profile.user_id,
+        email: profile.email || 'No email',
+        display_name: profile.display_name,
+        deactivated_at: profile.deactivated_at
+      }));
+
+      console.log('Auth users loaded:', authUsersWithEmails);
+      setAuthUsers(authUsersWithEmails);
+    } catch (error) {
+      console.error('Exception loading auth users:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setLoadingUsers(false);
+    }
+  };
+
+  const handleJobPress = (job: JobListItem) => {
+    console.log('Navigating to job:', job.id);
+    router.push(`/(tabs)/(home)/job/${job.id}` as any);
+  };
+
+  const handleLongPress = (job: JobListItem) => {
+    if (profile?.is_admin) {
+      setSelectedJob(job);
+      setShowMenu(true);
+    }
+  };
+
+  const handleArchiveJob = async () => {
+    if (!selectedJob) return;
+
+    Alert.alert(
+      'Archive Job',
+      `Are you sure you want to archive "${selectedJob.job_name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Archive',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { error } = await archiveJob(selectedJob.id);
+
+              if (error) {
+                console.error('Error archiving job:', error);
+                Alert.alert('Error', 'Failed to archive job');
+              } else {
+                Alert.alert('Success', 'Job archived successfully');
+                loadJobs();
+              }
+            } catch (error) {
+              console.error('Exception archiving job:', error);
+              Alert.alert('Error', 'An unexpected error occurred');
+            }
+            setShowMenu(false);
+            setSelectedJob(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEditJob = () => {
+    if (!selectedJob) return;
+    setJobName(selectedJob.job_name);
+    setSiteName(selectedJob.site_name);
+    setStartDate(selectedJob.start_date);
+    setShowMenu(false);
+    setShowEditModal(true);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!selectedJob || !jobName.trim() || !siteName.trim() || !startDate.trim()) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+
+    try {
+      const { error } = await updateJob(selectedJob.id, {
+        job_name: jobName.trim(),
+        site_name: siteName.trim(),
+        start_date: startDate.trim(),
+      });
+
+      if (error) {
+        console.error('Error updating job:', error);
+        Alert.alert('Error', 'Failed to update job');
+      } else {
+        Alert.alert('Success', 'Job updated successfully');
+        loadJobs();
+        setShowEditModal(false);
+        setSelectedJob(null);
+        setJobName('');
+        setSiteName('');
+        setStartDate('');
+      }
+    } catch (error) {
+      console.error('Exception updating job:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    }
+  };
+
+  const handleInviteTechnicians = () => {
+    setShowMenu(false);
+    setSelectedUsers([]);
+    setShowInviteModal(true);
+    loadAllUsers();
+  };
+
+  const handleUploadScope = () => {
+    setShowMenu(false);
+    setShowScopeModal(true);
+  };
+
+  const handleScopeUploadSuccess = () => {
+    console.log('Scope uploaded successfully');
+    loadJobs();
+  };
+
+  const toggleUserSelection = (userId: string, isInvited: boolean) => {
+    if (isInvited) {
+      Alert.alert('Already Invited', 'This user has already been invited to this job.');
+      return;
+    }
+    
+    setSelectedUsers((prev) =>
+      prev.includes(userId)
+        ? prev.filter((id) => id !== userId)
+        : [...prev, userId]
+    );
+  };
+
+  const handleSendInvites = async () => {
+    if (!user) return;
+
+    if (!selectedJob || selectedUsers.length === 0) {
+      Alert.alert('Error', 'Please select at least one user');
+      return;
+    }
+
+    try {
+      const { error } = await inviteUsers(selectedJob.id, selectedUsers, user.id);
+
+      if (error) {
+        console.error('Error sending invitations:', error);
+        Alert.alert('Error', 'Failed to send invitations');
+      } else {
+        Alert.alert('Success', `Invited ${selectedUsers.length} user(s) to the job`);
+        setShowInviteModal(false);
+        setSelectedJob(null);
+        setSelectedUsers([]);
+      }
+    } catch (error) {
+      console.error('Exception sending invitations:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    }
+  };
+
+  const handleCreateJob = () => {
+    setJobName('');
+    setSiteName('');
+    setStartDate('');
+    setShowCreateModal(true);
+  };
+
+  const handleSaveNewJob = async () => {
+    if (!user) return;
+
+    if (!jobName.trim() || !siteName.trim() || !startDate.trim()) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+
+    try {
+      const { error } = await createJob({
+        job_name: jobName.trim(),
+        site_name: siteName.trim(),
+        start_date: startDate.trim(),
+        created_by: user.id,
+      });
+
+      if (error) {
+        console.error('Error creating job:', error);
+        Alert.alert('Error', 'Failed to create job');
+      } else {
+        Alert.alert('Success', 'Job created successfully');
+        loadJobs();
+        setShowCreateModal(false);
+        setJobName('');
+        setSiteName('');
+        setStartDate('');
+      }
+    } catch (error) {
+      console.error('Exception creating job:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    }
+  };
+
+  const handleOpenSettings = () => {
+    setShowSettingsModal(true);
+  };
+
+  const handleOpenCalendar = () => {
+    router.push('/calendar');
+  };
+
+  const handleOpenNotificationSettings = () => {
+    setShowSettingsModal(false);
+    router.push('/notification-settings');
+  };
+
+  const handleResetPasswords = () => {
+    setShowSettingsModal(false);
+    setShowPasswordResetModal(true);
+    loadAuthUsers();
+  };
+
+  const handleSelectUserForPasswordReset = async (authUser: AuthUser) => {
+    setSelectedAuthUser(authUser);
+    setSelectedAuthUserDetails(null);
+    setNewPassword('');
+    setConfirmPassword('');
+    setShowPasswordResetModal(false);
+    setShowPasswordChangeModal(true);
+
+    const { data, error } = await fetchAuthUser(authUser.id);
+    if (error) {
+      console.error('Error loading user details:', error);
+    } else {
+      setSelectedAuthUserDetails(data);
+    }
+  };
+
+  const handleUpdatePassword = async () => {
+    if (!selectedAuthUser) return;
+
+    if (!newPassword.trim()) {
+      Alert.alert('Error', 'Please enter a new password');
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters long');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    try {
+      const { error } = await resetUserPassword(selectedAuthUser.id, newPassword);
+
+      if (error) {
+        console.error('Error updating password:', error);
+        Alert.alert('Error', 'Failed to update password: ' + error.message);
+      } else {
+        Alert.alert('Success', `Password updated successfully for ${selectedAuthUser.email}`);
+        closePasswordChangeModal();
+      }
+    } catch (error: any) {
+      console.error('Exception updating password:', error);
+      Alert.alert('Error', error.message || 'An unexpected error occurred');
+    }
+  };
+
+  const setAuthUserDeactivatedAt = (userId: string, deactivatedAt: string | null) => {
+    setAuthUsers((prev) =>
+      prev.map((authUser) => (authUser.id === userId ? { ...authUser, deactivated_at: deactivatedAt } : authUser))
+    );
+    setSelectedAuthUser((prev) => (prev && prev.id === userId ? { ...prev, deactivated_at: deactivatedAt } : prev));
+  };
+
+  const handleToggleUserActive = () => {
+    if (!selectedAuthUser) return;
+
+    const target = selectedAuthUser;
+    const deactivating = !target.deactivated_at;
+    const name = target.display_name || target.email;
+
+    Alert.alert(
+      deactivating ? 'Deactivate User' : 'Reactivate User',
+      deactivating
+        ? `${name} will no longer be able to log in until reactivated.`
+        : `${name} will be able to log in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: deactivating ? 'Deactivate' : 'Reactivate',
+          style: deactivating ? 'destructive' : 'default',
+          onPress: async () => {
+            try {
+              if (deactivating) {
+                const { data, error } = await deactivateUser(target.id);
+                if (error) {
+                  console.error('Error deactivating user:', error);
+                  Alert.alert('Error', 'Failed to deactivate user: ' + error.message);
+                  return;
+                }
+                setAuthUserDeactivatedAt(target.id, data ?? new Date().toISOString());
+              } else {
+                const { error } = await reactivateUser(target.id);
+                if (error) {
+                  console.error('Error reactivating user:', error);
+                  Alert.alert('Error', 'Failed to reactivate user: ' + error.message);
+                  return;
+                }
+                setAuthUserDeactivatedAt(target.id, null);
+              }
+              Alert.alert('Success', `${name} has been ${deactivating ? 'deactivated' : 'reactivated'}`);
+            } catch (error: any) {
+              console.error('Exception changing user status:', error);
+              Alert.alert('Error', error.message || 'An unexpected error occurred');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const closeEditModal = () => {
+    setShowEditModal(false);
+    setSelectedJob(null);
+    setJobName('');
+    setSiteName('');
+    setStartDate('');
+  };
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setJobName('');
+    setSiteName('');
+    setStartDate('');
+  };
+
+  const closeInviteModal = () => {
+    setShowInviteModal(false);
+    setSelectedJob(null);
+    setSelectedUsers([]);
+  };
+
+  const closePasswordChangeModal = () => {
+    setShowPasswordChangeModal(false);
+    setSelectedAuthUser(null);
+    setSelectedAuthUserDetails(null);
+    setNewPassword('');
+    setConfirmPassword('');
+  };
+
+  const closeScopeModal = () => {
+    setShowScopeModal(false);
+    setSelectedJob(null);
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+  };
+
+  return {
+    user,
+    profile,
+    isAdmin: !!profile?.is_admin,
+    jobs,
+    loading,
+    selectedJob,
+    allUsers,
+    authUsers,
+    selectedUsers,
+    selectedAuthUser,
+    selectedAuthUserDetails,
+    loadingUsers,
+    showMenu,
+    setShowMenu,
+    showEditModal,
+    showInviteModal,
+    showCreateModal,
+    showScopeModal,
+    showSettingsModal,
+    setShowSettingsModal,
+    showPasswordResetModal,
+    setShowPasswordResetModal,
+    showPasswordChangeModal,
+    jobName,
+    setJobName,
+    siteName,
+    setSiteName,
+    startDate,
+    setStartDate,
+    newPassword,
+    setNewPassword,
+    confirmPassword,
+    setConfirmPassword,
+    loadJobs,
+    handleJobPress,
+    handleLongPress,
+    handleArchiveJob,
+    handleEditJob,
+    handleSaveEdit,
+    closeEditModal,
+    handleInviteTechnicians,
+    toggleUserSelection,
+    handleSendInvites,
+    closeInviteModal,
+    handleUploadScope,
+    handleScopeUploadSuccess,
+    closeScopeModal,
+    handleCreateJob,
+    handleSaveNewJob,
+    closeCreateModal,
+    handleOpenSettings,
+    handleOpenCalendar,
+    handleOpenNotificationSettings,
+    handleResetPasswords,
+    handleSelectUserForPasswordReset,
+    handleUpdatePassword,
+    handleToggleUserActive,
+    closePasswordChangeModal,
+    handleSignOut,
+  };
+}
+
+export type HomeScreenState = ReturnType<typeof useHomeScreen>;
@@ -0,0 +1,118 @@
+import { Dispatch, SetStateAction, useEffect, useRef } from 'react';
+import type { Job, JobListItem } from '@/app/integrations/supabase/types';
+import { unsubscribe } from '@/services/chat';
+import { fetchJobList, subscribeToJobList } from '@/services/jobs';
+
+function sortByStartDate(jobs: JobListItem[]) {
+  return [...jobs].sort((a, b) => a.start_date.localeCompare(b.start_date));
+}
+
+function latest(a: string, b: string) {
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+}
+
+function mergeJob(item: JobListItem, job: Job): JobListItem {
+  return {
+    ...item,
+    job_name: job.job_name,
+    site_name: job.site_name,
+    start_date: job.start_date,
+    is_archived: job.is_archived,
+    updated_at: job.updated_at,
+    processing_status: job.processing_status,
+    processing_scheduled_for: job.processing_scheduled_for,
+    last_processed_at: job.last_processed_at,
+    last_activity_at: latest(item.last_activity_at, job.updated_at),
+  };
+}
+
+/**
+ * Keeps the home screen job list in sync with realtime changes to jobs,
+ * invitations, chat messages and the user's own read status. Rows are patched
+ * in place where the payload carries enough data; anything that changes which
+ * jobs the user can see triggers a quiet refetch of `get_job_list`.
+ */
+export function useJobListRealtime(
+  userId: string | undefined,
+  jobs: JobListItem[],
+  setJobs: Dispatch<SetStateAction<JobListItem[]>>
+) {
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const refreshJobs = async () => {
+      const { data, error } = await fetchJobList();
+      if (error) {
+        console.error('Error refreshing jobs:', error);
+        return;
+      }
+      setJobs(data);
+    };
+
+    const channel = subscribeToJobList(userId, {
+      onJobChange: (payload) => {
+        console.log('Job change received:', payload.eventType);
+
+        if (payload.eventType === 'INSERT') {
+          refreshJobs();
+          return;
+        }
+
+        if (payload.eventType === 'DELETE') {
+          setJobs((current) => current.filter((job) => job.id !== payload.old.id));
+          return;
+        }
+
+        const updated = payload.new;
+        if (updated.is_archived) {
+          setJobs((current) => current.filter((job) => job.id !== updated.id));
+          return;
+        }
+
+        if (!jobsRef.current.some((job) => job.id === updated.id)) {
+          // Unarchived, or newly visible to this user
+          refreshJobs();
+          return;
+        }
+
+        setJobs((current) =>
+          sortByStartDate(
+            current.map((job) => (job.id === updated.id ? mergeJob(job, updated) : job))
+          )
+        );
+      },
+      onInvitationChange: (payload) => {
+        console.log('Invitation change received:', payload.eventType);
+        refreshJobs();
+      },
+      onMessageInsert: (message) => {
+        setJobs((current) =>
+          current.map((job) => {
+            if (job.id !== message.job_id) return job;
+            return {
+              ...job,
+              unread_count: message.user_id === userId ? job.unread_count : job.unread_count + 1,
+              last_message_text: message.message_text,
+              last_message_type: message.message_type,
+              last_message_user_id: message.user_id,
+              last_message_at: message.created_at,
+              last_activity_at: latest(job.last_activity_at, message.created_at),
+            };
+          })
+        );
+      },
+      onReadStatusChange: (readStatus) => {
+        setJobs((current) =>
+          current.map((job) => (job.id === readStatus.job_id ? { ...job, unread_count: 0 } : job))
+        );
+      },
+    });
+
+    return () => {
+      unsubscribe(channel);
+    };
+  }, [userId, setJobs]);
+}
@@ -0,0 +1,118 @@
+import { useEffect, useRef } from 'react';
+import type { Job } from '@/app/integrations/supabase/types';
+import { useToast } from '@/contexts/ToastContext';
+import { unsubscribe } from '@/services/chat';
+import { fetchJob, subscribeToJob } from '@/services/jobs';
+import { fetchPendingChangeIdsSince } from '@/services/pendingChanges';
+
+type RunState = Pick<
+  Job,
+  'processing_status' | 'processing_attempts' | 'last_processed_at' | 'ai_changelog' | 'updated_at'
+>;
+
+/**
+ * Keeps a screen's copy of a job row current via realtime and shows a toast
+ * when a processing run finishes, fails, or is rescheduled for a retry. `onRunFinished` is called with the
+ * number of changelog entries the run added.
+ */
+export function useJobRealtime(
+  jobId: string | undefined,
+  onUpdate: (job: Job) => void,
+  onRunFinished?: (job: Job, changesMade: number) => void
+) {
+  const { showToast } = useToast();
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const onRunFinishedRef = useRef(onRunFinished);
+  onRunFinishedRef.current = onRunFinished;
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    let previous: RunState | null = null;
+
+    // Seed the previous state so a run that is already under way is still
+    // reported when it finishes
+    fetchJob(jobId).then(({ data }) => {
+      if (data && !previous) {
+        previous = data;
+      }
+    });
+
+    const channel = subscribeToJob(jobId, (job) => {
+      const before = previous;
+      previous = job;
+
+      onUpdateRef.current(job);
+
+      if (!before || before.processing_status === job.processing_status) {
+        return;
+      }
+
+      if (job.processing_status === 'failed') {
+        showToast('Processing failed. Pull to refresh or try again.', {
+          variant: 'error',
+          key: `run-failed:${job.id}:${job.updated_at}`,
+        });
+        return;
+      }
+
+      // process-chat-batch hands a failed run back to the schedule with backoff
+      if (
+        job.processing_status === 'scheduled' &&
+        before.processing_status === 'running' &&
+        job.processing_attempts > (before.processing_attempts || 0)
+      ) {
+        showToast('Processing failed. Retrying automatically shortly.', {
+          variant: 'info',
+          key: `run-retry:${job.id}:${job.processing_attempts}:${job.updated_at}`,
+        });
+        return;
+      }
+
+      // A run that leaves newer messages behind finishes as 'scheduled'
+      const finished =
+        (job.processing_status === 'idle' || job.processing_status === 'scheduled') &&
+        !!job.last_processed_at &&
+        job.last_processed_at !== before.last_processed_at;
+
+      if (!finished) return;
+
+      const changesMade = Math.max(
+        (job.ai_changelog?.length || 0) - (before.ai_changelog?.length || 0),
+        0
+      );
+
+      const report = (message: string) => {
+        showToast(message, { variant: 'success', key: `run:${job.id}:${job.last_processed_at}` });
+        onRunFinishedRef.current?.(job, changesMade);
+      };
+
+      if (!job.review_mode) {
+        report(
+          changesMade > 0
+            ? `Summary updated with ${changesMade} ${changesMade === 1 ? 'change' : 'changes'}`
+            : 'Processing finished with no changes'
+        );
+        return;
+      }
+
+      // In review mode the run only queues proposals and leaves the changelog
+      // alone, so count what it queued since it started
+      fetchPendingChangeIdsSince(job.id, before.updated_at).then(({ data }) => {
+        const queued = data?.length ?? 0;
+        report(
+          !data
+            ? 'Processing finished'
+            : queued > 0
+              ? `Processing finished. ${queued} proposed ${queued === 1 ? 'change is' : 'changes are'} waiting for review`
+              : 'Processing finished with no changes'
+        );
+      });
+    });
+
+    return () => {
+      unsubscribe(channel);
+    };
+  }, [jobId, showToast]);
+}
@@ -0,0 +1,114 @@
+import { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { unsubscribe } from '@/services/chat';
+import { fetchJobReminders, subscribeToJobReminders } from '@/services/jobs';
+import { loadReminderSettings, subscribeToReminderSettings } from '@/services/reminderSettings';
+import { planReminders, REMINDER_IDENTIFIER_PREFIX } from '@/utils/reminders';
+
+const REMINDER_CHANNEL_ID = 'reminders';
+
+// process-chat-batch writes several job updates in a row; reschedule once after them
+const RESCHEDULE_DELAY_MS = 2000;
+
+/**
+ * Keeps local notifications scheduled for the signed-in user's approaching
+ * deadlines and overdue assigned actions. Reminders are rebuilt from scratch
+ * whenever a visible job changes or the reminder settings are saved, and are
+ * cleared on sign-out. Taps are routed by `usePushNotifications`.
+ */
+export function useLocalReminders(userId: string | undefined) {
+  useEffect(() => {
+    if (!userId) {
+      cancelReminders();
+      return;
+    }
+
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    // Runs one reschedule at a time so cancelling and scheduling never interleave
+    let queue = Promise.resolve();
+
+    const reschedule = () => {
+      queue = queue.then(() => (active ? scheduleReminders(userId) : undefined));
+    };
+
+    const rescheduleSoon = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(reschedule, RESCHEDULE_DELAY_MS);
+    };
+
+    reschedule();
+    const channel = subscribeToJobReminders(userId, rescheduleSoon);
+    const stopListening = subscribeToReminderSettings(reschedule);
+
+    return () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      unsubscribe(channel);
+      stopListening();
+    };
+  }, [userId]);
+}
+
+async function scheduleReminders(userId: string) {
+  try {
+    // usePushNotifications asks for permission; until it is granted there is nothing to do
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      console.log('Notifications not permitted, skipping reminders');
+      return;
+    }
+
+    const [settingsResult, jobsResult] = await Promise.all([loadReminderSettings(), fetchJobReminders()]);
+
+    if (settingsResult.error || jobsResult.error) {
+      console.error('Error loading reminders:', settingsResult.error || jobsResult.error);
+      return;
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: 'Reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const reminders = planReminders(jobsResult.data, userId, settingsResult.data);
+
+    await cancelReminders();
+    for (const reminder of reminders) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.identifier,
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: reminder.data,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.date,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+    }
+
+    console.log(`Scheduled ${reminders.length} reminder(s)`);
+  } catch (error) {
+    console.error('Exception scheduling reminders:', error);
+  }
+}
+
+// Only touches reminders, not other scheduled notifications
+async function cancelReminders() {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter((notification) => notification.identifier.startsWith(REMINDER_IDENTIFIER_PREFIX))
+        .map((notification) => Notifications.cancelScheduledNotificationAsync(notification.identifier))
+    );
+  } catch (error) {
+    console.error('Exception cancelling reminders:', error);
+  }
+}
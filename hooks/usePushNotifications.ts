@@ -42,8 +42,13 @@ export function usePushNotifications() {
       const data = response.notification.request.content.data;
       
       // Navigate to the job's chat when notification is tapped
-      if (data.jobId && data.type === 'chat_message') {
+      if (data.jobId && (data.type === 'chat_message' || data.type === 'ai_alert')) {
         router.push(`/(tabs)/(home)/job/${data.jobId}` as any);
+      } else if (data.jobId && data.type === 'deadline_reminder') {
+        // Local reminders scheduled by useLocalReminders
+        router.push(`/job-details/deadlines?jobId=${data.jobId}&deadlineId=${data.deadlineId}` as any);
+      } else if (data.jobId && data.type === 'action_overdue') {
+        router.push(`/job-details/actions?jobId=${data.jobId}&actionId=${data.actionId}` as any);
       }
     });
 
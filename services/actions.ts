@@ -0,0 +1,35 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { Action, Job } from '@/app/integrations/supabase/types';
+import { execute, RepositoryResult } from '@/services/request';
+
+export type ActionChanges = Partial<Pick<Action, 'assignee_id' | 'due_date' | 'status'>> & {
+  priority?: Action['priority'];
+};
+
+/**
+ * Updates the priority, board status, assignee or due date of a next action
+ * and logs the change to `changelog`. The job's actions stay ordered by
+ * priority.
+ */
+export function updateAction(jobId: string, actionId: string, changes: ActionChanges): Promise<RepositoryResult<Job>> {
+  return execute('updateAction', () =>
+    supabase.rpc('update_job_action', {
+      target_job_id: jobId,
+      target_action_id: actionId,
+      changes,
+    })
+  );
+}
+
+/**
+ * Marks a next action complete. A `completed_items` row records the current
+ * user as the one who did it.
+ */
+export function completeAction(jobId: string, actionId: string): Promise<RepositoryResult<Job>> {
+  return execute('completeAction', () =>
+    supabase.rpc('complete_job_action', {
+      target_job_id: jobId,
+      target_action_id: actionId,
+    })
+  );
+}
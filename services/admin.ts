@@ -0,0 +1,73 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { AdminAuditAction } from '@/app/integrations/supabase/types';
+import { fail, ok, RepositoryResult } from '@/services/request';
+
+// Account management runs in the `admin-users` edge function, which checks
+// `user_profiles.is_admin` and writes every action to `admin_audit_log`. The
+// app itself only ever holds the anon key.
+
+export interface AdminUserDetails {
+  id: string;
+  email: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  banned_until: string | null;
+}
+
+interface AdminUsersResponse {
+  success: boolean;
+  user?: AdminUserDetails;
+  deactivated_at?: string | null;
+  error?: string;
+}
+
+async function invokeAdminUsers(
+  operation: string,
+  body: { action: AdminAuditAction; userId: string; password?: string }
+): Promise<RepositoryResult<AdminUsersResponse>> {
+  try {
+    const { data, error } = await supabase.functions.invoke<AdminUsersResponse>('admin-users', { body });
+
+    if (error) {
+      return fail(operation, error);
+    }
+
+    if (!data || !data.success) {
+      return fail(operation, new Error(data?.error || 'Admin action failed'));
+    }
+
+    return ok(data);
+  } catch (error) {
+    return fail(operation, error);
+  }
+}
+
+export async function fetchAuthUser(userId: string): Promise<RepositoryResult<AdminUserDetails>> {
+  const result = await invokeAdminUsers('fetchAuthUser', { action: 'get_user', userId });
+  if (result.error) {
+    return result;
+  }
+  if (!result.data.user) {
+    return fail('fetchAuthUser', new Error('User not found'));
+  }
+  return ok(result.data.user);
+}
+
+export async function resetUserPassword(userId: string, password: string): Promise<RepositoryResult<null>> {
+  const result = await invokeAdminUsers('resetUserPassword', { action: 'reset_password', userId, password });
+  return result.error ? result : ok(null);
+}
+
+/**
+ * Bans the account so it can no longer sign in and stamps
+ * `user_profiles.deactivated_at`. Returns the deactivation time.
+ */
+export async function deactivateUser(userId: string): Promise<RepositoryResult<string | null>> {
+  const result = await invokeAdminUsers('deactivateUser', { action: 'deactivate_user', userId });
+  return result.error ? result : ok(result.data.deactivated_at ?? null);
+}
+
+export async function reactivateUser(userId: string): Promise<RepositoryResult<null>> {
+  const result = await invokeAdminUsers('reactivateUser', { action: 'reactivate_user', userId });
+  return result.error ? result : ok(null);
+}
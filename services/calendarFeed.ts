@@ -0,0 +1,34 @@
+import { SUPABASE_URL, supabase } from '@/app/integrations/supabase/client';
+import { execute, RepositoryResult } from '@/services/request';
+
+/**
+ * Returns the signed-in user's calendar feed token, creating it the first
+ * time. The token is the only credential the feed URL carries.
+ */
+export function fetchCalendarFeedToken(): Promise<RepositoryResult<string>> {
+  return execute('fetchCalendarFeedToken', () => supabase.rpc('get_calendar_feed_token'));
+}
+
+/**
+ * Issues a new feed token. Calendars subscribed with the old URL stop
+ * receiving updates.
+ */
+export function resetCalendarFeedToken(): Promise<RepositoryResult<string>> {
+  return execute('resetCalendarFeedToken', () => supabase.rpc('reset_calendar_feed_token'));
+}
+
+/**
+ * URL of the calendar-feed edge function: every active job of the user, or
+ * one job as an .ics file when `jobId` is given. `webcal` makes calendar apps
+ * offer to subscribe rather than import once.
+ */
+export function getCalendarFeedUrl(
+  token: string,
+  { jobId, webcal = false }: { jobId?: string; webcal?: boolean } = {}
+): string {
+  const params = new URLSearchParams({ token });
+  if (jobId) params.set('job', jobId);
+
+  const url = `${SUPABASE_URL}/functions/v1/calendar-feed?${params.toString()}`;
+  return webcal ? url.replace(/^https?:/, 'webcal:') : url;
+}
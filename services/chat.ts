@@ -0,0 +1,141 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/app/integrations/supabase/client';
+import type { ChatMessage, ChatReadStatus } from '@/app/integrations/supabase/types';
+import { dedupe, execute, ok, RepositoryResult } from '@/services/request';
+
+export type ChatMessageSummary = Pick<
+  ChatMessage,
+  'id' | 'message_text' | 'user_id' | 'created_at' | 'message_type' | 'image_url'
+>;
+
+// Chat loads the most recent page of messages; older ones are fetched on demand
+export const CHAT_PAGE_SIZE = 50;
+
+const MESSAGE_SUMMARY_COLUMNS = 'id, message_text, user_id, created_at, message_type, image_url';
+
+/**
+ * Loads the latest `CHAT_PAGE_SIZE` messages of a job, oldest first.
+ */
+export async function fetchMessages(jobId: string): Promise<RepositoryResult<ChatMessageSummary[]>> {
+  const result = await dedupe(`chat_messages:${jobId}`, () =>
+    execute('fetchMessages', () =>
+      supabase
+        .from('chat_messages')
+        .select(MESSAGE_SUMMARY_COLUMNS)
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: false })
+        .limit(CHAT_PAGE_SIZE)
+    )
+  );
+  return result.error ? result : ok([...result.data].reverse());
+}
+
+/**
+ * Loads messages older than `before`, oldest first. With `since`, returns every
+ * message from `since` (inclusive) up to `before`; otherwise the previous page.
+ */
+export async function fetchEarlierMessages(
+  jobId: string,
+  before: string,
+  since?: string
+): Promise<RepositoryResult<ChatMessageSummary[]>> {
+  if (since) {
+    return execute('fetchEarlierMessages', () =>
+      supabase
+        .from('chat_messages')
+        .select(MESSAGE_SUMMARY_COLUMNS)
+        .eq('job_id', jobId)
+        .gte('created_at', since)
+        .lt('created_at', before)
+        .order('created_at', { ascending: true })
+    );
+  }
+
+  const result = await execute('fetchEarlierMessages', () =>
+    supabase
+      .from('chat_messages')
+      .select(MESSAGE_SUMMARY_COLUMNS)
+      .eq('job_id', jobId)
+      .lt('created_at', before)
+      .order('created_at', { ascending: false })
+      .limit(CHAT_PAGE_SIZE)
+  );
+  return result.error ? result : ok([...result.data].reverse());
+}
+
+export function fetchMessage(jobId: string, messageId: string): Promise<RepositoryResult<ChatMessageSummary | null>> {
+  return execute('fetchMessage', () =>
+    supabase
+      .from('chat_messages')
+      .select(MESSAGE_SUMMARY_COLUMNS)
+      .eq('job_id', jobId)
+      .eq('id', messageId)
+      .maybeSingle()
+  );
+}
+
+export function sendTextMessage(
+  jobId: string,
+  userId: string,
+  messageText: string
+): Promise<RepositoryResult<ChatMessage>> {
+  return execute('sendTextMessage', () =>
+    supabase
+      .from('chat_messages')
+      .insert({
+        job_id: jobId,
+        user_id: userId,
+        message_text: messageText,
+        message_type: 'text',
+      })
+      .select()
+      .single()
+  );
+}
+
+export function markMessagesRead(jobId: string, userId: string): Promise<RepositoryResult<ChatReadStatus>> {
+  const now = new Date().toISOString();
+  return execute('markMessagesRead', () =>
+    supabase
+      .from('chat_read_status')
+      .upsert({
+        user_id: userId,
+        job_id: jobId,
+        last_read_at: now,
+        updated_at: now,
+      }, {
+        onConflict: 'user_id,job_id',
+      })
+      .select()
+      .single()
+  );
+}
+
+/**
+ * Subscribes to new messages in a job's chat. Pass the returned channel to
+ * `unsubscribe` when the screen unmounts.
+ */
+export function subscribeToMessages(
+  jobId: string,
+  onInsert: (message: ChatMessage) => void
+): RealtimeChannel {
+  return supabase
+    .channel(`chat:${jobId}`)
+    .on<ChatMessage>(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'chat_messages',
+        filter: `job_id=eq.${jobId}`,
+      },
+      (payload) => onInsert(payload.new)
+    )
+    .subscribe((status) => {
+      console.log('Realtime subscription status:', status);
+    });
+}
+
+export function unsubscribe(channel: RealtimeChannel) {
+  supabase.removeChannel(channel);
+}
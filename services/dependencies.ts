@@ -0,0 +1,22 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { DependencyLink, Job } from '@/app/integrations/supabase/types';
+import { execute, RepositoryResult } from '@/services/request';
+
+/**
+ * Replaces the items a dependency blocks and logs the change to `changelog`.
+ * Every link must point at an action, issue, deadline or other dependency that
+ * is still on the job.
+ */
+export function setDependencyLinks(
+  jobId: string,
+  dependencyId: string,
+  links: DependencyLink[]
+): Promise<RepositoryResult<Job>> {
+  return execute('setDependencyLinks', () =>
+    supabase.rpc('set_dependency_links', {
+      target_job_id: jobId,
+      target_dependency_id: dependencyId,
+      links: links.map(({ type, id }) => ({ type, id })),
+    })
+  );
+}
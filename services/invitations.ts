@@ -0,0 +1,54 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { Job, JobInvitation } from '@/app/integrations/supabase/types';
+import { fetchPublicProfiles, PublicProfile } from '@/services/profiles';
+import { dedupe, execute, ok, RepositoryResult } from '@/services/request';
+
+export function fetchInvitedUserIds(jobId: string): Promise<RepositoryResult<string[]>> {
+  return dedupe(`job_invitations:${jobId}`, async () => {
+    const result = await execute('fetchInvitedUserIds', () =>
+      supabase
+        .from('job_invitations')
+        .select('user_id')
+        .eq('job_id', jobId)
+    );
+
+    if (result.error) {
+      return result;
+    }
+
+    return ok(result.data.map((invitation) => invitation.user_id));
+  });
+}
+
+/**
+ * Loads everyone who can be assigned work on a job: its creator and the users
+ * invited to it.
+ */
+export async function fetchJobMembers(
+  job: Pick<Job, 'id' | 'created_by'>
+): Promise<RepositoryResult<PublicProfile[]>> {
+  const invited = await fetchInvitedUserIds(job.id);
+
+  if (invited.error) {
+    return invited;
+  }
+
+  return fetchPublicProfiles([job.created_by, ...invited.data]);
+}
+
+export function inviteUsers(
+  jobId: string,
+  userIds: string[],
+  invitedBy: string
+): Promise<RepositoryResult<JobInvitation[]>> {
+  return execute('inviteUsers', () =>
+    supabase
+      .from('job_invitations')
+      .insert(userIds.map((userId) => ({
+        job_id: jobId,
+        user_id: userId,
+        invited_by: invitedBy,
+      })))
+      .select()
+  );
+}
@@ -0,0 +1,95 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { Issue, Job } from '@/app/integrations/supabase/types';
+import { execute, fail, ok, RepositoryResult } from '@/services/request';
+
+const ISSUE_PHOTOS_BUCKET = 'issue-photos';
+
+// Signed photo URLs outlive a typical visit to the issue detail screen
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+export type IssueChanges = Partial<Pick<Issue, 'status' | 'assigned_to' | 'priority' | 'due_date'>>;
+
+/**
+ * Updates the status, assignee, priority or due date of an issue and logs the
+ * change to `changelog`. Returns the updated job.
+ */
+export function updateIssue(jobId: string, issueId: string, changes: IssueChanges): Promise<RepositoryResult<Job>> {
+  return execute('updateIssue', () =>
+    supabase.rpc('update_job_issue', {
+      target_job_id: jobId,
+      target_issue_id: issueId,
+      changes,
+    })
+  );
+}
+
+export function addIssueComment(jobId: string, issueId: string, comment: string): Promise<RepositoryResult<Job>> {
+  return execute('addIssueComment', () =>
+    supabase.rpc('update_job_issue', {
+      target_job_id: jobId,
+      target_issue_id: issueId,
+      changes: { comment },
+    })
+  );
+}
+
+/**
+ * Uploads a photo from a local file URI and attaches it to the issue.
+ */
+export async function addIssuePhoto(
+  jobId: string,
+  issueId: string,
+  fileUri: string,
+  mimeType = 'image/jpeg'
+): Promise<RepositoryResult<Job>> {
+  try {
+    const extension = mimeType.split('/')[1] || 'jpg';
+    const path = `${jobId}/${issueId}/${Date.now()}.${extension}`;
+
+    const response = await fetch(fileUri);
+    const body = await response.arrayBuffer();
+
+    const { error: uploadError } = await supabase.storage
+      .from(ISSUE_PHOTOS_BUCKET)
+      .upload(path, body, { contentType: mimeType });
+
+    if (uploadError) {
+      return fail('addIssuePhoto', uploadError);
+    }
+
+    return execute('addIssuePhoto', () =>
+      supabase.rpc('update_job_issue', {
+        target_job_id: jobId,
+        target_issue_id: issueId,
+        changes: { photo_path: path },
+      })
+    );
+  } catch (error) {
+    return fail('addIssuePhoto', error);
+  }
+}
+
+/**
+ * Resolves issue photo paths to temporary URLs, keyed by path.
+ */
+export async function fetchIssuePhotoUrls(paths: string[]): Promise<RepositoryResult<Record<string, string>>> {
+  if (paths.length === 0) {
+    return ok({});
+  }
+
+  const result = await execute('fetchIssuePhotoUrls', () =>
+    supabase.storage.from(ISSUE_PHOTOS_BUCKET).createSignedUrls(paths, PHOTO_URL_TTL_SECONDS)
+  );
+
+  if (result.error) {
+    return result;
+  }
+
+  const urls: Record<string, string> = {};
+  for (const entry of result.data) {
+    if (entry.path && entry.signedUrl) {
+      urls[entry.path] = entry.signedUrl;
+    }
+  }
+  return ok(urls);
+}
@@ -0,0 +1,296 @@
+import { RealtimePostgresChangesPayload, RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/app/integrations/supabase/client';
+import type {
+  ChangeLogRow,
+  ChatMessage,
+  ChatReadStatus,
+  CompletedItemRow,
+  Job,
+  JobInvitation,
+  JobListItem,
+  TablesInsert,
+  TablesUpdate,
+  UserProfile,
+} from '@/app/integrations/supabase/types';
+import { dedupe, execute, fail, ok, RepositoryResult } from '@/services/request';
+
+export type ManualChangeLogEntry = ChangeLogRow & {
+  user_profiles: Pick<UserProfile, 'display_name'> | null;
+};
+
+export type CompletedItem = CompletedItemRow & {
+  user_profiles: Pick<UserProfile, 'display_name'> | null;
+};
+
+export interface ProcessingResult {
+  job_id: string;
+  status: 'success' | 'skipped' | 'error' | 'cancelled';
+  messages_processed?: number;
+  overview_length?: number;
+  changes_made?: number;
+  // Changes queued for review instead of applied (review mode)
+  pending_review?: number;
+  error?: string;
+  // Failed runs: what went wrong and when the automatic retry is due
+  error_class?: string;
+  attempt?: number;
+  next_retry_at?: string | null;
+}
+
+export interface JobListChangeHandlers {
+  onJobChange: (payload: RealtimePostgresChangesPayload<Job>) => void;
+  onInvitationChange: (payload: RealtimePostgresChangesPayload<JobInvitation>) => void;
+  onMessageInsert: (message: ChatMessage) => void;
+  onReadStatusChange: (readStatus: ChatReadStatus) => void;
+}
+
+export interface ProcessChatBatchResponse {
+  processed: number;
+  results: ProcessingResult[];
+}
+
+/**
+ * Loads the home screen list: every active job with the signed-in user's
+ * unread count and the latest chat message, in a single `get_job_list` call.
+ */
+export function fetchJobList(): Promise<RepositoryResult<JobListItem[]>> {
+  return dedupe('jobs:list', () =>
+    execute('fetchJobList', () => supabase.rpc('get_job_list'))
+  );
+}
+
+/**
+ * Subscribes to every change that affects the home screen list. RLS decides
+ * which rows reach the client, so users only hear about jobs they can see.
+ * Pass the returned channel to `unsubscribe` from `services/chat` on unmount.
+ */
+export function subscribeToJobList(userId: string, handlers: JobListChangeHandlers): RealtimeChannel {
+  return supabase
+    .channel(`jobs:list:${userId}`)
+    .on<Job>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'jobs' },
+      handlers.onJobChange
+    )
+    .on<JobInvitation>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'job_invitations', filter: `user_id=eq.${userId}` },
+      handlers.onInvitationChange
+    )
+    .on<ChatMessage>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'chat_messages' },
+      (payload) => handlers.onMessageInsert(payload.new)
+    )
+    .on<ChatReadStatus>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_read_status', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.eventType !== 'DELETE') {
+          handlers.onReadStatusChange(payload.new);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log('Job list realtime subscription status:', status);
+    });
+}
+
+/**
+ * Subscribes to updates of a single job row, e.g. processing status and
+ * summary changes written by process-chat-batch. Pass the returned channel to
+ * `unsubscribe` when the screen unmounts.
+ */
+export function subscribeToJob(jobId: string, onUpdate: (job: Job) => void): RealtimeChannel {
+  // Each screen gets its own channel; several can watch the same job at once
+  return supabase
+    .channel(`jobs:${jobId}:${Math.random().toString(36).slice(2)}`)
+    .on<Job>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'jobs', filter: `id=eq.${jobId}` },
+      (payload) => onUpdate(payload.new)
+    )
+    .subscribe((status) => {
+      console.log('Job realtime subscription status:', status);
+    });
+}
+
+export function fetchJob(jobId: string): Promise<RepositoryResult<Job>> {
+  return dedupe(`jobs:${jobId}`, () =>
+    execute('fetchJob', () =>
+      supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single()
+    )
+  );
+}
+
+export type JobDeadlines = Pick<Job, 'id' | 'job_name' | 'site_name' | 'deadlines_and_timelines'>;
+
+/**
+ * Loads the deadlines of every active job the signed-in user can see, for the
+ * cross-job calendar. RLS limits the rows to the user's own jobs.
+ */
+export function fetchJobDeadlines(): Promise<RepositoryResult<JobDeadlines[]>> {
+  return dedupe('jobs:deadlines', () =>
+    execute('fetchJobDeadlines', () =>
+      supabase
+        .from('jobs')
+        .select('id, job_name, site_name, deadlines_and_timelines')
+        .eq('is_archived', false)
+        .order('job_name')
+    )
+  );
+}
+
+export type JobReminders = Pick<Job, 'id' | 'job_name' | 'deadlines_and_timelines' | 'next_actions'>;
+
+/**
+ * Loads what local reminders are scheduled from: the deadlines and next
+ * actions of every active job the signed-in user can see.
+ */
+export function fetchJobReminders(): Promise<RepositoryResult<JobReminders[]>> {
+  return dedupe('jobs:reminders', () =>
+    execute('fetchJobReminders', () =>
+      supabase
+        .from('jobs')
+        .select('id, job_name, deadlines_and_timelines, next_actions')
+        .eq('is_archived', false)
+    )
+  );
+}
+
+/**
+ * Subscribes to changes to the jobs the user can see and to their own
+ * invitations, for rescheduling reminders. Pass the returned channel to
+ * `unsubscribe` from `services/chat` when done.
+ */
+export function subscribeToJobReminders(userId: string, onChange: () => void): RealtimeChannel {
+  return supabase
+    .channel(`jobs:reminders:${userId}`)
+    .on<Job>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'jobs' },
+      () => onChange()
+    )
+    .on<JobInvitation>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'job_invitations', filter: `user_id=eq.${userId}` },
+      () => onChange()
+    )
+    .subscribe((status) => {
+      console.log('Job reminders realtime subscription status:', status);
+    });
+}
+
+export function createJob(job: TablesInsert<'jobs'>): Promise<RepositoryResult<Job>> {
+  return execute('createJob', () =>
+    supabase
+      .from('jobs')
+      .insert(job)
+      .select()
+      .single()
+  );
+}
+
+export function updateJob(jobId: string, changes: TablesUpdate<'jobs'>): Promise<RepositoryResult<Job>> {
+  return execute('updateJob', () =>
+    supabase
+      .from('jobs')
+      .update(changes)
+      .eq('id', jobId)
+      .select()
+      .single()
+  );
+}
+
+/**
+ * Cancels a scheduled or running batch. A running batch sees the change before
+ * it writes anything and discards its results. Resolves to null when there was
+ * nothing left to cancel.
+ */
+export function cancelJobProcessing(jobId: string): Promise<RepositoryResult<Job | null>> {
+  return execute('cancelJobProcessing', () =>
+    supabase
+      .from('jobs')
+      .update({ processing_status: 'idle', processing_scheduled_for: null, processing_attempts: 0 })
+      .eq('id', jobId)
+      .in('processing_status', ['scheduled', 'running'])
+      .select()
+      .maybeSingle()
+  );
+}
+
+export function archiveJob(jobId: string): Promise<RepositoryResult<Job>> {
+  return updateJob(jobId, { is_archived: true });
+}
+
+export function fetchManualChangelog(jobId: string): Promise<RepositoryResult<ManualChangeLogEntry[]>> {
+  return dedupe(`changelog:${jobId}`, () =>
+    execute('fetchManualChangelog', () =>
+      supabase
+        .from('changelog')
+        .select(`
+          *,
+          user_profiles!changelog_user_id_fkey(display_name)
+        `)
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: false })
+    )
+  );
+}
+
+/**
+ * Reverts one entry of `ai_changelog`, restoring its previous value and logging
+ * the revert to `changelog` under the current user. Admins only.
+ */
+export function revertAIChange(
+  jobId: string,
+  entryIndex: number,
+  entryTimestamp: string
+): Promise<RepositoryResult<Job>> {
+  return execute('revertAIChange', () =>
+    supabase.rpc('revert_ai_change', {
+      target_job_id: jobId,
+      entry_index: entryIndex,
+      entry_timestamp: entryTimestamp,
+    })
+  );
+}
+
+export function fetchCompletedItems(jobId: string): Promise<RepositoryResult<CompletedItem[]>> {
+  return dedupe(`completed_items:${jobId}`, () =>
+    execute('fetchCompletedItems', () =>
+      supabase
+        .from('completed_items')
+        .select(`
+          *,
+          user_profiles!completed_items_completed_by_fkey(display_name)
+        `)
+        .eq('job_id', jobId)
+        .order('completed_at', { ascending: false })
+    )
+  );
+}
+
+/**
+ * Runs the process-chat-batch edge function for a single job immediately,
+ * bypassing the two-minute schedule. A manual run restarts the retry count.
+ */
+export async function processJobChat(jobId: string): Promise<RepositoryResult<ProcessChatBatchResponse>> {
+  try {
+    const { data, error } = await supabase.functions.invoke<ProcessChatBatchResponse>('process-chat-batch', {
+      body: { job_id: jobId, trigger: 'manual' },
+    });
+
+    if (error) {
+      return fail('processJobChat', error);
+    }
+
+    return ok(data ?? { processed: 0, results: [] });
+  } catch (error) {
+    return fail('processJobChat', error);
+  }
+}
@@ -0,0 +1,65 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type {
+  JobNotificationPreference,
+  NotificationLevel,
+  NotificationPreferences,
+  TablesUpdate,
+} from '@/app/integrations/supabase/types';
+import { execute, RepositoryResult } from '@/services/request';
+
+/**
+ * Loads the user's quiet hours and snooze. `data` is null until they first
+ * change a setting; send-chat-notification treats that as no restrictions.
+ */
+export function fetchNotificationPreferences(
+  userId: string
+): Promise<RepositoryResult<NotificationPreferences | null>> {
+  return execute('fetchNotificationPreferences', () =>
+    supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+  );
+}
+
+export function saveNotificationPreferences(
+  userId: string,
+  changes: TablesUpdate<'notification_preferences'>
+): Promise<RepositoryResult<NotificationPreferences>> {
+  return execute('saveNotificationPreferences', () =>
+    supabase
+      .from('notification_preferences')
+      .upsert({ ...changes, user_id: userId, updated_at: new Date().toISOString() })
+      .select()
+      .single()
+  );
+}
+
+/**
+ * Loads the user's per-job levels. Jobs without a row get every notification.
+ */
+export function fetchJobNotificationLevels(): Promise<RepositoryResult<Pick<JobNotificationPreference, 'job_id' | 'level'>[]>> {
+  return execute('fetchJobNotificationLevels', () =>
+    supabase
+      .from('job_notification_preferences')
+      .select('job_id, level')
+  );
+}
+
+export function setJobNotificationLevel(
+  userId: string,
+  jobId: string,
+  level: NotificationLevel
+): Promise<RepositoryResult<JobNotificationPreference>> {
+  return execute('setJobNotificationLevel', () =>
+    supabase
+      .from('job_notification_preferences')
+      .upsert(
+        { user_id: userId, job_id: jobId, level, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,job_id' }
+      )
+      .select()
+      .single()
+  );
+}
@@ -0,0 +1,50 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { PendingChange } from '@/app/integrations/supabase/types';
+import { dedupe, execute, RepositoryResult } from '@/services/request';
+
+/**
+ * Loads the changes `process-chat-batch` proposed for a job in review mode that
+ * nobody has accepted or rejected yet, oldest first.
+ */
+export function fetchPendingChanges(jobId: string): Promise<RepositoryResult<PendingChange[]>> {
+  return dedupe(`pending_changes:${jobId}`, () =>
+    execute('fetchPendingChanges', () =>
+      supabase
+        .from('pending_changes')
+        .select('*')
+        .eq('job_id', jobId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+    )
+  );
+}
+
+/**
+ * Loads the ids of the changes proposed for a job after `since`, so a finished
+ * review-mode run can say how many it queued.
+ */
+export function fetchPendingChangeIdsSince(
+  jobId: string,
+  since: string
+): Promise<RepositoryResult<Pick<PendingChange, 'id'>[]>> {
+  return execute('fetchPendingChangeIdsSince', () =>
+    supabase
+      .from('pending_changes')
+      .select('id')
+      .eq('job_id', jobId)
+      .gt('created_at', since)
+  );
+}
+
+/**
+ * Accepts or rejects a pending change. Accepting applies it to the job and
+ * appends it to `ai_changelog`; only admins may review.
+ */
+export function reviewPendingChange(
+  pendingChangeId: string,
+  accept: boolean
+): Promise<RepositoryResult<PendingChange>> {
+  return execute('reviewPendingChange', () =>
+    supabase.rpc('review_pending_change', { pending_change_id: pendingChangeId, accept })
+  );
+}
@@ -0,0 +1,25 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { ProcessingRun } from '@/app/integrations/supabase/types';
+import { dedupe, execute, RepositoryResult } from '@/services/request';
+
+const RECENT_RUN_LIMIT = 20;
+
+// Mirrors MAX_ATTEMPTS in the process-chat-batch edge function
+export const MAX_PROCESSING_ATTEMPTS = 5;
+
+/**
+ * Loads the most recent `process-chat-batch` runs for a job, newest first.
+ * Only admins can read processing runs.
+ */
+export function fetchProcessingRuns(jobId: string): Promise<RepositoryResult<ProcessingRun[]>> {
+  return dedupe(`processing_runs:${jobId}`, () =>
+    execute('fetchProcessingRuns', () =>
+      supabase
+        .from('processing_runs')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('started_at', { ascending: false })
+        .limit(RECENT_RUN_LIMIT)
+    )
+  );
+}
@@ -0,0 +1,51 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { UserProfile } from '@/app/integrations/supabase/types';
+import { dedupe, execute, RepositoryResult } from '@/services/request';
+
+export type PublicProfile = Pick<UserProfile, 'user_id' | 'display_name' | 'avatar_url'>;
+
+export type DirectoryProfile = Pick<UserProfile, 'id' | 'user_id' | 'display_name' | 'email' | 'deactivated_at'>;
+
+export function fetchProfile(userId: string): Promise<RepositoryResult<UserProfile>> {
+  return dedupe(`user_profiles:${userId}`, () =>
+    execute('fetchProfile', () =>
+      supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .single()
+    )
+  );
+}
+
+export function fetchPublicProfiles(userIds: string[]): Promise<RepositoryResult<PublicProfile[]>> {
+  const ids = [...new Set(userIds)].sort();
+  return dedupe(`user_profiles:public:${ids.join(',')}`, () =>
+    execute('fetchPublicProfiles', () =>
+      supabase
+        .from('user_profiles')
+        .select('user_id, display_name, avatar_url')
+        .in('user_id', ids)
+    )
+  );
+}
+
+/**
+ * Lists every user profile ordered by display name, optionally leaving out one
+ * user (usually the signed-in admin).
+ */
+export function fetchDirectory(excludeUserId?: string): Promise<RepositoryResult<DirectoryProfile[]>> {
+  return dedupe(`user_profiles:directory:${excludeUserId ?? ''}`, () =>
+    execute('fetchDirectory', () => {
+      let query = supabase
+        .from('user_profiles')
+        .select('id, user_id, display_name, email, deactivated_at');
+
+      if (excludeUserId) {
+        query = query.neq('user_id', excludeUserId);
+      }
+
+      return query.order('display_name', { ascending: true });
+    })
+  );
+}
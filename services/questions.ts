@@ -0,0 +1,35 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { Job } from '@/app/integrations/supabase/types';
+import { execute, RepositoryResult } from '@/services/request';
+
+/**
+ * Answers an open question: it moves to `resolved_questions` under the current
+ * user and a system message announces the answer in the job chat.
+ */
+export function answerQuestion(jobId: string, questionId: string, answer: string): Promise<RepositoryResult<Job>> {
+  return execute('answerQuestion', () =>
+    supabase.rpc('resolve_job_question', {
+      target_job_id: jobId,
+      target_question_id: questionId,
+      answer_text: answer,
+    })
+  );
+}
+
+/**
+ * Resolves an open question as not applicable, with an optional reason.
+ */
+export function markQuestionNotApplicable(
+  jobId: string,
+  questionId: string,
+  reason = ''
+): Promise<RepositoryResult<Job>> {
+  return execute('markQuestionNotApplicable', () =>
+    supabase.rpc('resolve_job_question', {
+      target_job_id: jobId,
+      target_question_id: questionId,
+      answer_text: reason,
+      not_applicable: true,
+    })
+  );
+}
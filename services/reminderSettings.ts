@@ -0,0 +1,45 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { fail, ok, RepositoryResult } from '@/services/request';
+import { DEFAULT_REMINDER_SETTINGS, ReminderSettings } from '@/utils/reminders';
+
+// Reminders are scheduled on the device, so their settings are kept per device
+const STORAGE_KEY = 'reminder-settings';
+
+type Listener = (settings: ReminderSettings) => void;
+
+const listeners = new Set<Listener>();
+
+export async function loadReminderSettings(): Promise<RepositoryResult<ReminderSettings>> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    // Merge so settings added later get their defaults
+    return ok({ ...DEFAULT_REMINDER_SETTINGS, ...(stored ? JSON.parse(stored) : {}) });
+  } catch (error) {
+    return fail('loadReminderSettings', error);
+  }
+}
+
+/**
+ * Saves the settings and tells `subscribeToReminderSettings` listeners, so
+ * scheduled reminders follow the change straight away.
+ */
+export async function saveReminderSettings(settings: ReminderSettings): Promise<RepositoryResult<ReminderSettings>> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    listeners.forEach((listener) => listener(settings));
+    return ok(settings);
+  } catch (error) {
+    return fail('saveReminderSettings', error);
+  }
+}
+
+/**
+ * Calls `listener` whenever the settings are saved. Returns a function that
+ * removes it.
+ */
+export function subscribeToReminderSettings(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
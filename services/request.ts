@@ -0,0 +1,107 @@
+// Shared plumbing for the data-access layer in `services/`.
+//
+// Every repository function resolves to `{ data, error }` (the same shape the
+// Supabase client and AuthContext use) and never throws, so screens can keep
+// their existing `if (error) { ... }` handling.
+
+export type RepositoryErrorCode =
+  | 'not_found'
+  | 'unauthorized'
+  | 'conflict'
+  | 'network'
+  | 'function_error'
+  | 'unknown';
+
+export interface RepositoryError {
+  code: RepositoryErrorCode;
+  message: string;
+  operation: string;
+  cause?: unknown;
+}
+
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepositoryError };
+
+interface SupabaseErrorLike {
+  message?: string;
+  code?: string;
+  status?: number;
+  name?: string;
+}
+
+function getErrorCode(error: SupabaseErrorLike): RepositoryErrorCode {
+  if (error.code === 'PGRST116') return 'not_found';
+  if (error.code === '42501' || error.code === 'PGRST301' || error.status === 401 || error.status === 403) {
+    return 'unauthorized';
+  }
+  if (error.code === '23505') return 'conflict';
+  if (error.name === 'FunctionsHttpError' || error.name === 'FunctionsRelayError') return 'function_error';
+  if (error.name === 'FunctionsFetchError' || error.name === 'TypeError' || error.name === 'AuthRetryableFetchError') {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+export function toRepositoryError(operation: string, error: unknown): RepositoryError {
+  const errorLike = (error && typeof error === 'object' ? error : {}) as SupabaseErrorLike;
+  return {
+    code: getErrorCode(errorLike),
+    message: errorLike.message || String(error) || 'An unexpected error occurred',
+    operation,
+    cause: error,
+  };
+}
+
+export function ok<T>(data: T): RepositoryResult<T> {
+  return { data, error: null };
+}
+
+export function fail<T>(operation: string, error: unknown): RepositoryResult<T> {
+  const repositoryError = toRepositoryError(operation, error);
+  console.error(`[${operation}]`, repositoryError.message, error);
+  return { data: null, error: repositoryError };
+}
+
+// Data type of the successful branch of a Supabase response union.
+type QueryData<R> = R extends { error: null; data: infer D } ? D : never;
+
+/**
+ * Runs a Supabase query and normalizes both returned and thrown errors.
+ */
+export async function execute<R extends { data: unknown; error: unknown }>(
+  operation: string,
+  query: () => PromiseLike<R>
+): Promise<RepositoryResult<QueryData<R>>> {
+  try {
+    const { data, error } = await query();
+    if (error) {
+      return fail(operation, error);
+    }
+    return ok(data as QueryData<R>);
+  } catch (error) {
+    return fail(operation, error);
+  }
+}
+
+const inFlight = new Map<string, Promise<RepositoryResult<unknown>>>();
+
+/**
+ * Shares a single in-flight request between callers asking for the same key,
+ * e.g. SummaryTab and a job-details screen both loading the same job on focus.
+ */
+export function dedupe<T>(
+  key: string,
+  run: () => Promise<RepositoryResult<T>>
+): Promise<RepositoryResult<T>> {
+  const existing = inFlight.get(key);
+  if (existing) {
+    return existing as Promise<RepositoryResult<T>>;
+  }
+
+  const promise = run().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, promise);
+  return promise;
+}
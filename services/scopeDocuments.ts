@@ -0,0 +1,58 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { ScopeDocument } from '@/app/integrations/supabase/types';
+import { dedupe, execute, fail, ok, RepositoryResult } from '@/services/request';
+
+export type ScopeSummary = Pick<ScopeDocument, 'id' | 'summary' | 'file_name' | 'created_at'>;
+
+export interface ProcessScopeInput {
+  jobId: string;
+  content: string;
+  fileName?: string;
+  fileType?: string;
+  fileUri?: string;
+}
+
+export interface ProcessScopeResponse {
+  success: boolean;
+  summary: string;
+  documentId: string;
+  error?: string;
+}
+
+/**
+ * Loads the most recent scope document summary for a job, or `null` when none
+ * has been uploaded yet.
+ */
+export function fetchLatestScopeSummary(jobId: string): Promise<RepositoryResult<ScopeSummary | null>> {
+  return dedupe(`scope_documents:${jobId}:latest`, () =>
+    execute('fetchLatestScopeSummary', () =>
+      supabase
+        .from('scope_documents')
+        .select('id, summary, file_name, created_at')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    )
+  );
+}
+
+export async function processScopeDocument(input: ProcessScopeInput): Promise<RepositoryResult<ProcessScopeResponse>> {
+  try {
+    const { data, error } = await supabase.functions.invoke<ProcessScopeResponse>('process-scope', {
+      body: input,
+    });
+
+    if (error) {
+      return fail('processScopeDocument', error);
+    }
+
+    if (!data || !data.success) {
+      return fail('processScopeDocument', new Error(data?.error || 'Failed to process scope document'));
+    }
+
+    return ok(data);
+  } catch (error) {
+    return fail('processScopeDocument', error);
+  }
+}
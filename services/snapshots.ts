@@ -0,0 +1,19 @@
+import { supabase } from '@/app/integrations/supabase/client';
+import type { JobSummarySnapshot } from '@/app/integrations/supabase/types';
+import { dedupe, execute, RepositoryResult } from '@/services/request';
+
+/**
+ * Loads the summary snapshots `process-chat-batch` stored for a job, newest
+ * first.
+ */
+export function fetchSummarySnapshots(jobId: string): Promise<RepositoryResult<JobSummarySnapshot[]>> {
+  return dedupe(`job_summary_snapshots:${jobId}`, () =>
+    execute('fetchSummarySnapshots', () =>
+      supabase
+        .from('job_summary_snapshots')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: false })
+    )
+  );
+}
@@ -0,0 +1,88 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/app/integrations/supabase/client';
+import type { Job, SummaryRebuild } from '@/app/integrations/supabase/types';
+import { execute, fail, ok, RepositoryResult } from '@/services/request';
+
+interface StartRebuildResponse {
+  rebuild_id: string;
+}
+
+/**
+ * Starts a full rebuild of the job summary from the scope and the entire chat
+ * history. The edge function responds straight away; follow progress with
+ * `subscribeToSummaryRebuild`. Admin only.
+ */
+export async function startSummaryRebuild(jobId: string): Promise<RepositoryResult<string>> {
+  try {
+    const { data, error } = await supabase.functions.invoke<StartRebuildResponse>('process-chat-batch', {
+      body: { job_id: jobId, mode: 'rebuild' },
+    });
+
+    if (error || !data?.rebuild_id) {
+      return fail('startSummaryRebuild', error ?? new Error('No rebuild id returned'));
+    }
+
+    return ok(data.rebuild_id);
+  } catch (error) {
+    return fail('startSummaryRebuild', error);
+  }
+}
+
+/**
+ * Loads the job's most recent rebuild, or null if it was never rebuilt.
+ */
+export function fetchLatestSummaryRebuild(jobId: string): Promise<RepositoryResult<SummaryRebuild | null>> {
+  return execute('fetchLatestSummaryRebuild', () =>
+    supabase
+      .from('summary_rebuilds')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  );
+}
+
+/**
+ * Subscribes to progress and the final result of a rebuild. Pass the returned
+ * channel to `unsubscribe` when the screen unmounts.
+ */
+export function subscribeToSummaryRebuild(
+  rebuildId: string,
+  onUpdate: (rebuild: SummaryRebuild) => void
+): RealtimeChannel {
+  return supabase
+    .channel(`summary_rebuilds:${rebuildId}`)
+    .on<SummaryRebuild>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'summary_rebuilds', filter: `id=eq.${rebuildId}` },
+      (payload) => onUpdate(payload.new)
+    )
+    .subscribe((status) => {
+      console.log('Summary rebuild realtime subscription status:', status);
+    });
+}
+
+/**
+ * Replaces the job summary with a ready rebuild and returns the updated job.
+ */
+export function applySummaryRebuild(rebuildId: string): Promise<RepositoryResult<Job>> {
+  return execute('applySummaryRebuild', () =>
+    supabase.rpc('apply_summary_rebuild', { target_rebuild_id: rebuildId })
+  );
+}
+
+/**
+ * Throws a rebuild preview away. A rebuild still running stops after its
+ * current chunk.
+ */
+export function discardSummaryRebuild(rebuildId: string): Promise<RepositoryResult<SummaryRebuild>> {
+  return execute('discardSummaryRebuild', () =>
+    supabase
+      .from('summary_rebuilds')
+      .update({ status: 'discarded', updated_at: new Date().toISOString() })
+      .eq('id', rebuildId)
+      .select()
+      .single()
+  );
+}
@@ -0,0 +1,164 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type AdminAction = 'get_user' | 'reset_password' | 'deactivate_user' | 'reactivate_user';
+
+const ADMIN_ACTIONS: AdminAction[] = ['get_user', 'reset_password', 'deactivate_user', 'reactivate_user'];
+
+// Supabase has no permanent ban, so deactivation bans for roughly 100 years.
+// Banned users cannot sign in or refresh their session.
+const DEACTIVATION_BAN_DURATION = '876000h';
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    // Identify the caller from their own JWT
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    });
+
+    const { data: { user: caller }, error: callerError } = await userClient.auth.getUser();
+    if (callerError || !caller) {
+      console.error('Error getting caller:', callerError);
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // Everything below runs with the service role, so check admin rights first
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: callerProfile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('is_admin')
+      .eq('user_id', caller.id)
+      .single();
+
+    if (profileError || !callerProfile?.is_admin) {
+      console.warn('Non-admin attempted admin action:', caller.id);
+      return jsonResponse({ error: 'Admin access required' }, 403);
+    }
+
+    const { action, userId, password } = await req.json();
+
+    if (!ADMIN_ACTIONS.includes(action)) {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+    if (!userId) {
+      return jsonResponse({ error: 'Missing required field: userId' }, 400);
+    }
+
+    console.log(`Admin ${caller.id} running ${action} for user ${userId}`);
+
+    const recordAction = async (details: Record<string, unknown> = {}) => {
+      const { error } = await supabase
+        .from('admin_audit_log')
+        .insert({
+          actor_id: caller.id,
+          action,
+          target_user_id: userId,
+          details,
+        });
+
+      if (error) {
+        console.error('Error writing audit log:', error);
+      }
+    };
+
+    if (action === 'get_user') {
+      const { data, error } = await supabase.auth.admin.getUserById(userId);
+      if (error || !data?.user) {
+        console.error('Error fetching user:', error);
+        return jsonResponse({ error: error?.message || 'User not found' }, 404);
+      }
+
+      await recordAction();
+
+      return jsonResponse({
+        success: true,
+        user: {
+          id: data.user.id,
+          email: data.user.email ?? null,
+          created_at: data.user.created_at,
+          last_sign_in_at: data.user.last_sign_in_at ?? null,
+          // Returned by the admin API but missing from the User type
+          banned_until: (data.user as typeof data.user & { banned_until?: string }).banned_until ?? null,
+        },
+      });
+    }
+
+    if (action === 'reset_password') {
+      if (typeof password !== 'string' || password.length < 6) {
+        return jsonResponse({ error: 'Password must be at least 6 characters long' }, 400);
+      }
+
+      const { error } = await supabase.auth.admin.updateUserById(userId, { password });
+      if (error) {
+        console.error('Error resetting password:', error);
+        return jsonResponse({ error: error.message }, 500);
+      }
+
+      // Never log the password itself
+      await recordAction();
+
+      return jsonResponse({ success: true });
+    }
+
+    if (userId === caller.id) {
+      return jsonResponse({ error: 'You cannot change the status of your own account' }, 400);
+    }
+
+    const deactivate = action === 'deactivate_user';
+    const { error: banError } = await supabase.auth.admin.updateUserById(userId, {
+      ban_duration: deactivate ? DEACTIVATION_BAN_DURATION : 'none',
+    });
+
+    if (banError) {
+      console.error(`Error running ${action}:`, banError);
+      return jsonResponse({ error: banError.message }, 500);
+    }
+
+    const deactivatedAt = deactivate ? new Date().toISOString() : null;
+    const { error: updateError } = await supabase
+      .from('user_profiles')
+      .update({ deactivated_at: deactivatedAt })
+      .eq('user_id', userId);
+
+    if (updateError) {
+      console.error('Error updating profile status:', updateError);
+    }
+
+    await recordAction({ deactivated_at: deactivatedAt });
+
+    return jsonResponse({ success: true, deactivated_at: deactivatedAt });
+  } catch (error) {
+    console.error('Error in admin-users:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,269 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'npm:@supabase/supabase-js@2.84.0';
+
+// Serves job deadlines as an iCalendar (RFC 5545) feed.
+//
+//   GET /calendar-feed?token=<feed token>             every active job the user can see
+//   GET /calendar-feed?token=<feed token>&job=<id>    one job, as an .ics download
+//
+// The user sees the same jobs as in the app: every job for admins, the jobs
+// they were invited to for everyone else.
+//
+// Calendar clients poll the URL without a JWT, so the function is deployed with
+// verify_jwt = false and authenticates with the token from calendar_feeds.
+//
+// Each deadline keeps its id when the AI moves it, so its UID stays the same and
+// clients update the existing event instead of adding another one. SEQUENCE and
+// LAST-MODIFIED come from the deadline's updated_at so the new version wins.
+
+interface Deadline {
+  id: string;
+  title: string;
+  description: string;
+  deadline: string | null;
+  updated_at: string;
+  original_deadline?: string;
+}
+
+interface FeedJob {
+  id: string;
+  job_name: string;
+  site_name: string | null;
+  deadlines_and_timelines: Deadline[] | null;
+}
+
+const PRODUCT_ID = '-//Job Tracker//Job Deadlines//EN';
+// How often clients that honour the hint should refresh the feed
+const REFRESH_INTERVAL = 'PT1H';
+
+function textResponse(body: string, status: number) {
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
+
+// Escapes TEXT values: backslash, semicolon, comma and newlines
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatDate(year: number, month: number, day: number) {
+  return `${year}${pad(month)}${pad(day)}`;
+}
+
+function formatDateTime(date: Date) {
+  return `${formatDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// Same rules as parseDeadline in the app: a deadline is YYYY-MM-DD, an all-day
+// event, or YYYY-MM-DDTHH:mm, a floating time that calendars show in the
+// viewer's time zone as the app does. Anything else is left out.
+function getEventTiming(deadline: string | null): string[] | null {
+  const match = deadline?.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map((part) => Number(part ?? 0));
+  if (hour > 23 || minute > 59) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  if (match[4]) {
+    return [`DTSTART:${formatDate(year, month, day)}T${pad(hour)}${pad(minute)}00`];
+  }
+
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return [
+    `DTSTART;VALUE=DATE:${formatDate(year, month, day)}`,
+    `DTEND;VALUE=DATE:${formatDate(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate())}`,
+  ];
+}
+
+function buildEvent(job: FeedJob, deadline: Deadline, now: Date): string[] {
+  const timing = getEventTiming(deadline.deadline);
+  if (!timing) return [];
+
+  const updatedAt = deadline.updated_at ? new Date(deadline.updated_at) : null;
+  const modified = updatedAt && !isNaN(updatedAt.getTime()) ? updatedAt : null;
+
+  const description = [
+    deadline.description,
+    deadline.original_deadline && deadline.original_deadline !== deadline.deadline
+      ? `Originally due ${deadline.original_deadline}`
+      : null,
+    job.site_name ? `Site: ${job.site_name}` : null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${deadline.id}@${job.id}.job-deadlines`,
+    `DTSTAMP:${formatDateTime(modified || now)}`,
+    ...(modified
+      ? [`LAST-MODIFIED:${formatDateTime(modified)}`, `SEQUENCE:${Math.floor(modified.getTime() / 1000)}`]
+      : []),
+    ...timing,
+    `SUMMARY:${escapeText(`${job.job_name}: ${deadline.title}`)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+function buildCalendar(name: string, jobs: FeedJob[]) {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...jobs.flatMap((job) =>
+      (job.deadlines_and_timelines || []).flatMap((deadline) => buildEvent(job, deadline, now))
+    ),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function toFileName(name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'job'}-deadlines.ics`;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return textResponse('Method not allowed', 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    const token = url.searchParams.get('token');
+    const jobId = url.searchParams.get('job');
+
+    if (!token) {
+      return textResponse('Missing feed token', 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) {
+      console.error('Error looking up calendar feed:', feedError);
+      return textResponse('Failed to load calendar', 500);
+    }
+
+    if (!feed) {
+      // Unknown or reset token
+      return textResponse('Calendar feed not found', 404);
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('is_admin')
+      .eq('user_id', feed.user_id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Error fetching user profile:', profileError);
+      return textResponse('Failed to load calendar', 500);
+    }
+
+    let query = supabase
+      .from('jobs')
+      .select('id, job_name, site_name, deadlines_and_timelines')
+      .order('job_name');
+
+    // A single job can be exported once archived; the feed only has active jobs
+    query = jobId ? query.eq('id', jobId) : query.eq('is_archived', false);
+
+    // Admins see every job, like the "Admins can view all jobs" policy
+    if (!profile?.is_admin) {
+      const { data: invitations, error: invitationsError } = await supabase
+        .from('job_invitations')
+        .select('job_id')
+        .eq('user_id', feed.user_id);
+
+      if (invitationsError) {
+        console.error('Error fetching invitations:', invitationsError);
+        return textResponse('Failed to load calendar', 500);
+      }
+
+      query = query.in('id', (invitations || []).map((invitation) => invitation.job_id as string));
+    }
+
+    const { data, error: jobsError } = await query;
+
+    if (jobsError) {
+      console.error('Error fetching jobs:', jobsError);
+      return textResponse('Failed to load calendar', 500);
+    }
+
+    const jobs = (data || []) as FeedJob[];
+
+    if (jobId && jobs.length === 0) {
+      return textResponse('Job not found', 404);
+    }
+
+    const name = jobId ? `${jobs[0].job_name} deadlines` : 'Job deadlines';
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    };
+
+    // A single job is exported as a file; the full feed is meant to be subscribed to
+    if (jobId) {
+      headers['Content-Disposition'] = `attachment; filename="${toFileName(jobs[0].job_name)}"`;
+    }
+
+    console.log(`Serving calendar for user ${feed.user_id}: ${jobs.length} job(s)`);
+
+    return new Response(req.method === 'HEAD' ? null : buildCalendar(name, jobs), { status: 200, headers });
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error);
+    return textResponse('Failed to load calendar', 500);
+  }
+});
@@ -0,0 +1,151 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
+
+interface Message {
+  id: string;
+  message_text: string;
+  user_id: string;
+  created_at: string;
+}
+
+interface ClassifierOutput {
+  overview_relevant: Array<{ message_id: string; text: string; details?: string }>;
+  new_issues: Array<{ message_id: string; text: string; title: string; description: string }>;
+  resolved_issues: Array<{ message_id: string; text: string; issue_reference?: string }>;
+  new_questions: Array<{ message_id: string; text: string; question: string; asked_by?: string }>;
+  answered_questions: Array<{ message_id: string; text: string; question_reference?: string; answer: string }>;
+  new_actions: Array<{ message_id: string; text: string; action: string; assigned_to?: string; priority?: string }>;
+  completed_actions: Array<{ message_id: string; text: string; action_reference?: string }>;
+  new_risks: Array<{ message_id: string; text: string; risk: string; severity?: string }>;
+  timeline_changes: Array<{ message_id: string; text: string; change_type: string; details: string }>;
+  new_dependencies: Array<{ message_id: string; text: string; dependency: string; waiting_on: string }>;
+  cleared_dependencies: Array<{ message_id: string; text: string; dependency_reference?: string }>;
+  noise: Array<{ message_id: string; text: string }>;
+}
+
+Deno.serve(async (req: Request) => {
+  try {
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { messages, job_context } = await req.json();
+
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      return new Response(JSON.stringify({ error: 'No messages provided' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`Classifying ${messages.length} messages...`);
+
+    // Prepare messages for OpenAI
+    const messagesText = messages.map((msg: Message, idx: number) => 
+      `[${idx + 1}] (ID: ${msg.id}) ${msg.message_text}`
+    ).join('\n');
+
+    const systemPrompt = `You are an AI assistant that analyzes construction/industrial job site chat messages and categorizes them.
+
+Your task is to read chat messages and classify each one into the appropriate categories. A single message can belong to multiple categories.
+
+Categories:
+- overview_relevant: Information that affects the high-level job status/summary
+- new_issues: Problems, blockers, things that are broken or not working
+- resolved_issues: Messages indicating an issue has been fixed or resolved
+- new_questions: Questions that need answers
+- answered_questions: Answers to previously asked questions
+- new_actions: Tasks or action items that need to be done
+- completed_actions: Messages indicating a task has been completed
+- new_risks: Potential problems, warnings, things that could go wrong
+- timeline_changes: Schedule changes, delays, deadline updates, weather impacts
+- new_dependencies: Things the crew is waiting on (permits, other trades, client approval, equipment)
+- cleared_dependencies: Messages indicating a dependency has been resolved
+- noise: Casual chat, greetings, off-topic messages with no actionable content
+
+For each category, extract:
+- message_id: The ID from the message
+- text: The original message text
+- Additional fields as needed (title, description, question, answer, etc.)
+
+Be thorough but precise. If a message doesn't fit any category, put it in noise.`;
+
+    const userPrompt = `Job Context: ${job_context || 'General construction job'}
+
+Messages to classify:
+${messagesText}
+
+Analyze these messages and return a JSON object with the classification results.`;
+
+    // Call OpenAI API
+    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.3,
+      }),
+    });
+
+    if (!openaiResponse.ok) {
+      const errorText = await openaiResponse.text();
+      console.error('OpenAI API error:', errorText);
+      throw new Error(`OpenAI API error: ${openaiResponse.status} ${errorText}`);
+    }
+
+    const openaiData = await openaiResponse.json();
+    const classificationResult = JSON.parse(openaiData.choices[0].message.content);
+
+    console.log('Classification complete');
+    console.log('Results:', JSON.stringify(classificationResult, null, 2));
+
+    // Ensure all expected fields exist
+    const output: ClassifierOutput = {
+      overview_relevant: classificationResult.overview_relevant || [],
+      new_issues: classificationResult.new_issues || [],
+      resolved_issues: classificationResult.resolved_issues || [],
+      new_questions: classificationResult.new_questions || [],
+      answered_questions: classificationResult.answered_questions || [],
+      new_actions: classificationResult.new_actions || [],
+      completed_actions: classificationResult.completed_actions || [],
+      new_risks: classificationResult.new_risks || [],
+      timeline_changes: classificationResult.timeline_changes || [],
+      new_dependencies: classificationResult.new_dependencies || [],
+      cleared_dependencies: classificationResult.cleared_dependencies || [],
+      noise: classificationResult.noise || [],
+    };
+
+    return new Response(JSON.stringify({
+      success: true,
+      classification: output,
+      messages_processed: messages.length,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error in classify-messages:', error);
+    return new Response(JSON.stringify({
+      error: 'Classification failed',
+      details: error instanceof Error ? error.message : String(error),
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
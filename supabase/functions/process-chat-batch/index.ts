@@ -0,0 +1,1727 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'npm:@supabase/supabase-js@2.84.0';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+console.info('process-chat-batch function started');
+
+// Links resolve/complete/clear changes to the completed item they produce, so
+// review mode can apply both together when the change is accepted.
+const completedItemByChange = new WeakMap<object, any>();
+
+// Failed runs are rescheduled with exponential backoff (1, 2, 4, 8 minutes)
+// until MAX_ATTEMPTS, after which the job is left in 'failed'.
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Full rebuilds replay the chat history in chronological chunks. Long histories
+// get bigger chunks so a rebuild stays within the edge function time limit.
+const REBUILD_MIN_CHUNK_SIZE = 40;
+const REBUILD_MAX_CHUNKS = 25;
+const MESSAGE_PAGE_SIZE = 1000;
+
+// Thrown when a run is cancelled from SummaryTab while it is in flight
+class RunCancelledError extends Error {
+  constructor() {
+    super('Processing run cancelled');
+    this.name = 'RunCancelledError';
+  }
+}
+
+class OpenAIError extends Error {
+  status: number;
+
+  constructor(status: number, body: string) {
+    super(`OpenAI API error: ${status} ${body}`);
+    this.name = 'OpenAIError';
+    this.status = status;
+  }
+}
+
+// Existing items the classifier can refer to by id, one section per type
+function describeJobItems(state: any) {
+  const section = (label: string, items: any[], describe: (item: any) => string) =>
+    `${label}:\n${items.length > 0 ? items.map((item) => `- ${item.id}: ${describe(item)}`).join('\n') : '(none)'}`;
+
+  return [
+    section('ACTIONS (type "action")', state.next_actions || [], (action) => action.title),
+    section('ISSUES (type "issue")', state.open_issues || [], (issue) => issue.title),
+    section('DEADLINES (type "deadline")', state.deadlines_and_timelines || [], (deadline) =>
+      `${deadline.title}${deadline.deadline ? ` (${deadline.deadline})` : ''}`
+    ),
+    section('DEPENDENCIES (type "dependency")', state.dependencies || [], (dependency) => dependency.title),
+  ].join('\n\n');
+}
+
+// Keys of everything a dependency can block, as `${type}:${id}`
+function linkableKeys(state: any) {
+  return new Set([
+    ...(state.next_actions || []).map((item: any) => `action:${item.id}`),
+    ...(state.open_issues || []).map((item: any) => `issue:${item.id}`),
+    ...(state.deadlines_and_timelines || []).map((item: any) => `deadline:${item.id}`),
+    ...(state.dependencies || []).map((item: any) => `dependency:${item.id}`),
+  ]);
+}
+
+// STEP 1: CLASSIFIER - FIXED TO PRODUCE FLAT STRUCTURES
+async function classifyMessages(messages: any[], jobContext: string, jobItems: string) {
+  console.log(`Classifying ${messages.length} messages...`);
+  
+  const messagesText = messages.map((msg, idx) => 
+    `[${idx + 1}] (ID: ${msg.id}, User: ${msg.user_id}, Time: ${msg.created_at}) ${msg.message_text || '[Image/Voice message]'}`
+  ).join('\n');
+
+  const systemPrompt = `You are an AI assistant that analyzes construction/industrial job site chat messages.
+
+Your task: Read chat messages and classify each one into categories. A single message can belong to MULTIPLE categories.
+
+CATEGORIES (be LIBERAL - over-classify rather than miss things):
+
+1. overview_relevant: ANY message with substantive job information (issues, progress, questions, updates, problems, discussions)
+2. new_issues: Problems, blockers, broken equipment, things not working, complaints about site conditions
+3. resolved_issues: Messages saying an issue is fixed, resolved, completed, working now
+4. new_questions: Any question asked (even casual ones about the job)
+5. answered_questions: Answers to questions (look for question + answer pairs)
+6. new_actions: Tasks to do, action items, "need to", "should", "must", "going to"
+7. completed_actions: Messages saying a task is done, finished, completed
+8. new_risks: Warnings, potential problems, safety concerns, "might", "could go wrong", weather issues
+9. timeline_changes: Schedule changes, delays, "running behind", "ahead of schedule", deadline mentions, inspection times
+10. new_dependencies: Waiting on something (permits, other trades, client, equipment, materials, approvals)
+11. cleared_dependencies: Messages saying they got what they were waiting for, dependency resolved
+12. noise: ONLY pure small talk with zero job relevance ("good morning", "how's the family", "go sports team")
+
+FIELD EXAMPLES:
+- "pump is busted" → new_issues, overview_relevant
+- "fixed the pump" → resolved_issues, overview_relevant, completed_actions
+- "when does inspection happen?" → new_questions, overview_relevant
+- "inspection is Tuesday at 2pm" → answered_questions, timeline_changes, overview_relevant
+- "need to order more wire" → new_actions, overview_relevant
+- "ordered the wire" → completed_actions, overview_relevant
+- "might rain tomorrow" → new_risks, timeline_changes, overview_relevant
+- "waiting on electrician" → new_dependencies, overview_relevant
+- "electrician showed up" → cleared_dependencies, overview_relevant
+- "hey man" → noise
+
+OUTPUT FORMAT - Return a JSON object with these arrays. Each item MUST be a flat object with these EXACT fields:
+
+{
+  "overview_relevant": [
+    {
+      "message_id": "uuid",
+      "text": "original message text"
+    }
+  ],
+  "new_issues": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "short title (5-10 words)",
+      "description": "detailed description"
+    }
+  ],
+  "resolved_issues": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "what was resolved (5-10 words)",
+      "description": "how it was resolved"
+    }
+  ],
+  "new_questions": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "question": "the question being asked"
+    }
+  ],
+  "answered_questions": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "question": "the original question",
+      "answer": "the answer provided"
+    }
+  ],
+  "new_actions": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "action title (5-10 words)",
+      "description": "what needs to be done",
+      "priority": "high" | "medium" | "low",
+      "who": "person name if mentioned, else null"
+    }
+  ],
+  "completed_actions": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "what was completed (5-10 words)",
+      "description": "completion details",
+      "who": "person name if mentioned, else null"
+    }
+  ],
+  "new_risks": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "risk title (5-10 words)",
+      "description": "risk details",
+      "severity": "high" | "medium" | "low"
+    }
+  ],
+  "timeline_changes": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "timeline change title (5-10 words)",
+      "description": "timeline details",
+      "deadline": "YYYY-MM-DD or YYYY-MM-DDTHH:mm, else null",
+      "deadline_id": "id of the EXISTING JOB ITEMS deadline this moves, else null"
+    }
+  ],
+  "new_dependencies": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "dependency title (5-10 words)",
+      "description": "what they're waiting on",
+      "blocks": [
+        {
+          "type": "action" | "issue" | "deadline" | "dependency",
+          "id": "id of an EXISTING JOB ITEM this holds up"
+        }
+      ]
+    }
+  ],
+  "cleared_dependencies": [
+    {
+      "message_id": "uuid",
+      "text": "original message text",
+      "title": "what dependency was cleared (5-10 words)",
+      "description": "how it was cleared"
+    }
+  ],
+  "noise": [
+    {
+      "message_id": "uuid",
+      "text": "original message text"
+    }
+  ]
+}
+
+RULES:
+- ALWAYS include message_id and text in every object
+- Use the EXACT field names shown above (not nested objects)
+- Be LIBERAL with classification - if unsure, include it
+- A message can appear in multiple categories
+- For priority/severity, default to "medium" if unclear
+- Extract dates/times/names when mentioned, otherwise use null
+- Write "deadline" as YYYY-MM-DD, or YYYY-MM-DDTHH:mm (24-hour, the time as said in the chat) when a time is given. Work out relative dates ("Friday", "next week") from the message Time. Use null when no calendar date can be worked out
+- Set "deadline_id" only when the message gives a new date for a deadline listed under EXISTING JOB ITEMS
+- For "blocks", only use ids listed under EXISTING JOB ITEMS, and only when the messages make clear the dependency holds that item up; otherwise use []
+- Keep titles short (5-10 words), descriptions can be longer`;
+
+  const userPrompt = `Job Context: ${jobContext || 'General construction job'}
+
+EXISTING JOB ITEMS:
+${jobItems}
+
+Messages to classify:
+${messagesText}
+
+Analyze these messages and return the classification JSON.`;
+
+  const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.2, // Lower temperature for more deterministic output
+    }),
+  });
+
+  if (!openaiResponse.ok) {
+    const errorText = await openaiResponse.text();
+    throw new OpenAIError(openaiResponse.status, errorText);
+  }
+
+  const openaiData = await openaiResponse.json();
+  const result = JSON.parse(openaiData.choices[0].message.content);
+  
+  console.log('Classification result:', JSON.stringify(result, null, 2));
+  
+  // Validate and normalize the output to ensure flat structures
+  const normalized = {
+    overview_relevant: (result.overview_relevant || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text
+    })),
+    new_issues: (result.new_issues || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text
+    })),
+    resolved_issues: (result.resolved_issues || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text
+    })),
+    new_questions: (result.new_questions || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      question: item.question || item.text
+    })),
+    answered_questions: (result.answered_questions || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      question: item.question || '',
+      answer: item.answer || item.text
+    })),
+    new_actions: (result.new_actions || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text,
+      priority: item.priority || 'medium',
+      who: item.who || null
+    })),
+    completed_actions: (result.completed_actions || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text,
+      who: item.who || null
+    })),
+    new_risks: (result.new_risks || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text,
+      severity: item.severity || 'medium'
+    })),
+    timeline_changes: (result.timeline_changes || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text,
+      deadline: item.deadline || null,
+      deadline_id: item.deadline_id || null
+    })),
+    new_dependencies: (result.new_dependencies || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text,
+      blocks: Array.isArray(item.blocks) ? item.blocks : []
+    })),
+    cleared_dependencies: (result.cleared_dependencies || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text,
+      title: item.title || item.text,
+      description: item.description || item.text
+    })),
+    noise: (result.noise || []).map((item: any) => ({
+      message_id: item.message_id,
+      text: item.text
+    }))
+  };
+  
+  console.log('Normalized classification counts:');
+  console.log('- overview_relevant:', normalized.overview_relevant.length);
+  console.log('- new_issues:', normalized.new_issues.length);
+  console.log('- resolved_issues:', normalized.resolved_issues.length);
+  console.log('- new_questions:', normalized.new_questions.length);
+  console.log('- answered_questions:', normalized.answered_questions.length);
+  console.log('- new_actions:', normalized.new_actions.length);
+  console.log('- completed_actions:', normalized.completed_actions.length);
+  console.log('- new_risks:', normalized.new_risks.length);
+  console.log('- timeline_changes:', normalized.timeline_changes.length);
+  console.log('- new_dependencies:', normalized.new_dependencies.length);
+  console.log('- cleared_dependencies:', normalized.cleared_dependencies.length);
+  console.log('- noise:', normalized.noise.length);
+  
+  return normalized;
+}
+
+// STEP 2: UPDATERS (unchanged - they already expect the correct flat structure)
+
+// Job Overview Updater - Rewrites the summary while maintaining baseline scope
+async function updateJobOverview(
+  baselineScope: string | null,
+  currentOverview: string | null,
+  overviewRelevant: any[],
+  allMessages: any[],
+  currentState: any,
+  jobContext: string
+) {
+  const messagesToUse = overviewRelevant.length > 0 ? overviewRelevant : allMessages.slice(-10);
+
+  const systemPrompt = `
+You are an AI assistant responsible for maintaining a concise, accurate,
+high-level Job Overview for an industrial/construction project.
+
+You must ALWAYS reference:
+• The baseline scope (if provided)
+• The FULL current state of all summary tabs
+• The new chat messages
+• The job context
+
+You decide what changes belong in the updated Job Overview.
+Rewrite the overview entirely — do NOT append.
+`;
+
+  // 🔥 FULL STATE, NOT JUST COUNTS
+  const fullState = `
+OPEN ISSUES:
+${JSON.stringify(currentState.open_issues || [], null, 2)}
+
+UNANSWERED QUESTIONS:
+${JSON.stringify(currentState.unanswered_questions || [], null, 2)}
+
+NEXT ACTIONS:
+${JSON.stringify(currentState.next_actions || [], null, 2)}
+
+WARNINGS & RISKS:
+${JSON.stringify(currentState.warnings_and_risks || [], null, 2)}
+
+DEADLINES & TIMELINES:
+${JSON.stringify(currentState.deadlines_and_timelines || [], null, 2)}
+
+DEPENDENCIES:
+${JSON.stringify(currentState.dependencies || [], null, 2)}
+
+COMPLETED ITEMS:
+${JSON.stringify(currentState.completed_items || [], null, 2)}
+`;
+
+  const userPrompt = `
+BASELINE SCOPE (if any):
+${baselineScope || "None"}
+
+CURRENT JOB OVERVIEW:
+${currentOverview || "(none yet)"}
+
+FULL CURRENT JOB STATE:
+${fullState}
+
+NEW CHAT INFORMATION:
+${messagesToUse.map((m, i) => `[${i + 1}] ${m.text || m.message_text}`).join("\n")}
+
+JOB CONTEXT:
+${jobContext}
+
+Please rewrite the Job Overview (max 250 words).
+`;
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${OPENAI_API_KEY}`,
+    },
+    body: JSON.stringify({
+      model: "gpt-4o-mini",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      temperature: 0.4,
+      max_tokens: 500,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new OpenAIError(response.status, await response.text());
+  }
+
+  const data = await response.json();
+  const newOverview = data.choices[0].message.content.trim();
+
+  return {
+    overview: newOverview,
+    changes: [
+      {
+        timestamp: new Date().toISOString(),
+        section: "job_overview",
+        change_type: "updated",
+        previous_value: currentOverview,
+        new_value: newOverview,
+      },
+    ],
+  };
+}
+
+// Open Issues Updater
+function updateOpenIssues(currentIssues: any[], newIssues: any[], resolvedIssues: any[]) {
+  const changes: any[] = [];
+  const completedItems: any[] = [];
+  const issues = [...(currentIssues || [])];
+
+  console.log(`updateOpenIssues: current=${issues.length}, new=${newIssues.length}, resolved=${resolvedIssues.length}`);
+
+  // Add new issues
+  for (const newIssue of newIssues) {
+    const issue = {
+      id: crypto.randomUUID(),
+      title: newIssue.title || newIssue.text,
+      description: newIssue.description || newIssue.text,
+      created_at: new Date().toISOString(),
+      message_id: newIssue.message_id,
+    };
+    issues.push(issue);
+    changes.push({
+      timestamp: new Date().toISOString(),
+      section: 'open_issues',
+      change_type: 'created',
+      new_value: issue,
+      message_id: newIssue.message_id,
+      message_text: newIssue.text,
+      reason: 'New issue identified from chat',
+    });
+    console.log(`Added new issue: ${issue.title}`);
+  }
+
+  // Resolve issues
+  for (const resolved of resolvedIssues) {
+    const issueIndex = issues.findIndex(
+      (i) =>
+        i.title?.toLowerCase().includes(resolved.title?.toLowerCase()) ||
+        i.description?.toLowerCase().includes(resolved.description?.toLowerCase())
+    );
+
+    if (issueIndex !== -1) {
+      const issue = issues[issueIndex];
+      issues.splice(issueIndex, 1);
+
+      const completedItem = {
+        id: crypto.randomUUID(),
+        description: `Resolved: ${issue.title}`,
+        source_type: 'issue',
+        source_id: issue.id,
+        completed_at: new Date().toISOString(),
+        message_id: resolved.message_id,
+      };
+      completedItems.push(completedItem);
+
+      const change = {
+        timestamp: new Date().toISOString(),
+        section: 'open_issues',
+        change_type: 'resolved',
+        previous_value: issue,
+        new_value: null,
+        message_id: resolved.message_id,
+        message_text: resolved.text,
+        reason: 'Issue marked as resolved',
+      };
+      changes.push(change);
+      completedItemByChange.set(change, completedItem);
+      console.log(`Resolved issue: ${issue.title}`);
+    }
+  }
+
+  console.log(`updateOpenIssues result: ${issues.length} issues, ${changes.length} changes, ${completedItems.length} completed`);
+
+  return { issues, changes, completedItems };
+}
+
+// Unanswered Questions Updater
+function updateQuestions(
+  currentUnanswered: any[],
+  currentResolved: any[],
+  newQuestions: any[],
+  answeredQuestions: any[]
+) {
+  const changes: any[] = [];
+  const unanswered = [...(currentUnanswered || [])];
+  const resolved = [...(currentResolved || [])];
+
+  console.log(`updateQuestions: unanswered=${unanswered.length}, resolved=${resolved.length}, new=${newQuestions.length}, answered=${answeredQuestions.length}`);
+
+  // Add new questions
+  for (const newQ of newQuestions) {
+    const question = {
+      id: crypto.randomUUID(),
+      question: newQ.question || newQ.text,
+      asked_at: new Date().toISOString(),
+      message_id: newQ.message_id,
+    };
+    unanswered.push(question);
+    changes.push({
+      timestamp: new Date().toISOString(),
+      section: 'unanswered_questions',
+      change_type: 'created',
+      new_value: question,
+      message_id: newQ.message_id,
+      message_text: newQ.text,
+      reason: 'New question identified',
+    });
+    console.log(`Added new question: ${question.question}`);
+  }
+
+  // Answer questions
+  for (const answered of answeredQuestions) {
+    const qIndex = unanswered.findIndex(
+      (q) => answered.question && q.question?.toLowerCase().includes(answered.question.toLowerCase())
+    );
+
+    if (qIndex !== -1) {
+      const question = unanswered[qIndex];
+      unanswered.splice(qIndex, 1);
+
+      const resolvedQ = {
+        id: question.id,
+        question: question.question,
+        answer: answered.answer || answered.text,
+        asked_at: question.asked_at,
+        answered_at: new Date().toISOString(),
+        message_id: answered.message_id,
+      };
+      resolved.push(resolvedQ);
+
+      changes.push({
+        timestamp: new Date().toISOString(),
+        section: 'unanswered_questions',
+        change_type: 'answered',
+        previous_value: question,
+        new_value: resolvedQ,
+        message_id: answered.message_id,
+        message_text: answered.text,
+        reason: 'Question answered',
+      });
+      console.log(`Answered question: ${question.question}`);
+    }
+  }
+
+  console.log(`updateQuestions result: ${unanswered.length} unanswered, ${resolved.length} resolved, ${changes.length} changes`);
+
+  return { unanswered, resolved, changes };
+}
+
+// Next Actions Updater
+function updateActions(currentActions: any[], newActions: any[], completedActions: any[]) {
+  const changes: any[] = [];
+  const completedItems: any[] = [];
+  const actions = [...(currentActions || [])];
+
+  console.log(`updateActions: current=${actions.length}, new=${newActions.length}, completed=${completedActions.length}`);
+
+  // Add new actions
+  for (const newAction of newActions) {
+    const action = {
+      id: crypto.randomUUID(),
+      title: newAction.title || newAction.text,
+      description: newAction.description || newAction.text,
+      priority: newAction.priority || 'medium',
+      assigned_to: newAction.who,
+      created_at: new Date().toISOString(),
+      message_id: newAction.message_id,
+    };
+    actions.push(action);
+    changes.push({
+      timestamp: new Date().toISOString(),
+      section: 'next_actions',
+      change_type: 'created',
+      new_value: action,
+      message_id: newAction.message_id,
+      message_text: newAction.text,
+      reason: 'New action item identified',
+    });
+    console.log(`Added new action: ${action.title}`);
+  }
+
+  // Complete actions
+  for (const completed of completedActions) {
+    const actionIndex = actions.findIndex(
+      (a) =>
+        a.title?.toLowerCase().includes(completed.title?.toLowerCase()) ||
+        a.description?.toLowerCase().includes(completed.description?.toLowerCase())
+    );
+
+    if (actionIndex !== -1) {
+      const action = actions[actionIndex];
+      actions.splice(actionIndex, 1);
+
+      const completedItem = {
+        id: crypto.randomUUID(),
+        description: `Completed: ${action.title}`,
+        source_type: 'action',
+        source_id: action.id,
+        completed_at: new Date().toISOString(),
+        // Free text from chat, unlike completed_by which holds a user id
+        completed_by_name: completed.who,
+        message_id: completed.message_id,
+      };
+      completedItems.push(completedItem);
+
+      const change = {
+        timestamp: new Date().toISOString(),
+        section: 'next_actions',
+        change_type: 'completed',
+        previous_value: action,
+        new_value: null,
+        message_id: completed.message_id,
+        message_text: completed.text,
+        reason: 'Action marked as completed',
+      };
+      changes.push(change);
+      completedItemByChange.set(change, completedItem);
+      console.log(`Completed action: ${action.title}`);
+    }
+  }
+
+  console.log(`updateActions result: ${actions.length} actions, ${changes.length} changes, ${completedItems.length} completed`);
+
+  return { actions, changes, completedItems };
+}
+
+// Warnings & Risks Updater
+function updateRisks(currentRisks: any[], newRisks: any[]) {
+  const changes: any[] = [];
+  const risks = [...(currentRisks || [])];
+
+  console.log(`updateRisks: current=${risks.length}, new=${newRisks.length}`);
+
+  // Add new risks
+  for (const newRisk of newRisks) {
+    const risk = {
+      id: crypto.randomUUID(),
+      title: newRisk.title || newRisk.text,
+      description: newRisk.description || newRisk.text,
+      severity: newRisk.severity || 'medium',
+      created_at: new Date().toISOString(),
+      message_id: newRisk.message_id,
+    };
+    risks.push(risk);
+    changes.push({
+      timestamp: new Date().toISOString(),
+      section: 'warnings_and_risks',
+      change_type: 'created',
+      new_value: risk,
+      message_id: newRisk.message_id,
+      message_text: newRisk.text,
+      reason: 'New risk identified',
+    });
+    console.log(`Added new risk: ${risk.title}`);
+  }
+
+  console.log(`updateRisks result: ${risks.length} risks, ${changes.length} changes`);
+
+  return { risks, changes };
+}
+
+const normalizeTitle = (title: string | null | undefined) =>
+  (title || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Deadlines are stored as YYYY-MM-DD or YYYY-MM-DDTHH:mm in the job's local
+// time, which is all the app and calendar feed parse. Seconds and a zone are
+// dropped from an otherwise valid value; anything else becomes null.
+function normalizeDeadline(deadline: unknown): string | null {
+  if (typeof deadline !== 'string') return null;
+
+  const match = deadline
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map((part) => Number(part ?? 0));
+  if (hour > 23 || minute > 59) return null;
+
+  // Rejects dates that roll over, like 2025-02-30
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    return null;
+  }
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return match[4] ? `${date}T${match[4]}:${match[5]}` : date;
+}
+
+// Deadlines & Timelines Updater
+function updateTimelines(currentTimelines: any[], timelineChanges: any[]) {
+  const changes: any[] = [];
+  const timelines = [...(currentTimelines || [])];
+
+  console.log(`updateTimelines: current=${timelines.length}, new=${timelineChanges.length}`);
+
+  for (const proposed of timelineChanges) {
+    const change = { ...proposed, deadline: normalizeDeadline(proposed.deadline) };
+
+    // A new date for a deadline we already track moves that deadline instead of
+    // adding another one, keeping its first date so slippage can be shown. The
+    // classifier names the deadline by id; failing that only an identical title
+    // counts, so "Inspection" never moves "Final inspection".
+    const byId = change.deadline_id ? timelines.findIndex((t) => t.id === change.deadline_id) : -1;
+    const existingIndex = change.deadline
+      ? byId !== -1
+        ? byId
+        : timelines.findIndex((t) => normalizeTitle(t.title) !== '' && normalizeTitle(t.title) === normalizeTitle(change.title))
+      : -1;
+
+    // Restating the date a deadline already has changes nothing
+    if (existingIndex !== -1 && timelines[existingIndex].deadline === change.deadline) {
+      continue;
+    }
+
+    if (existingIndex !== -1) {
+      const previous = timelines[existingIndex];
+      const timeline = {
+        ...previous,
+        description: change.description || previous.description,
+        deadline: change.deadline,
+        // A deadline getting its first date has not slipped
+        original_deadline: previous.original_deadline || previous.deadline || undefined,
+        updated_at: new Date().toISOString(),
+        message_id: change.message_id,
+      };
+      timelines[existingIndex] = timeline;
+      changes.push({
+        timestamp: new Date().toISOString(),
+        section: 'deadlines_and_timelines',
+        change_type: 'updated',
+        previous_value: previous,
+        new_value: timeline,
+        message_id: change.message_id,
+        message_text: change.text,
+        reason: previous.deadline ? 'Deadline moved' : 'Deadline set',
+      });
+      console.log(`Moved deadline: ${timeline.title} from ${previous.deadline ?? 'no date'} to ${timeline.deadline}`);
+      continue;
+    }
+
+    const timeline = {
+      id: crypto.randomUUID(),
+      title: change.title || change.text,
+      description: change.description || change.text,
+      deadline: change.deadline,
+      updated_at: new Date().toISOString(),
+      message_id: change.message_id,
+    };
+    timelines.push(timeline);
+    changes.push({
+      timestamp: new Date().toISOString(),
+      section: 'deadlines_and_timelines',
+      change_type: 'created',
+      new_value: timeline,
+      message_id: change.message_id,
+      message_text: change.text,
+      reason: 'Timeline update identified',
+    });
+    console.log(`Added timeline change: ${timeline.title}`);
+  }
+
+  console.log(`updateTimelines result: ${timelines.length} timelines, ${changes.length} changes`);
+
+  return { timelines, changes };
+}
+
+// Dependencies Updater
+function updateDependencies(
+  currentDependencies: any[],
+  newDependencies: any[],
+  clearedDependencies: any[],
+  linkable: Set<string>
+) {
+  const changes: any[] = [];
+  const completedItems: any[] = [];
+  const dependencies = [...(currentDependencies || [])];
+
+  console.log(`updateDependencies: current=${dependencies.length}, new=${newDependencies.length}, cleared=${clearedDependencies.length}`);
+
+  // Add new dependencies, keeping only proposed links to items on the job
+  for (const newDep of newDependencies) {
+    const keys = new Set<string>(newDep.blocks.map((link: any) => `${link?.type}:${link?.id}`));
+    const blocks = [...keys]
+      .filter((key) => linkable.has(key))
+      .map((key) => {
+        const separator = key.indexOf(':');
+        return { type: key.slice(0, separator), id: key.slice(separator + 1) };
+      });
+
+    const dependency = {
+      id: crypto.randomUUID(),
+      title: newDep.title || newDep.text,
+      description: newDep.description || newDep.text,
+      created_at: new Date().toISOString(),
+      message_id: newDep.message_id,
+      blocks,
+    };
+    dependencies.push(dependency);
+    changes.push({
+      timestamp: new Date().toISOString(),
+      section: 'dependencies',
+      change_type: 'created',
+      new_value: dependency,
+      message_id: newDep.message_id,
+      message_text: newDep.text,
+      reason: 'New dependency identified',
+    });
+    console.log(`Added new dependency: ${dependency.title}`);
+  }
+
+  // Clear dependencies
+  for (const cleared of clearedDependencies) {
+    const depIndex = dependencies.findIndex(
+      (d) =>
+        d.title?.toLowerCase().includes(cleared.title?.toLowerCase()) ||
+        d.description?.toLowerCase().includes(cleared.description?.toLowerCase())
+    );
+
+    if (depIndex !== -1) {
+      const dependency = dependencies[depIndex];
+      dependencies.splice(depIndex, 1);
+
+      const completedItem = {
+        id: crypto.randomUUID(),
+        description: `Cleared: ${dependency.title}`,
+        source_type: 'dependency',
+        source_id: dependency.id,
+        completed_at: new Date().toISOString(),
+        message_id: cleared.message_id,
+      };
+      completedItems.push(completedItem);
+
+      const change = {
+        timestamp: new Date().toISOString(),
+        section: 'dependencies',
+        change_type: 'cleared',
+        previous_value: dependency,
+        new_value: null,
+        message_id: cleared.message_id,
+        message_text: cleared.text,
+        reason: 'Dependency cleared',
+      };
+      changes.push(change);
+      completedItemByChange.set(change, completedItem);
+      console.log(`Cleared dependency: ${dependency.title}`);
+    }
+  }
+
+  console.log(`updateDependencies result: ${dependencies.length} dependencies, ${changes.length} changes, ${completedItems.length} completed`);
+
+  return { dependencies, changes, completedItems };
+}
+
+// Apply the run's changes to the job as it is now rather than as it was read
+// before the OpenAI calls, so edits made in the meantime are kept. Returns the
+// updated job row.
+async function applyChanges(jobId: string, changes: any[], processedThrough: string | null) {
+  const { data, error } = await supabase.rpc('apply_ai_changes', {
+    target_job_id: jobId,
+    changes: changes.map((change) => ({
+      change,
+      completed_item: completedItemByChange.get(change) ?? null,
+    })),
+    processed_through: processedThrough,
+  });
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Review mode: store proposed changes for a supervisor instead of applying them.
+// Accepted changes are applied by the review_pending_change database function.
+async function queueChangesForReview(job: any, changes: any[]) {
+  const batchId = crypto.randomUUID();
+  const pendingChanges = changes
+    // A rewrite that produced the same overview is not worth reviewing
+    .filter((change) => change.section !== 'job_overview' || change.new_value !== change.previous_value)
+    .map((change) => ({
+      job_id: job.id,
+      batch_id: batchId,
+      change,
+      completed_item: completedItemByChange.get(change) ?? null,
+    }));
+
+  if (pendingChanges.length > 0) {
+    const { error } = await supabase.from('pending_changes').insert(pendingChanges);
+    if (error) throw error;
+  }
+
+  console.log(`Queued ${pendingChanges.length} changes for review (batch ${batchId})`);
+
+  return pendingChanges.length;
+}
+
+// Push new risks and moved deadlines to the job's members as one AI alert
+async function sendAiAlerts(job: any, changes: any[]) {
+  const alerts = changes
+    .map((change) => {
+      if (change.section === 'warnings_and_risks' && change.change_type === 'created') {
+        return `New risk: ${change.new_value.title}`;
+      }
+      if (change.section === 'deadlines_and_timelines' && change.change_type === 'updated') {
+        const label = change.previous_value?.deadline ? 'Deadline moved' : 'Deadline set';
+        return `${label}: ${change.new_value.title} (${change.new_value.deadline})`;
+      }
+      return null;
+    })
+    .filter((alert): alert is string => alert !== null);
+
+  if (alerts.length === 0) return;
+
+  const body = alerts.length > 2
+    ? `${alerts.slice(0, 2).join('; ')} and ${alerts.length - 2} more`
+    : alerts.join('; ');
+
+  // Alerts are best effort; a failed push must not fail the run
+  try {
+    const { error } = await supabase.functions.invoke('send-chat-notification', {
+      body: { type: 'ai_alert', job_id: job.id, body },
+    });
+    if (error) {
+      console.error('Error sending AI alerts:', error);
+    }
+  } catch (error) {
+    console.error('Exception sending AI alerts:', error);
+  }
+}
+
+// Store an immutable copy of the job summary as it stands after this run.
+// A failed snapshot is logged but does not fail the run.
+async function saveSummarySnapshot(job: any, messagesProcessed: number) {
+  const { error } = await supabase.from('job_summary_snapshots').insert({
+    job_id: job.id,
+    job_overview: job.job_overview,
+    open_issues: job.open_issues || [],
+    unanswered_questions: job.unanswered_questions || [],
+    resolved_questions: job.resolved_questions || [],
+    next_actions: job.next_actions || [],
+    completed_items: job.completed_items || [],
+    warnings_and_risks: job.warnings_and_risks || [],
+    deadlines_and_timelines: job.deadlines_and_timelines || [],
+    dependencies: job.dependencies || [],
+    messages_processed: messagesProcessed,
+  });
+
+  if (error) {
+    console.error('Error saving summary snapshot:', error);
+  }
+}
+
+// Buckets a run failure for the diagnostics panel. Supabase errors arrive as
+// plain objects with a `code`, not Error instances.
+function classifyError(error: unknown): string {
+  if (error instanceof OpenAIError) {
+    if (error.status === 429) return 'openai_rate_limited';
+    if (error.status >= 500) return 'openai_unavailable';
+    return 'openai_error';
+  }
+  if (error instanceof SyntaxError) return 'invalid_response';
+  if (error instanceof TypeError && /fetch|network|connection/i.test(error.message)) {
+    return 'network_error';
+  }
+  if (error && typeof error === 'object' && 'code' in error && !(error instanceof Error)) {
+    return 'database_error';
+  }
+  return 'unexpected_error';
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+function retryDelayMs(attempt: number) {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+// Record the start of a run in processing_runs. Logging problems never fail
+// the run itself, so a missing id just means the run goes unrecorded.
+async function startProcessingRun(jobId: string, trigger: string, attempt: number) {
+  const { data, error } = await supabase
+    .from('processing_runs')
+    .insert({ job_id: jobId, trigger, attempt, status: 'running' })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error recording processing run:', error);
+    return null;
+  }
+
+  return data.id as string;
+}
+
+// Cancelling moves the job out of 'running'. Checked after the AI calls and
+// before anything is written, so a cancelled run leaves the summary untouched.
+async function throwIfCancelled(jobId: string) {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('processing_status')
+    .eq('id', jobId)
+    .single();
+
+  if (error) throw error;
+  if (data.processing_status !== 'running') throw new RunCancelledError();
+}
+
+async function finishProcessingRun(runId: string | null, fields: Record<string, unknown>) {
+  if (!runId) return;
+
+  const { error } = await supabase
+    .from('processing_runs')
+    .update({ ...fields, finished_at: new Date().toISOString() })
+    .eq('id', runId);
+
+  if (error) {
+    console.error('Error finishing processing run:', error);
+  }
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+async function fetchBaselineScope(jobId: string) {
+  const { data: scopeDoc } = await supabase
+    .from('scope_documents')
+    .select('summary, raw_content')
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single();
+
+  return scopeDoc?.summary || scopeDoc?.raw_content || null;
+}
+
+// PostgREST caps each response, so page through long chat histories
+async function fetchAllMessages(jobId: string) {
+  const messages: any[] = [];
+
+  for (let from = 0; ; from += MESSAGE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select('*')
+      .eq('job_id', jobId)
+      .neq('message_type', 'system')
+      .order('created_at', { ascending: true })
+      .range(from, from + MESSAGE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    messages.push(...(data || []));
+    if (!data || data.length < MESSAGE_PAGE_SIZE) return messages;
+  }
+}
+
+// Rebuild the whole summary from an empty state: the baseline scope plus every
+// chat message, replayed through the same classifier and updaters as regular
+// runs. The result is stored on the summary_rebuilds row as a preview; nothing
+// on the job changes until an admin applies it.
+async function rebuildSummary(job: any, rebuildId: string) {
+  try {
+    const baselineScope = await fetchBaselineScope(job.id);
+    const messages = await fetchAllMessages(job.id);
+
+    const chunkSize = Math.max(REBUILD_MIN_CHUNK_SIZE, Math.ceil(messages.length / REBUILD_MAX_CHUNKS));
+    const chunks: any[][] = [];
+    for (let i = 0; i < messages.length; i += chunkSize) {
+      chunks.push(messages.slice(i, i + chunkSize));
+    }
+
+    console.log(`Rebuilding summary for job ${job.id}: ${messages.length} messages in ${chunks.length} chunks`);
+
+    await supabase
+      .from('summary_rebuilds')
+      .update({
+        chunks_total: chunks.length,
+        messages_processed: messages.length,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', rebuildId);
+
+    let summary: any = {
+      job_overview: null,
+      open_issues: [],
+      unanswered_questions: [],
+      resolved_questions: [],
+      next_actions: [],
+      completed_items: [],
+      warnings_and_risks: [],
+      deadlines_and_timelines: [],
+      dependencies: [],
+    };
+
+    if (chunks.length === 0 && baselineScope) {
+      const overviewResult = await updateJobOverview(baselineScope, null, [], [], summary, job.job_name);
+      summary.job_overview = overviewResult.overview;
+    }
+
+    for (const [index, chunk] of chunks.entries()) {
+      // Discarding or restarting the rebuild moves this row out of 'running'
+      const { data: current } = await supabase
+        .from('summary_rebuilds')
+        .select('status')
+        .eq('id', rebuildId)
+        .single();
+
+      if (current?.status !== 'running') {
+        console.log(`Rebuild ${rebuildId} stopped (${current?.status})`);
+        return;
+      }
+
+      const classification = await classifyMessages(chunk, job.job_name, describeJobItems(summary));
+
+      const issuesResult = updateOpenIssues(
+        summary.open_issues,
+        classification.new_issues,
+        classification.resolved_issues
+      );
+      const questionsResult = updateQuestions(
+        summary.unanswered_questions,
+        summary.resolved_questions,
+        classification.new_questions,
+        classification.answered_questions
+      );
+      const actionsResult = updateActions(
+        summary.next_actions,
+        classification.new_actions,
+        classification.completed_actions
+      );
+      const risksResult = updateRisks(summary.warnings_and_risks, classification.new_risks);
+      const timelinesResult = updateTimelines(
+        summary.deadlines_and_timelines,
+        classification.timeline_changes
+      );
+      const dependenciesResult = updateDependencies(
+        summary.dependencies,
+        classification.new_dependencies,
+        classification.cleared_dependencies,
+        linkableKeys(summary)
+      );
+
+      summary = {
+        ...summary,
+        open_issues: issuesResult.issues,
+        unanswered_questions: questionsResult.unanswered,
+        resolved_questions: questionsResult.resolved,
+        next_actions: actionsResult.actions,
+        completed_items: [
+          ...summary.completed_items,
+          ...issuesResult.completedItems,
+          ...actionsResult.completedItems,
+          ...dependenciesResult.completedItems,
+        ],
+        warnings_and_risks: risksResult.risks,
+        deadlines_and_timelines: timelinesResult.timelines,
+        dependencies: dependenciesResult.dependencies,
+      };
+
+      // Rewrite the overview against the state after this chunk
+      const overviewResult = await updateJobOverview(
+        baselineScope,
+        summary.job_overview,
+        classification.overview_relevant,
+        chunk,
+        summary,
+        job.job_name
+      );
+      summary.job_overview = overviewResult.overview;
+
+      await supabase
+        .from('summary_rebuilds')
+        .update({ chunks_done: index + 1, updated_at: new Date().toISOString() })
+        .eq('id', rebuildId);
+    }
+
+    await supabase
+      .from('summary_rebuilds')
+      .update({
+        ...summary,
+        status: 'ready',
+        last_message_at: messages.length > 0 ? messages[messages.length - 1].created_at : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', rebuildId)
+      .eq('status', 'running');
+
+    console.log(`Rebuild ${rebuildId} ready for review`);
+  } catch (error) {
+    console.error(`Error rebuilding summary for job ${job.id}:`, error);
+    await supabase
+      .from('summary_rebuilds')
+      .update({ status: 'failed', error_message: errorMessage(error), updated_at: new Date().toISOString() })
+      .eq('id', rebuildId)
+      .eq('status', 'running');
+  }
+}
+
+// Rebuilds are admin only: they replace the whole summary and cost one or two
+// OpenAI calls per chunk. Responds straight away with the rebuild id and keeps
+// working in the background.
+async function startSummaryRebuild(req: Request, jobId: string | null) {
+  if (!jobId) {
+    return jsonResponse({ error: 'Missing required field: job_id' }, 400);
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return jsonResponse({ error: 'Missing authorization header' }, 401);
+  }
+
+  // Identify the caller from their own JWT
+  const { data: { user: caller }, error: callerError } = await supabase.auth.getUser(
+    authHeader.replace('Bearer ', '')
+  );
+
+  if (callerError || !caller) {
+    console.error('Error getting caller:', callerError);
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const { data: callerProfile } = await supabase
+    .from('user_profiles')
+    .select('is_admin')
+    .eq('user_id', caller.id)
+    .single();
+
+  if (!callerProfile?.is_admin) {
+    console.warn('Non-admin attempted summary rebuild:', caller.id);
+    return jsonResponse({ error: 'Admin access required' }, 403);
+  }
+
+  const { data: job, error: jobError } = await supabase.from('jobs').select('*').eq('id', jobId).single();
+
+  if (jobError || !job) {
+    return jsonResponse({ error: 'Job not found' }, 404);
+  }
+
+  // Starting again replaces any rebuild still running or awaiting review
+  await supabase
+    .from('summary_rebuilds')
+    .update({ status: 'discarded', updated_at: new Date().toISOString() })
+    .eq('job_id', jobId)
+    .in('status', ['running', 'ready']);
+
+  const { data: rebuild, error: insertError } = await supabase
+    .from('summary_rebuilds')
+    .insert({ job_id: jobId, requested_by: caller.id })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    console.error('Error creating summary rebuild:', insertError);
+    return jsonResponse({ error: 'Failed to start rebuild', details: insertError }, 500);
+  }
+
+  EdgeRuntime.waitUntil(rebuildSummary(job, rebuild.id));
+
+  return jsonResponse({ message: 'Rebuild started', rebuild_id: rebuild.id }, 202);
+}
+
+// Main processing function
+Deno.serve(async (req) => {
+  // Allow CORS for all origins
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  try {
+    console.log('Starting chat batch processing...');
+
+    // Parse request body to check for specific job_id
+    let specificJobId = null;
+    // The app passes trigger 'manual'; the cron job only passes job_id
+    let trigger = 'scheduled';
+    let mode = 'incremental';
+    try {
+      const body = await req.json();
+      specificJobId = body.job_id || null;
+      trigger = body.trigger === 'manual' ? 'manual' : 'scheduled';
+      mode = body.mode === 'rebuild' ? 'rebuild' : 'incremental';
+      console.log('Request body:', body);
+    } catch {
+      // No body or invalid JSON, process all scheduled jobs
+    }
+
+    if (mode === 'rebuild') {
+      return await startSummaryRebuild(req, specificJobId);
+    }
+
+    // Query jobs that need processing
+    let query = supabase.from('jobs').select('*');
+
+    if (specificJobId) {
+      // Manual trigger for specific job
+      console.log(`Manual processing requested for job: ${specificJobId}`);
+      query = query.eq('id', specificJobId);
+    } else {
+      // Automatic scheduled processing
+      query = query
+        .eq('processing_status', 'scheduled')
+        .lte('processing_scheduled_for', new Date().toISOString());
+    }
+
+    const { data: jobsToProcess, error: jobsError } = await query;
+
+    if (jobsError) {
+      console.error('Error fetching jobs to process:', jobsError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch jobs', details: jobsError }),
+        { 
+          status: 500, 
+          headers: { 
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          } 
+        }
+      );
+    }
+
+    if (!jobsToProcess || jobsToProcess.length === 0) {
+      console.log('No jobs to process at this time');
+      return new Response(
+        JSON.stringify({ message: 'No jobs to process', processed: 0 }),
+        { 
+          status: 200, 
+          headers: { 
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          } 
+        }
+      );
+    }
+
+    console.log(`Found ${jobsToProcess.length} job(s) to process`);
+
+    const results: any[] = [];
+
+    // Process each job
+    for (const job of jobsToProcess) {
+      // A manual run starts a fresh retry sequence
+      const attempt = trigger === 'manual' ? 1 : (job.processing_attempts || 0) + 1;
+      const run: Record<string, unknown> = {};
+      let runId: string | null = null;
+
+      try {
+        console.log(`Processing job ${job.id} (${job.job_name}), attempt ${attempt}...`);
+
+        // Claim the job by moving it to 'running'. A cancel that landed first or
+        // a run already in flight leaves nothing to claim. Manual runs may also
+        // restart a job that ran out of retries.
+        const { data: claimed, error: claimError } = await supabase
+          .from('jobs')
+          .update({ processing_status: 'running', processing_started_at: new Date().toISOString() })
+          .eq('id', job.id)
+          .in('processing_status', trigger === 'manual' ? ['scheduled', 'idle', 'failed'] : ['scheduled'])
+          .select('id')
+          .maybeSingle();
+
+        if (claimError) throw claimError;
+
+        if (!claimed) {
+          console.log(`Job ${job.id} is not waiting to be processed, skipping`);
+          results.push({ job_id: job.id, status: 'skipped', reason: 'not_claimed' });
+          continue;
+        }
+
+        runId = await startProcessingRun(job.id, trigger, attempt);
+
+        // Fetch baseline scope document (most recent)
+        const baselineScope = await fetchBaselineScope(job.id);
+        console.log('Baseline scope found:', !!baselineScope);
+
+        // Fetch chat messages. System messages record changes already made to
+        // the summary (such as a question answered by hand), so classifying
+        // them would only add those items back.
+        let messagesQuery = supabase
+          .from('chat_messages')
+          .select('*')
+          .eq('job_id', job.id)
+          .neq('message_type', 'system')
+          .order('created_at', { ascending: true });
+
+        if (job.last_processed_at) {
+          messagesQuery = messagesQuery.gt('created_at', job.last_processed_at);
+        }
+
+        const { data: messages, error: messagesError } = await messagesQuery;
+
+        if (messagesError) throw messagesError;
+
+        if (messages && messages.length > 0) {
+          run.message_count = messages.length;
+          run.first_message_at = messages[0].created_at;
+          run.last_message_at = messages[messages.length - 1].created_at;
+        }
+
+        if (!messages || messages.length === 0) {
+          console.log(`No new messages for job ${job.id}`);
+
+          // If we have a baseline scope but no job_overview, generate one
+          if (baselineScope && !job.job_overview) {
+            console.log('Generating initial overview from baseline scope...');
+            const overviewResult = await updateJobOverview(
+              baselineScope,
+              null,
+              [],
+              [],
+              job,
+              job.job_name
+            );
+
+            await throwIfCancelled(job.id);
+
+            if (job.review_mode) {
+              const pendingReview = await queueChangesForReview(job, overviewResult.changes);
+
+              // The changes wait for review, so this only finishes the run
+              await applyChanges(job.id, [], null);
+
+              await finishProcessingRun(runId, { status: 'succeeded', changes_made: 0 });
+
+              results.push({
+                job_id: job.id,
+                status: 'success',
+                reason: 'Initial overview from scope queued for review',
+                pending_review: pendingReview,
+              });
+              continue;
+            }
+
+            // No messages were processed, so last_processed_at stays where it is
+            const updatedJob = await applyChanges(job.id, overviewResult.changes, null);
+
+            await saveSummarySnapshot(updatedJob, 0);
+            await finishProcessingRun(runId, {
+              status: 'succeeded',
+              changes_made: overviewResult.changes.length,
+            });
+
+            results.push({
+              job_id: job.id,
+              status: 'success',
+              reason: 'Generated initial overview from scope',
+            });
+          } else {
+            await supabase
+              .from('jobs')
+              .update({ processing_status: 'idle', processing_scheduled_for: null, processing_attempts: 0 })
+              .eq('id', job.id);
+
+            await finishProcessingRun(runId, { status: 'skipped' });
+
+            results.push({ job_id: job.id, status: 'skipped', reason: 'no_new_messages' });
+          }
+          continue;
+        }
+
+        console.log(`Processing ${messages.length} message(s) for job ${job.id}`);
+
+        // The next run picks up after the newest message this run saw, not after
+        // the time it finished, so messages sent mid-run are not skipped
+        const processedThrough = messages[messages.length - 1].created_at;
+
+        // STEP 1: Classify messages
+        const classification = await classifyMessages(messages, job.job_name, describeJobItems(job));
+        console.log('Classification complete');
+
+        // STEP 2: Run updaters
+        const allChanges: any[] = [];
+
+        // Job Overview - pass baseline scope and all messages as fallback
+        const overviewResult = await updateJobOverview(
+          baselineScope,
+          job.job_overview,
+          classification.overview_relevant,
+          messages,
+          job,
+          job.job_name
+        );
+        allChanges.push(...overviewResult.changes);
+
+        // Open Issues
+        const issuesResult = updateOpenIssues(
+          job.open_issues,
+          classification.new_issues,
+          classification.resolved_issues
+        );
+        allChanges.push(...issuesResult.changes);
+
+        // Questions
+        const questionsResult = updateQuestions(
+          job.unanswered_questions,
+          job.resolved_questions,
+          classification.new_questions,
+          classification.answered_questions
+        );
+        allChanges.push(...questionsResult.changes);
+
+        // Actions
+        const actionsResult = updateActions(
+          job.next_actions,
+          classification.new_actions,
+          classification.completed_actions
+        );
+        allChanges.push(...actionsResult.changes);
+
+        // Risks
+        const risksResult = updateRisks(job.warnings_and_risks, classification.new_risks);
+        allChanges.push(...risksResult.changes);
+
+        // Timelines
+        const timelinesResult = updateTimelines(
+          job.deadlines_and_timelines,
+          classification.timeline_changes
+        );
+        allChanges.push(...timelinesResult.changes);
+
+        // Dependencies
+        const dependenciesResult = updateDependencies(
+          job.dependencies,
+          classification.new_dependencies,
+          classification.cleared_dependencies,
+          linkableKeys(job)
+        );
+        allChanges.push(...dependenciesResult.changes);
+
+        await throwIfCancelled(job.id);
+
+        if (job.review_mode) {
+          const pendingReview = await queueChangesForReview(job, allChanges);
+
+          // The changes wait for review, so this only finishes the run
+          await applyChanges(job.id, [], processedThrough);
+
+          await finishProcessingRun(runId, { ...run, status: 'succeeded', changes_made: 0 });
+
+          results.push({
+            job_id: job.id,
+            job_name: job.job_name,
+            status: 'success',
+            messages_processed: messages.length,
+            changes_made: 0,
+            pending_review: pendingReview,
+            overview_length: overviewResult.overview?.length || 0,
+          });
+          continue;
+        }
+
+        console.log('Saving updated state...');
+        console.log('New overview length:', overviewResult.overview?.length || 0);
+        console.log('Total changes:', allChanges.length);
+
+        // STEP 3: Apply the changes and append them to the changelog
+        const updatedJob = await applyChanges(job.id, allChanges, processedThrough);
+
+        await saveSummarySnapshot(updatedJob, messages.length);
+        await finishProcessingRun(runId, { ...run, status: 'succeeded', changes_made: allChanges.length });
+        await sendAiAlerts(job, allChanges);
+
+        console.log(`Successfully processed job ${job.id}`);
+        results.push({
+          job_id: job.id,
+          job_name: job.job_name,
+          status: 'success',
+          messages_processed: messages.length,
+          changes_made: allChanges.length,
+          overview_length: overviewResult.overview?.length || 0,
+        });
+      } catch (jobError) {
+        if (jobError instanceof RunCancelledError) {
+          console.log(`Processing cancelled for job ${job.id}`);
+          await finishProcessingRun(runId, { ...run, status: 'cancelled' });
+          results.push({ job_id: job.id, status: 'cancelled' });
+          continue;
+        }
+
+        console.error(`Error processing job ${job.id}:`, jobError);
+
+        const errorClass = classifyError(jobError);
+        const retrying = attempt < MAX_ATTEMPTS;
+        const nextRetryAt = retrying
+          ? new Date(Date.now() + retryDelayMs(attempt)).toISOString()
+          : null;
+
+        // Hand the batch back to the cron job for another attempt. The
+        // messages are still after last_processed_at, so nothing is lost.
+        await supabase
+          .from('jobs')
+          .update({
+            processing_status: retrying ? 'scheduled' : 'failed',
+            processing_scheduled_for: nextRetryAt,
+            processing_attempts: attempt,
+          })
+          .eq('id', job.id)
+          // Leave a job that was cancelled mid-run alone
+          .eq('processing_status', 'running');
+
+        await finishProcessingRun(runId, {
+          ...run,
+          status: 'failed',
+          error_class: errorClass,
+          error_message: errorMessage(jobError),
+          next_retry_at: nextRetryAt,
+        });
+
+        results.push({
+          job_id: job.id,
+          status: 'error',
+          error: errorMessage(jobError),
+          error_class: errorClass,
+          attempt,
+          next_retry_at: nextRetryAt,
+        });
+      }
+    }
+
+    console.log('Chat batch processing complete');
+    return new Response(
+      JSON.stringify({ message: 'Processing complete', processed: results.length, results }),
+      { 
+        status: 200, 
+        headers: { 
+          'Content-Type': 'application/json', 
+          'Connection': 'keep-alive',
+          'Access-Control-Allow-Origin': '*',
+        } 
+      }
+    );
+  } catch (error) {
+    console.error('Fatal error in process-chat-batch:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Fatal error',
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { 
+        status: 500, 
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        } 
+      }
+    );
+  }
+});
@@ -0,0 +1,200 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Get OpenAI API key from environment
+    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!openaiApiKey) {
+      console.error('OPENAI_API_KEY not configured');
+      throw new Error('OPENAI_API_KEY not configured');
+    }
+
+    console.log('OpenAI API key found, proceeding...');
+
+    // Parse request body
+    const { jobId, content, fileName, fileType, fileUri } = await req.json();
+
+    if (!jobId || !content) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: jobId and content' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    console.log('Processing scope document for job:', jobId);
+    console.log('Content length:', content.length);
+
+    // Get authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    // Create Supabase client with the user's auth token
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    });
+
+    // Get the current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      console.error('Error getting user:', userError);
+      throw new Error('Unauthorized');
+    }
+
+    console.log('User authenticated:', user.id);
+
+    // Call OpenAI API to generate summary
+    console.log('Calling OpenAI API...');
+    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${openaiApiKey}`,
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: 'You are analyzing scope documents for industrial operations projects. Provide concise, high-level summaries that capture essential information at a glance. This summary will serve as the baseline for the job overview and will be maintained throughout the project lifecycle.',
+          },
+          {
+            role: 'user',
+            content: `Please provide a concise, high-level summary (TLDR) of this scope document. This will be the BASELINE summary for the job and will be preserved as the foundation of the job overview. Focus on:\n\n- Main objectives and deliverables\n- Key activities or work areas\n- Important stakeholders or teams\n- Critical timelines or milestones\n- Safety or compliance requirements\n\nKeep the summary professional, clear, and under 200 words. This is the foundation that will be maintained throughout the project.\n\nScope Document:\n${content}`,
+          },
+        ],
+        max_tokens: 500,
+        temperature: 0.7,
+      }),
+    });
+
+    if (!openaiResponse.ok) {
+      const errorText = await openaiResponse.text();
+      console.error('OpenAI API error:', openaiResponse.status, errorText);
+      throw new Error(`OpenAI API error: ${openaiResponse.status} - ${errorText}`);
+    }
+
+    const openaiData = await openaiResponse.json();
+    const summary = openaiData.choices[0].message.content;
+
+    console.log('Generated summary length:', summary.length);
+
+    // Store in scope_documents table
+    const { data: scopeDocument, error: insertError } = await supabase
+      .from('scope_documents')
+      .insert({
+        job_id: jobId,
+        raw_content: content,
+        file_name: fileName || null,
+        file_type: fileType || null,
+        file_uri: fileUri || null,
+        summary: summary,
+        uploaded_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Database insert error:', insertError);
+      throw new Error(`Failed to store scope document: ${insertError.message}`);
+    }
+
+    console.log('Scope document stored successfully:', scopeDocument.id);
+
+    // Update job_overview in jobs table - this is the BASELINE
+    console.log('Updating job overview in jobs table with baseline scope...');
+    const { error: updateError } = await supabase
+      .from('jobs')
+      .update({
+        job_overview: summary,
+        last_processed_at: new Date().toISOString(),
+        processing_status: 'completed',
+      })
+      .eq('id', jobId);
+
+    if (updateError) {
+      console.error('Error updating job overview:', updateError);
+      // Don't throw - the scope document was saved successfully
+      console.warn('Scope document saved but job overview update failed');
+    } else {
+      console.log('Job overview updated successfully with baseline scope');
+    }
+
+    // Add changelog entry
+    const changelogEntry = {
+      timestamp: new Date().toISOString(),
+      section: 'job_overview',
+      change_type: 'created',
+      new_value: summary,
+      reason: 'Initial scope document processed - baseline established',
+      metadata: {
+        document_id: scopeDocument.id,
+        file_name: fileName || 'Manual entry',
+        content_length: content.length,
+        is_baseline: true,
+      },
+    };
+
+    // Fetch current changelog
+    const { data: jobData } = await supabase
+      .from('jobs')
+      .select('ai_changelog')
+      .eq('id', jobId)
+      .single();
+
+    const currentChangelog = jobData?.ai_changelog || [];
+    const updatedChangelog = [changelogEntry, ...currentChangelog];
+
+    // Update changelog
+    await supabase
+      .from('jobs')
+      .update({ ai_changelog: updatedChangelog })
+      .eq('id', jobId);
+
+    console.log('Changelog updated with baseline entry');
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        summary: summary,
+        documentId: scopeDocument.id,
+        jobOverviewUpdated: !updateError,
+        message: 'Scope document processed and baseline overview established',
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error processing scope:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,341 @@
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// chat_message: a new chat message, posted by the database webhook
+// ai_alert: a finding from process-chat-batch, posted as { type, job_id, body }
+// with the service role key
+type NotificationKind = 'chat_message' | 'ai_alert';
+
+type NotificationLevel = 'all' | 'mentions' | 'ai_alerts' | 'muted';
+
+interface NotificationPreferences {
+  user_id: string;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  quiet_hours_timezone: string;
+  snoozed_until: string | null;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Quiet hours are local times in the user's timezone and may run past midnight
+function isInQuietHours(preferences: NotificationPreferences, now: Date) {
+  if (!preferences.quiet_hours_enabled) return false;
+
+  const start = toMinutes(preferences.quiet_hours_start);
+  const end = toMinutes(preferences.quiet_hours_end);
+  if (start === end) return false;
+
+  let current: number;
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: preferences.quiet_hours_timezone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+    current = part('hour') * 60 + part('minute');
+  } catch (error) {
+    console.error('Invalid quiet hours timezone:', preferences.quiet_hours_timezone, error);
+    return false;
+  }
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "@Jane Smith" or "@Jane" mentions the user with display name "Jane Smith"
+function isMentioned(messageText: string | null, displayName: string | null | undefined) {
+  if (!messageText || !displayName) return false;
+
+  const names = [displayName.trim(), displayName.trim().split(/\s+/)[0]].filter(Boolean);
+  return names.some((name) => new RegExp(`@${escapeRegExp(name)}(?![\\w])`, 'i').test(messageText));
+}
+
+/**
+ * Drops recipients whose preferences rule this notification out: snoozed, in
+ * quiet hours, or a job level that does not cover it. If the preferences cannot
+ * be loaded everyone is notified, as before preferences existed.
+ */
+async function filterRecipients(
+  supabase: SupabaseClient,
+  jobId: string,
+  userIds: string[],
+  kind: NotificationKind,
+  messageText: string | null
+) {
+  if (userIds.length === 0) return userIds;
+
+  const [preferencesResult, levelsResult, profilesResult] = await Promise.all([
+    supabase
+      .from('notification_preferences')
+      .select('user_id, quiet_hours_enabled, quiet_hours_start, quiet_hours_end, quiet_hours_timezone, snoozed_until')
+      .in('user_id', userIds),
+    supabase
+      .from('job_notification_preferences')
+      .select('user_id, level')
+      .eq('job_id', jobId)
+      .in('user_id', userIds),
+    supabase
+      .from('user_profiles')
+      .select('user_id, display_name')
+      .in('user_id', userIds),
+  ]);
+
+  if (preferencesResult.error || levelsResult.error || profilesResult.error) {
+    console.error(
+      'Error fetching notification preferences:',
+      preferencesResult.error || levelsResult.error || profilesResult.error
+    );
+    return userIds;
+  }
+
+  const preferencesByUser = new Map(
+    (preferencesResult.data as NotificationPreferences[]).map((preferences) => [preferences.user_id, preferences])
+  );
+  const levelByUser = new Map(
+    (levelsResult.data as { user_id: string; level: NotificationLevel }[]).map((row) => [row.user_id, row.level])
+  );
+  const nameByUser = new Map(
+    (profilesResult.data as { user_id: string; display_name: string | null }[]).map((profile) => [profile.user_id, profile.display_name])
+  );
+
+  const now = new Date();
+
+  return userIds.filter((userId) => {
+    const preferences = preferencesByUser.get(userId);
+    if (preferences?.snoozed_until && new Date(preferences.snoozed_until) > now) return false;
+    if (preferences && isInQuietHours(preferences, now)) return false;
+
+    switch (levelByUser.get(userId) || 'all') {
+      case 'muted':
+        return false;
+      case 'ai_alerts':
+        return kind === 'ai_alert';
+      case 'mentions':
+        return kind === 'chat_message' && isMentioned(messageText, nameByUser.get(userId));
+      default:
+        return true;
+    }
+  });
+}
+
+Deno.serve(async (req) => {
+  try {
+    // Parse the webhook payload
+    const payload = await req.json();
+    console.log('Received webhook payload:', JSON.stringify(payload, null, 2));
+
+    const kind: NotificationKind = payload.type === 'ai_alert' ? 'ai_alert' : 'chat_message';
+
+    // AI alerts carry free text, so only process-chat-batch may send them. It
+    // calls with the service role key, which no app user holds.
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (kind === 'ai_alert' && (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`)) {
+      console.error('Rejected AI alert without the service role key');
+      return new Response(
+        JSON.stringify({ error: 'Forbidden' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Extract the new message from the payload
+    const newMessage = kind === 'chat_message' ? payload.record : null;
+    const jobId: string | undefined = kind === 'ai_alert' ? payload.job_id : newMessage?.job_id;
+
+    if (kind === 'ai_alert' && (!payload.job_id || !payload.body)) {
+      console.error('Invalid AI alert payload');
+      return new Response(
+        JSON.stringify({ error: 'Invalid AI alert payload' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (kind === 'chat_message' && (!newMessage || !newMessage.job_id || !newMessage.user_id)) {
+      console.error('Invalid message payload');
+      return new Response(
+        JSON.stringify({ error: 'Invalid message payload' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Initialize Supabase client with service role key
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get job details
+    const { data: job, error: jobError } = await supabase
+      .from('jobs')
+      .select('id, job_name')
+      .eq('id', jobId)
+      .single();
+
+    if (jobError || !job) {
+      console.error('Error fetching job:', jobError);
+      return new Response(
+        JSON.stringify({ error: 'Job not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get sender profile
+    const { data: senderProfile } = newMessage
+      ? await supabase
+          .from('user_profiles')
+          .select('user_id, display_name')
+          .eq('user_id', newMessage.user_id)
+          .single()
+      : { data: null };
+
+    const senderName = senderProfile?.display_name || 'Someone';
+
+    // Get all users who have access to this job (via job_invitations)
+    const { data: invitations, error: invitationsError } = await supabase
+      .from('job_invitations')
+      .select('user_id')
+      .eq('job_id', jobId);
+
+    if (invitationsError) {
+      console.error('Error fetching invitations:', invitationsError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch invitations' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get job creator
+    const { data: jobData } = await supabase
+      .from('jobs')
+      .select('created_by')
+      .eq('id', jobId)
+      .single();
+
+    // Collect all user IDs who should receive notifications
+    const recipientUserIds = new Set<string>();
+
+    // Add job creator
+    if (jobData?.created_by) {
+      recipientUserIds.add(jobData.created_by);
+    }
+
+    // Add invited users
+    invitations?.forEach((inv) => recipientUserIds.add(inv.user_id));
+
+    // Remove the sender from recipients
+    if (newMessage) {
+      recipientUserIds.delete(newMessage.user_id);
+    }
+
+    // Apply each recipient's mute, mention, quiet hours and snooze settings
+    const allowedUserIds = await filterRecipients(
+      supabase,
+      jobId!,
+      Array.from(recipientUserIds),
+      kind,
+      newMessage?.message_text ?? null
+    );
+
+    if (allowedUserIds.length === 0) {
+      console.log('No recipients to notify');
+      return new Response(
+        JSON.stringify({ message: 'No recipients to notify' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get push tokens for all recipients
+    const { data: pushTokens, error: tokensError } = await supabase
+      .from('push_tokens')
+      .select('expo_push_token, user_id')
+      .in('user_id', allowedUserIds);
+
+    if (tokensError) {
+      console.error('Error fetching push tokens:', tokensError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch push tokens' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!pushTokens || pushTokens.length === 0) {
+      console.log('No push tokens found for recipients');
+      return new Response(
+        JSON.stringify({ message: 'No push tokens found' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Prepare notification message
+    const messagePreview = newMessage?.message_text
+      ? newMessage.message_text.substring(0, 100) +
+        (newMessage.message_text.length > 100 ? '...' : '')
+      : 'New message';
+
+    // Send push notifications to Expo
+    const notifications = pushTokens.map((token) => ({
+      to: token.expo_push_token,
+      sound: 'default',
+      title: `${job.job_name}`,
+      body: newMessage ? `${senderName}: ${messagePreview}` : `AI alert: ${payload.body}`,
+      data: newMessage
+        ? {
+            jobId: newMessage.job_id,
+            messageId: newMessage.id,
+            type: 'chat_message',
+          }
+        : {
+            jobId,
+            type: 'ai_alert',
+          },
+      priority: 'high',
+      channelId: 'chat-messages',
+    }));
+
+    console.log(`Sending ${notifications.length} notifications`);
+
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(notifications),
+    });
+
+    const result = await response.json();
+    console.log('Expo push response:', JSON.stringify(result, null, 2));
+
+    // Check for errors in the response
+    if (result.data) {
+      const errors = result.data.filter((item: any) => item.status === 'error');
+      if (errors.length > 0) {
+        console.error('Some notifications failed:', errors);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        notificationsSent: notifications.length,
+        result,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in send-chat-notification:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,35 @@
+-- Create user_profiles table (one row per auth user)
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name text,
+  avatar_url text,
+  role text DEFAULT 'user',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own profile
+CREATE POLICY "profiles_select_own"
+  ON user_profiles FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "profiles_insert_own"
+  ON user_profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "profiles_update_own"
+  ON user_profiles FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "profiles_delete_own"
+  ON user_profiles FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
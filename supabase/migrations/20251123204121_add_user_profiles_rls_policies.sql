@@ -0,0 +1,20 @@
+-- Enable RLS on user_profiles table (if not already enabled)
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Users can view their own profile" ON user_profiles;
+DROP POLICY IF EXISTS "Users can insert their own profile" ON user_profiles;
+DROP POLICY IF EXISTS "Users can update their own profile" ON user_profiles;
+
+-- Create RLS policies for user_profiles
+CREATE POLICY "Users can view their own profile" 
+ON user_profiles FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own profile" 
+ON user_profiles FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own profile" 
+ON user_profiles FOR UPDATE 
+USING (auth.uid() = user_id);
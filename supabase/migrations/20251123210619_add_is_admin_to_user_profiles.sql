@@ -0,0 +1,6 @@
+-- Add is_admin column to user_profiles table
+ALTER TABLE user_profiles 
+ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT false;
+
+-- Add a comment to the column
+COMMENT ON COLUMN user_profiles.is_admin IS 'Indicates whether the user has admin privileges';
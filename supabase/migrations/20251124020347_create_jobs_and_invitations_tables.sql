@@ -0,0 +1,142 @@
+-- 1. Create jobs table
+create table jobs (
+  id uuid primary key default gen_random_uuid(),
+  job_name text not null,
+  site_name text not null,
+  start_date date not null,
+  is_archived boolean default false,
+  created_by uuid references auth.users(id) not null,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+-- 2. Create job_invitations table (junction table for users and jobs)
+create table job_invitations (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid references jobs(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  invited_by uuid references auth.users(id) not null,
+  invited_at timestamp with time zone default now(),
+  unique(job_id, user_id)
+);
+
+-- 3. Enable RLS on jobs table
+alter table jobs enable row level security;
+
+-- 4. Create RLS policies for jobs table
+-- Admins can view all jobs
+create policy "Admins can view all jobs" on jobs
+  for select
+  using (
+    exists (
+      select 1 from user_profiles
+      where user_profiles.user_id = auth.uid()
+      and user_profiles.is_admin = true
+    )
+  );
+
+-- Basic users can view jobs they're invited to
+create policy "Users can view jobs they are invited to" on jobs
+  for select
+  using (
+    exists (
+      select 1 from job_invitations
+      where job_invitations.job_id = jobs.id
+      and job_invitations.user_id = auth.uid()
+    )
+  );
+
+-- Admins can insert jobs
+create policy "Admins can insert jobs" on jobs
+  for insert
+  with check (
+    exists (
+      select 1 from user_profiles
+      where user_profiles.user_id = auth.uid()
+      and user_profiles.is_admin = true
+    )
+  );
+
+-- Admins can update jobs
+create policy "Admins can update jobs" on jobs
+  for update
+  using (
+    exists (
+      select 1 from user_profiles
+      where user_profiles.user_id = auth.uid()
+      and user_profiles.is_admin = true
+    )
+  );
+
+-- Admins can delete jobs
+create policy "Admins can delete jobs" on jobs
+  for delete
+  using (
+    exists (
+      select 1 from user_profiles
+      where user_profiles.user_id = auth.uid()
+      and user_profiles.is_admin = true
+    )
+  );
+
+-- 5. Enable RLS on job_invitations table
+alter table job_invitations enable row level security;
+
+-- 6. Create RLS policies for job_invitations table
+-- Admins can view all invitations
+create policy "Admins can view all invitations" on job_invitations
+  for select
+  using (
+    exists (
+      select 1 from user_profiles
+      where user_profiles.user_id = auth.uid()
+      and user_profiles.is_admin = true
+    )
+  );
+
+-- Users can view their own invitations
+create policy "Users can view their own invitations" on job_invitations
+  for select
+  using (user_id = auth.uid());
+
+-- Admins can insert invitations
+create policy "Admins can insert invitations" on job_invitations
+  for insert
+  with check (
+    exists (
+      select 1 from user_profiles
+      where user_profiles.user_id = auth.uid()
+      and user_profiles.is_admin = true
+    )
+  );
+
+-- Admins can delete invitations
+create policy "Admins can delete invitations" on job_invitations
+  for delete
+  using (
+    exists (
+      select 1 from user_profiles
+      where user_profiles.user_id = auth.uid()
+      and user_profiles.is_admin = true
+    )
+  );
+
+-- 7. Create indexes for better performance
+create index idx_jobs_created_by on jobs(created_by);
+create index idx_jobs_is_archived on jobs(is_archived);
+create index idx_job_invitations_job_id on job_invitations(job_id);
+create index idx_job_invitations_user_id on job_invitations(user_id);
+
+-- 8. Create updated_at trigger for jobs table
+create or replace function update_updated_at_column()
+returns trigger as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger update_jobs_updated_at
+  before update on jobs
+  for each row
+  execute function update_updated_at_column();
@@ -0,0 +1,63 @@
+-- Create scope_documents table
+CREATE TABLE scope_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  raw_content text NOT NULL,
+  file_name text,
+  file_type text,
+  file_uri text,
+  summary text,
+  uploaded_by uuid NOT NULL REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE scope_documents ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Admins can do everything
+CREATE POLICY "Admins can view all scope documents" 
+  ON scope_documents FOR SELECT 
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles 
+      WHERE user_profiles.user_id = auth.uid() 
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can insert scope documents" 
+  ON scope_documents FOR INSERT 
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles 
+      WHERE user_profiles.user_id = auth.uid() 
+      AND user_profiles.is_admin = true
+    )
+  );
+
+CREATE POLICY "Admins can update scope documents" 
+  ON scope_documents FOR UPDATE 
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles 
+      WHERE user_profiles.user_id = auth.uid() 
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Invited users can view scope documents for their jobs
+CREATE POLICY "Invited users can view scope documents" 
+  ON scope_documents FOR SELECT 
+  USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = scope_documents.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+  );
+
+-- Create index for performance
+CREATE INDEX idx_scope_documents_job_id ON scope_documents(job_id);
+CREATE INDEX idx_scope_documents_uploaded_by ON scope_documents(uploaded_by);
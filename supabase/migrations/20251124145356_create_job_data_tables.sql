@@ -0,0 +1,357 @@
+-- Create chat_messages table
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  message_text TEXT,
+  message_type TEXT NOT NULL DEFAULT 'text' CHECK (message_type IN ('text', 'image', 'voice')),
+  image_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create issues table
+CREATE TABLE IF NOT EXISTS issues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  issue_number SERIAL,
+  title TEXT NOT NULL,
+  assigned_to UUID REFERENCES auth.users(id),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'resolved', 'closed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create questions table
+CREATE TABLE IF NOT EXISTS questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  question_text TEXT NOT NULL,
+  asked_by UUID NOT NULL REFERENCES auth.users(id),
+  answered BOOLEAN NOT NULL DEFAULT false,
+  answer_text TEXT,
+  answered_by UUID REFERENCES auth.users(id),
+  answered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create actions table
+CREATE TABLE IF NOT EXISTS actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  action_text TEXT NOT NULL,
+  assigned_to UUID REFERENCES auth.users(id),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('high', 'medium', 'low')),
+  completed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Create completed_items table
+CREATE TABLE IF NOT EXISTS completed_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  item_text TEXT NOT NULL,
+  completed_by UUID NOT NULL REFERENCES auth.users(id),
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create warnings table
+CREATE TABLE IF NOT EXISTS warnings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  warning_text TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('high', 'medium', 'low')),
+  reported_by UUID NOT NULL REFERENCES auth.users(id),
+  resolved BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create deadlines table
+CREATE TABLE IF NOT EXISTS deadlines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  deadline_time TIMESTAMPTZ NOT NULL,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create dependencies table
+CREATE TABLE IF NOT EXISTS dependencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  dependent_task TEXT NOT NULL,
+  depends_on_task TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'blocked' CHECK (status IN ('blocked', 'waiting', 'ready', 'completed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create changelog table
+CREATE TABLE IF NOT EXISTS changelog (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  details TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on all tables
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE issues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE completed_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE warnings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deadlines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dependencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE changelog ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for chat_messages
+CREATE POLICY "Users can view messages for jobs they're invited to" ON chat_messages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = chat_messages.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = chat_messages.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert messages for jobs they're invited to" ON chat_messages
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM job_invitations 
+        WHERE job_invitations.job_id = chat_messages.job_id 
+        AND job_invitations.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM jobs 
+        WHERE jobs.id = chat_messages.job_id 
+        AND jobs.created_by = auth.uid()
+      )
+    )
+  );
+
+-- Create RLS policies for issues
+CREATE POLICY "Users can view issues for jobs they're invited to" ON issues
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = issues.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = issues.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage issues" ON issues
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles 
+      WHERE user_profiles.user_id = auth.uid() 
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Create RLS policies for questions
+CREATE POLICY "Users can view questions for jobs they're invited to" ON questions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = questions.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = questions.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert questions for jobs they're invited to" ON questions
+  FOR INSERT WITH CHECK (
+    asked_by = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM job_invitations 
+        WHERE job_invitations.job_id = questions.job_id 
+        AND job_invitations.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM jobs 
+        WHERE jobs.id = questions.job_id 
+        AND jobs.created_by = auth.uid()
+      )
+    )
+  );
+
+-- Create RLS policies for actions
+CREATE POLICY "Users can view actions for jobs they're invited to" ON actions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = actions.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = actions.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage actions" ON actions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles 
+      WHERE user_profiles.user_id = auth.uid() 
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Create RLS policies for completed_items
+CREATE POLICY "Users can view completed items for jobs they're invited to" ON completed_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = completed_items.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = completed_items.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert completed items for jobs they're invited to" ON completed_items
+  FOR INSERT WITH CHECK (
+    completed_by = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM job_invitations 
+        WHERE job_invitations.job_id = completed_items.job_id 
+        AND job_invitations.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM jobs 
+        WHERE jobs.id = completed_items.job_id 
+        AND jobs.created_by = auth.uid()
+      )
+    )
+  );
+
+-- Create RLS policies for warnings
+CREATE POLICY "Users can view warnings for jobs they're invited to" ON warnings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = warnings.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = warnings.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert warnings for jobs they're invited to" ON warnings
+  FOR INSERT WITH CHECK (
+    reported_by = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM job_invitations 
+        WHERE job_invitations.job_id = warnings.job_id 
+        AND job_invitations.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM jobs 
+        WHERE jobs.id = warnings.job_id 
+        AND jobs.created_by = auth.uid()
+      )
+    )
+  );
+
+-- Create RLS policies for deadlines
+CREATE POLICY "Users can view deadlines for jobs they're invited to" ON deadlines
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = deadlines.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = deadlines.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage deadlines" ON deadlines
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles 
+      WHERE user_profiles.user_id = auth.uid() 
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Create RLS policies for dependencies
+CREATE POLICY "Users can view dependencies for jobs they're invited to" ON dependencies
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = dependencies.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = dependencies.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage dependencies" ON dependencies
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles 
+      WHERE user_profiles.user_id = auth.uid() 
+      AND user_profiles.is_admin = true
+    )
+  );
+
+-- Create RLS policies for changelog
+CREATE POLICY "Users can view changelog for jobs they're invited to" ON changelog
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations 
+      WHERE job_invitations.job_id = changelog.job_id 
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs 
+      WHERE jobs.id = changelog.job_id 
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "System can insert changelog entries" ON changelog
+  FOR INSERT WITH CHECK (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_chat_messages_job_id ON chat_messages(job_id);
+CREATE INDEX IF NOT EXISTS idx_issues_job_id ON issues(job_id);
+CREATE INDEX IF NOT EXISTS idx_questions_job_id ON questions(job_id);
+CREATE INDEX IF NOT EXISTS idx_actions_job_id ON actions(job_id);
+CREATE INDEX IF NOT EXISTS idx_completed_items_job_id ON completed_items(job_id);
+CREATE INDEX IF NOT EXISTS idx_warnings_job_id ON warnings(job_id);
+CREATE INDEX IF NOT EXISTS idx_deadlines_job_id ON deadlines(job_id);
+CREATE INDEX IF NOT EXISTS idx_dependencies_job_id ON dependencies(job_id);
+CREATE INDEX IF NOT EXISTS idx_changelog_job_id ON changelog(job_id);
@@ -0,0 +1,12 @@
+-- Allow admins to view all user profiles
+-- (replaced by fix_rls_infinite_recursion: this policy queries user_profiles from
+-- a user_profiles policy and recurses)
+CREATE POLICY "Admins can view all profiles"
+  ON user_profiles FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles admin_profile
+      WHERE admin_profile.user_id = auth.uid()
+      AND admin_profile.is_admin = true
+    )
+  );
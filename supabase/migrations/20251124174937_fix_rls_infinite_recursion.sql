@@ -0,0 +1,53 @@
+-- Drop the problematic policies that cause infinite recursion
+DROP POLICY IF EXISTS "Admins can view all profiles" ON user_profiles;
+DROP POLICY IF EXISTS "Admins can view all jobs" ON jobs;
+DROP POLICY IF EXISTS "Admins can insert jobs" ON jobs;
+DROP POLICY IF EXISTS "Admins can update jobs" ON jobs;
+DROP POLICY IF EXISTS "Admins can delete jobs" ON jobs;
+
+-- Create a security definer function to check admin status
+-- This function bypasses RLS and prevents infinite recursion
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_profiles
+    WHERE user_id = auth.uid()
+    AND is_admin = true
+  );
+$$;
+
+-- Recreate the admin policies using the security definer function
+CREATE POLICY "Admins can view all profiles"
+  ON user_profiles
+  FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can view all jobs"
+  ON jobs
+  FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can insert jobs"
+  ON jobs
+  FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update jobs"
+  ON jobs
+  FOR UPDATE
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can delete jobs"
+  ON jobs
+  FOR DELETE
+  USING (public.is_admin());
+
+-- Grant execute permission on the function to authenticated users
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO anon;
@@ -0,0 +1,67 @@
+-- Fix actions table policies
+DROP POLICY IF EXISTS "Admins can manage actions" ON actions;
+CREATE POLICY "Admins can manage actions"
+  ON actions
+  FOR ALL
+  USING (public.is_admin());
+
+-- Fix deadlines table policies
+DROP POLICY IF EXISTS "Admins can manage deadlines" ON deadlines;
+CREATE POLICY "Admins can manage deadlines"
+  ON deadlines
+  FOR ALL
+  USING (public.is_admin());
+
+-- Fix dependencies table policies
+DROP POLICY IF EXISTS "Admins can manage dependencies" ON dependencies;
+CREATE POLICY "Admins can manage dependencies"
+  ON dependencies
+  FOR ALL
+  USING (public.is_admin());
+
+-- Fix issues table policies
+DROP POLICY IF EXISTS "Admins can manage issues" ON issues;
+CREATE POLICY "Admins can manage issues"
+  ON issues
+  FOR ALL
+  USING (public.is_admin());
+
+-- Fix job_invitations table policies
+DROP POLICY IF EXISTS "Admins can view all invitations" ON job_invitations;
+DROP POLICY IF EXISTS "Admins can insert invitations" ON job_invitations;
+DROP POLICY IF EXISTS "Admins can delete invitations" ON job_invitations;
+
+CREATE POLICY "Admins can view all invitations"
+  ON job_invitations
+  FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can insert invitations"
+  ON job_invitations
+  FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can delete invitations"
+  ON job_invitations
+  FOR DELETE
+  USING (public.is_admin());
+
+-- Fix scope_documents table policies
+DROP POLICY IF EXISTS "Admins can view all scope documents" ON scope_documents;
+DROP POLICY IF EXISTS "Admins can insert scope documents" ON scope_documents;
+DROP POLICY IF EXISTS "Admins can update scope documents" ON scope_documents;
+
+CREATE POLICY "Admins can view all scope documents"
+  ON scope_documents
+  FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can insert scope documents"
+  ON scope_documents
+  FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update scope documents"
+  ON scope_documents
+  FOR UPDATE
+  USING (public.is_admin());
@@ -0,0 +1,29 @@
+-- Add admin policies for changelog
+CREATE POLICY "Admins can manage changelog"
+  ON changelog
+  FOR ALL
+  USING (public.is_admin());
+
+-- Add admin policies for chat_messages
+CREATE POLICY "Admins can manage chat messages"
+  ON chat_messages
+  FOR ALL
+  USING (public.is_admin());
+
+-- Add admin policies for completed_items
+CREATE POLICY "Admins can manage completed items"
+  ON completed_items
+  FOR ALL
+  USING (public.is_admin());
+
+-- Add admin policies for questions
+CREATE POLICY "Admins can manage questions"
+  ON questions
+  FOR ALL
+  USING (public.is_admin());
+
+-- Add admin policies for warnings
+CREATE POLICY "Admins can manage warnings"
+  ON warnings
+  FOR ALL
+  USING (public.is_admin());
@@ -0,0 +1,4 @@
+-- Add unique constraint to prevent duplicate invitations
+ALTER TABLE job_invitations 
+ADD CONSTRAINT job_invitations_job_user_unique 
+UNIQUE (job_id, user_id);
@@ -0,0 +1,10 @@
+-- Add columns for chat processing timer system
+ALTER TABLE jobs 
+  ADD COLUMN last_processed_at TIMESTAMPTZ,
+  ADD COLUMN processing_scheduled_for TIMESTAMPTZ,
+  ADD COLUMN processing_status TEXT DEFAULT 'idle';
+
+-- Add constraint to ensure processing_status is valid
+ALTER TABLE jobs 
+  ADD CONSTRAINT processing_status_valid 
+  CHECK (processing_status IN ('idle', 'scheduled', 'running'));
@@ -0,0 +1,25 @@
+-- Create function to update job processing schedule when chat message is inserted
+CREATE OR REPLACE FUNCTION update_job_processing_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Update the parent job's processing schedule
+  -- Set processing_scheduled_for to 2 minutes from now
+  -- Set processing_status to 'scheduled' unless it's currently 'running'
+  UPDATE jobs
+  SET 
+    processing_scheduled_for = NOW() + INTERVAL '2 minutes',
+    processing_status = CASE 
+      WHEN processing_status = 'running' THEN 'running'
+      ELSE 'scheduled'
+    END
+  WHERE id = NEW.job_id;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger on chat_messages INSERT
+CREATE TRIGGER chat_message_processing_trigger
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_job_processing_schedule();
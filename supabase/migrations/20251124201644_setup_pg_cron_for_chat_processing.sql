@@ -0,0 +1,44 @@
+-- Enable pg_cron extension if not already enabled
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Grant usage on cron schema to postgres role
+GRANT USAGE ON SCHEMA cron TO postgres;
+
+-- Create a function to call the edge function via HTTP
+CREATE OR REPLACE FUNCTION trigger_chat_batch_processing()
+RETURNS void AS $$
+DECLARE
+  supabase_url text;
+  anon_key text;
+  result text;
+BEGIN
+  -- Get the Supabase URL from environment or use default
+  -- Note: In production, you'll need to set these properly
+  supabase_url := current_setting('app.settings.supabase_url', true);
+  anon_key := current_setting('app.settings.anon_key', true);
+  
+  -- If settings are not configured, use pg_net to call the edge function
+  -- This requires the pg_net extension
+  PERFORM net.http_post(
+    url := supabase_url || '/functions/v1/process-chat-batch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || anon_key
+    ),
+    body := '{}'::jsonb
+  );
+  
+  RAISE NOTICE 'Triggered chat batch processing';
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error triggering chat batch processing: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Schedule the function to run every minute
+-- Note: pg_cron uses standard cron syntax
+SELECT cron.schedule(
+  'process-chat-batch-every-minute',  -- job name
+  '* * * * *',                         -- every minute
+  'SELECT trigger_chat_batch_processing();'
+);
@@ -0,0 +1,39 @@
+-- Enable pg_net extension for HTTP requests
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Drop the old cron job if it exists
+SELECT cron.unschedule('process-chat-batch-every-minute');
+
+-- Drop the old function
+DROP FUNCTION IF EXISTS trigger_chat_batch_processing();
+
+-- Create a new function to call the edge function via HTTP using pg_net
+CREATE OR REPLACE FUNCTION trigger_chat_batch_processing()
+RETURNS void AS $$
+DECLARE
+  request_id bigint;
+BEGIN
+  -- Call the edge function using pg_net
+  -- The URL will be constructed using the Supabase project URL
+  SELECT net.http_post(
+    url := current_setting('app.settings.api_external_url', true) || '/functions/v1/process-chat-batch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+    ),
+    body := '{}'::jsonb
+  ) INTO request_id;
+  
+  RAISE LOG 'Triggered chat batch processing, request_id: %', request_id;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error triggering chat batch processing: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Schedule the function to run every minute
+SELECT cron.schedule(
+  'process-chat-batch-every-minute',
+  '* * * * *',
+  'SELECT trigger_chat_batch_processing();'
+);
@@ -0,0 +1,24 @@
+-- Add AI state columns to jobs table
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS job_overview TEXT,
+ADD COLUMN IF NOT EXISTS open_issues JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS unanswered_questions JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS resolved_questions JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS next_actions JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS completed_items JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS warnings_and_risks JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS deadlines_and_timelines JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS dependencies JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS ai_changelog JSONB DEFAULT '[]'::jsonb;
+
+-- Add comment to explain the structure
+COMMENT ON COLUMN jobs.job_overview IS 'AI-generated job overview summary (max 250 words)';
+COMMENT ON COLUMN jobs.open_issues IS 'Array of open issues detected by AI';
+COMMENT ON COLUMN jobs.unanswered_questions IS 'Array of unanswered questions detected by AI';
+COMMENT ON COLUMN jobs.resolved_questions IS 'Array of resolved questions with answers';
+COMMENT ON COLUMN jobs.next_actions IS 'Array of action items detected by AI';
+COMMENT ON COLUMN jobs.completed_items IS 'Array of completed items (from resolved issues, completed actions, etc.)';
+COMMENT ON COLUMN jobs.warnings_and_risks IS 'Array of warnings and risks detected by AI';
+COMMENT ON COLUMN jobs.deadlines_and_timelines IS 'Array of deadlines and timeline information';
+COMMENT ON COLUMN jobs.dependencies IS 'Array of dependencies (things crew is waiting on)';
+COMMENT ON COLUMN jobs.ai_changelog IS 'Complete audit trail of all AI-made changes';
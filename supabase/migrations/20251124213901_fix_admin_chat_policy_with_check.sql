@@ -0,0 +1,9 @@
+-- Drop the existing admin policy
+DROP POLICY IF EXISTS "Admins can manage chat messages" ON chat_messages;
+
+-- Recreate with WITH CHECK clause
+CREATE POLICY "Admins can manage chat messages" 
+ON chat_messages 
+FOR ALL 
+USING (is_admin())
+WITH CHECK (is_admin());
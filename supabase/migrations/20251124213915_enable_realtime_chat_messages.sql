@@ -0,0 +1,2 @@
+-- Enable Realtime for chat_messages table
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_messages;
@@ -0,0 +1,8 @@
+-- Update the processing_status constraint to include 'completed' and 'failed' statuses
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS processing_status_valid;
+
+ALTER TABLE jobs ADD CONSTRAINT processing_status_valid 
+  CHECK (processing_status = ANY (ARRAY['idle'::text, 'scheduled'::text, 'running'::text, 'completed'::text, 'failed'::text]));
+
+-- Update the default value comment
+COMMENT ON COLUMN jobs.processing_status IS 'Status of chat processing: idle (no processing needed), scheduled (processing scheduled), running (currently processing), completed (recently completed), failed (processing failed)';
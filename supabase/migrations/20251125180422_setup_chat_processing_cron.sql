@@ -0,0 +1,38 @@
+-- Create a function to call the process-chat-batch edge function
+CREATE OR REPLACE FUNCTION call_process_chat_batch()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  request_id bigint;
+  service_key text;
+BEGIN
+  -- Get the service role key from the vault or environment
+  -- For now, we'll use pg_net to make the HTTP call
+  -- The edge function will handle authentication via JWT
+  
+  SELECT net.http_post(
+    url := 'https://aidftnnusaeckhfambep.supabase.co/functions/v1/process-chat-batch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json'
+    ),
+    body := '{}'::jsonb
+  ) INTO request_id;
+  
+  RAISE LOG 'Triggered chat batch processing via cron, request_id: %', request_id;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error calling process-chat-batch: %', SQLERRM;
+END;
+$$;
+
+-- Create the cron job to run every minute
+SELECT cron.schedule(
+  'process-chat-batch-cron',
+  '* * * * *',
+  'SELECT call_process_chat_batch();'
+);
+
+-- Grant execute permission to the postgres role
+GRANT EXECUTE ON FUNCTION call_process_chat_batch() TO postgres;
@@ -0,0 +1,61 @@
+-- Drop the existing cron job
+SELECT cron.unschedule('process-chat-batch-cron');
+
+-- Drop the old function
+DROP FUNCTION IF EXISTS call_process_chat_batch();
+
+-- Create a new approach: Instead of calling the edge function via HTTP,
+-- we'll have the cron job directly mark jobs as ready for processing
+-- and the edge function can be called manually or via a separate trigger
+
+-- Create a function that processes jobs directly in the database
+CREATE OR REPLACE FUNCTION auto_trigger_scheduled_jobs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  job_record RECORD;
+  request_id bigint;
+BEGIN
+  -- Find jobs that are scheduled and past their scheduled time
+  FOR job_record IN 
+    SELECT id 
+    FROM jobs 
+    WHERE processing_status = 'scheduled' 
+    AND processing_scheduled_for <= NOW()
+    LIMIT 5  -- Process max 5 jobs per minute to avoid overload
+  LOOP
+    -- Call the edge function for this specific job using pg_net
+    -- Note: This requires the edge function to accept unauthenticated calls
+    -- or we need to pass a service role key
+    SELECT net.http_post(
+      url := 'https://aidftnnusaeckhfambep.supabase.co/functions/v1/process-chat-batch',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'apikey', current_setting('app.supabase_anon_key', true)
+      ),
+      body := jsonb_build_object('job_id', job_record.id)
+    ) INTO request_id;
+    
+    RAISE LOG 'Triggered processing for job %, request_id: %', job_record.id, request_id;
+  END LOOP;
+  
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error in auto_trigger_scheduled_jobs: %', SQLERRM;
+END;
+$$;
+
+-- Create the cron job to run every minute
+SELECT cron.schedule(
+  'auto-process-scheduled-jobs',
+  '* * * * *',
+  'SELECT auto_trigger_scheduled_jobs();'
+);
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION auto_trigger_scheduled_jobs() TO postgres;
+
+COMMENT ON FUNCTION auto_trigger_scheduled_jobs() IS 
+'Automatically triggers the process-chat-batch edge function for jobs that are scheduled and past their scheduled time. Runs every minute via pg_cron.';
@@ -0,0 +1,4 @@
+-- Remove the original every-minute cron job. It called trigger_chat_batch_processing(),
+-- which relies on app.settings values that are never set; auto_trigger_scheduled_jobs()
+-- replaces it.
+SELECT cron.unschedule('process-chat-batch-every-minute');
@@ -0,0 +1,35 @@
+-- Create push_tokens table (Expo push tokens per user device)
+CREATE TABLE IF NOT EXISTS push_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expo_push_token TEXT NOT NULL,
+  device_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(user_id, expo_push_token)
+);
+
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tokens"
+ON push_tokens FOR ALL USING (auth.uid() = user_id);
+
+-- Create chat_read_status table (last read time per user per job)
+CREATE TABLE IF NOT EXISTS chat_read_status (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(user_id, job_id)
+);
+
+ALTER TABLE chat_read_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own read status"
+ON chat_read_status FOR ALL USING (auth.uid() = user_id);
+
+-- Indexes for unread count queries
+CREATE INDEX IF NOT EXISTS idx_chat_messages_job_created
+ON chat_messages(job_id, created_at);
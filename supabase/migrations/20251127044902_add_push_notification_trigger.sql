@@ -0,0 +1,53 @@
+-- Create a function to call the edge function via HTTP
+CREATE OR REPLACE FUNCTION notify_new_chat_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  request_id bigint;
+  supabase_url text;
+  service_role_key text;
+BEGIN
+  -- Get Supabase URL from environment (this will be the project URL)
+  supabase_url := current_setting('app.settings.supabase_url', true);
+  service_role_key := current_setting('app.settings.service_role_key', true);
+  
+  -- If settings are not available, use default pattern
+  IF supabase_url IS NULL THEN
+    supabase_url := 'https://aidftnnusaeckhfambep.supabase.co';
+  END IF;
+  
+  -- Make async HTTP request to edge function
+  -- Using pg_net extension if available, otherwise skip
+  BEGIN
+    SELECT net.http_post(
+      url := supabase_url || '/functions/v1/send-chat-notification',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || COALESCE(service_role_key, '')
+      ),
+      body := jsonb_build_object(
+        'type', 'INSERT',
+        'table', 'chat_messages',
+        'record', row_to_json(NEW),
+        'old_record', NULL
+      )
+    ) INTO request_id;
+    
+    RAISE NOTICE 'Push notification request sent with ID: %', request_id;
+  EXCEPTION WHEN OTHERS THEN
+    -- Log error but don't fail the insert
+    RAISE WARNING 'Failed to send push notification: %', SQLERRM;
+  END;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger to call the function after insert
+DROP TRIGGER IF EXISTS send_push_notification_trigger ON chat_messages;
+CREATE TRIGGER send_push_notification_trigger
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_chat_message();
+
+-- Add comment
+COMMENT ON FUNCTION notify_new_chat_message() IS 'Sends push notifications when new chat messages are inserted';
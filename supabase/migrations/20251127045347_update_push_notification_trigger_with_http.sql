@@ -0,0 +1,44 @@
+-- Enable http extension if not already enabled
+CREATE EXTENSION IF NOT EXISTS http;
+
+-- Drop the old function and trigger
+DROP TRIGGER IF EXISTS send_push_notification_trigger ON chat_messages;
+DROP FUNCTION IF EXISTS notify_new_chat_message();
+
+-- Create a simpler function using http extension
+CREATE OR REPLACE FUNCTION notify_new_chat_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  request_id bigint;
+BEGIN
+  -- Make async HTTP request to edge function using pg_net
+  -- The edge function will handle authentication internally
+  PERFORM net.http_post(
+    url := 'https://aidftnnusaeckhfambep.supabase.co/functions/v1/send-chat-notification',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json'
+    ),
+    body := jsonb_build_object(
+      'type', 'INSERT',
+      'table', 'chat_messages',
+      'record', row_to_json(NEW),
+      'old_record', NULL
+    )
+  );
+  
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Log error but don't fail the insert
+  RAISE WARNING 'Failed to send push notification: %', SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger to call the function after insert
+CREATE TRIGGER send_push_notification_trigger
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_chat_message();
+
+-- Add comment
+COMMENT ON FUNCTION notify_new_chat_message() IS 'Sends push notifications when new chat messages are inserted using pg_net';
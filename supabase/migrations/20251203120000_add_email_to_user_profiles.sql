@@ -0,0 +1,37 @@
+-- Add email to user_profiles so admins can list users (password reset picker)
+-- without calling the auth admin API from the client
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS email TEXT;
+
+-- Backfill from auth.users
+UPDATE user_profiles
+SET email = auth_users.email
+FROM auth.users auth_users
+WHERE auth_users.id = user_profiles.user_id
+AND user_profiles.email IS DISTINCT FROM auth_users.email;
+
+-- Keep the copy in sync when a user's email changes
+CREATE OR REPLACE FUNCTION sync_user_profile_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_profiles
+  SET email = NEW.email,
+      updated_at = now()
+  WHERE user_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_updated ON auth.users;
+CREATE TRIGGER on_auth_user_email_updated
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION sync_user_profile_email();
+
+COMMENT ON COLUMN user_profiles.email IS 'Copy of auth.users.email, kept in sync by on_auth_user_email_updated';
@@ -0,0 +1,112 @@
+-- Read the project URL and service role key from Vault instead of hard-coding the
+-- production URL and anon key, so the same migrations work against a local stack.
+--
+-- Each environment needs two Vault secrets:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+
+CREATE OR REPLACE FUNCTION invoke_edge_function(function_name text, body jsonb DEFAULT '{}'::jsonb)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+  request_id bigint;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE WARNING 'Vault secrets project_url and service_role_key are required to call %', function_name;
+    RETURN NULL;
+  END IF;
+
+  SELECT net.http_post(
+    url := project_url || '/functions/v1/' || function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := body
+  ) INTO request_id;
+
+  RETURN request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION invoke_edge_function(text, jsonb) IS
+'Calls an edge function via pg_net using the project_url and service_role_key Vault secrets. Returns the pg_net request id.';
+
+-- Scheduled chat processing
+CREATE OR REPLACE FUNCTION auto_trigger_scheduled_jobs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job_record RECORD;
+  request_id bigint;
+BEGIN
+  -- Find jobs that are scheduled and past their scheduled time
+  FOR job_record IN
+    SELECT id
+    FROM jobs
+    WHERE processing_status = 'scheduled'
+    AND processing_scheduled_for <= NOW()
+    LIMIT 5  -- Process max 5 jobs per minute to avoid overload
+  LOOP
+    request_id := invoke_edge_function('process-chat-batch', jsonb_build_object('job_id', job_record.id));
+
+    RAISE LOG 'Triggered processing for job %, request_id: %', job_record.id, request_id;
+  END LOOP;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error in auto_trigger_scheduled_jobs: %', SQLERRM;
+END;
+$$;
+
+COMMENT ON FUNCTION auto_trigger_scheduled_jobs() IS
+'Automatically triggers the process-chat-batch edge function for jobs that are scheduled and past their scheduled time. Runs every minute via pg_cron.';
+
+-- Push notifications for new chat messages
+CREATE OR REPLACE FUNCTION notify_new_chat_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM invoke_edge_function(
+    'send-chat-notification',
+    jsonb_build_object(
+      'type', 'INSERT',
+      'table', 'chat_messages',
+      'record', row_to_json(NEW),
+      'old_record', NULL
+    )
+  );
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Log error but don't fail the insert
+  RAISE WARNING 'Failed to send push notification: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION notify_new_chat_message() IS 'Sends push notifications when new chat messages are inserted using pg_net';
+
+-- trigger_chat_batch_processing() lost its cron job in remove_legacy_chat_batch_cron
+DROP FUNCTION IF EXISTS trigger_chat_batch_processing();
@@ -0,0 +1,76 @@
+-- Return every active job the caller can see together with their unread chat
+-- count and latest message, so the home screen loads in a single request.
+-- SECURITY INVOKER keeps the existing RLS policies on jobs, chat_messages and
+-- chat_read_status in charge of what each user sees.
+CREATE OR REPLACE FUNCTION get_job_list()
+RETURNS TABLE (
+  id uuid,
+  job_name text,
+  site_name text,
+  start_date date,
+  is_archived boolean,
+  created_by uuid,
+  created_at timestamptz,
+  updated_at timestamptz,
+  processing_status text,
+  processing_scheduled_for timestamptz,
+  last_processed_at timestamptz,
+  unread_count integer,
+  last_message_text text,
+  last_message_type text,
+  last_message_user_id uuid,
+  last_message_at timestamptz,
+  last_activity_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    j.id,
+    j.job_name,
+    j.site_name,
+    j.start_date,
+    j.is_archived,
+    j.created_by,
+    j.created_at,
+    j.updated_at,
+    j.processing_status,
+    j.processing_scheduled_for,
+    j.last_processed_at,
+    COALESCE(unread.message_count, 0)::integer AS unread_count,
+    last_message.message_text AS last_message_text,
+    last_message.message_type AS last_message_type,
+    last_message.user_id AS last_message_user_id,
+    last_message.created_at AS last_message_at,
+    -- GREATEST ignores NULLs, so jobs without messages fall back to updated_at
+    GREATEST(j.updated_at, last_message.created_at) AS last_activity_at
+  FROM jobs j
+  LEFT JOIN chat_read_status read_status
+    ON read_status.job_id = j.id
+    AND read_status.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT cm.message_text, cm.message_type, cm.user_id, cm.created_at
+    FROM chat_messages cm
+    WHERE cm.job_id = j.id
+    ORDER BY cm.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN LATERAL (
+    -- Messages from others since the last read; everything counts if the chat was never opened
+    SELECT COUNT(*) AS message_count
+    FROM chat_messages cm
+    WHERE cm.job_id = j.id
+    AND cm.user_id <> auth.uid()
+    AND (read_status.last_read_at IS NULL OR cm.created_at > read_status.last_read_at)
+  ) unread ON true
+  WHERE j.is_archived IS NOT TRUE
+  ORDER BY j.start_date ASC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_job_list() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_job_list() TO authenticated;
+
+COMMENT ON FUNCTION get_job_list() IS
+'Active jobs visible to the caller with unread_count, latest message preview and last_activity_at. Used by the home screen.';
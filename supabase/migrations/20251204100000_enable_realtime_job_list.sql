@@ -0,0 +1,5 @@
+-- Enable Realtime for the tables behind the home screen job list.
+-- chat_messages is already published (20251124213915_enable_realtime_chat_messages).
+ALTER PUBLICATION supabase_realtime ADD TABLE jobs;
+ALTER PUBLICATION supabase_realtime ADD TABLE job_invitations;
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_read_status;
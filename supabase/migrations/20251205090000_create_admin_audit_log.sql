@@ -0,0 +1,26 @@
+-- Audit trail for account actions performed through the admin-users edge function
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('get_user', 'reset_password', 'deactivate_user', 'reactivate_user')),
+  target_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read the log; rows are only written by the edge function with the service role
+CREATE POLICY "Admins can view audit log"
+ON admin_audit_log FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created
+ON admin_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target
+ON admin_audit_log(target_user_id, created_at DESC);
+
+-- Mirror the auth ban on the profile so the app can show deactivated users
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMPTZ;
@@ -0,0 +1,136 @@
+-- Optional per-job review mode: when enabled, process-chat-batch stores the
+-- changes it proposes in pending_changes instead of writing them to the job
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS review_mode BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS pending_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL,
+  -- Same shape as an ai_changelog entry
+  change JSONB NOT NULL,
+  -- Completed item produced when a resolve/complete/clear change is accepted
+  completed_item JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_changes_job_status
+ON pending_changes(job_id, status, created_at);
+
+ALTER TABLE pending_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pending changes for jobs they're invited to" ON pending_changes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations
+      WHERE job_invitations.job_id = pending_changes.job_id
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = pending_changes.job_id
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all pending changes" ON pending_changes
+  FOR SELECT USING (public.is_admin());
+
+-- Accept or reject a pending change. Accepted changes are applied to the job's
+-- summary columns and appended to ai_changelog in the same transaction.
+CREATE OR REPLACE FUNCTION review_pending_change(pending_change_id uuid, accept boolean)
+RETURNS pending_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pending pending_changes;
+  change_section text;
+  change_type text;
+  target_id text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review AI changes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO pending FROM pending_changes WHERE id = pending_change_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending change % not found', pending_change_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF pending.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change has already been %', pending.status;
+  END IF;
+
+  IF accept THEN
+    change_section := pending.change->>'section';
+    change_type := pending.change->>'change_type';
+    target_id := pending.change->'previous_value'->>'id';
+
+    IF change_section = 'job_overview' THEN
+      UPDATE jobs SET job_overview = pending.change->>'new_value' WHERE id = pending.job_id;
+
+    ELSIF change_section NOT IN (
+      'open_issues', 'unanswered_questions', 'next_actions',
+      'warnings_and_risks', 'deadlines_and_timelines', 'dependencies'
+    ) THEN
+      RAISE EXCEPTION 'Unsupported section: %', change_section;
+
+    ELSIF change_type = 'created' THEN
+      EXECUTE format(
+        'UPDATE jobs SET %I = COALESCE(%I, ''[]''::jsonb) || jsonb_build_array($1) WHERE id = $2',
+        change_section, change_section
+      ) USING pending.change->'new_value', pending.job_id;
+
+    ELSE
+      -- resolved, completed, cleared and answered all remove the original item
+      EXECUTE format(
+        'UPDATE jobs SET %I = (
+           SELECT COALESCE(jsonb_agg(item ORDER BY position), ''[]''::jsonb)
+           FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+           WHERE item->>''id'' IS DISTINCT FROM $1
+         ) WHERE id = $2',
+        change_section, change_section
+      ) USING target_id, pending.job_id;
+
+      IF change_type = 'answered' THEN
+        UPDATE jobs
+        SET resolved_questions = COALESCE(resolved_questions, '[]'::jsonb) || jsonb_build_array(pending.change->'new_value')
+        WHERE id = pending.job_id;
+      END IF;
+    END IF;
+
+    IF pending.completed_item IS NOT NULL THEN
+      UPDATE jobs
+      SET completed_items = COALESCE(completed_items, '[]'::jsonb) || jsonb_build_array(pending.completed_item)
+      WHERE id = pending.job_id;
+    END IF;
+
+    UPDATE jobs
+    SET ai_changelog = COALESCE(ai_changelog, '[]'::jsonb) || jsonb_build_array(
+      pending.change || jsonb_build_object('reviewed_by', auth.uid(), 'reviewed_at', now())
+    )
+    WHERE id = pending.job_id;
+  END IF;
+
+  UPDATE pending_changes
+  SET
+    status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = pending_change_id
+  RETURNING * INTO pending;
+
+  RETURN pending;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION review_pending_change(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_pending_change(uuid, boolean) TO authenticated;
+
+COMMENT ON FUNCTION review_pending_change(uuid, boolean) IS
+'Accepts (applies and logs to ai_changelog) or rejects a change proposed by process-chat-batch in review mode. Admins only.';
@@ -0,0 +1,55 @@
+-- Immutable snapshot of a job's summary after each process-chat-batch run, so
+-- the history screen can compare what the job looked like at any two points
+CREATE TABLE IF NOT EXISTS job_summary_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  job_overview TEXT,
+  open_issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+  unanswered_questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  resolved_questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  next_actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  completed_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  warnings_and_risks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  deadlines_and_timelines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  dependencies JSONB NOT NULL DEFAULT '[]'::jsonb,
+  messages_processed INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_summary_snapshots_job_created
+ON job_summary_snapshots(job_id, created_at DESC);
+
+-- Snapshots are written once by the edge function and never changed
+CREATE OR REPLACE FUNCTION prevent_job_summary_snapshot_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Job summary snapshots are immutable';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS job_summary_snapshots_immutable ON job_summary_snapshots;
+CREATE TRIGGER job_summary_snapshots_immutable
+  BEFORE UPDATE ON job_summary_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_job_summary_snapshot_update();
+
+ALTER TABLE job_summary_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view snapshots for jobs they're invited to" ON job_summary_snapshots
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM job_invitations
+      WHERE job_invitations.job_id = job_summary_snapshots.job_id
+      AND job_invitations.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_summary_snapshots.job_id
+      AND jobs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all snapshots" ON job_summary_snapshots
+  FOR SELECT USING (public.is_admin());
@@ -0,0 +1,35 @@
+-- Per-job log of process-chat-batch runs, used for automatic retries and the
+-- admin diagnostics panel in SummaryTab
+CREATE TABLE IF NOT EXISTS processing_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL DEFAULT 'scheduled' CHECK (trigger IN ('scheduled', 'manual')),
+  attempt INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'skipped', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  -- Range of chat messages the run covered
+  message_count INTEGER NOT NULL DEFAULT 0,
+  first_message_at TIMESTAMPTZ,
+  last_message_at TIMESTAMPTZ,
+  changes_made INTEGER,
+  error_class TEXT,
+  error_message TEXT,
+  -- Set on failed runs that will be retried automatically
+  next_retry_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_runs_job_started
+ON processing_runs(job_id, started_at DESC);
+
+ALTER TABLE processing_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role; only admins read them
+CREATE POLICY "Admins can view processing runs" ON processing_runs
+  FOR SELECT USING (public.is_admin());
+
+-- Consecutive failed attempts for the job's current batch, reset on success
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS processing_attempts INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN jobs.processing_attempts IS
+'Consecutive failed process-chat-batch attempts. Failed runs are rescheduled with exponential backoff until the retry limit is reached, then processing_status becomes failed.';
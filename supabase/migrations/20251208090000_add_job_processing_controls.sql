@@ -0,0 +1,137 @@
+-- Per-job controls for automatic chat processing, managed by admins from SummaryTab
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS processing_paused BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS processing_debounce_minutes INTEGER NOT NULL DEFAULT 2
+  CHECK (processing_debounce_minutes BETWEEN 1 AND 1440);
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS processing_business_hours BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS business_hours_start TIME NOT NULL DEFAULT '07:00';
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS business_hours_end TIME NOT NULL DEFAULT '17:00';
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS business_hours_timezone TEXT NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE jobs ADD CONSTRAINT business_hours_valid CHECK (business_hours_start < business_hours_end);
+
+COMMENT ON COLUMN jobs.processing_paused IS
+'When true, scheduled batches are held until processing is resumed. Manual runs still work.';
+COMMENT ON COLUMN jobs.processing_debounce_minutes IS
+'Minutes to wait after the latest chat message before processing the batch.';
+COMMENT ON COLUMN jobs.processing_business_hours IS
+'When true, automatic processing only runs Monday to Friday between business_hours_start and business_hours_end in business_hours_timezone.';
+
+-- Runs cancelled from SummaryTab while in flight are recorded as 'cancelled'
+ALTER TABLE processing_runs DROP CONSTRAINT IF EXISTS processing_runs_status_check;
+ALTER TABLE processing_runs ADD CONSTRAINT processing_runs_status_check
+  CHECK (status IN ('running', 'succeeded', 'skipped', 'failed', 'cancelled'));
+
+-- Earliest time at or after `earliest` that falls inside the job's processing window
+CREATE OR REPLACE FUNCTION processing_window_opens_at(
+  earliest timestamptz,
+  business_hours boolean,
+  hours_start time,
+  hours_end time,
+  tz text
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  local_time timestamp;
+  day_start timestamp;
+BEGIN
+  IF NOT business_hours THEN
+    RETURN earliest;
+  END IF;
+
+  local_time := earliest AT TIME ZONE tz;
+
+  -- A week ahead always reaches the next weekday
+  FOR day_offset IN 0..7 LOOP
+    day_start := date_trunc('day', local_time) + day_offset * INTERVAL '1 day';
+
+    IF EXTRACT(ISODOW FROM day_start) <= 5 THEN
+      IF day_offset = 0 AND local_time::time >= hours_start AND local_time::time < hours_end THEN
+        RETURN earliest;
+      END IF;
+
+      IF day_start + hours_start > local_time THEN
+        RETURN (day_start + hours_start) AT TIME ZONE tz;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN earliest;
+END;
+$$;
+
+COMMENT ON FUNCTION processing_window_opens_at(timestamptz, boolean, time, time, text) IS
+'Returns earliest if it falls within business hours (or business hours are off), otherwise the start of the next weekday window in the given timezone.';
+
+-- Debounce and business hours now come from the job. SECURITY DEFINER because
+-- the sender may not be allowed to update the job row under RLS.
+CREATE OR REPLACE FUNCTION update_job_processing_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Set processing_status to 'scheduled' unless it's currently 'running'
+  UPDATE jobs
+  SET
+    processing_scheduled_for = processing_window_opens_at(
+      NOW() + make_interval(mins => processing_debounce_minutes),
+      processing_business_hours,
+      business_hours_start,
+      business_hours_end,
+      business_hours_timezone
+    ),
+    processing_status = CASE
+      WHEN processing_status = 'running' THEN 'running'
+      ELSE 'scheduled'
+    END
+  WHERE id = NEW.job_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Paused jobs stay 'scheduled' so resuming processes the waiting batch
+CREATE OR REPLACE FUNCTION auto_trigger_scheduled_jobs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job_record RECORD;
+  request_id bigint;
+BEGIN
+  -- Find jobs that are scheduled, past their scheduled time and inside their processing window
+  FOR job_record IN
+    SELECT id
+    FROM jobs
+    WHERE processing_status = 'scheduled'
+    AND processing_scheduled_for <= NOW()
+    AND NOT processing_paused
+    AND processing_window_opens_at(
+      NOW(),
+      processing_business_hours,
+      business_hours_start,
+      business_hours_end,
+      business_hours_timezone
+    ) <= NOW()
+    LIMIT 5  -- Process max 5 jobs per minute to avoid overload
+  LOOP
+    request_id := invoke_edge_function('process-chat-batch', jsonb_build_object('job_id', job_record.id));
+
+    RAISE LOG 'Triggered processing for job %, request_id: %', job_record.id, request_id;
+  END LOOP;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error in auto_trigger_scheduled_jobs: %', SQLERRM;
+END;
+$$;
+
+COMMENT ON FUNCTION auto_trigger_scheduled_jobs() IS
+'Automatically triggers the process-chat-batch edge function for jobs that are scheduled, past their scheduled time, not paused and inside their business hours. Runs every minute via pg_cron.';
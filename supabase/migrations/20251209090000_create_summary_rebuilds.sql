@@ -0,0 +1,136 @@
+-- Full rebuilds of a job summary from the baseline scope and the entire chat
+-- history. process-chat-batch writes the rebuilt summary here as a preview; an
+-- admin then applies or discards it from the rebuild screen.
+CREATE TABLE IF NOT EXISTS summary_rebuilds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'ready', 'failed', 'applied', 'discarded')),
+  -- Progress while running
+  chunks_total INTEGER NOT NULL DEFAULT 0,
+  chunks_done INTEGER NOT NULL DEFAULT 0,
+  messages_processed INTEGER NOT NULL DEFAULT 0,
+  -- Newest message included, so incremental processing can continue from it
+  last_message_at TIMESTAMPTZ,
+  job_overview TEXT,
+  open_issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+  unanswered_questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  resolved_questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  next_actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  completed_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  warnings_and_risks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  deadlines_and_timelines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  dependencies JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  applied_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  applied_at TIMESTAMPTZ
+);
+
+-- One rebuild in progress or awaiting review per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_summary_rebuilds_one_open_per_job
+ON summary_rebuilds(job_id) WHERE status IN ('running', 'ready');
+
+CREATE INDEX IF NOT EXISTS idx_summary_rebuilds_job_created
+ON summary_rebuilds(job_id, created_at DESC);
+
+ALTER TABLE summary_rebuilds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view summary rebuilds" ON summary_rebuilds
+  FOR SELECT USING (public.is_admin());
+
+-- Discarding a preview is a plain update; applying goes through apply_summary_rebuild
+CREATE POLICY "Admins can update summary rebuilds" ON summary_rebuilds
+  FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE summary_rebuilds;
+
+-- Replace the job summary with a ready rebuild
+CREATE OR REPLACE FUNCTION apply_summary_rebuild(target_rebuild_id uuid)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rebuild summary_rebuilds;
+  job jobs;
+  has_newer_messages boolean;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can apply summary rebuilds' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO rebuild FROM summary_rebuilds WHERE id = target_rebuild_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Summary rebuild % not found', target_rebuild_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF rebuild.status <> 'ready' THEN
+    RAISE EXCEPTION 'Summary rebuild is %, not ready', rebuild.status;
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = rebuild.job_id FOR UPDATE;
+
+  -- A batch in flight would overwrite the rebuilt summary with its own result
+  IF job.processing_status = 'running' THEN
+    RAISE EXCEPTION 'Chat processing is running for this job, try again shortly';
+  END IF;
+
+  -- Messages sent after the rebuild started are processed incrementally on top of it
+  SELECT EXISTS (
+    SELECT 1 FROM chat_messages
+    WHERE chat_messages.job_id = rebuild.job_id
+    AND (rebuild.last_message_at IS NULL OR chat_messages.created_at > rebuild.last_message_at)
+  ) INTO has_newer_messages;
+
+  UPDATE jobs
+  SET
+    job_overview = rebuild.job_overview,
+    open_issues = rebuild.open_issues,
+    unanswered_questions = rebuild.unanswered_questions,
+    resolved_questions = rebuild.resolved_questions,
+    next_actions = rebuild.next_actions,
+    completed_items = rebuild.completed_items,
+    warnings_and_risks = rebuild.warnings_and_risks,
+    deadlines_and_timelines = rebuild.deadlines_and_timelines,
+    dependencies = rebuild.dependencies,
+    last_processed_at = COALESCE(rebuild.last_message_at, jobs.last_processed_at),
+    processing_status = CASE WHEN has_newer_messages THEN 'scheduled' ELSE jobs.processing_status END,
+    processing_scheduled_for = CASE WHEN has_newer_messages THEN NOW() ELSE jobs.processing_scheduled_for END,
+    processing_attempts = 0
+  WHERE id = rebuild.job_id
+  RETURNING * INTO job;
+
+  UPDATE summary_rebuilds
+  SET status = 'applied', applied_by = auth.uid(), applied_at = NOW(), updated_at = NOW()
+  WHERE id = rebuild.id;
+
+  INSERT INTO job_summary_snapshots (
+    job_id, job_overview, open_issues, unanswered_questions, resolved_questions, next_actions,
+    completed_items, warnings_and_risks, deadlines_and_timelines, dependencies, messages_processed
+  )
+  VALUES (
+    job.id, job.job_overview, job.open_issues, job.unanswered_questions, job.resolved_questions, job.next_actions,
+    job.completed_items, job.warnings_and_risks, job.deadlines_and_timelines, job.dependencies, rebuild.messages_processed
+  );
+
+  INSERT INTO changelog (job_id, action, details, user_id)
+  VALUES (
+    job.id,
+    'Rebuilt summary',
+    format('Replaced the summary with a rebuild from the scope and %s chat messages', rebuild.messages_processed),
+    auth.uid()
+  );
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_summary_rebuild(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION apply_summary_rebuild(uuid) TO authenticated;
+
+COMMENT ON FUNCTION apply_summary_rebuild(uuid) IS
+'Replaces a job''s summary with a ready summary rebuild, records a snapshot and a changelog entry, and schedules processing for any messages newer than the rebuild. Admin only.';
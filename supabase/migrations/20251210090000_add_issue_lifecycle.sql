@@ -0,0 +1,218 @@
+-- Manual issue lifecycle. Issues stay in jobs.open_issues and gain optional
+-- status, assigned_to, priority, due_date, comments, photos and updated_at
+-- fields. Anyone on the job can edit them through update_job_issue, which
+-- records every change in changelog.
+
+-- True for admins, the job's creator and users invited to the job
+CREATE OR REPLACE FUNCTION public.is_job_member(target_job_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin()
+    OR EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = target_job_id
+      AND jobs.created_by = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM job_invitations
+      WHERE job_invitations.job_id = target_job_id
+      AND job_invitations.user_id = auth.uid()
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_job_member(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_job_member(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.is_job_member(uuid) IS
+'Whether the current user is an admin, the creator of the job, or invited to it.';
+
+-- Issue photos are stored under <job_id>/<issue_id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('issue-photos', 'issue-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Job members can view issue photos" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'issue-photos'
+    AND public.is_job_member(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Job members can upload issue photos" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'issue-photos'
+    AND public.is_job_member(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Apply a manual change to one issue. `changes` may contain any of status,
+-- assigned_to, priority and due_date (null clears the field), a new comment or
+-- the storage path of a new photo.
+CREATE OR REPLACE FUNCTION update_job_issue(target_job_id uuid, target_issue_id text, changes jsonb)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job jobs;
+  issue jsonb;
+  issue_position integer;
+  updated_issue jsonb;
+  previous_status text;
+  assignee_name text;
+  comment_text text;
+  action_label text := 'Updated issue';
+  details text[] := ARRAY[]::text[];
+BEGIN
+  IF NOT public.is_job_member(target_job_id) THEN
+    RAISE EXCEPTION 'Only members of this job can update its issues' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', target_job_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT item, (position - 1)::integer INTO issue, issue_position
+  FROM jsonb_array_elements(COALESCE(job.open_issues, '[]'::jsonb)) WITH ORDINALITY AS items(item, position)
+  WHERE item->>'id' = target_issue_id;
+
+  IF issue IS NULL THEN
+    RAISE EXCEPTION 'Issue not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  updated_issue := issue;
+
+  IF changes ? 'status' THEN
+    IF changes->>'status' IS NULL OR changes->>'status' NOT IN ('open', 'in_progress', 'blocked', 'resolved') THEN
+      RAISE EXCEPTION 'Invalid issue status: %', changes->>'status';
+    END IF;
+
+    -- Issues created before the lifecycle existed have no status and count as open
+    previous_status := COALESCE(issue->>'status', 'open');
+
+    IF previous_status <> changes->>'status' THEN
+      updated_issue := updated_issue || jsonb_build_object('status', changes->>'status');
+      details := details || format(
+        'status %s → %s', replace(previous_status, '_', ' '), replace(changes->>'status', '_', ' ')
+      );
+    END IF;
+  END IF;
+
+  IF changes ? 'priority' AND issue->>'priority' IS DISTINCT FROM changes->>'priority' THEN
+    IF changes->>'priority' IS NOT NULL AND changes->>'priority' NOT IN ('high', 'medium', 'low') THEN
+      RAISE EXCEPTION 'Invalid priority: %', changes->>'priority';
+    END IF;
+
+    updated_issue := updated_issue || jsonb_build_object('priority', changes->'priority');
+    details := details || CASE
+      WHEN changes->>'priority' IS NULL THEN 'priority cleared'
+      ELSE format('priority %s', changes->>'priority')
+    END;
+  END IF;
+
+  IF changes ? 'assigned_to' AND issue->>'assigned_to' IS DISTINCT FROM changes->>'assigned_to' THEN
+    IF changes->>'assigned_to' IS NOT NULL THEN
+      IF (changes->>'assigned_to')::uuid IS DISTINCT FROM job.created_by AND NOT EXISTS (
+        SELECT 1 FROM job_invitations
+        WHERE job_invitations.job_id = target_job_id
+        AND job_invitations.user_id = (changes->>'assigned_to')::uuid
+      ) THEN
+        RAISE EXCEPTION 'Issues can only be assigned to members of the job';
+      END IF;
+
+      SELECT display_name INTO assignee_name
+      FROM user_profiles
+      WHERE user_id = (changes->>'assigned_to')::uuid;
+    END IF;
+
+    updated_issue := updated_issue || jsonb_build_object('assigned_to', changes->'assigned_to');
+    details := details || CASE
+      WHEN changes->>'assigned_to' IS NULL THEN 'unassigned'
+      ELSE format('assigned to %s', COALESCE(assignee_name, 'a job member'))
+    END;
+  END IF;
+
+  IF changes ? 'due_date' AND issue->>'due_date' IS DISTINCT FROM changes->>'due_date' THEN
+    updated_issue := updated_issue || jsonb_build_object(
+      'due_date', to_jsonb((changes->>'due_date')::date)
+    );
+    details := details || CASE
+      WHEN changes->>'due_date' IS NULL THEN 'due date cleared'
+      ELSE format('due %s', to_char((changes->>'due_date')::date, 'FMMon FMDD, YYYY'))
+    END;
+  END IF;
+
+  IF changes ? 'comment' THEN
+    comment_text := btrim(changes->>'comment');
+
+    IF comment_text IS NULL OR comment_text = '' THEN
+      RAISE EXCEPTION 'Comment cannot be empty';
+    END IF;
+
+    updated_issue := jsonb_set(
+      updated_issue,
+      '{comments}',
+      COALESCE(updated_issue->'comments', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+        'id', gen_random_uuid(),
+        'user_id', auth.uid(),
+        'text', comment_text,
+        'created_at', NOW()
+      ))
+    );
+    action_label := 'Commented on issue';
+    details := details || format('"%s"', left(comment_text, 200));
+  END IF;
+
+  IF changes ? 'photo_path' THEN
+    IF changes->>'photo_path' IS NULL OR split_part(changes->>'photo_path', '/', 1) <> target_job_id::text THEN
+      RAISE EXCEPTION 'Invalid photo path';
+    END IF;
+
+    updated_issue := jsonb_set(
+      updated_issue,
+      '{photos}',
+      COALESCE(updated_issue->'photos', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+        'id', gen_random_uuid(),
+        'path', changes->>'photo_path',
+        'user_id', auth.uid(),
+        'created_at', NOW()
+      ))
+    );
+    action_label := 'Added issue photo';
+    details := details || 'added a photo'::text;
+  END IF;
+
+  -- Nothing actually changed
+  IF cardinality(details) = 0 THEN
+    RETURN job;
+  END IF;
+
+  updated_issue := updated_issue || jsonb_build_object('updated_at', NOW());
+
+  UPDATE jobs
+  SET open_issues = jsonb_set(open_issues, ARRAY[issue_position::text], updated_issue)
+  WHERE id = target_job_id
+  RETURNING * INTO job;
+
+  INSERT INTO changelog (job_id, action, details, user_id)
+  VALUES (
+    target_job_id,
+    action_label,
+    format('%s: %s', issue->>'title', array_to_string(details, ', ')),
+    auth.uid()
+  );
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_job_issue(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION update_job_issue(uuid, text, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION update_job_issue(uuid, text, jsonb) IS
+'Applies a manual change (status, assignee, priority, due date, comment or photo) to one of a job''s open issues and records it in changelog. Job members only.';
@@ -0,0 +1,104 @@
+-- Let job members answer an open question, or mark it not applicable, without
+-- waiting for the AI to spot an answer in chat. The question moves to
+-- resolved_questions and a system message tells the crew in the job chat.
+
+-- System messages are posted on behalf of the user who made the change and
+-- render as notices rather than chat bubbles
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_message_type_check;
+ALTER TABLE chat_messages ADD CONSTRAINT chat_messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'voice', 'system'));
+
+CREATE OR REPLACE FUNCTION resolve_job_question(
+  target_job_id uuid,
+  target_question_id text,
+  answer_text text,
+  not_applicable boolean DEFAULT false
+)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job jobs;
+  question jsonb;
+  answer text := NULLIF(btrim(answer_text), '');
+  chat_message_id uuid;
+BEGIN
+  IF NOT public.is_job_member(target_job_id) THEN
+    RAISE EXCEPTION 'Only members of this job can answer its questions' USING ERRCODE = '42501';
+  END IF;
+
+  IF answer IS NULL AND NOT not_applicable THEN
+    RAISE EXCEPTION 'Answer cannot be empty';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', target_job_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT item INTO question
+  FROM jsonb_array_elements(COALESCE(job.unanswered_questions, '[]'::jsonb)) AS items(item)
+  WHERE item->>'id' = target_question_id;
+
+  -- Someone else, or the AI, may have resolved it in the meantime
+  IF question IS NULL THEN
+    RAISE EXCEPTION 'Question is no longer open' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO chat_messages (job_id, user_id, message_text, message_type)
+  VALUES (
+    target_job_id,
+    auth.uid(),
+    CASE
+      WHEN not_applicable THEN format(
+        'Marked a question as not applicable: %s%s',
+        question->>'question',
+        COALESCE(E'\n' || answer, '')
+      )
+      ELSE format('Answered a question: %s' || E'\n' || 'Answer: %s', question->>'question', answer)
+    END,
+    'system'
+  )
+  RETURNING id INTO chat_message_id;
+
+  UPDATE jobs
+  SET
+    unanswered_questions = (
+      SELECT COALESCE(jsonb_agg(item ORDER BY position), '[]'::jsonb)
+      FROM jsonb_array_elements(jobs.unanswered_questions) WITH ORDINALITY AS items(item, position)
+      WHERE item->>'id' IS DISTINCT FROM target_question_id
+    ),
+    resolved_questions = COALESCE(jobs.resolved_questions, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+      'id', question->'id',
+      'question', question->'question',
+      'answer', COALESCE(answer, 'Not applicable'),
+      'asked_at', question->'asked_at',
+      'answered_at', NOW(),
+      'answered_by', auth.uid(),
+      'not_applicable', not_applicable,
+      -- Like AI-resolved questions, link to the message that carried the answer
+      'message_id', chat_message_id
+    ))
+  WHERE id = target_job_id
+  RETURNING * INTO job;
+
+  INSERT INTO changelog (job_id, action, details, user_id)
+  VALUES (
+    target_job_id,
+    CASE WHEN not_applicable THEN 'Marked question not applicable' ELSE 'Answered question' END,
+    format('%s: %s', question->>'question', COALESCE(answer, 'Not applicable')),
+    auth.uid()
+  );
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_job_question(uuid, text, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION resolve_job_question(uuid, text, text, boolean) TO authenticated;
+
+COMMENT ON FUNCTION resolve_job_question(uuid, text, text, boolean) IS
+'Moves an unanswered question to resolved_questions with the given answer (or as not applicable), posts a system message to the job chat and records the change in changelog. Job members only.';
@@ -0,0 +1,191 @@
+-- Manual management of next actions. Actions gain optional assignee_id (a job
+-- member's user id, unlike the AI's free-text assigned_to) and due_date, and
+-- can be completed by hand. Like update_job_issue, every change is recorded in
+-- changelog.
+
+-- Priority order used when sorting next_actions; unknown priorities sort last
+CREATE OR REPLACE FUNCTION action_priority_rank(priority text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE priority WHEN 'high' THEN 0 WHEN 'medium' THEN 1 WHEN 'low' THEN 2 ELSE 3 END;
+$$;
+
+-- Apply a manual change to one action. `changes` may contain any of priority,
+-- assignee_id and due_date; null clears assignee_id and due_date. Actions are
+-- kept ordered by priority, so changing it moves the action in the list.
+CREATE OR REPLACE FUNCTION update_job_action(target_job_id uuid, target_action_id text, changes jsonb)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job jobs;
+  next_action jsonb;
+  action_position integer;
+  updated_action jsonb;
+  assignee_name text;
+  details text[] := ARRAY[]::text[];
+BEGIN
+  IF NOT public.is_job_member(target_job_id) THEN
+    RAISE EXCEPTION 'Only members of this job can update its actions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', target_job_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT item, (position - 1)::integer INTO next_action, action_position
+  FROM jsonb_array_elements(COALESCE(job.next_actions, '[]'::jsonb)) WITH ORDINALITY AS items(item, position)
+  WHERE item->>'id' = target_action_id;
+
+  IF next_action IS NULL THEN
+    RAISE EXCEPTION 'Action not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  updated_action := next_action;
+
+  IF changes ? 'priority' AND next_action->>'priority' IS DISTINCT FROM changes->>'priority' THEN
+    IF changes->>'priority' IS NULL OR changes->>'priority' NOT IN ('high', 'medium', 'low') THEN
+      RAISE EXCEPTION 'Invalid priority: %', changes->>'priority';
+    END IF;
+
+    updated_action := updated_action || jsonb_build_object('priority', changes->>'priority');
+    details := details || format('priority %s', changes->>'priority');
+  END IF;
+
+  IF changes ? 'assignee_id' AND next_action->>'assignee_id' IS DISTINCT FROM changes->>'assignee_id' THEN
+    IF changes->>'assignee_id' IS NOT NULL THEN
+      IF (changes->>'assignee_id')::uuid IS DISTINCT FROM job.created_by AND NOT EXISTS (
+        SELECT 1 FROM job_invitations
+        WHERE job_invitations.job_id = target_job_id
+        AND job_invitations.user_id = (changes->>'assignee_id')::uuid
+      ) THEN
+        RAISE EXCEPTION 'Actions can only be assigned to members of the job';
+      END IF;
+
+      SELECT display_name INTO assignee_name
+      FROM user_profiles
+      WHERE user_id = (changes->>'assignee_id')::uuid;
+    END IF;
+
+    updated_action := updated_action || jsonb_build_object('assignee_id', changes->'assignee_id');
+    details := details || CASE
+      WHEN changes->>'assignee_id' IS NULL THEN 'unassigned'
+      ELSE format('assigned to %s', COALESCE(assignee_name, 'a job member'))
+    END;
+  END IF;
+
+  IF changes ? 'due_date' AND next_action->>'due_date' IS DISTINCT FROM changes->>'due_date' THEN
+    updated_action := updated_action || jsonb_build_object(
+      'due_date', to_jsonb((changes->>'due_date')::date)
+    );
+    details := details || CASE
+      WHEN changes->>'due_date' IS NULL THEN 'due date cleared'
+      ELSE format('due %s', to_char((changes->>'due_date')::date, 'FMMon FMDD, YYYY'))
+    END;
+  END IF;
+
+  -- Nothing actually changed
+  IF cardinality(details) = 0 THEN
+    RETURN job;
+  END IF;
+
+  UPDATE jobs
+  SET next_actions = (
+    SELECT jsonb_agg(item ORDER BY action_priority_rank(item->>'priority'), position)
+    FROM jsonb_array_elements(
+      jsonb_set(jobs.next_actions, ARRAY[action_position::text], updated_action)
+    ) WITH ORDINALITY AS items(item, position)
+  )
+  WHERE id = target_job_id
+  RETURNING * INTO job;
+
+  INSERT INTO changelog (job_id, action, details, user_id)
+  VALUES (
+    target_job_id,
+    'Updated action',
+    format('%s: %s', next_action->>'title', array_to_string(details, ', ')),
+    auth.uid()
+  );
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION update_job_action(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION update_job_action(uuid, text, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION update_job_action(uuid, text, jsonb) IS
+'Applies a manual change (priority, assignee or due date) to one of a job''s next actions, keeps next_actions ordered by priority and records the change in changelog. Job members only.';
+
+-- Complete an action by hand: it moves from next_actions to the completed_items
+-- summary section and a completed_items row records who did it
+CREATE OR REPLACE FUNCTION complete_job_action(target_job_id uuid, target_action_id text)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job jobs;
+  next_action jsonb;
+BEGIN
+  IF NOT public.is_job_member(target_job_id) THEN
+    RAISE EXCEPTION 'Only members of this job can complete its actions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', target_job_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT item INTO next_action
+  FROM jsonb_array_elements(COALESCE(job.next_actions, '[]'::jsonb)) AS items(item)
+  WHERE item->>'id' = target_action_id;
+
+  -- Someone else, or the AI, may have completed it in the meantime
+  IF next_action IS NULL THEN
+    RAISE EXCEPTION 'Action is no longer open' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE jobs
+  SET
+    next_actions = (
+      SELECT COALESCE(jsonb_agg(item ORDER BY position), '[]'::jsonb)
+      FROM jsonb_array_elements(jobs.next_actions) WITH ORDINALITY AS items(item, position)
+      WHERE item->>'id' IS DISTINCT FROM target_action_id
+    ),
+    -- Same shape the AI uses for completed actions
+    completed_items = COALESCE(jobs.completed_items, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+      'id', gen_random_uuid(),
+      'title', next_action->'title',
+      'description', format('Completed: %s', next_action->>'title'),
+      'source_type', 'action',
+      'source_id', next_action->'id',
+      'completed_at', NOW(),
+      'completed_by', auth.uid()
+    ))
+  WHERE id = target_job_id
+  RETURNING * INTO job;
+
+  INSERT INTO completed_items (job_id, item_text, completed_by)
+  VALUES (target_job_id, next_action->>'title', auth.uid());
+
+  INSERT INTO changelog (job_id, action, details, user_id)
+  VALUES (target_job_id, 'Completed action', next_action->>'title', auth.uid());
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_job_action(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_job_action(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION complete_job_action(uuid, text) IS
+'Marks one of a job''s next actions complete: moves it to the completed_items summary section, inserts a completed_items row attributed to the caller and records the change in changelog. Job members only.';
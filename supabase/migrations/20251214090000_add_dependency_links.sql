@@ -0,0 +1,110 @@
+-- Links from dependencies to the items they block. Each dependency in
+-- jobs.dependencies gains an optional `blocks` array of {type, id} references to
+-- next_actions, open_issues, deadlines_and_timelines or other dependencies.
+-- Links are set by hand through set_dependency_links; the app draws the graph
+-- and works out blocking chains, cycles and orphans from them.
+
+-- Replace the links of one dependency. `links` is an array of
+-- {"type": "action" | "issue" | "deadline" | "dependency", "id": "..."}; an
+-- empty array clears them. Every link must point at an item on the job.
+CREATE OR REPLACE FUNCTION set_dependency_links(target_job_id uuid, target_dependency_id text, links jsonb)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job jobs;
+  dependency jsonb;
+  dependency_position integer;
+  link jsonb;
+  valid_links jsonb := '[]'::jsonb;
+  target_items jsonb;
+BEGIN
+  IF NOT public.is_job_member(target_job_id) THEN
+    RAISE EXCEPTION 'Only members of this job can link its dependencies' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(links) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Links must be an array';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', target_job_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT item, (position - 1)::integer INTO dependency, dependency_position
+  FROM jsonb_array_elements(COALESCE(job.dependencies, '[]'::jsonb)) WITH ORDINALITY AS items(item, position)
+  WHERE item->>'id' = target_dependency_id;
+
+  IF dependency IS NULL THEN
+    RAISE EXCEPTION 'Dependency not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR link IN SELECT * FROM jsonb_array_elements(links) LOOP
+    IF link->>'type' IS NULL OR link->>'type' NOT IN ('action', 'issue', 'deadline', 'dependency') THEN
+      RAISE EXCEPTION 'Invalid link type: %', link->>'type';
+    END IF;
+
+    target_items := CASE link->>'type'
+      WHEN 'action' THEN job.next_actions
+      WHEN 'issue' THEN job.open_issues
+      WHEN 'deadline' THEN job.deadlines_and_timelines
+      ELSE job.dependencies
+    END;
+
+    IF link->>'type' = 'dependency' AND link->>'id' = target_dependency_id THEN
+      RAISE EXCEPTION 'A dependency cannot block itself';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(target_items, '[]'::jsonb)) AS items(item)
+      WHERE item->>'id' = link->>'id'
+    ) THEN
+      RAISE EXCEPTION 'Linked % % not found', link->>'type', link->>'id' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Keep only the reference and drop duplicates
+    IF NOT valid_links @> jsonb_build_array(jsonb_build_object('type', link->>'type', 'id', link->>'id')) THEN
+      valid_links := valid_links || jsonb_build_array(jsonb_build_object('type', link->>'type', 'id', link->>'id'));
+    END IF;
+  END LOOP;
+
+  -- Nothing actually changed
+  IF COALESCE(dependency->'blocks', '[]'::jsonb) @> valid_links
+    AND valid_links @> COALESCE(dependency->'blocks', '[]'::jsonb) THEN
+    RETURN job;
+  END IF;
+
+  UPDATE jobs
+  SET dependencies = jsonb_set(
+    jobs.dependencies,
+    ARRAY[dependency_position::text],
+    dependency || jsonb_build_object('blocks', valid_links)
+  )
+  WHERE id = target_job_id
+  RETURNING * INTO job;
+
+  INSERT INTO changelog (job_id, action, details, user_id)
+  VALUES (
+    target_job_id,
+    'Linked dependency',
+    CASE jsonb_array_length(valid_links)
+      WHEN 0 THEN format('%s: links cleared', dependency->>'title')
+      WHEN 1 THEN format('%s: blocks 1 item', dependency->>'title')
+      ELSE format('%s: blocks %s items', dependency->>'title', jsonb_array_length(valid_links))
+    END,
+    auth.uid()
+  );
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_dependency_links(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_dependency_links(uuid, text, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION set_dependency_links(uuid, text, jsonb) IS
+'Replaces the list of actions, issues, deadlines and other dependencies that one of a job''s dependencies blocks, and records the change in changelog. Job members only.';
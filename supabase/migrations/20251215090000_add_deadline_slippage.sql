@@ -0,0 +1,252 @@
+-- Deadline slippage. process-chat-batch now moves an existing deadline when a
+-- message pushes it out, instead of adding a second one: the deadline keeps its
+-- first date in `original_deadline` and the change is logged with change_type
+-- 'updated'. Reviewing and reverting learn to handle updated items, which
+-- replace the item with the same id rather than adding or removing one.
+
+-- Same as before, plus accepting an 'updated' change
+CREATE OR REPLACE FUNCTION review_pending_change(pending_change_id uuid, accept boolean)
+RETURNS pending_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pending pending_changes;
+  change_section text;
+  change_type text;
+  target_id text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review AI changes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO pending FROM pending_changes WHERE id = pending_change_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending change % not found', pending_change_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF pending.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change has already been %', pending.status;
+  END IF;
+
+  IF accept THEN
+    change_section := pending.change->>'section';
+    change_type := pending.change->>'change_type';
+    target_id := pending.change->'previous_value'->>'id';
+
+    IF change_section = 'job_overview' THEN
+      UPDATE jobs SET job_overview = pending.change->>'new_value' WHERE id = pending.job_id;
+
+    ELSIF change_section NOT IN (
+      'open_issues', 'unanswered_questions', 'next_actions',
+      'warnings_and_risks', 'deadlines_and_timelines', 'dependencies'
+    ) THEN
+      RAISE EXCEPTION 'Unsupported section: %', change_section;
+
+    ELSIF change_type = 'created' THEN
+      EXECUTE format(
+        'UPDATE jobs SET %I = COALESCE(%I, ''[]''::jsonb) || jsonb_build_array($1) WHERE id = $2',
+        change_section, change_section
+      ) USING pending.change->'new_value', pending.job_id;
+
+    ELSIF change_type = 'updated' THEN
+      -- Replace the original item with its new version
+      EXECUTE format(
+        'UPDATE jobs SET %I = (
+           SELECT COALESCE(jsonb_agg(CASE WHEN item->>''id'' = $1 THEN $2 ELSE item END ORDER BY position), ''[]''::jsonb)
+           FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+         ) WHERE id = $3',
+        change_section, change_section
+      ) USING target_id, pending.change->'new_value', pending.job_id;
+
+    ELSE
+      -- resolved, completed, cleared and answered all remove the original item
+      EXECUTE format(
+        'UPDATE jobs SET %I = (
+           SELECT COALESCE(jsonb_agg(item ORDER BY position), ''[]''::jsonb)
+           FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+           WHERE item->>''id'' IS DISTINCT FROM $1
+         ) WHERE id = $2',
+        change_section, change_section
+      ) USING target_id, pending.job_id;
+
+      IF change_type = 'answered' THEN
+        UPDATE jobs
+        SET resolved_questions = COALESCE(resolved_questions, '[]'::jsonb) || jsonb_build_array(pending.change->'new_value')
+        WHERE id = pending.job_id;
+      END IF;
+    END IF;
+
+    IF pending.completed_item IS NOT NULL THEN
+      UPDATE jobs
+      SET completed_items = COALESCE(completed_items, '[]'::jsonb) || jsonb_build_array(pending.completed_item)
+      WHERE id = pending.job_id;
+    END IF;
+
+    UPDATE jobs
+    SET ai_changelog = COALESCE(ai_changelog, '[]'::jsonb) || jsonb_build_array(
+      pending.change || jsonb_build_object('reviewed_by', auth.uid(), 'reviewed_at', now())
+    )
+    WHERE id = pending.job_id;
+  END IF;
+
+  UPDATE pending_changes
+  SET
+    status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = pending_change_id
+  RETURNING * INTO pending;
+
+  RETURN pending;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION review_pending_change(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_pending_change(uuid, boolean) TO authenticated;
+
+COMMENT ON FUNCTION review_pending_change(uuid, boolean) IS
+'Accepts (applies and logs to ai_changelog) or rejects a change proposed by process-chat-batch in review mode. Admins only.';
+
+-- Same as before, plus reverting an 'updated' change
+CREATE OR REPLACE FUNCTION revert_ai_change(target_job_id uuid, entry_index integer, entry_timestamp text)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job jobs;
+  entry jsonb;
+  change_section text;
+  change_type text;
+  item_id text;
+  item_label text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can revert AI changes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', target_job_id USING ERRCODE = 'P0002';
+  END IF;
+
+  entry := job.ai_changelog->entry_index;
+
+  -- ai_changelog is append-only, so the index and timestamp together identify the entry
+  IF entry IS NULL OR entry->>'timestamp' IS DISTINCT FROM entry_timestamp THEN
+    RAISE EXCEPTION 'Change log entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF entry ? 'reverted_at' THEN
+    RAISE EXCEPTION 'This change has already been reverted';
+  END IF;
+
+  change_section := entry->>'section';
+  change_type := entry->>'change_type';
+
+  IF change_section = 'job_overview' THEN
+    UPDATE jobs SET job_overview = entry->>'previous_value' WHERE id = target_job_id;
+    item_label := 'job overview';
+
+  ELSIF change_section NOT IN (
+    'open_issues', 'unanswered_questions', 'next_actions',
+    'warnings_and_risks', 'deadlines_and_timelines', 'dependencies'
+  ) THEN
+    RAISE EXCEPTION 'Unsupported section: %', change_section;
+
+  ELSIF change_type = 'created' THEN
+    -- Remove the item the AI added
+    item_id := entry->'new_value'->>'id';
+    item_label := COALESCE(entry->'new_value'->>'title', entry->'new_value'->>'question', 'item');
+
+    EXECUTE format(
+      'UPDATE jobs SET %I = (
+         SELECT COALESCE(jsonb_agg(item ORDER BY position), ''[]''::jsonb)
+         FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+         WHERE item->>''id'' IS DISTINCT FROM $1
+       ) WHERE id = $2',
+      change_section, change_section
+    ) USING item_id, target_job_id;
+
+  ELSIF entry->'previous_value' IS NULL OR jsonb_typeof(entry->'previous_value') <> 'object' THEN
+    RAISE EXCEPTION 'This change has no previous value to restore';
+
+  ELSIF change_type = 'updated' THEN
+    -- Put the item back as it was before the AI changed it
+    item_id := entry->'previous_value'->>'id';
+    item_label := COALESCE(entry->'previous_value'->>'title', entry->'previous_value'->>'question', 'item');
+
+    EXECUTE format(
+      'UPDATE jobs SET %I = (
+         SELECT COALESCE(jsonb_agg(CASE WHEN item->>''id'' = $1 THEN $2 ELSE item END ORDER BY position), ''[]''::jsonb)
+         FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+       ) WHERE id = $3',
+      change_section, change_section
+    ) USING item_id, entry->'previous_value', target_job_id;
+
+  ELSE
+    -- resolved, completed, cleared and answered: put the original item back
+    item_id := entry->'previous_value'->>'id';
+    item_label := COALESCE(entry->'previous_value'->>'title', entry->'previous_value'->>'question', 'item');
+
+    EXECUTE format(
+      'UPDATE jobs SET %I = COALESCE(%I, ''[]''::jsonb) || jsonb_build_array($1)
+       WHERE id = $2
+       AND NOT EXISTS (
+         SELECT 1 FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) AS items(item)
+         WHERE item->>''id'' = $3
+       )',
+      change_section, change_section, change_section
+    ) USING entry->'previous_value', target_job_id, item_id;
+
+    IF change_type = 'answered' THEN
+      UPDATE jobs
+      SET resolved_questions = (
+        SELECT COALESCE(jsonb_agg(item ORDER BY position), '[]'::jsonb)
+        FROM jsonb_array_elements(COALESCE(resolved_questions, '[]'::jsonb)) WITH ORDINALITY AS items(item, position)
+        WHERE item->>'id' IS DISTINCT FROM item_id
+      )
+      WHERE id = target_job_id;
+    ELSE
+      -- Completed items created by process-chat-batch point back at their source
+      UPDATE jobs
+      SET completed_items = (
+        SELECT COALESCE(jsonb_agg(item ORDER BY position), '[]'::jsonb)
+        FROM jsonb_array_elements(COALESCE(completed_items, '[]'::jsonb)) WITH ORDINALITY AS items(item, position)
+        WHERE item->>'source_id' IS DISTINCT FROM item_id
+      )
+      WHERE id = target_job_id;
+    END IF;
+  END IF;
+
+  UPDATE jobs
+  SET ai_changelog = jsonb_set(
+    ai_changelog,
+    ARRAY[entry_index::text],
+    entry || jsonb_build_object('reverted_by', auth.uid(), 'reverted_at', now())
+  )
+  WHERE id = target_job_id
+  RETURNING * INTO job;
+
+  INSERT INTO changelog (job_id, action, details, user_id)
+  VALUES (
+    target_job_id,
+    'Reverted AI change',
+    format('Reverted "%s" on %s (%s)', change_type, replace(change_section, '_', ' '), item_label),
+    auth.uid()
+  );
+
+  RETURN job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revert_ai_change(uuid, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revert_ai_change(uuid, integer, text) TO authenticated;
+
+COMMENT ON FUNCTION revert_ai_change(uuid, integer, text) IS
+'Restores the previous value of one ai_changelog entry, marks it reverted and logs the revert to changelog. Admins only.';
@@ -0,0 +1,75 @@
+-- Calendar subscriptions. Each user gets a secret token that the calendar-feed
+-- edge function accepts in place of a JWT, since calendar clients poll the feed
+-- URL without signing in. Resetting the token invalidates any old links.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are created and reset through the functions below
+CREATE POLICY "Users can view their own calendar feed" ON calendar_feeds
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Returns the caller's feed token, creating it on first use
+CREATE OR REPLACE FUNCTION get_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT token INTO feed_token FROM calendar_feeds WHERE user_id = auth.uid();
+
+  RETURN feed_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_calendar_feed_token() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_calendar_feed_token() TO authenticated;
+
+COMMENT ON FUNCTION get_calendar_feed_token() IS
+'Returns the token for the current user''s calendar feed URL, creating one if needed.';
+
+-- Replaces the caller's feed token, so previously shared feed URLs stop working
+CREATE OR REPLACE FUNCTION reset_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+      created_at = now()
+  RETURNING token INTO feed_token;
+
+  RETURN feed_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reset_calendar_feed_token() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reset_calendar_feed_token() TO authenticated;
+
+COMMENT ON FUNCTION reset_calendar_feed_token() IS
+'Issues a new calendar feed token for the current user, invalidating the old feed URL.';
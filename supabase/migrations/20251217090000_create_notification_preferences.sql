@@ -0,0 +1,48 @@
+-- Push notification preferences, applied by send-chat-notification. Each user
+-- chooses per job whether they hear about every message, only messages that
+-- @mention them, only AI alerts from process-chat-batch, or nothing. Quiet
+-- hours and a snooze hold back every push regardless of the job setting.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  -- Local times in quiet_hours_timezone; a start after the end runs past midnight
+  quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+  quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+  quiet_hours_timezone TEXT NOT NULL DEFAULT 'UTC',
+  snoozed_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences"
+ON notification_preferences FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- A missing row means 'all'
+CREATE TABLE IF NOT EXISTS job_notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  level TEXT NOT NULL DEFAULT 'all' CHECK (level IN ('all', 'mentions', 'ai_alerts', 'muted')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_notification_preferences_job
+ON job_notification_preferences(job_id);
+
+ALTER TABLE job_notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job notification preferences"
+ON job_notification_preferences FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Job members can set their job notification preferences"
+ON job_notification_preferences FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.is_job_member(job_id));
+
+CREATE POLICY "Job members can update their job notification preferences"
+ON job_notification_preferences FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND public.is_job_member(job_id));
+
+CREATE POLICY "Users can delete their own job notification preferences"
+ON job_notification_preferences FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- System messages (see resolve_job_question) record a change already made to
+-- the summary. process-chat-batch no longer reads them, so they should not
+-- schedule a run either. They still send a push notification, since telling
+-- the crew is what they are for.
+DROP TRIGGER IF EXISTS chat_message_processing_trigger ON chat_messages;
+
+CREATE TRIGGER chat_message_processing_trigger
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  WHEN (NEW.message_type <> 'system')
+  EXECUTE FUNCTION update_job_processing_schedule();
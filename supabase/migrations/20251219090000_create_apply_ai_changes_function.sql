@@ -0,0 +1,145 @@
+-- process-chat-batch reads the job before its OpenAI calls, which can take a
+-- minute or more. Writing the summary columns back whole lost any manual edit
+-- made in the meantime (update_job_issue, resolve_job_question,
+-- update_job_action, complete_job_action, set_dependency_links). The run now
+-- hands its changes to this function, which applies them to the locked row by
+-- item id, the same way review_pending_change applies an accepted change.
+
+CREATE OR REPLACE FUNCTION apply_ai_changes(
+  target_job_id uuid,
+  changes jsonb,
+  processed_through timestamptz DEFAULT NULL
+)
+RETURNS jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job jobs;
+  entry jsonb;
+  change jsonb;
+  change_section text;
+  change_type text;
+  target_id text;
+  target_item jsonb;
+  changed_fields jsonb;
+  applied jsonb := '[]'::jsonb;
+  has_newer_messages boolean;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = target_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job % not found', target_job_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Each entry is { change, completed_item }, like a pending_changes row
+  FOR entry IN SELECT value FROM jsonb_array_elements(COALESCE(changes, '[]'::jsonb)) LOOP
+    change := entry->'change';
+    change_section := change->>'section';
+    change_type := change->>'change_type';
+
+    IF change_section = 'job_overview' THEN
+      UPDATE jobs SET job_overview = change->>'new_value' WHERE id = target_job_id;
+
+    ELSIF change_section NOT IN (
+      'open_issues', 'unanswered_questions', 'next_actions',
+      'warnings_and_risks', 'deadlines_and_timelines', 'dependencies'
+    ) THEN
+      RAISE EXCEPTION 'Unsupported section: %', change_section;
+
+    ELSIF change_type = 'created' THEN
+      EXECUTE format(
+        'UPDATE jobs SET %I = COALESCE(%I, ''[]''::jsonb) || jsonb_build_array($1) WHERE id = $2',
+        change_section, change_section
+      ) USING change->'new_value', target_job_id;
+
+    ELSE
+      target_id := change->'previous_value'->>'id';
+
+      EXECUTE format(
+        'SELECT item
+         FROM jobs, jsonb_array_elements(COALESCE(jobs.%I, ''[]''::jsonb)) AS items(item)
+         WHERE jobs.id = $1 AND item->>''id'' = $2',
+        change_section
+      ) INTO target_item USING target_job_id, target_id;
+
+      -- Resolved or removed by hand while the run was in flight: nothing to apply
+      IF target_item IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      IF change_type = 'updated' THEN
+        -- Only the fields the AI changed, so manual edits to the rest are kept
+        SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO changed_fields
+        FROM jsonb_each(change->'new_value')
+        WHERE change->'previous_value'->key IS DISTINCT FROM value;
+
+        EXECUTE format(
+          'UPDATE jobs SET %I = (
+             SELECT COALESCE(jsonb_agg(CASE WHEN item->>''id'' = $1 THEN item || $2 ELSE item END ORDER BY position), ''[]''::jsonb)
+             FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+           ) WHERE id = $3',
+          change_section, change_section
+        ) USING target_id, changed_fields, target_job_id;
+
+      ELSE
+        -- resolved, completed, cleared and answered all remove the original item
+        EXECUTE format(
+          'UPDATE jobs SET %I = (
+             SELECT COALESCE(jsonb_agg(item ORDER BY position), ''[]''::jsonb)
+             FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+             WHERE item->>''id'' IS DISTINCT FROM $1
+           ) WHERE id = $2',
+          change_section, change_section
+        ) USING target_id, target_job_id;
+
+        IF change_type = 'answered' THEN
+          UPDATE jobs
+          SET resolved_questions = COALESCE(resolved_questions, '[]'::jsonb) || jsonb_build_array(change->'new_value')
+          WHERE id = target_job_id;
+        END IF;
+      END IF;
+    END IF;
+
+    IF jsonb_typeof(entry->'completed_item') = 'object' THEN
+      UPDATE jobs
+      SET completed_items = COALESCE(completed_items, '[]'::jsonb) || jsonb_build_array(entry->'completed_item')
+      WHERE id = target_job_id;
+    END IF;
+
+    applied := applied || jsonb_build_array(change);
+  END LOOP;
+
+  -- Messages sent while the run was in flight are left for the next run. The
+  -- message trigger has already set processing_scheduled_for for them.
+  SELECT EXISTS (
+    SELECT 1 FROM chat_messages
+    WHERE chat_messages.job_id = target_job_id
+    AND chat_messages.message_type <> 'system'
+    AND (
+      COALESCE(processed_through, job.last_processed_at) IS NULL
+      OR chat_messages.created_at > COALESCE(processed_through, job.last_processed_at)
+    )
+  ) INTO has_newer_messages;
+
+  UPDATE jobs
+  SET
+    ai_changelog = COALESCE(ai_changelog, '[]'::jsonb) || applied,
+    last_processed_at = COALESCE(processed_through, jobs.last_processed_at),
+    processing_status = CASE WHEN has_newer_messages THEN 'scheduled' ELSE 'idle' END,
+    processing_scheduled_for = CASE WHEN has_newer_messages THEN COALESCE(jobs.processing_scheduled_for, NOW()) END,
+    processing_attempts = 0
+  WHERE id = target_job_id
+  RETURNING * INTO job;
+
+  RETURN job;
+END;
+$$;
+
+-- Only process-chat-batch, with the service role key, applies AI changes directly
+REVOKE EXECUTE ON FUNCTION apply_ai_changes(uuid, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_ai_changes(uuid, jsonb, timestamptz) TO service_role;
+
+COMMENT ON FUNCTION apply_ai_changes(uuid, jsonb, timestamptz) IS
+'Applies the changes from one process-chat-batch run to the locked job row by item id, skipping items removed in the meantime, logs the applied changes to ai_changelog and moves last_processed_at to processed_through. Service role only.';
@@ -0,0 +1,109 @@
+-- process-chat-batch now claims a job by moving it to 'running' only from a
+-- state it may start from, and records when in processing_started_at. A run
+-- the edge runtime kills (wall-clock limit, crash) never moves the job out of
+-- 'running', and the message trigger leaves running jobs alone, so the cron
+-- job now hands such jobs back to the schedule with the function's backoff.
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN jobs.processing_started_at IS
+'When the current (or last) process-chat-batch run claimed the job.';
+
+CREATE OR REPLACE FUNCTION recover_stale_processing_runs()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stale RECORD;
+  attempt integer;
+  retry_at timestamptz;
+  recovered integer := 0;
+BEGIN
+  FOR stale IN
+    SELECT id, processing_attempts
+    FROM jobs
+    WHERE processing_status = 'running'
+    -- Jobs claimed before processing_started_at existed fall back to updated_at
+    AND COALESCE(processing_started_at, updated_at) < NOW() - INTERVAL '15 minutes'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    attempt := stale.processing_attempts + 1;
+
+    -- Same schedule as process-chat-batch: 1, 2, 4 and 8 minutes (capped at
+    -- 30), then the job is left in 'failed' after the fifth attempt
+    retry_at := CASE
+      WHEN attempt < 5 THEN NOW() + LEAST(INTERVAL '1 minute' * 2 ^ (attempt - 1), INTERVAL '30 minutes')
+    END;
+
+    UPDATE jobs
+    SET
+      processing_status = CASE WHEN retry_at IS NULL THEN 'failed' ELSE 'scheduled' END,
+      processing_scheduled_for = retry_at,
+      processing_attempts = attempt
+    WHERE id = stale.id;
+
+    UPDATE processing_runs
+    SET
+      status = 'failed',
+      finished_at = NOW(),
+      error_class = 'timed_out',
+      error_message = 'The run stopped without finishing',
+      next_retry_at = retry_at
+    WHERE job_id = stale.id
+    AND status = 'running';
+
+    recovered := recovered + 1;
+  END LOOP;
+
+  RETURN recovered;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recover_stale_processing_runs() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION recover_stale_processing_runs() IS
+'Fails process-chat-batch runs that have been running for more than 15 minutes and reschedules their jobs with backoff, or marks them failed after the last attempt. Called by auto_trigger_scheduled_jobs.';
+
+-- Same as before, plus recovering stale runs first so their jobs can be picked up
+CREATE OR REPLACE FUNCTION auto_trigger_scheduled_jobs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job_record RECORD;
+  request_id bigint;
+BEGIN
+  PERFORM recover_stale_processing_runs();
+
+  -- Find jobs that are scheduled, past their scheduled time and inside their processing window
+  FOR job_record IN
+    SELECT id
+    FROM jobs
+    WHERE processing_status = 'scheduled'
+    AND processing_scheduled_for <= NOW()
+    AND NOT processing_paused
+    AND processing_window_opens_at(
+      NOW(),
+      processing_business_hours,
+      business_hours_start,
+      business_hours_end,
+      business_hours_timezone
+    ) <= NOW()
+    LIMIT 5  -- Process max 5 jobs per minute to avoid overload
+  LOOP
+    request_id := invoke_edge_function('process-chat-batch', jsonb_build_object('job_id', job_record.id));
+
+    RAISE LOG 'Triggered processing for job %, request_id: %', job_record.id, request_id;
+  END LOOP;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error in auto_trigger_scheduled_jobs: %', SQLERRM;
+END;
+$$;
+
+COMMENT ON FUNCTION auto_trigger_scheduled_jobs() IS
+'Recovers stale process-chat-batch runs, then triggers the function for jobs that are scheduled, past their scheduled time, not paused and inside their business hours. Runs every minute via pg_cron.';
@@ -0,0 +1,115 @@
+-- Accepting an 'updated' change replaced the whole item with the version the
+-- AI saw when it queued the change, losing any edit made to the item while the
+-- change waited for review (a status, assignee or due date set by hand).
+-- Accepting now merges only the fields the AI changed, as apply_ai_changes does.
+
+-- Same as before, except an 'updated' change is merged into the current item
+CREATE OR REPLACE FUNCTION review_pending_change(pending_change_id uuid, accept boolean)
+RETURNS pending_changes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pending pending_changes;
+  change_section text;
+  change_type text;
+  target_id text;
+  changed_fields jsonb;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can review AI changes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO pending FROM pending_changes WHERE id = pending_change_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending change % not found', pending_change_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF pending.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change has already been %', pending.status;
+  END IF;
+
+  IF accept THEN
+    change_section := pending.change->>'section';
+    change_type := pending.change->>'change_type';
+    target_id := pending.change->'previous_value'->>'id';
+
+    IF change_section = 'job_overview' THEN
+      UPDATE jobs SET job_overview = pending.change->>'new_value' WHERE id = pending.job_id;
+
+    ELSIF change_section NOT IN (
+      'open_issues', 'unanswered_questions', 'next_actions',
+      'warnings_and_risks', 'deadlines_and_timelines', 'dependencies'
+    ) THEN
+      RAISE EXCEPTION 'Unsupported section: %', change_section;
+
+    ELSIF change_type = 'created' THEN
+      EXECUTE format(
+        'UPDATE jobs SET %I = COALESCE(%I, ''[]''::jsonb) || jsonb_build_array($1) WHERE id = $2',
+        change_section, change_section
+      ) USING pending.change->'new_value', pending.job_id;
+
+    ELSIF change_type = 'updated' THEN
+      -- Only the fields the AI changed, so edits made while the change waited are kept
+      SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO changed_fields
+      FROM jsonb_each(pending.change->'new_value')
+      WHERE pending.change->'previous_value'->key IS DISTINCT FROM value;
+
+      EXECUTE format(
+        'UPDATE jobs SET %I = (
+           SELECT COALESCE(jsonb_agg(CASE WHEN item->>''id'' = $1 THEN item || $2 ELSE item END ORDER BY position), ''[]''::jsonb)
+           FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+         ) WHERE id = $3',
+        change_section, change_section
+      ) USING target_id, changed_fields, pending.job_id;
+
+    ELSE
+      -- resolved, completed, cleared and answered all remove the original item
+      EXECUTE format(
+        'UPDATE jobs SET %I = (
+           SELECT COALESCE(jsonb_agg(item ORDER BY position), ''[]''::jsonb)
+           FROM jsonb_array_elements(COALESCE(%I, ''[]''::jsonb)) WITH ORDINALITY AS items(item, position)
+           WHERE item->>''id'' IS DISTINCT FROM $1
+         ) WHERE id = $2',
+        change_section, change_section
+      ) USING target_id, pending.job_id;
+
+      IF change_type = 'answered' THEN
+        UPDATE jobs
+        SET resolved_questions = COALESCE(resolved_questions, '[]'::jsonb) || jsonb_build_array(pending.change->'new_value')
+        WHERE id = pending.job_id;
+      END IF;
+    END IF;
+
+    IF pending.completed_item IS NOT NULL THEN
+      UPDATE jobs
+      SET completed_items = COALESCE(completed_items, '[]'::jsonb) || jsonb_build_array(pending.completed_item)
+      WHERE id = pending.job_id;
+    END IF;
+
+    UPDATE jobs
+    SET ai_changelog = COALESCE(ai_changelog, '[]'::jsonb) || jsonb_build_array(
+      pending.change || jsonb_build_object('reviewed_by', auth.uid(), 'reviewed_at', now())
+    )
+    WHERE id = pending.job_id;
+  END IF;
+
+  UPDATE pending_changes
+  SET
+    status = CASE WHEN accept THEN 'accepted' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = pending_change_id
+  RETURNING * INTO pending;
+
+  RETURN pending;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION review_pending_change(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_pending_change(uuid, boolean) TO authenticated;
+
+COMMENT ON FUNCTION review_pending_change(uuid, boolean) IS
+'Accepts (applies and logs to ai_changelog) or rejects a change proposed by process-chat-batch in review mode. Admins only.';
@@ -0,0 +1,90 @@
+import type { Deadline } from '@/app/integrations/supabase/types';
+import type { JobDeadlines } from '@/services/jobs';
+import { parseDeadline, toDueDate } from '@/utils/dates';
+
+export interface CalendarEvent {
+  // `${jobId}:${deadlineId}`
+  key: string;
+  jobId: string;
+  jobName: string;
+  color: string;
+  deadline: Deadline;
+  date: Date;
+  // Deadlines given as a plain date are due at the end of that day
+  allDay: boolean;
+}
+
+export interface DeadlineState {
+  label: string;
+  color: string;
+}
+
+// Jobs are coloured in the order they are listed, so colours only repeat
+// after this many jobs
+const JOB_COLORS = ['#3B82F6', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#84CC16', '#06B6D4', '#A855F7'];
+
+export const getJobColor = (index: number) => JOB_COLORS[index % JOB_COLORS.length];
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Sunday, as in the en-US dates used throughout the app
+export const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+export const isSameDay = (a: Date, b: Date) => toDueDate(a) === toDueDate(b);
+
+/**
+ * The 42 days shown in a six-week month grid, starting on the Sunday on or
+ * before the first of the month.
+ */
+export function getMonthGrid(month: Date): Date[] {
+  const first = startOfWeek(new Date(month.getFullYear(), month.getMonth(), 1));
+  return Array.from({ length: 42 }, (_, index) => addDays(first, index));
+}
+
+/**
+ * Flattens the deadlines of several jobs into calendar events sorted by date.
+ * Deadlines without a recognisable date are left out.
+ */
+export function buildCalendarEvents(jobs: JobDeadlines[]): CalendarEvent[] {
+  return jobs
+    .flatMap((job, index) =>
+      (job.deadlines_and_timelines || []).map((deadline) => {
+        const date = parseDeadline(deadline.deadline);
+        return date
+          ? {
+              key: `${job.id}:${deadline.id}`,
+              jobId: job.id,
+              jobName: job.job_name,
+              color: getJobColor(index),
+              deadline,
+              date,
+              allDay: /^\d{4}-\d{2}-\d{2}$/.test(deadline.deadline),
+            }
+          : null;
+      })
+    )
+    .filter((event): event is CalendarEvent => event !== null)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Overdue, today, tomorrow or upcoming, with the same colours as the job's
+ * deadlines screen.
+ */
+export function getDeadlineState(event: CalendarEvent, now = new Date()): DeadlineState {
+  const dueAt = event.allDay ? addDays(event.date, 1) : event.date;
+  const today = startOfDay(now);
+
+  if (dueAt <= now) {
+    return { label: 'Overdue', color: '#EF4444' };
+  } else if (isSameDay(event.date, today)) {
+    return { label: 'Today', color: '#EF4444' };
+  } else if (isSameDay(event.date, addDays(today, 1))) {
+    return { label: 'Tomorrow', color: '#F59E0B' };
+  } else {
+    return { label: 'Upcoming', color: '#10B981' };
+  }
+}
@@ -0,0 +1,46 @@
+// Due dates on summary items are plain YYYY-MM-DD dates with no time zone, so
+// they are parsed and formatted in local time rather than through Date.parse.
+
+export function parseDueDate(dueDate: string): Date {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function toDueDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function formatDueDate(dueDate: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }): string {
+  return parseDueDate(dueDate).toLocaleDateString('en-US', options);
+}
+
+/**
+ * Parses the `deadline` of a deadlines_and_timelines item: YYYY-MM-DD, or
+ * YYYY-MM-DDTHH:mm when a time was given, both in local time. Returns null for
+ * anything else, including dates that do not exist. Keep in step with
+ * getEventTiming in the calendar-feed function, which cannot import this.
+ */
+export function parseDeadline(deadline: string | null | undefined): Date | null {
+  const match = deadline?.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map((part) => Number(part ?? 0));
+  if (hour > 23 || minute > 59) return null;
+
+  // Not compared on the hour, which a daylight saving gap can move
+  const date = new Date(year, month - 1, day, hour, minute);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// Business and quiet hours are stored as Postgres TIME values ("07:00:00") and edited in whole hours
+export const parseHour = (time: string) => parseInt(time.split(':')[0], 10);
+
+export const toTime = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+export const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:00 ${suffix}`;
+};
+
+export const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
@@ -0,0 +1,210 @@
+import type { Deadline, DependencyLink, Job } from '@/app/integrations/supabase/types';
+import { parseDeadline } from '@/utils/dates';
+
+export type DependencyNodeType = DependencyLink['type'];
+
+export interface DependencyGraphNode {
+  // `${type}:${id}`, unique across sections
+  key: string;
+  type: DependencyNodeType;
+  id: string;
+  title: string;
+}
+
+export interface DependencyGraphEdge {
+  from: string;
+  to: string;
+}
+
+export interface DependencyAnalysis {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+  // Node keys per row, from dependencies nothing else blocks down to the
+  // actions, issues and deadlines being blocked
+  layers: string[][];
+  // The next deadline that has not passed, and every node whose links lead to it
+  nearestDeadline: Deadline | null;
+  blockingChain: Set<string>;
+  // Keys of dependencies that (indirectly) block themselves
+  circular: Set<string>;
+  // Keys of dependencies that have not been linked to anything yet
+  unlinked: Set<string>;
+  // Keys of dependencies whose links all point at items no longer on the job
+  orphaned: Set<string>;
+}
+
+export type DependencyGraphJob = Pick<
+  Job,
+  'dependencies' | 'next_actions' | 'open_issues' | 'deadlines_and_timelines'
+>;
+
+export const nodeKey = (type: DependencyNodeType, id: string) => `${type}:${id}`;
+
+const findNearestDeadline = (deadlines: Deadline[]) => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  let nearest: { deadline: Deadline; date: Date } | null = null;
+  for (const deadline of deadlines) {
+    const date = parseDeadline(deadline.deadline);
+    if (!date || date < today) continue;
+    if (!nearest || date < nearest.date) nearest = { deadline, date };
+  }
+
+  return nearest?.deadline ?? null;
+};
+
+// Tarjan's strongly connected components over dependency-to-dependency links;
+// every component with more than one dependency is a cycle
+const findCycles = (keys: string[], successors: Map<string, string[]>) => {
+  const circular = new Set<string>();
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  let counter = 0;
+
+  const visit = (key: string) => {
+    index.set(key, counter);
+    lowLink.set(key, counter);
+    counter++;
+    stack.push(key);
+    onStack.add(key);
+
+    for (const next of successors.get(key) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+
+      if (component.length > 1) component.forEach((item) => circular.add(item));
+    }
+  };
+
+  keys.forEach((key) => {
+    if (!index.has(key)) visit(key);
+  });
+
+  return circular;
+};
+
+/**
+ * Builds the graph of dependencies and the items they block, lays it out in
+ * rows and finds the chain holding up the nearest deadline, circular
+ * dependencies and dependencies that are not linked or no longer block anything.
+ */
+export function analyzeDependencies(job: DependencyGraphJob): DependencyAnalysis {
+  const dependencies = job.dependencies || [];
+  const targets = new Map<string, DependencyGraphNode>();
+
+  const addTargets = (type: DependencyNodeType, items: { id: string; title: string }[]) =>
+    items.forEach((item) => targets.set(nodeKey(type, item.id), { key: nodeKey(type, item.id), type, id: item.id, title: item.title }));
+
+  addTargets('action', job.next_actions || []);
+  addTargets('issue', job.open_issues || []);
+  addTargets('deadline', job.deadlines_and_timelines || []);
+  addTargets('dependency', dependencies);
+
+  // Links to items that have since been completed or removed are ignored
+  const edges: DependencyGraphEdge[] = [];
+  const successors = new Map<string, string[]>();
+  for (const dependency of dependencies) {
+    const from = nodeKey('dependency', dependency.id);
+    const next = (dependency.blocks || [])
+      .map((link) => nodeKey(link.type, link.id))
+      .filter((to) => to !== from && targets.has(to));
+    successors.set(from, next);
+    next.forEach((to) => edges.push({ from, to }));
+  }
+
+  const dependencyKeys = dependencies.map((dependency) => nodeKey('dependency', dependency.id));
+  const unlinked = new Set(
+    dependencies
+      .filter((dependency) => (dependency.blocks || []).length === 0)
+      .map((dependency) => nodeKey('dependency', dependency.id))
+  );
+  const orphaned = new Set(
+    dependencyKeys.filter((key) => !unlinked.has(key) && (successors.get(key) ?? []).length === 0)
+  );
+  const circular = findCycles(dependencyKeys, new Map(
+    [...successors].map(([key, next]) => [key, next.filter((to) => to.startsWith('dependency:'))])
+  ));
+
+  // Only blocked items that something links to are drawn
+  const linkedKeys = new Set(edges.map((edge) => edge.to));
+  const blockedNodes = [...targets.values()].filter(
+    (node) => node.type !== 'dependency' && linkedKeys.has(node.key)
+  );
+  const nodes = [...dependencyKeys.map((key) => targets.get(key)!), ...blockedNodes];
+
+  // Row of a dependency is one below the lowest dependency blocking it. Links
+  // inside a cycle are skipped so every dependency still gets a row.
+  const predecessors = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (!edge.to.startsWith('dependency:')) return;
+    if (circular.has(edge.from) && circular.has(edge.to)) return;
+    predecessors.set(edge.to, [...(predecessors.get(edge.to) ?? []), edge.from]);
+  });
+
+  const depth = new Map<string, number>();
+  const getDepth = (key: string): number => {
+    if (!depth.has(key)) {
+      depth.set(key, 0);
+      depth.set(key, Math.max(-1, ...(predecessors.get(key) ?? []).map(getDepth)) + 1);
+    }
+    return depth.get(key)!;
+  };
+  dependencyKeys.forEach(getDepth);
+
+  const dependencyRows = Math.max(0, ...dependencyKeys.map((key) => depth.get(key)! + 1));
+  const layers: string[][] = Array.from({ length: dependencyRows }, () => []);
+  dependencyKeys.forEach((key) => layers[depth.get(key)!].push(key));
+  if (blockedNodes.length > 0) layers.push(blockedNodes.map((node) => node.key));
+
+  // Order each row by the average position of the nodes linking into it, which
+  // keeps most lines from crossing
+  const position = new Map<string, number>();
+  layers.forEach((layer, row) => {
+    if (row > 0) {
+      const weight = (key: string) => {
+        const from = edges.filter((edge) => edge.to === key && position.has(edge.from));
+        return from.length > 0
+          ? from.reduce((sum, edge) => sum + position.get(edge.from)!, 0) / from.length
+          : Number.MAX_SAFE_INTEGER;
+      };
+      const weights = new Map(layer.map((key) => [key, weight(key)]));
+      layer.sort((a, b) => weights.get(a)! - weights.get(b)!);
+    }
+    layer.forEach((key, index) => position.set(key, index));
+  });
+
+  // Walk back from the nearest deadline through everything that blocks it
+  const nearestDeadline = findNearestDeadline(job.deadlines_and_timelines || []);
+  const blockingChain = new Set<string>();
+  if (nearestDeadline) {
+    const pending = [nodeKey('deadline', nearestDeadline.id)];
+    while (pending.length > 0) {
+      const key = pending.pop()!;
+      if (blockingChain.has(key)) continue;
+      blockingChain.add(key);
+      edges.filter((edge) => edge.to === key).forEach((edge) => pending.push(edge.from));
+    }
+
+    // A deadline nothing links to has no chain to show
+    if (blockingChain.size === 1) blockingChain.clear();
+  }
+
+  return { nodes, edges, layers, nearestDeadline, blockingChain, circular, unlinked, orphaned };
+}
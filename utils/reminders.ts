@@ -0,0 +1,127 @@
+import type { JobReminders } from '@/services/jobs';
+import { addDays } from '@/utils/calendar';
+import { parseDeadline, parseDueDate } from '@/utils/dates';
+
+export interface ReminderSettings {
+  deadlinesEnabled: boolean;
+  // How long before a deadline to remind
+  leadTimeMinutes: number;
+  overdueActionsEnabled: boolean;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  deadlinesEnabled: true,
+  leadTimeMinutes: 24 * 60,
+  overdueActionsEnabled: true,
+};
+
+export const LEAD_TIME_OPTIONS = [
+  { minutes: 15, label: '15 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 3 * 60, label: '3 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 2 * 24 * 60, label: '2 days' },
+  { minutes: 7 * 24 * 60, label: '1 week' },
+];
+
+export type ReminderData =
+  | { type: 'deadline_reminder'; jobId: string; deadlineId: string }
+  | { type: 'action_overdue'; jobId: string; actionId: string };
+
+export interface PlannedReminder {
+  // Stable per item, so rescheduling replaces rather than duplicates
+  identifier: string;
+  date: Date;
+  title: string;
+  body: string;
+  data: ReminderData;
+}
+
+// Every identifier starts with this, so stale reminders can be found and cancelled
+export const REMINDER_IDENTIFIER_PREFIX = 'reminder:';
+
+// iOS keeps at most 64 pending local notifications per app
+const MAX_REMINDERS = 60;
+
+// Plain-date deadlines and due dates are reminded about at this hour
+const DEFAULT_REMINDER_HOUR = 9;
+
+export function formatLeadTime(minutes: number): string {
+  return LEAD_TIME_OPTIONS.find((option) => option.minutes === minutes)?.label
+    ?? (minutes % 60 === 0 ? `${minutes / 60} hours` : `${minutes} min`);
+}
+
+const atHour = (date: Date, hour: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour);
+
+// The first DEFAULT_REMINDER_HOUR after `now`. It only moves once a day, so
+// rescheduling during the day keeps a late reminder where it was.
+const nextReminderSlot = (now: Date) => {
+  const today = atHour(now, DEFAULT_REMINDER_HOUR);
+  return today > now ? today : addDays(today, 1);
+};
+
+/**
+ * Works out the local notifications to schedule: one per deadline, `leadTime`
+ * before it is due, and one per action assigned to the user on the morning
+ * after its due date. A reminder whose time has passed moves to the next
+ * morning slot instead: overdue actions until they are done, deadlines only
+ * while they are still ahead. Since that slot only moves once a day, a late
+ * reminder fires at most daily however often reminders are rescheduled. The
+ * soonest reminders win when there are more than the platform allows.
+ */
+export function planReminders(
+  jobs: JobReminders[],
+  userId: string,
+  settings: ReminderSettings,
+  now = new Date()
+): PlannedReminder[] {
+  const reminders: PlannedReminder[] = [];
+
+  jobs.forEach((job) => {
+    if (settings.deadlinesEnabled) {
+      (job.deadlines_and_timelines || []).forEach((deadline) => {
+        const parsed = parseDeadline(deadline.deadline);
+        if (!parsed) return;
+
+        const allDay = /^\d{4}-\d{2}-\d{2}$/.test(deadline.deadline);
+        const dueAt = allDay ? atHour(parsed, DEFAULT_REMINDER_HOUR) : parsed;
+        const remindAt = new Date(dueAt.getTime() - settings.leadTimeMinutes * 60 * 1000);
+        const late = remindAt <= now;
+        const date = late ? nextReminderSlot(now) : remindAt;
+        if (date >= dueAt) return;
+
+        reminders.push({
+          identifier: `${REMINDER_IDENTIFIER_PREFIX}deadline:${job.id}:${deadline.id}`,
+          date,
+          title: late
+            ? `${job.job_name}: deadline coming up`
+            : `${job.job_name}: deadline in ${formatLeadTime(settings.leadTimeMinutes)}`,
+          body: deadline.title,
+          data: { type: 'deadline_reminder', jobId: job.id, deadlineId: deadline.id },
+        });
+      });
+    }
+
+    if (settings.overdueActionsEnabled) {
+      (job.next_actions || []).forEach((action) => {
+        if (action.assignee_id !== userId || !action.due_date) return;
+
+        const overdueAt = atHour(addDays(parseDueDate(action.due_date), 1), DEFAULT_REMINDER_HOUR);
+        const date = overdueAt > now ? overdueAt : nextReminderSlot(now);
+
+        reminders.push({
+          identifier: `${REMINDER_IDENTIFIER_PREFIX}action:${job.id}:${action.id}`,
+          date,
+          title: `${job.job_name}: action overdue`,
+          body: action.title,
+          data: { type: 'action_overdue', jobId: job.id, actionId: action.id },
+        });
+      });
+    }
+  });
+
+  return reminders
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_REMINDERS);
+}
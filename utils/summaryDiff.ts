@@ -0,0 +1,111 @@
+import { SequenceMatcher } from 'difflib';
+import type { JobSummarySnapshot } from '@/app/integrations/supabase/types';
+
+export type DiffSegmentType = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface WordDiff {
+  // Segments for the older text: unchanged and deleted words
+  before: DiffSegment[];
+  // Segments for the newer text: unchanged and inserted words
+  after: DiffSegment[];
+}
+
+export type SnapshotSection = Exclude<
+  keyof JobSummarySnapshot,
+  'id' | 'job_id' | 'job_overview' | 'messages_processed' | 'created_at'
+>;
+
+// The summary fields shared by snapshots, rebuild previews and the job itself
+export type SummaryContent = Pick<JobSummarySnapshot, 'job_overview' | SnapshotSection>;
+
+export interface SectionDiff {
+  section: SnapshotSection;
+  label: string;
+  added: string[];
+  removed: string[];
+}
+
+export const SNAPSHOT_SECTIONS: { section: SnapshotSection; label: string }[] = [
+  { section: 'open_issues', label: 'Open Issues' },
+  { section: 'unanswered_questions', label: 'Unanswered Questions' },
+  { section: 'resolved_questions', label: 'Resolved Questions' },
+  { section: 'next_actions', label: 'Next Actions' },
+  { section: 'completed_items', label: 'Completed Items' },
+  { section: 'warnings_and_risks', label: 'Warnings & Risks' },
+  { section: 'deadlines_and_timelines', label: 'Deadlines & Timelines' },
+  { section: 'dependencies', label: 'Dependencies' },
+];
+
+// Keep whitespace as its own tokens so the diff can be rendered back verbatim
+const tokenize = (text: string) => text.split(/(\s+)/).filter((token) => token.length > 0);
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, tokens: string[]) => {
+  if (tokens.length === 0) return;
+
+  const text = tokens.join('');
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff of two texts, split into the segments to show for the older
+ * and the newer version.
+ */
+export function diffWords(beforeText: string | null, afterText: string | null): WordDiff {
+  const beforeTokens = tokenize(beforeText || '');
+  const afterTokens = tokenize(afterText || '');
+  const matcher = new SequenceMatcher<string[]>(null, beforeTokens, afterTokens, false);
+
+  const before: DiffSegment[] = [];
+  const after: DiffSegment[] = [];
+
+  for (const [tag, i1, i2, j1, j2] of matcher.getOpcodes()) {
+    if (tag === 'equal') {
+      pushSegment(before, 'equal', beforeTokens.slice(i1, i2));
+      pushSegment(after, 'equal', afterTokens.slice(j1, j2));
+      continue;
+    }
+    if (tag === 'delete' || tag === 'replace') {
+      pushSegment(before, 'delete', beforeTokens.slice(i1, i2));
+    }
+    if (tag === 'insert' || tag === 'replace') {
+      pushSegment(after, 'insert', afterTokens.slice(j1, j2));
+    }
+  }
+
+  return { before, after };
+}
+
+const getItemKey = (item: any) => item?.id ?? JSON.stringify(item);
+
+export const getItemLabel = (item: any): string =>
+  item?.title || item?.question || item?.description || item?.id || 'Untitled item';
+
+/**
+ * Items added to and removed from each summary section between two versions
+ * of a summary, matched by item id. Sections without changes are left out.
+ */
+export function diffSections(before: SummaryContent, after: SummaryContent): SectionDiff[] {
+  return SNAPSHOT_SECTIONS.map(({ section, label }) => {
+    const beforeItems: any[] = before[section] || [];
+    const afterItems: any[] = after[section] || [];
+    const beforeKeys = new Set(beforeItems.map(getItemKey));
+    const afterKeys = new Set(afterItems.map(getItemKey));
+
+    return {
+      section,
+      label,
+      added: afterItems.filter((item) => !beforeKeys.has(getItemKey(item))).map(getItemLabel),
+      removed: beforeItems.filter((item) => !afterKeys.has(getItemKey(item))).map(getItemLabel),
+    };
+  }).filter((diff) => diff.added.length > 0 || diff.removed.length > 0);
+}
@@ -0,0 +1,170 @@
+import type { Job } from '@/app/integrations/supabase/types';
+import { addDays, startOfDay } from '@/utils/calendar';
+import { parseDeadline, parseDueDate } from '@/utils/dates';
+import { nodeKey } from '@/utils/dependencyGraph';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineRow {
+  key: string;
+  type: 'job' | 'deadline' | 'dependency';
+  // Deadline or dependency id; the job row has none
+  id: string | null;
+  title: string;
+  subtitle?: string;
+  barStart: Date;
+  barEnd: Date;
+  // Deadline date, or the date a dependency has to be cleared by
+  milestone: Date | null;
+  // First date of a deadline that has since been moved
+  originalDate: Date | null;
+  // Days a moved deadline was pushed out; negative when it was brought forward
+  slipDays: number;
+  // Deadline passed, or dependency still open after its milestone
+  late: boolean;
+}
+
+export interface JobTimeline {
+  rangeStart: Date;
+  rangeEnd: Date;
+  startDate: Date | null;
+  today: Date;
+  rows: TimelineRow[];
+}
+
+export type TimelineJob = Pick<
+  Job,
+  'start_date' | 'deadlines_and_timelines' | 'dependencies' | 'next_actions' | 'open_issues'
+>;
+
+export const daysBetween = (from: Date, to: Date) =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+const formatShortDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * Lays out a job on a time axis: a row for the job from its start date, one
+ * per dated deadline (with how far it has slipped) and one per dependency from
+ * when it was raised, with the date it has to be cleared by for whatever it
+ * blocks.
+ */
+export function buildJobTimeline(job: TimelineJob, now = new Date()): JobTimeline {
+  const today = startOfDay(now);
+  const startDate = parseDeadline(job.start_date);
+
+  // Dates of everything a dependency can block, by node key
+  const itemDates = new Map<string, { date: Date; title: string }>();
+  (job.deadlines_and_timelines || []).forEach((deadline) => {
+    const date = parseDeadline(deadline.deadline);
+    if (date) itemDates.set(nodeKey('deadline', deadline.id), { date, title: deadline.title });
+  });
+  (job.next_actions || []).forEach((action) => {
+    if (action.due_date) itemDates.set(nodeKey('action', action.id), { date: parseDueDate(action.due_date), title: action.title });
+  });
+  (job.open_issues || []).forEach((issue) => {
+    if (issue.due_date && issue.status !== 'resolved') {
+      itemDates.set(nodeKey('issue', issue.id), { date: parseDueDate(issue.due_date), title: issue.title });
+    }
+  });
+
+  const dependencies = new Map((job.dependencies || []).map((dependency) => [dependency.id, dependency]));
+
+  // Earliest dated item a dependency holds up, directly or through other dependencies
+  const findNeedBy = (dependencyId: string, visited = new Set<string>()): { date: Date; title: string } | null => {
+    if (visited.has(dependencyId)) return null;
+    visited.add(dependencyId);
+
+    let earliest: { date: Date; title: string } | null = null;
+    for (const link of dependencies.get(dependencyId)?.blocks || []) {
+      const candidate = link.type === 'dependency'
+        ? findNeedBy(link.id, visited)
+        : itemDates.get(nodeKey(link.type, link.id)) ?? null;
+      if (candidate && (!earliest || candidate.date < earliest.date)) earliest = candidate;
+    }
+    return earliest;
+  };
+
+  const deadlineRows: TimelineRow[] = (job.deadlines_and_timelines || [])
+    .map((deadline) => {
+      const date = parseDeadline(deadline.deadline);
+      if (!date) return null;
+
+      const originalDate = deadline.original_deadline ? parseDeadline(deadline.original_deadline) : null;
+      const slipDays = originalDate ? daysBetween(originalDate, date) : 0;
+
+      return {
+        key: nodeKey('deadline', deadline.id),
+        type: 'deadline' as const,
+        id: deadline.id,
+        title: deadline.title,
+        subtitle: slipDays !== 0
+          ? `Moved ${formatShortDate(new Date(deadline.updated_at))}`
+          : undefined,
+        barStart: startDate && startDate < date ? startDate : date,
+        barEnd: date,
+        milestone: date,
+        originalDate: slipDays !== 0 ? originalDate : null,
+        slipDays,
+        late: startOfDay(date) < today,
+      };
+    })
+    .filter((row): row is NonNullable<typeof row> => row !== null)
+    .sort((a, b) => a.barEnd.getTime() - b.barEnd.getTime());
+
+  const dependencyRows: TimelineRow[] = (job.dependencies || []).map((dependency) => {
+    const raised = startOfDay(new Date(dependency.created_at));
+    const needBy = findNeedBy(dependency.id);
+
+    return {
+      key: nodeKey('dependency', dependency.id),
+      type: 'dependency',
+      id: dependency.id,
+      title: dependency.title,
+      subtitle: needBy
+        ? `Needed by ${formatShortDate(needBy.date)} for ${needBy.title}`
+        : (dependency.blocks || []).length === 0 ? 'Not linked yet' : 'Not linked to a dated item',
+      // Still open, so the bar runs up to today
+      barStart: raised,
+      barEnd: today > raised ? today : raised,
+      milestone: needBy?.date ?? null,
+      originalDate: null,
+      slipDays: 0,
+      late: !!needBy && startOfDay(needBy.date) < today,
+    };
+  });
+
+  const lastDeadline = deadlineRows[deadlineRows.length - 1]?.barEnd;
+  const jobEnd = lastDeadline && lastDeadline > today ? lastDeadline : today;
+  const jobRow: TimelineRow | null = startDate
+    ? {
+        key: 'job',
+        type: 'job',
+        id: null,
+        title: 'Job',
+        subtitle: `Started ${formatShortDate(startDate)}`,
+        barStart: startDate,
+        barEnd: jobEnd > startDate ? jobEnd : startDate,
+        milestone: null,
+        originalDate: null,
+        slipDays: 0,
+        late: false,
+      }
+    : null;
+
+  const rows = [...(jobRow ? [jobRow] : []), ...deadlineRows, ...dependencyRows];
+
+  const dates = [
+    today,
+    ...rows.flatMap((row) => [row.barStart, row.barEnd, row.milestone, row.originalDate]),
+  ].filter((date): date is Date => date !== null);
+  const earliest = new Date(Math.min(...dates.map((date) => date.getTime())));
+  const latest = new Date(Math.max(...dates.map((date) => date.getTime())));
+
+  return {
+    rangeStart: addDays(startOfDay(earliest), -2),
+    rangeEnd: addDays(startOfDay(latest), 7),
+    startDate,
+    today,
+    rows,
+  };
+}